@@ -0,0 +1,161 @@
+// =====================================================
+// Vestpod - Alert Conditions Tests
+// =====================================================
+// Tests for lookback windows, portfolio alert metrics, composite conditions
+// and technical alert validation
+// Run with: deno test alert-conditions.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  calculateAllocationWeights,
+  calculateDailyPnl,
+  calculateDrawdown,
+  collectConditionTargets,
+  ConditionLeaf,
+  ConditionNode,
+  evaluateConditionTree,
+  getLookbackRange,
+  isValidLookbackWindow,
+  percentageChangeFrom,
+  technicalHistoryRequirement,
+  validateAllocationBand,
+  validateConditionTree,
+  validateTechnicalAlert,
+} from "./alert-conditions.ts";
+
+const NOW = new Date("2024-06-30T12:00:00Z");
+
+Deno.test("getLookbackRange - window start and stale cutoff", () => {
+  assertEquals(getLookbackRange("24h", NOW), {
+    start: new Date("2024-06-29T12:00:00Z"),
+    earliest: new Date("2024-06-28T12:00:00Z"),
+  });
+  assertEquals(getLookbackRange("7d", NOW).start, new Date("2024-06-23T12:00:00Z"));
+  assertEquals(getLookbackRange("30d", NOW).start, new Date("2024-05-31T12:00:00Z"));
+});
+
+Deno.test("percentageChangeFrom - change against the reference price", () => {
+  assertEquals(percentageChangeFrom(50000, 45000), -10);
+  assertEquals(percentageChangeFrom(100, 112.5), 12.5);
+  assertEquals(percentageChangeFrom(null, 100), null);
+  assertEquals(percentageChangeFrom(0, 100), null);
+});
+
+Deno.test("isValidLookbackWindow - supported windows only", () => {
+  assertEquals(isValidLookbackWindow("7d"), true);
+  assertEquals(isValidLookbackWindow("1h"), false);
+  assertEquals(isValidLookbackWindow(null), false);
+});
+
+Deno.test("calculateDrawdown - measures from the flow-adjusted peak", () => {
+  const history = [
+    { totalValue: 10000, netContributions: 10000 },
+    { totalValue: 12000, netContributions: 10000 },
+  ];
+
+  assertEquals(calculateDrawdown(history, { totalValue: 10800, netContributions: 10000 }), 10);
+
+  // A 2000 withdrawal after the peak is not a loss
+  assertEquals(calculateDrawdown(history, { totalValue: 10000, netContributions: 8000 }), 0);
+
+  assertEquals(calculateDrawdown([], { totalValue: 5000, netContributions: 5000 }), 0);
+});
+
+Deno.test("calculateDailyPnl - excludes deposits since the previous close", () => {
+  const previous = { totalValue: 10000, netContributions: 9000 };
+  assertEquals(calculateDailyPnl(previous, { totalValue: 10500, netContributions: 9000 }), 500);
+  assertEquals(calculateDailyPnl(previous, { totalValue: 11500, netContributions: 10000 }), 500);
+  assertEquals(calculateDailyPnl(previous, { totalValue: 9700, netContributions: 9000 }), -300);
+});
+
+Deno.test("calculateAllocationWeights - percent of total including cash", () => {
+  const weights = calculateAllocationWeights({ stock: 6000, crypto: 3000, cash: 1000 });
+  assertEquals(weights.stock, 60);
+  assertEquals(weights.crypto, 30);
+  assertEquals(weights.cash, 10);
+  assertEquals(weights.real_estate, 0);
+  assertEquals(calculateAllocationWeights({}).stock, 0);
+});
+
+Deno.test("validateAllocationBand - asset type and ordered weights", () => {
+  assertEquals(validateAllocationBand({ asset_type: "crypto", max_weight: 20 }).valid, true);
+  assertEquals(validateAllocationBand({ asset_type: "stock", min_weight: 50, max_weight: 70 }).valid, true);
+  assertEquals(validateAllocationBand({ asset_type: "stock" }).valid, false);
+  assertEquals(validateAllocationBand({ asset_type: "bonds", max_weight: 20 }).valid, false);
+  assertEquals(validateAllocationBand({ asset_type: "stock", min_weight: 70, max_weight: 50 }).valid, false);
+  assertEquals(validateAllocationBand({ asset_type: "stock", max_weight: 120 }).valid, false);
+  assertEquals(validateAllocationBand(null).valid, false);
+});
+
+const AAPL_BELOW: ConditionLeaf = { type: "price_target", asset_id: "aapl", operator: "below", value: 150 };
+const TECH_ABOVE: ConditionLeaf = { type: "sector_exposure", sector: "Technology", operator: "above", value: 40 };
+
+Deno.test("validateConditionTree - shape, depth and size limits", () => {
+  assertEquals(validateConditionTree({ op: "and", conditions: [AAPL_BELOW, TECH_ABOVE] }).valid, true);
+  assertEquals(validateConditionTree(AAPL_BELOW).valid, true);
+
+  assertEquals(validateConditionTree({ op: "xor", conditions: [AAPL_BELOW] }).valid, false);
+  assertEquals(validateConditionTree({ op: "and", conditions: [] }).valid, false);
+  assertEquals(validateConditionTree({ op: "and", conditions: [{ ...AAPL_BELOW, operator: "change_up" }] }).valid, false);
+  assertEquals(validateConditionTree({ op: "and", conditions: [{ type: "price_target", operator: "below", value: 1 }] }).valid, false);
+
+  const nested: ConditionNode = { op: "or", conditions: [{ op: "and", conditions: [{ op: "or", conditions: [AAPL_BELOW] }] }] };
+  assertEquals(validateConditionTree(nested).valid, true);
+  assertEquals(validateConditionTree({ op: "and", conditions: [nested] }).valid, false);
+
+  assertEquals(validateConditionTree({ op: "or", conditions: Array(11).fill(AAPL_BELOW) }).valid, false);
+});
+
+Deno.test("evaluateConditionTree - AND/OR with reasons from the conditions that held", async () => {
+  const met = new Set(["price_target"]);
+  const evaluate = (leaf: ConditionLeaf) => ({ triggered: met.has(leaf.type), reason: `${leaf.type} met` });
+
+  assertEquals(await evaluateConditionTree({ op: "and", conditions: [AAPL_BELOW, TECH_ABOVE] }, evaluate), {
+    triggered: false,
+  });
+  assertEquals(await evaluateConditionTree({ op: "or", conditions: [AAPL_BELOW, TECH_ABOVE] }, evaluate), {
+    triggered: true,
+    reason: "price_target met",
+  });
+
+  met.add("sector_exposure");
+  assertEquals(await evaluateConditionTree({ op: "and", conditions: [AAPL_BELOW, TECH_ABOVE] }, evaluate), {
+    triggered: true,
+    reason: "(price_target met) and (sector_exposure met)",
+  });
+});
+
+Deno.test("collectConditionTargets - assets, portfolios and sectors in the tree", () => {
+  const tree: ConditionNode = {
+    op: "or",
+    conditions: [
+      AAPL_BELOW,
+      { op: "and", conditions: [TECH_ABOVE, { type: "portfolio_drawdown", portfolio_id: "p1", value: 10 }] },
+      { ...AAPL_BELOW, value: 140 },
+    ],
+  };
+
+  assertEquals(collectConditionTargets(tree), { assetIds: ["aapl"], portfolioIds: ["p1"], usesSectors: true });
+});
+
+Deno.test("validateTechnicalAlert - indicator periods, levels and operators", () => {
+  const cross = { condition_operator: "above", condition_params: { indicator: "sma", fast_period: 50, slow_period: 200 } };
+  assertEquals(validateTechnicalAlert("ma_cross", cross).valid, true);
+  assertEquals(validateTechnicalAlert("ma_cross", { ...cross, condition_params: { indicator: "wma", fast_period: 50, slow_period: 200 } }).valid, false);
+  assertEquals(validateTechnicalAlert("ma_cross", { ...cross, condition_params: { indicator: "ema", fast_period: 200, slow_period: 50 } }).valid, false);
+  assertEquals(validateTechnicalAlert("ma_cross", { ...cross, condition_operator: "change_up" }).valid, false);
+
+  assertEquals(validateTechnicalAlert("rsi", { condition_value: 70, condition_operator: "above" }).valid, true);
+  assertEquals(validateTechnicalAlert("rsi", { condition_value: 120, condition_operator: "above" }).valid, false);
+  assertEquals(validateTechnicalAlert("rsi", { condition_value: 30, condition_operator: "below", condition_params: { period: 1 } }).valid, false);
+
+  assertEquals(validateTechnicalAlert("volume_spike", { condition_value: 3 }).valid, true);
+  assertEquals(validateTechnicalAlert("volume_spike", { condition_value: 0.5 }).valid, false);
+  assertEquals(validateTechnicalAlert("new_52_week_high", {}).valid, true);
+});
+
+Deno.test("technicalHistoryRequirement - bars and calendar days to load", () => {
+  assertEquals(technicalHistoryRequirement("ma_cross", { indicator: "sma", fast_period: 50, slow_period: 200 }), { days: 289, minBars: 201 });
+  assertEquals(technicalHistoryRequirement("rsi", {}), { days: 68, minBars: 43 });
+  assertEquals(technicalHistoryRequirement("new_52_week_low", {}), { days: 365, minBars: 200 });
+});
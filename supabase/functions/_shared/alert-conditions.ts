@@ -0,0 +1,571 @@
+// =====================================================
+// Vestpod - Alert Conditions Module
+// =====================================================
+// Shared definitions for alert condition evaluation:
+// - Lookback windows for percentage_change alerts
+//   (24h / 7d / 30d moves measured against price_history)
+// - Portfolio-scoped alerts: total value, drawdown from peak,
+//   daily P&L and asset class weight bands
+// - Composite alerts: AND/OR trees of asset, portfolio and
+//   sector exposure conditions
+// - Technical alerts (premium): moving average crossovers, RSI,
+//   52-week highs/lows and volume spikes on daily history
+
+/**
+ * Alert types that target a portfolio instead of an asset
+ */
+export const PORTFOLIO_ALERT_TYPES = [
+  "portfolio_value",
+  "portfolio_drawdown",
+  "portfolio_daily_pnl",
+  "allocation_drift",
+] as const;
+export type PortfolioAlertType = typeof PORTFOLIO_ALERT_TYPES[number];
+
+/**
+ * Allocation buckets for allocation_drift alerts (asset types plus cash)
+ */
+export const ALLOCATION_BUCKETS = ["stock", "crypto", "commodity", "real_estate", "fixed_income", "other", "cash"] as const;
+export type AllocationBucket = typeof ALLOCATION_BUCKETS[number];
+
+/**
+ * allocation_drift parameters (weights in percent)
+ */
+export interface AllocationBand {
+  asset_type: AllocationBucket;
+  min_weight?: number;
+  max_weight?: number;
+}
+
+/**
+ * Portfolio value and net contributions at one point in time
+ */
+export interface PortfolioValuePoint {
+  totalValue: number;
+  netContributions: number;
+}
+
+/**
+ * Percentage change lookback windows
+ */
+export const ALERT_LOOKBACK_WINDOWS = ["24h", "7d", "30d"] as const;
+export type AlertLookbackWindow = typeof ALERT_LOOKBACK_WINDOWS[number];
+
+const LOOKBACK_WINDOW_HOURS: Record<AlertLookbackWindow, number> = {
+  "24h": 24,
+  "7d": 7 * 24,
+  "30d": 30 * 24,
+};
+
+const LOOKBACK_WINDOW_LABELS: Record<AlertLookbackWindow, string> = {
+  "24h": "24 hours",
+  "7d": "7 days",
+  "30d": "30 days",
+};
+
+/**
+ * Check if a value is a supported lookback window
+ */
+export function isValidLookbackWindow(value: unknown): value is AlertLookbackWindow {
+  return ALERT_LOOKBACK_WINDOWS.includes(value as AlertLookbackWindow);
+}
+
+/**
+ * Human-readable window ("24 hours")
+ */
+export function lookbackWindowLabel(window: AlertLookbackWindow): string {
+  return LOOKBACK_WINDOW_LABELS[window];
+}
+
+/**
+ * Range to search price_history for the reference price
+ * The reference is the last price at or before `start`; prices older
+ * than `earliest` (one window before the start) are too stale to use
+ */
+export function getLookbackRange(window: AlertLookbackWindow, now = new Date()): { start: Date; earliest: Date } {
+  const windowMs = LOOKBACK_WINDOW_HOURS[window] * 60 * 60 * 1000;
+  return {
+    start: new Date(now.getTime() - windowMs),
+    earliest: new Date(now.getTime() - 2 * windowMs),
+  };
+}
+
+/**
+ * Percentage change from a reference price
+ * Returns null when the reference is missing or not positive
+ */
+export function percentageChangeFrom(reference: number | null, current: number): number | null {
+  if (reference === null || !(reference > 0)) {
+    return null;
+  }
+  return ((current - reference) / reference) * 100;
+}
+
+/**
+ * Check if an alert type targets a portfolio
+ */
+export function isPortfolioAlertType(type: unknown): type is PortfolioAlertType {
+  return PORTFOLIO_ALERT_TYPES.includes(type as PortfolioAlertType);
+}
+
+/**
+ * Validate allocation_drift parameters
+ */
+export function validateAllocationBand(value: unknown): { valid: boolean; error?: string } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {
+      valid: false,
+      error: "Condition params with asset_type and min_weight and/or max_weight are required for allocation drift alerts",
+    };
+  }
+
+  const band = value as Record<string, unknown>;
+
+  if (!ALLOCATION_BUCKETS.includes(band.asset_type as AllocationBucket)) {
+    return {
+      valid: false,
+      error: `Asset type must be one of: ${ALLOCATION_BUCKETS.join(", ")}`,
+    };
+  }
+
+  if (band.min_weight === undefined && band.max_weight === undefined) {
+    return {
+      valid: false,
+      error: "At least one of min_weight or max_weight is required",
+    };
+  }
+
+  for (const key of ["min_weight", "max_weight"]) {
+    const weight = band[key];
+    if (weight !== undefined && (typeof weight !== "number" || weight < 0 || weight > 100)) {
+      return {
+        valid: false,
+        error: `${key} must be a percentage between 0 and 100`,
+      };
+    }
+  }
+
+  if (
+    band.min_weight !== undefined && band.max_weight !== undefined &&
+    (band.min_weight as number) >= (band.max_weight as number)
+  ) {
+    return {
+      valid: false,
+      error: "min_weight must be less than max_weight",
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Drawdown from the peak value, in percent
+ * Past values are adjusted by the contributions made since, so
+ * deposits and withdrawals do not count as gains or losses
+ *
+ * @param history - Earlier values (e.g. daily snapshots)
+ * @param current - Current value
+ * @returns Drawdown (0 at a new peak)
+ */
+export function calculateDrawdown(history: PortfolioValuePoint[], current: PortfolioValuePoint): number {
+  let peak = current.totalValue;
+  for (const point of history) {
+    const adjusted = point.totalValue + (current.netContributions - point.netContributions);
+    peak = Math.max(peak, adjusted);
+  }
+
+  if (peak <= 0) {
+    return 0;
+  }
+  return ((peak - current.totalValue) / peak) * 100;
+}
+
+/**
+ * Profit or loss since the previous close, excluding contributions
+ */
+export function calculateDailyPnl(previous: PortfolioValuePoint, current: PortfolioValuePoint): number {
+  return current.totalValue - previous.totalValue - (current.netContributions - previous.netContributions);
+}
+
+/**
+ * Weight of each allocation bucket, in percent of the total
+ *
+ * @param values - Value per bucket (e.g. { stock: 6000, cash: 1000 })
+ */
+export function calculateAllocationWeights(values: Partial<Record<AllocationBucket, number>>): Record<AllocationBucket, number> {
+  const weights = Object.fromEntries(ALLOCATION_BUCKETS.map((b) => [b, 0])) as Record<AllocationBucket, number>;
+  const total = Object.values(values).reduce((sum, v) => sum + Math.max(v || 0, 0), 0);
+
+  if (total <= 0) {
+    return weights;
+  }
+
+  for (const bucket of ALLOCATION_BUCKETS) {
+    weights[bucket] = (Math.max(values[bucket] || 0, 0) / total) * 100;
+  }
+  return weights;
+}
+
+// =====================================================
+// Composite Conditions
+// =====================================================
+
+// Nesting and size limits for condition trees
+export const MAX_CONDITION_DEPTH = 3;
+export const MAX_CONDITION_LEAVES = 10;
+
+/**
+ * Leaf condition types
+ */
+export const CONDITION_LEAF_TYPES = [
+  "price_target",
+  "percentage_change",
+  ...PORTFOLIO_ALERT_TYPES,
+  "sector_exposure",
+] as const;
+export type ConditionLeafType = typeof CONDITION_LEAF_TYPES[number];
+
+/**
+ * Single condition, with the same parameters as the matching alert type
+ * sector_exposure compares the latest AI insight's sector weight (percent)
+ */
+export interface ConditionLeaf {
+  type: ConditionLeafType;
+  asset_id?: string;
+  portfolio_id?: string;
+  sector?: string;
+  operator?: "above" | "below" | "change_up" | "change_down";
+  value?: number;
+  lookback_window?: AlertLookbackWindow;
+  params?: AllocationBand;
+}
+
+/**
+ * AND/OR group of conditions
+ */
+export interface ConditionGroup {
+  op: "and" | "or";
+  conditions: ConditionNode[];
+}
+
+export type ConditionNode = ConditionGroup | ConditionLeaf;
+
+/**
+ * Leaf evaluation result
+ */
+export interface ConditionResult {
+  triggered: boolean;
+  reason?: string;
+}
+
+/**
+ * Check if a node is an AND/OR group
+ */
+export function isConditionGroup(node: ConditionNode): node is ConditionGroup {
+  return "op" in node;
+}
+
+const LEAF_OPERATORS: Partial<Record<ConditionLeafType, string[]>> = {
+  price_target: ["above", "below"],
+  percentage_change: ["change_up", "change_down"],
+  portfolio_value: ["above", "below"],
+  portfolio_daily_pnl: ["change_up", "change_down"],
+  sector_exposure: ["above", "below"],
+};
+
+/**
+ * Validate one leaf condition
+ */
+function validateConditionLeaf(leaf: Record<string, unknown>): { valid: boolean; error?: string } {
+  const type = leaf.type as ConditionLeafType;
+  if (!CONDITION_LEAF_TYPES.includes(type)) {
+    return {
+      valid: false,
+      error: `Condition type must be one of: ${CONDITION_LEAF_TYPES.join(", ")}`,
+    };
+  }
+
+  if ((type === "price_target" || type === "percentage_change") && typeof leaf.asset_id !== "string") {
+    return { valid: false, error: `Asset ID is required for ${type} conditions` };
+  }
+
+  if (isPortfolioAlertType(type) && typeof leaf.portfolio_id !== "string") {
+    return { valid: false, error: `Portfolio ID is required for ${type} conditions` };
+  }
+
+  if (type === "sector_exposure" && (typeof leaf.sector !== "string" || leaf.sector.trim() === "")) {
+    return { valid: false, error: "Sector is required for sector_exposure conditions" };
+  }
+
+  const operators = LEAF_OPERATORS[type];
+  if (operators && !operators.includes(leaf.operator as string)) {
+    return { valid: false, error: `Operator for ${type} conditions must be one of: ${operators.join(", ")}` };
+  }
+
+  if (type === "allocation_drift") {
+    return validateAllocationBand(leaf.params);
+  }
+
+  const value = leaf.value;
+  if (typeof value !== "number" || !(value > 0)) {
+    return { valid: false, error: `Value for ${type} conditions must be a positive number` };
+  }
+
+  if ((type === "portfolio_drawdown" || type === "sector_exposure") && value > 100) {
+    return { valid: false, error: `Value for ${type} conditions must be a percentage up to 100` };
+  }
+
+  if (leaf.lookback_window !== undefined && (type !== "percentage_change" || !isValidLookbackWindow(leaf.lookback_window))) {
+    return {
+      valid: false,
+      error: `Lookback window must be one of ${ALERT_LOOKBACK_WINDOWS.join(", ")} on percentage_change conditions`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a condition tree's shape, depth and size
+ * Depth counts nested groups; size counts leaves
+ */
+export function validateConditionTree(tree: unknown): { valid: boolean; error?: string } {
+  let leaves = 0;
+
+  const visit = (node: unknown, depth: number): { valid: boolean; error?: string } => {
+    if (!node || typeof node !== "object" || Array.isArray(node)) {
+      return { valid: false, error: "Each condition must be an object" };
+    }
+
+    const record = node as Record<string, unknown>;
+
+    if ("op" in record) {
+      if (depth >= MAX_CONDITION_DEPTH) {
+        return { valid: false, error: `Conditions can be nested at most ${MAX_CONDITION_DEPTH} levels deep` };
+      }
+
+      if (record.op !== "and" && record.op !== "or") {
+        return { valid: false, error: "Condition group op must be 'and' or 'or'" };
+      }
+
+      if (!Array.isArray(record.conditions) || record.conditions.length === 0) {
+        return { valid: false, error: "Condition groups need at least one condition" };
+      }
+
+      for (const child of record.conditions) {
+        const result = visit(child, depth + 1);
+        if (!result.valid) return result;
+      }
+      return { valid: true };
+    }
+
+    leaves++;
+    if (leaves > MAX_CONDITION_LEAVES) {
+      return { valid: false, error: `Composite alerts can have at most ${MAX_CONDITION_LEAVES} conditions` };
+    }
+    return validateConditionLeaf(record);
+  };
+
+  return visit(tree, 0);
+}
+
+/**
+ * Collect the assets, portfolios and sectors a tree refers to
+ */
+export function collectConditionTargets(tree: ConditionNode): { assetIds: string[]; portfolioIds: string[]; usesSectors: boolean } {
+  const assetIds = new Set<string>();
+  const portfolioIds = new Set<string>();
+  let usesSectors = false;
+
+  const visit = (node: ConditionNode) => {
+    if (isConditionGroup(node)) {
+      node.conditions.forEach(visit);
+      return;
+    }
+    if (node.asset_id) assetIds.add(node.asset_id);
+    if (node.portfolio_id) portfolioIds.add(node.portfolio_id);
+    if (node.type === "sector_exposure") usesSectors = true;
+  };
+
+  visit(tree);
+  return { assetIds: [...assetIds], portfolioIds: [...portfolioIds], usesSectors };
+}
+
+/**
+ * Evaluate a condition tree
+ * Every leaf is evaluated (no short-circuit) so the reason lists all
+ * conditions that held; `or` groups report only the ones that held
+ *
+ * @param tree - Condition tree
+ * @param evaluateLeaf - Evaluates one leaf condition
+ */
+export async function evaluateConditionTree(
+  tree: ConditionNode,
+  evaluateLeaf: (leaf: ConditionLeaf) => ConditionResult | Promise<ConditionResult>
+): Promise<ConditionResult> {
+  if (!isConditionGroup(tree)) {
+    return await evaluateLeaf(tree);
+  }
+
+  const results: ConditionResult[] = [];
+  for (const condition of tree.conditions) {
+    results.push(await evaluateConditionTree(condition, evaluateLeaf));
+  }
+
+  const met = results.filter((r) => r.triggered);
+  const triggered = tree.op === "and" ? met.length === results.length : met.length > 0;
+  if (!triggered) {
+    return { triggered: false };
+  }
+
+  const reasons = met.map((r) => r.reason).filter(Boolean);
+  return {
+    triggered: true,
+    reason: reasons.length > 1 ? reasons.map((r) => `(${r})`).join(tree.op === "and" ? " and " : " or ") : reasons[0],
+  };
+}
+
+// =====================================================
+// Technical Alerts
+// =====================================================
+
+/**
+ * Alert types evaluated on an asset's daily price history
+ * - ma_cross: fast SMA/EMA crosses above or below the slow one
+ * - rsi: RSI at or above/below condition_value
+ * - new_52_week_high / new_52_week_low: price beyond the past year's range
+ * - volume_spike: volume at condition_value times its recent average
+ */
+export const TECHNICAL_ALERT_TYPES = [
+  "ma_cross",
+  "rsi",
+  "new_52_week_high",
+  "new_52_week_low",
+  "volume_spike",
+] as const;
+export type TechnicalAlertType = typeof TECHNICAL_ALERT_TYPES[number];
+
+export const MOVING_AVERAGE_TYPES = ["sma", "ema"] as const;
+export type MovingAverageType = typeof MOVING_AVERAGE_TYPES[number];
+
+export const DEFAULT_RSI_PERIOD = 14;
+export const DEFAULT_VOLUME_PERIOD = 20;
+const MAX_INDICATOR_PERIOD = 200;
+
+/**
+ * Technical alert parameters (condition_params)
+ */
+export interface TechnicalParams {
+  indicator?: MovingAverageType; // ma_cross
+  fast_period?: number; // ma_cross
+  slow_period?: number; // ma_cross
+  period?: number; // rsi, volume_spike
+}
+
+/**
+ * Check if an alert type is a technical alert
+ */
+export function isTechnicalAlertType(type: unknown): type is TechnicalAlertType {
+  return TECHNICAL_ALERT_TYPES.includes(type as TechnicalAlertType);
+}
+
+/**
+ * Check an optional indicator period
+ */
+function isValidPeriod(value: unknown, min = 2): boolean {
+  return value === undefined || (Number.isInteger(value) && (value as number) >= min && (value as number) <= MAX_INDICATOR_PERIOD);
+}
+
+/**
+ * Validate a technical alert's condition value, operator and params
+ */
+export function validateTechnicalAlert(
+  alertType: TechnicalAlertType,
+  data: Record<string, unknown>
+): { valid: boolean; error?: string } {
+  const params = (data.condition_params ?? {}) as Record<string, unknown>;
+  if (typeof params !== "object" || Array.isArray(params)) {
+    return { valid: false, error: "Condition params must be an object" };
+  }
+
+  if (!isValidPeriod(params.period)) {
+    return { valid: false, error: `Period must be a whole number between 2 and ${MAX_INDICATOR_PERIOD}` };
+  }
+
+  switch (alertType) {
+    case "ma_cross":
+      if (!MOVING_AVERAGE_TYPES.includes(params.indicator as MovingAverageType)) {
+        return { valid: false, error: `Indicator must be one of: ${MOVING_AVERAGE_TYPES.join(", ")}` };
+      }
+      if (
+        params.fast_period === undefined || params.slow_period === undefined ||
+        !isValidPeriod(params.fast_period) || !isValidPeriod(params.slow_period)
+      ) {
+        return {
+          valid: false,
+          error: `fast_period and slow_period must be whole numbers between 2 and ${MAX_INDICATOR_PERIOD}`,
+        };
+      }
+      if ((params.fast_period as number) >= (params.slow_period as number)) {
+        return { valid: false, error: "fast_period must be less than slow_period" };
+      }
+      if (!["above", "below"].includes(data.condition_operator as string)) {
+        return {
+          valid: false,
+          error: "Condition operator must be 'above' (fast crosses above slow) or 'below' for moving average alerts",
+        };
+      }
+      break;
+
+    case "rsi": {
+      const threshold = Number(data.condition_value);
+      if (data.condition_value === undefined || data.condition_value === null || !(threshold > 0 && threshold < 100)) {
+        return { valid: false, error: "Condition value (RSI level) must be between 0 and 100" };
+      }
+      if (!["above", "below"].includes(data.condition_operator as string)) {
+        return { valid: false, error: "Condition operator must be 'above' or 'below' for RSI alerts" };
+      }
+      break;
+    }
+
+    case "volume_spike":
+      if (data.condition_value === undefined || data.condition_value === null || !(Number(data.condition_value) > 1)) {
+        return { valid: false, error: "Condition value (multiple of average volume) must be greater than 1" };
+      }
+      break;
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Daily history needed to evaluate a technical alert
+ * minBars is the number of daily bars the indicator needs; days is
+ * the calendar span to load for them (weekends and holidays included)
+ */
+export function technicalHistoryRequirement(
+  alertType: TechnicalAlertType,
+  params: TechnicalParams
+): { days: number; minBars: number } {
+  let minBars: number;
+
+  switch (alertType) {
+    case "ma_cross": {
+      const slow = params.slow_period || 0;
+      // EMAs need a warm-up before they settle
+      minBars = params.indicator === "ema" ? slow * 3 : slow + 1;
+      break;
+    }
+    case "rsi":
+      minBars = (params.period || DEFAULT_RSI_PERIOD) * 3 + 1;
+      break;
+    case "volume_spike":
+      minBars = (params.period || DEFAULT_VOLUME_PERIOD) + 1;
+      break;
+    default:
+      // A year of trading days, allowing for gaps in stored history
+      return { days: 365, minBars: 200 };
+  }
+
+  return { days: Math.ceil(minBars * 7 / 5) + 7, minBars };
+}
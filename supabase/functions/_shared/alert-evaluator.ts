@@ -0,0 +1,1270 @@
+// =====================================================
+// Vestpod - Alert Evaluator Module
+// =====================================================
+// Checks alert conditions and sends notifications; shared by
+// price-update-job (alerts on assets whose prices just changed)
+// and alert-checker-job (maturity reminders and stale alerts)
+// - Evaluates price target alerts (above/below)
+// - Evaluates percentage change alerts (change_up/change_down), since
+//   purchase or over a 24h/7d/30d window from price_history
+// - Evaluates maturity reminder alerts on the owner's local date
+// - Evaluates portfolio alerts (total value, drawdown from peak,
+//   daily P&L, asset class weight outside a band)
+// - Evaluates composite alerts (AND/OR trees of the above plus
+//   sector exposure from the latest AI insight)
+// - Evaluates technical alerts for premium users (moving average
+//   crosses, RSI, 52-week highs/lows, volume spikes) on daily bars
+//   from price_history, or from the provider's history when the
+//   stored history is too short or has no volume
+// - Writes inbox notifications and pushes them when conditions are met
+// - Repeats per trigger mode (once, every crossing, cooldown) and
+//   records each firing in alert_triggers
+// Requirements: 7
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { NotificationResult, NotificationTransports, notifyUser, wasDelivered } from "./notifications.ts";
+import { EmailTemplate } from "./email-templates.ts";
+import { AlertTriggerState, decideAlertTrigger } from "./alert-triggers.ts";
+import {
+  AlertLookbackWindow,
+  AllocationBand,
+  AllocationBucket,
+  calculateAllocationWeights,
+  calculateDailyPnl,
+  calculateDrawdown,
+  collectConditionTargets,
+  ConditionLeaf,
+  ConditionNode,
+  ConditionResult,
+  DEFAULT_RSI_PERIOD,
+  DEFAULT_VOLUME_PERIOD,
+  evaluateConditionTree,
+  getLookbackRange,
+  isTechnicalAlertType,
+  lookbackWindowLabel,
+  percentageChangeFrom,
+  PortfolioAlertType,
+  PortfolioValuePoint,
+  technicalHistoryRequirement,
+  TechnicalAlertType,
+  TechnicalParams,
+} from "./alert-conditions.ts";
+import {
+  DailyBar,
+  detectCrossover,
+  emaSeries,
+  priorRange,
+  relativeStrengthIndex,
+  smaSeries,
+  volumeRatio,
+  withCurrentPrice,
+} from "./technical-indicators.ts";
+import { PriceProviderRegistry } from "./price-providers.ts";
+import { getDailyHistory } from "./price-history.ts";
+import { canAccessFeature } from "./subscription-helper.ts";
+import {
+  conversionFactor,
+  convertAssetMetrics,
+  FX_BASE_CURRENCY,
+  getAssetFxFactors,
+  getLatestRates,
+  RateTable,
+} from "./fx-rates.ts";
+import { summarizeCash } from "./cash-ledger.ts";
+import { DEFAULT_TIME_ZONE, formatCalendarDate, localDate } from "./time-zones.ts";
+import { addDays } from "./portfolio-snapshots.ts";
+import { daysBetween } from "./portfolio-returns.ts";
+
+// Alert ids per last_checked_at update
+const ALERT_UPDATE_BATCH_SIZE = 200;
+
+// Alerts with their target asset and owner's time zone
+const ALERT_SELECT = `
+  *,
+  assets (
+    id,
+    name,
+    symbol,
+    asset_type,
+    current_price,
+    purchase_price,
+    metadata
+  ),
+  user_profiles (
+    timezone
+  )
+`;
+
+// Snapshots searched for the drawdown peak (about one year)
+const DRAWDOWN_PEAK_SNAPSHOTS = 365;
+
+/**
+ * Alert from database
+ */
+interface Alert extends AlertTriggerState {
+  id: string;
+  user_id: string;
+  asset_id: string | null;
+  portfolio_id: string | null;
+  alert_type:
+    | "price_target"
+    | "percentage_change"
+    | "maturity_reminder"
+    | PortfolioAlertType
+    | TechnicalAlertType
+    | "composite";
+  condition_value: number | null;
+  condition_operator: "above" | "below" | "change_up" | "change_down" | null;
+  is_active: boolean;
+  last_checked_at: string | null;
+  reminder_days_before: number | null;
+  lookback_window: AlertLookbackWindow | null;
+  condition_params: Record<string, unknown>;
+  condition_tree: ConditionNode | null;
+  created_at: string;
+  updated_at: string;
+  // Owner's time zone (joined)
+  user_profiles?: { timezone: string } | null;
+}
+
+/**
+ * Asset with price information
+ */
+interface Asset {
+  id: string;
+  name: string;
+  symbol: string | null;
+  asset_type: string;
+  current_price: number | null;
+  purchase_price: number;
+  metadata: {
+    maturity_date?: string;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Portfolio valuation used by portfolio alerts
+ * Values are in the owner's preferred currency
+ */
+interface PortfolioState {
+  id: string;
+  name: string;
+  currency: string;
+  current: PortfolioValuePoint;
+  // Latest snapshot before today
+  previousClose: PortfolioValuePoint | null;
+  history: PortfolioValuePoint[];
+  weights: Record<AllocationBucket, number>;
+  // Currencies with no exchange rate; their assets and cash are left out
+  unconvertedCurrencies: string[];
+}
+
+/**
+ * What an alert watches
+ */
+type AlertTarget =
+  | { kind: "asset"; asset: Asset; history: HistoryLoader }
+  | { kind: "portfolio"; portfolio: PortfolioState }
+  | CompositeTarget;
+
+/**
+ * Loads an asset's daily bars (cached for the run)
+ */
+type HistoryLoader = (asset: Asset, days: number, minBars: number, needVolume: boolean) => Promise<DailyBar[]>;
+
+/**
+ * Data referenced by a composite alert's conditions
+ */
+interface CompositeTarget {
+  kind: "composite";
+  history: HistoryLoader;
+  assets: Map<string, Asset>;
+  portfolios: Map<string, PortfolioState>;
+  // Latest ai_insights.sector_exposure ({sector: percentage})
+  sectorExposure: Record<string, number> | null;
+}
+
+/**
+ * Alert check result
+ */
+export interface AlertCheckResult {
+  alert_id: string;
+  user_id: string;
+  triggered: boolean;
+  reason?: string;
+  notification_sent?: boolean;
+  error?: string;
+}
+
+/**
+ * Alert row with its joined asset
+ */
+type AlertRow = Alert & { assets: Asset | null };
+
+/**
+ * Dependencies for alert evaluation
+ */
+export interface AlertEvaluationOptions {
+  exchangeRateApiKey: string;
+  transports: NotificationTransports;
+  // Daily history for technical alerts
+  priceProviders: PriceProviderRegistry;
+}
+
+/**
+ * Evaluation summary
+ */
+export interface AlertEvaluationSummary {
+  total_alerts: number;
+  alerts_triggered: number;
+  notifications_sent: number;
+  results: AlertCheckResult[];
+}
+
+/**
+ * Check if price target alert condition is met
+ * Requirement 7.2: Trigger when asset price reaches target
+ */
+function checkPriceTargetAlert(
+  alert: Alert,
+  asset: Asset
+): { triggered: boolean; reason?: string } {
+  if (!asset.current_price || !alert.condition_value) {
+    return { triggered: false };
+  }
+
+  const currentPrice = asset.current_price;
+  const targetPrice = alert.condition_value;
+  const operator = alert.condition_operator;
+
+  if (operator === "above" && currentPrice >= targetPrice) {
+    return {
+      triggered: true,
+      reason: `${asset.name} (${asset.symbol || "N/A"}) reached $${currentPrice.toFixed(2)}, above target of $${targetPrice.toFixed(2)}`,
+    };
+  }
+
+  if (operator === "below" && currentPrice <= targetPrice) {
+    return {
+      triggered: true,
+      reason: `${asset.name} (${asset.symbol || "N/A"}) dropped to $${currentPrice.toFixed(2)}, below target of $${targetPrice.toFixed(2)}`,
+    };
+  }
+
+  return { triggered: false };
+}
+
+/**
+ * Get the reference price for a lookback window
+ * Last price_history price at or before the window start, or null
+ * when the history does not reach back that far
+ */
+async function getLookbackReferencePrice(
+  supabase: ReturnType<typeof createClient>,
+  assetId: string,
+  window: AlertLookbackWindow
+): Promise<number | null> {
+  const { start, earliest } = getLookbackRange(window);
+
+  const { data, error } = await supabase
+    .from("price_history")
+    .select("price")
+    .eq("asset_id", assetId)
+    .lte("timestamp", start.toISOString())
+    .gte("timestamp", earliest.toISOString())
+    .order("timestamp", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error(`Error fetching ${window} reference price for asset ${assetId}:`, error);
+    return null;
+  }
+
+  return data && data.length > 0 ? Number(data[0].price) : null;
+}
+
+/**
+ * Check if percentage change alert condition is met
+ * Requirement 7.3: Trigger when price changes by specified percentage
+ *
+ * @param referencePrice - Price at the lookback window start
+ *   (only used when the alert has a lookback window)
+ */
+function checkPercentageChangeAlert(
+  alert: Alert,
+  asset: Asset,
+  referencePrice: number | null = null
+): { triggered: boolean; reason?: string } {
+  if (!asset.current_price || !alert.condition_value) {
+    return { triggered: false };
+  }
+
+  const currentPrice = asset.current_price;
+  const targetPercentage = alert.condition_value;
+  const operator = alert.condition_operator;
+
+  // Change over the lookback window, or since purchase
+  const percentageChange = percentageChangeFrom(
+    alert.lookback_window ? referencePrice : asset.purchase_price,
+    currentPrice
+  );
+  if (percentageChange === null) {
+    return { triggered: false };
+  }
+
+  const period = alert.lookback_window ? ` in the last ${lookbackWindowLabel(alert.lookback_window)}` : "";
+
+  if (operator === "change_up" && percentageChange >= targetPercentage) {
+    return {
+      triggered: true,
+      reason: `${asset.name} (${asset.symbol || "N/A"}) increased by ${percentageChange.toFixed(2)}%${period}, exceeding target of ${targetPercentage.toFixed(2)}%`,
+    };
+  }
+
+  if (operator === "change_down" && percentageChange <= -targetPercentage) {
+    return {
+      triggered: true,
+      reason: `${asset.name} (${asset.symbol || "N/A"}) decreased by ${Math.abs(percentageChange).toFixed(2)}%${period}, exceeding target of ${targetPercentage.toFixed(2)}%`,
+    };
+  }
+
+  return { triggered: false };
+}
+
+/**
+ * Check if maturity reminder alert condition is met
+ * Requirement 7.4: Trigger N days before maturity date
+ * Dates are compared on the owner's local calendar
+ */
+function checkMaturityReminderAlert(
+  alert: Alert,
+  asset: Asset
+): { triggered: boolean; reason?: string } {
+  if (!asset.metadata?.maturity_date || alert.reminder_days_before === null) {
+    return { triggered: false };
+  }
+
+  const maturityDate = asset.metadata.maturity_date.slice(0, 10);
+  const today = localDate(new Date(), alert.user_profiles?.timezone || DEFAULT_TIME_ZONE);
+  const reminderDate = addDays(maturityDate, -alert.reminder_days_before);
+
+  // Check if today is the reminder date or later (but before maturity)
+  if (today >= reminderDate && today < maturityDate) {
+    const daysUntilMaturity = daysBetween(today, maturityDate);
+
+    return {
+      triggered: true,
+      reason: `${asset.name} will mature in ${daysUntilMaturity} day${daysUntilMaturity !== 1 ? "s" : ""} on ${formatCalendarDate(maturityDate)}`,
+    };
+  }
+
+  return { triggered: false };
+}
+
+/**
+ * Check if a technical alert condition is met
+ * Price indicators use the current price as today's close; volume
+ * spikes compare the latest complete bar
+ */
+function checkTechnicalAlert(alert: Alert, asset: Asset, history: DailyBar[]): ConditionResult {
+  if (!asset.current_price) {
+    return { triggered: false };
+  }
+
+  const alertType = alert.alert_type as TechnicalAlertType;
+  const params = alert.condition_params as TechnicalParams;
+  const today = localDate(new Date(), alert.user_profiles?.timezone || DEFAULT_TIME_ZONE);
+  const bars = alertType === "volume_spike" ? history : withCurrentPrice(history, asset.current_price, today);
+
+  if (bars.length < technicalHistoryRequirement(alertType, params).minBars) {
+    return { triggered: false };
+  }
+
+  const label = `${asset.name} (${asset.symbol || "N/A"})`;
+  const closes = bars.map((b) => b.close);
+
+  switch (alertType) {
+    case "ma_cross": {
+      const series = params.indicator === "ema" ? emaSeries : smaSeries;
+      const name = (params.indicator || "sma").toUpperCase();
+      const cross = detectCrossover(series(closes, params.fast_period!), series(closes, params.slow_period!));
+
+      if (cross && cross === alert.condition_operator) {
+        return {
+          triggered: true,
+          reason: `${label} ${name}(${params.fast_period}) crossed ${cross} ${name}(${params.slow_period})`,
+        };
+      }
+      return { triggered: false };
+    }
+
+    case "rsi": {
+      const period = params.period || DEFAULT_RSI_PERIOD;
+      const rsi = relativeStrengthIndex(closes, period);
+      const threshold = alert.condition_value;
+      if (rsi === null || threshold === null) {
+        return { triggered: false };
+      }
+
+      if (
+        (alert.condition_operator === "above" && rsi >= threshold) ||
+        (alert.condition_operator === "below" && rsi <= threshold)
+      ) {
+        return {
+          triggered: true,
+          reason: `${label} RSI(${period}) is ${rsi.toFixed(1)}, ${alert.condition_operator} ${threshold}`,
+        };
+      }
+      return { triggered: false };
+    }
+
+    case "new_52_week_high":
+    case "new_52_week_low": {
+      const range = priorRange(bars);
+      const price = asset.current_price;
+      if (!range) {
+        return { triggered: false };
+      }
+
+      if (alertType === "new_52_week_high" && price > range.high) {
+        return {
+          triggered: true,
+          reason: `${label} hit a new 52-week high at $${price.toFixed(2)} (previous high $${range.high.toFixed(2)})`,
+        };
+      }
+
+      if (alertType === "new_52_week_low" && price < range.low) {
+        return {
+          triggered: true,
+          reason: `${label} hit a new 52-week low at $${price.toFixed(2)} (previous low $${range.low.toFixed(2)})`,
+        };
+      }
+      return { triggered: false };
+    }
+
+    case "volume_spike": {
+      const period = params.period || DEFAULT_VOLUME_PERIOD;
+      const volumes = bars.filter((b) => b.volume !== undefined).map((b) => b.volume!);
+      const ratio = volumeRatio(volumes, period);
+
+      if (ratio !== null && alert.condition_value !== null && ratio >= alert.condition_value) {
+        return {
+          triggered: true,
+          reason: `${label} traded ${ratio.toFixed(1)}x its ${period}-day average volume`,
+        };
+      }
+      return { triggered: false };
+    }
+  }
+}
+
+/**
+ * Format an amount in the portfolio currency
+ */
+function formatAmount(value: number, currency: string): string {
+  return `${value.toFixed(2)} ${currency}`;
+}
+
+/**
+ * Check if portfolio total value alert condition is met
+ */
+function checkPortfolioValueAlert(
+  alert: Alert,
+  portfolio: PortfolioState
+): { triggered: boolean; reason?: string } {
+  if (!alert.condition_value) {
+    return { triggered: false };
+  }
+
+  const value = portfolio.current.totalValue;
+  const target = alert.condition_value;
+
+  if (alert.condition_operator === "above" && value >= target) {
+    return {
+      triggered: true,
+      reason: `${portfolio.name} is worth ${formatAmount(value, portfolio.currency)}, above target of ${formatAmount(target, portfolio.currency)}`,
+    };
+  }
+
+  if (alert.condition_operator === "below" && value <= target) {
+    return {
+      triggered: true,
+      reason: `${portfolio.name} is worth ${formatAmount(value, portfolio.currency)}, below target of ${formatAmount(target, portfolio.currency)}`,
+    };
+  }
+
+  return { triggered: false };
+}
+
+/**
+ * Check if portfolio drawdown alert condition is met
+ */
+function checkPortfolioDrawdownAlert(
+  alert: Alert,
+  portfolio: PortfolioState
+): { triggered: boolean; reason?: string } {
+  if (!alert.condition_value || portfolio.history.length === 0) {
+    return { triggered: false };
+  }
+
+  const drawdown = calculateDrawdown(portfolio.history, portfolio.current);
+
+  if (drawdown >= alert.condition_value) {
+    return {
+      triggered: true,
+      reason: `${portfolio.name} is ${drawdown.toFixed(2)}% below its peak, exceeding the ${alert.condition_value.toFixed(2)}% drawdown limit`,
+    };
+  }
+
+  return { triggered: false };
+}
+
+/**
+ * Check if portfolio daily P&L alert condition is met
+ */
+function checkPortfolioDailyPnlAlert(
+  alert: Alert,
+  portfolio: PortfolioState
+): { triggered: boolean; reason?: string } {
+  if (!alert.condition_value || !portfolio.previousClose) {
+    return { triggered: false };
+  }
+
+  const pnl = calculateDailyPnl(portfolio.previousClose, portfolio.current);
+  const target = alert.condition_value;
+
+  if (alert.condition_operator === "change_up" && pnl >= target) {
+    return {
+      triggered: true,
+      reason: `${portfolio.name} is up ${formatAmount(pnl, portfolio.currency)} today, exceeding target of ${formatAmount(target, portfolio.currency)}`,
+    };
+  }
+
+  if (alert.condition_operator === "change_down" && pnl <= -target) {
+    return {
+      triggered: true,
+      reason: `${portfolio.name} is down ${formatAmount(Math.abs(pnl), portfolio.currency)} today, exceeding limit of ${formatAmount(target, portfolio.currency)}`,
+    };
+  }
+
+  return { triggered: false };
+}
+
+/**
+ * Check if an asset class weight is outside its band
+ */
+function checkAllocationDriftAlert(
+  alert: Alert,
+  portfolio: PortfolioState
+): { triggered: boolean; reason?: string } {
+  const band = alert.condition_params as unknown as AllocationBand;
+  if (!band?.asset_type || portfolio.current.totalValue <= 0) {
+    return { triggered: false };
+  }
+
+  const weight = portfolio.weights[band.asset_type] ?? 0;
+  const label = band.asset_type.replace("_", " ");
+
+  if (band.min_weight !== undefined && weight < band.min_weight) {
+    return {
+      triggered: true,
+      reason: `${label} is ${weight.toFixed(1)}% of ${portfolio.name}, below the ${band.min_weight}% minimum`,
+    };
+  }
+
+  if (band.max_weight !== undefined && weight > band.max_weight) {
+    return {
+      triggered: true,
+      reason: `${label} is ${weight.toFixed(1)}% of ${portfolio.name}, above the ${band.max_weight}% maximum`,
+    };
+  }
+
+  return { triggered: false };
+}
+
+/**
+ * Check a sector exposure condition of a composite alert
+ */
+function checkSectorExposureCondition(
+  leaf: ConditionLeaf,
+  sectorExposure: Record<string, number> | null
+): ConditionResult {
+  if (!sectorExposure || !leaf.sector || leaf.value === undefined) {
+    return { triggered: false };
+  }
+
+  const sector = Object.keys(sectorExposure).find((s) => s.toLowerCase() === leaf.sector!.toLowerCase());
+  const weight = sector ? Number(sectorExposure[sector]) : 0;
+
+  if (leaf.operator === "above" && weight >= leaf.value) {
+    return {
+      triggered: true,
+      reason: `${sector || leaf.sector} exposure is ${weight.toFixed(1)}%, above ${leaf.value}%`,
+    };
+  }
+
+  if (leaf.operator === "below" && weight <= leaf.value) {
+    return {
+      triggered: true,
+      reason: `${sector || leaf.sector} exposure is ${weight.toFixed(1)}%, below ${leaf.value}%`,
+    };
+  }
+
+  return { triggered: false };
+}
+
+/**
+ * Value a portfolio for portfolio alerts
+ * Same valuation as portfolio-snapshot-job: assets at current
+ * prices plus cash, in the owner's preferred currency
+ */
+async function getPortfolioState(
+  supabase: ReturnType<typeof createClient>,
+  portfolioId: string,
+  rates: RateTable,
+  exchangeRateApiKey: string
+): Promise<PortfolioState> {
+  const { data: portfolio, error: portfolioError } = await supabase
+    .from("portfolios")
+    .select("id, name, user_id")
+    .eq("id", portfolioId)
+    .single();
+
+  if (portfolioError || !portfolio) {
+    throw new Error("Portfolio not found");
+  }
+
+  const { data: profile } = await supabase
+    .from("user_profiles")
+    .select("currency_preference, timezone")
+    .eq("id", portfolio.user_id)
+    .single();
+
+  const currency = profile?.currency_preference || "USD";
+  const today = localDate(new Date(), profile?.timezone || DEFAULT_TIME_ZONE);
+
+  const { data: assets, error: assetsError } = await supabase
+    .from("assets")
+    .select("id, asset_type, quantity, purchase_price, current_price, purchase_date, currency")
+    .eq("portfolio_id", portfolioId);
+
+  if (assetsError) {
+    throw new Error(`Failed to fetch assets: ${assetsError.message}`);
+  }
+
+  const factors = await getAssetFxFactors(supabase, assets || [], currency, exchangeRateApiKey);
+  const unconvertedCurrencies = new Set<string>();
+
+  const bucketValues: Partial<Record<AllocationBucket, number>> = {};
+  for (const asset of assets || []) {
+    const assetFactors = factors.get(asset.id);
+    if (!assetFactors) {
+      unconvertedCurrencies.add(asset.currency || FX_BASE_CURRENCY);
+      continue;
+    }
+
+    const metrics = convertAssetMetrics(asset, assetFactors);
+    const bucket = asset.asset_type as AllocationBucket;
+    bucketValues[bucket] = (bucketValues[bucket] || 0) + metrics.totalValue;
+  }
+
+  const { data: cashTransactions, error: cashError } = await supabase
+    .from("cash_transactions")
+    .select("transaction_type, currency, amount")
+    .eq("portfolio_id", portfolioId);
+
+  if (cashError) {
+    throw new Error(`Failed to fetch cash transactions: ${cashError.message}`);
+  }
+
+  const { balances, contributions } = summarizeCash(cashTransactions || []);
+  let cashBalance = 0;
+  for (const [cashCurrency, amount] of Object.entries(balances)) {
+    const factor = conversionFactor(cashCurrency, currency, rates);
+    if (factor === null) {
+      if (amount !== 0) unconvertedCurrencies.add(cashCurrency);
+      continue;
+    }
+    cashBalance += amount * factor;
+  }
+  let netContributions = 0;
+  for (const [cashCurrency, totals] of Object.entries(contributions)) {
+    const factor = conversionFactor(cashCurrency, currency, rates);
+    if (factor === null) {
+      if (totals.net !== 0) unconvertedCurrencies.add(cashCurrency);
+      continue;
+    }
+    netContributions += totals.net * factor;
+  }
+  bucketValues.cash = cashBalance;
+
+  const { data: snapshots, error: snapshotsError } = await supabase
+    .from("portfolio_snapshots")
+    .select("total_value, net_contributions")
+    .eq("portfolio_id", portfolioId)
+    .eq("currency", currency)
+    .lt("snapshot_date", today)
+    .order("snapshot_date", { ascending: false })
+    .limit(DRAWDOWN_PEAK_SNAPSHOTS);
+
+  if (snapshotsError) {
+    throw new Error(`Failed to fetch snapshots: ${snapshotsError.message}`);
+  }
+
+  const history = (snapshots || []).map((s) => ({
+    totalValue: Number(s.total_value),
+    netContributions: Number(s.net_contributions),
+  }));
+
+  const assetsValue = Object.entries(bucketValues)
+    .filter(([bucket]) => bucket !== "cash")
+    .reduce((sum, [, value]) => sum + (value || 0), 0);
+
+  return {
+    id: portfolio.id,
+    name: portfolio.name,
+    currency,
+    current: { totalValue: assetsValue + cashBalance, netContributions },
+    previousClose: history[0] || null,
+    history,
+    weights: calculateAllocationWeights(bucketValues),
+    unconvertedCurrencies: [...unconvertedCurrencies],
+  };
+}
+
+/**
+ * Error for a portfolio valued without some of its currencies
+ */
+function unconvertedError(portfolio: PortfolioState): string {
+  return `No exchange rate for ${portfolio.unconvertedCurrencies.join(", ")}; ${portfolio.name} cannot be valued`;
+}
+
+/**
+ * Add an inbox notification and deliver it on the user's alert channels
+ * Requirement 7.5: Send push notification when alert triggers
+ */
+async function sendNotification(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  title: string,
+  body: string,
+  alertId: string,
+  email: EmailTemplate,
+  transports: NotificationTransports
+): Promise<NotificationResult> {
+  const result = await notifyUser(
+    supabase,
+    { userId, category: "alert", title, body, data: { alert_id: alertId }, email },
+    transports
+  );
+
+  console.log(
+    `[NOTIFICATION] User: ${userId} Alert ID: ${alertId} ` +
+      `inbox=${result.notificationId ?? "failed"} push=${result.delivery.push?.status} ` +
+      `email=${result.delivery.email?.status}`
+  );
+
+  return result;
+}
+
+/**
+ * Evaluate an alert's condition against its target
+ * Returns null for alert types the target does not support
+ */
+async function evaluateCondition(
+  supabase: ReturnType<typeof createClient>,
+  alert: Alert,
+  target: AlertTarget
+): Promise<ConditionResult | null> {
+  if (target.kind === "asset") {
+    const asset = target.asset;
+    switch (alert.alert_type) {
+      case "price_target":
+        return checkPriceTargetAlert(alert, asset);
+      case "percentage_change": {
+        const referencePrice = alert.lookback_window
+          ? await getLookbackReferencePrice(supabase, asset.id, alert.lookback_window)
+          : null;
+        return checkPercentageChangeAlert(alert, asset, referencePrice);
+      }
+      case "maturity_reminder":
+        return checkMaturityReminderAlert(alert, asset);
+      case "ma_cross":
+      case "rsi":
+      case "new_52_week_high":
+      case "new_52_week_low":
+      case "volume_spike": {
+        const { days, minBars } = technicalHistoryRequirement(alert.alert_type, alert.condition_params as TechnicalParams);
+        const history = await target.history(asset, days, minBars, alert.alert_type === "volume_spike");
+        return checkTechnicalAlert(alert, asset, history);
+      }
+      default:
+        return null;
+    }
+  }
+
+  if (target.kind === "portfolio") {
+    const portfolio = target.portfolio;
+    switch (alert.alert_type) {
+      case "portfolio_value":
+        return checkPortfolioValueAlert(alert, portfolio);
+      case "portfolio_drawdown":
+        return checkPortfolioDrawdownAlert(alert, portfolio);
+      case "portfolio_daily_pnl":
+        return checkPortfolioDailyPnlAlert(alert, portfolio);
+      case "allocation_drift":
+        return checkAllocationDriftAlert(alert, portfolio);
+      default:
+        return null;
+    }
+  }
+
+  if (alert.alert_type !== "composite" || !alert.condition_tree) {
+    return null;
+  }
+
+  // Each leaf is checked like a standalone alert of its type
+  return await evaluateConditionTree(alert.condition_tree, async (leaf) => {
+    if (leaf.type === "sector_exposure") {
+      return checkSectorExposureCondition(leaf, target.sectorExposure);
+    }
+
+    const leafAlert: Alert = {
+      ...alert,
+      alert_type: leaf.type,
+      condition_value: leaf.value ?? null,
+      condition_operator: leaf.operator ?? null,
+      lookback_window: leaf.lookback_window ?? null,
+      condition_params: (leaf.params ?? {}) as unknown as Record<string, unknown>,
+      condition_tree: null,
+    };
+
+    const asset = leaf.asset_id ? target.assets.get(leaf.asset_id) : undefined;
+    const portfolio = leaf.portfolio_id ? target.portfolios.get(leaf.portfolio_id) : undefined;
+
+    if (portfolio && portfolio.unconvertedCurrencies.length > 0) {
+      console.warn(`Alert ${alert.id}: ${unconvertedError(portfolio)}`);
+      return { triggered: false };
+    }
+
+    // Conditions on deleted assets or portfolios, or portfolios that
+    // cannot be fully valued, never hold
+    const result = asset
+      ? await evaluateCondition(supabase, leafAlert, { kind: "asset", asset, history: target.history })
+      : portfolio
+      ? await evaluateCondition(supabase, leafAlert, { kind: "portfolio", portfolio })
+      : null;
+
+    return result || { triggered: false };
+  });
+}
+
+/**
+ * Load the assets, portfolios and sector exposure a composite alert refers to
+ */
+async function loadCompositeTarget(
+  supabase: ReturnType<typeof createClient>,
+  alert: Alert,
+  loadPortfolio: (portfolioId: string) => Promise<PortfolioState>,
+  history: HistoryLoader
+): Promise<CompositeTarget> {
+  const { assetIds, portfolioIds, usesSectors } = collectConditionTargets(alert.condition_tree!);
+
+  const assets = new Map<string, Asset>();
+  if (assetIds.length > 0) {
+    const { data, error } = await supabase
+      .from("assets")
+      .select("id, name, symbol, asset_type, current_price, purchase_price, metadata")
+      .in("id", assetIds)
+      .eq("user_id", alert.user_id);
+
+    if (error) {
+      throw new Error(`Failed to fetch assets: ${error.message}`);
+    }
+
+    for (const asset of data || []) {
+      assets.set(asset.id, asset as Asset);
+    }
+  }
+
+  const portfolios = new Map<string, PortfolioState>();
+  for (const portfolioId of portfolioIds) {
+    try {
+      portfolios.set(portfolioId, await loadPortfolio(portfolioId));
+    } catch (error) {
+      console.error(`Error valuing portfolio ${portfolioId} for alert ${alert.id}:`, error);
+    }
+  }
+
+  let sectorExposure: Record<string, number> | null = null;
+  if (usesSectors) {
+    const { data: insights } = await supabase
+      .from("ai_insights")
+      .select("sector_exposure")
+      .eq("user_id", alert.user_id)
+      .order("generated_at", { ascending: false })
+      .limit(1);
+
+    sectorExposure = insights?.[0]?.sector_exposure || null;
+  }
+
+  return { kind: "composite", assets, portfolios, sectorExposure, history };
+}
+
+/**
+ * Check a single alert and trigger notification if needed
+ */
+async function checkAlert(
+  supabase: ReturnType<typeof createClient>,
+  alert: Alert,
+  target: AlertTarget,
+  transports: NotificationTransports
+): Promise<AlertCheckResult> {
+  const now = new Date().toISOString();
+
+  const checkResult = await evaluateCondition(supabase, alert, target);
+
+  if (!checkResult) {
+    return {
+      alert_id: alert.id,
+      user_id: alert.user_id,
+      triggered: false,
+      error: `Unknown alert type: ${alert.alert_type}`,
+    };
+  }
+
+  const decision = decideAlertTrigger(alert, checkResult.triggered, new Date(now));
+
+  if (!decision.fire) {
+    // Re-arm every_crossing alerts once the condition clears
+    if (Object.keys(decision.update).length > 0) {
+      await supabase
+        .from("alerts")
+        .update(decision.update)
+        .eq("id", alert.id);
+    }
+
+    return {
+      alert_id: alert.id,
+      user_id: alert.user_id,
+      triggered: false,
+    };
+  }
+
+  // Alert fires - send notification, record the firing and update trigger state
+  const notificationTitle = target.kind === "asset"
+    ? "Price Alert Triggered"
+    : target.kind === "portfolio"
+    ? "Portfolio Alert Triggered"
+    : "Alert Triggered";
+  const notificationBody = checkResult.reason || "Your alert condition has been met";
+
+  const notification = await sendNotification(
+    supabase,
+    alert.user_id,
+    notificationTitle,
+    notificationBody,
+    alert.id,
+    target.kind === "asset"
+      ? { template: "alert", params: { assetName: target.asset.name, symbol: target.asset.symbol, reason: notificationBody } }
+      : target.kind === "portfolio"
+      ? { template: "alert", params: { assetName: target.portfolio.name, reason: notificationBody } }
+      : { template: "alert", params: { assetName: "Custom alert", reason: notificationBody } },
+    transports
+  );
+
+  const notificationSent = wasDelivered(notification);
+
+  const { error: historyError } = await supabase
+    .from("alert_triggers")
+    .insert({
+      alert_id: alert.id,
+      user_id: alert.user_id,
+      triggered_at: now,
+      price: target.kind === "asset"
+        ? target.asset.current_price
+        : target.kind === "portfolio"
+        ? target.portfolio.current.totalValue
+        : null,
+      reason: notificationBody,
+      notification_id: notification.notificationId,
+      notification_sent: notificationSent,
+    });
+
+  if (historyError) {
+    console.error(`Error recording trigger for alert ${alert.id}:`, historyError);
+  }
+
+  // once: deactivate; every_crossing: disarm; cooldown: stays active
+  await supabase
+    .from("alerts")
+    .update(decision.update)
+    .eq("id", alert.id);
+
+  return {
+    alert_id: alert.id,
+    user_id: alert.user_id,
+    triggered: true,
+    reason: checkResult.reason,
+    notification_sent: notificationSent,
+  };
+}
+
+/**
+ * Evaluate alerts and notify on the ones that fire
+ * Records last_checked_at for every alert in batches
+ *
+ * @param alerts - Active alert rows selected with their asset
+ */
+async function evaluateAlerts(
+  supabase: ReturnType<typeof createClient>,
+  alerts: AlertRow[],
+  options: AlertEvaluationOptions
+): Promise<AlertEvaluationSummary> {
+  if (alerts.length === 0) {
+    return {
+      total_alerts: 0,
+      alerts_triggered: 0,
+      notifications_sent: 0,
+      results: [],
+    };
+  }
+
+  console.log(`Checking ${alerts.length} active alerts`);
+
+  // Portfolio and composite alerts share one valuation per portfolio
+  const portfolioStates = new Map<string, PortfolioState>();
+  let rates: RateTable | null = null;
+  const loadPortfolio = async (portfolioId: string) => {
+    let portfolio = portfolioStates.get(portfolioId);
+    if (!portfolio) {
+      rates ??= await getLatestRates(supabase, options.exchangeRateApiKey);
+      portfolio = await getPortfolioState(supabase, portfolioId, rates, options.exchangeRateApiKey);
+      portfolioStates.set(portfolioId, portfolio);
+    }
+    return portfolio;
+  };
+
+  // Technical alerts on the same asset share daily history
+  const historyCache = new Map<string, Promise<DailyBar[]>>();
+  const history: HistoryLoader = (asset, days, minBars, needVolume) => {
+    const key = `${asset.id}:${days}:${minBars}:${needVolume}`;
+    let bars = historyCache.get(key);
+    if (!bars) {
+      bars = getDailyHistory(supabase, options.priceProviders, asset, days, minBars, needVolume);
+      historyCache.set(key, bars);
+    }
+    return bars;
+  };
+
+  // Technical alerts are premium-only (checked once per user)
+  const technicalAccess = new Map<string, boolean>();
+
+  // Check each alert
+  const results: AlertCheckResult[] = [];
+  for (const alert of alerts as AlertRow[]) {
+    if (alert.portfolio_id || alert.alert_type === "composite") {
+      try {
+        const target: AlertTarget = alert.portfolio_id
+          ? { kind: "portfolio", portfolio: await loadPortfolio(alert.portfolio_id) }
+          : await loadCompositeTarget(supabase, alert as Alert, loadPortfolio, history);
+
+        // A partial valuation would read as a loss
+        if (target.kind === "portfolio" && target.portfolio.unconvertedCurrencies.length > 0) {
+          results.push({
+            alert_id: alert.id,
+            user_id: alert.user_id,
+            triggered: false,
+            error: unconvertedError(target.portfolio),
+          });
+          continue;
+        }
+
+        results.push(await checkAlert(supabase, alert as Alert, target, options.transports));
+      } catch (error) {
+        console.error(`Error checking alert ${alert.id}:`, error);
+        results.push({
+          alert_id: alert.id,
+          user_id: alert.user_id,
+          triggered: false,
+          error: (error as Error).message,
+        });
+      }
+      continue;
+    }
+
+    if (!alert.assets) {
+      console.error(`Alert ${alert.id} has no associated asset`);
+      results.push({
+        alert_id: alert.id,
+        user_id: alert.user_id,
+        triggered: false,
+        error: "Asset not found",
+      });
+      continue;
+    }
+
+    if (isTechnicalAlertType(alert.alert_type)) {
+      if (!technicalAccess.has(alert.user_id)) {
+        technicalAccess.set(alert.user_id, await canAccessFeature(alert.user_id, "technical_alerts"));
+      }
+
+      if (!technicalAccess.get(alert.user_id)) {
+        results.push({
+          alert_id: alert.id,
+          user_id: alert.user_id,
+          triggered: false,
+          error: "Technical alerts require a premium subscription",
+        });
+        continue;
+      }
+    }
+
+    try {
+      const result = await checkAlert(
+        supabase,
+        alert as Alert,
+        { kind: "asset", asset: alert.assets as unknown as Asset, history },
+        options.transports
+      );
+      results.push(result);
+    } catch (error) {
+      console.error(`Error checking alert ${alert.id}:`, error);
+      results.push({
+        alert_id: alert.id,
+        user_id: alert.user_id,
+        triggered: false,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  const checkedAt = new Date().toISOString();
+  for (let i = 0; i < alerts.length; i += ALERT_UPDATE_BATCH_SIZE) {
+    const { error } = await supabase
+      .from("alerts")
+      .update({ last_checked_at: checkedAt })
+      .in("id", alerts.slice(i, i + ALERT_UPDATE_BATCH_SIZE).map((a) => a.id));
+
+    if (error) {
+      console.error("Error updating last_checked_at:", error);
+    }
+  }
+
+  const triggeredCount = results.filter((r) => r.triggered).length;
+  const notificationsSent = results.filter((r) => r.notification_sent).length;
+
+  return {
+    total_alerts: alerts.length,
+    alerts_triggered: triggeredCount,
+    notifications_sent: notificationsSent,
+    results,
+  };
+}
+
+/**
+ * Evaluate the alerts affected by new prices for some assets
+ * - Asset alerts on those assets (maturity reminders excluded)
+ * - Portfolio alerts on portfolios holding them
+ * - Composite alerts whose conditions reference either
+ *
+ * @param assetIds - Assets whose price changed
+ */
+export async function evaluateAlertsForAssets(
+  supabase: ReturnType<typeof createClient>,
+  assetIds: string[],
+  options: AlertEvaluationOptions
+): Promise<AlertEvaluationSummary> {
+  if (assetIds.length === 0) {
+    return evaluateAlerts(supabase, [], options);
+  }
+
+  const { data: assetAlerts, error: assetAlertsError } = await supabase
+    .from("alerts")
+    .select(ALERT_SELECT)
+    .eq("is_active", true)
+    .in("asset_id", assetIds)
+    .neq("alert_type", "maturity_reminder");
+
+  if (assetAlertsError) {
+    throw new Error(`Failed to fetch alerts: ${assetAlertsError.message}`);
+  }
+
+  const { data: assets, error: assetsError } = await supabase
+    .from("assets")
+    .select("user_id, portfolio_id")
+    .in("id", assetIds);
+
+  if (assetsError) {
+    throw new Error(`Failed to fetch assets: ${assetsError.message}`);
+  }
+
+  const portfolioIds = [...new Set((assets || []).map((a) => a.portfolio_id as string))];
+  const userIds = [...new Set((assets || []).map((a) => a.user_id as string))];
+
+  const { data: portfolioAlerts, error: portfolioAlertsError } = portfolioIds.length > 0
+    ? await supabase
+      .from("alerts")
+      .select(ALERT_SELECT)
+      .eq("is_active", true)
+      .in("portfolio_id", portfolioIds)
+    : { data: [], error: null };
+
+  if (portfolioAlertsError) {
+    throw new Error(`Failed to fetch portfolio alerts: ${portfolioAlertsError.message}`);
+  }
+
+  const { data: compositeAlerts, error: compositeAlertsError } = userIds.length > 0
+    ? await supabase
+      .from("alerts")
+      .select(ALERT_SELECT)
+      .eq("is_active", true)
+      .eq("alert_type", "composite")
+      .in("user_id", userIds)
+    : { data: [], error: null };
+
+  if (compositeAlertsError) {
+    throw new Error(`Failed to fetch composite alerts: ${compositeAlertsError.message}`);
+  }
+
+  const changedAssets = new Set(assetIds);
+  const affectedPortfolios = new Set(portfolioIds);
+  const affectedComposites = ((compositeAlerts || []) as AlertRow[]).filter((alert) => {
+    if (!alert.condition_tree) return false;
+    const targets = collectConditionTargets(alert.condition_tree);
+    return targets.assetIds.some((id) => changedAssets.has(id)) ||
+      targets.portfolioIds.some((id) => affectedPortfolios.has(id));
+  });
+
+  return evaluateAlerts(
+    supabase,
+    [...(assetAlerts || []), ...(portfolioAlerts || []), ...affectedComposites] as AlertRow[],
+    options
+  );
+}
+
+/**
+ * Evaluate maturity reminders and alerts not checked since
+ * `staleBefore` (e.g. on assets without automated prices)
+ *
+ * @param staleBefore - Oldest acceptable last_checked_at
+ */
+export async function evaluateScheduledAlerts(
+  supabase: ReturnType<typeof createClient>,
+  staleBefore: Date,
+  options: AlertEvaluationOptions
+): Promise<AlertEvaluationSummary> {
+  const { data: alerts, error } = await supabase
+    .from("alerts")
+    .select(ALERT_SELECT)
+    .eq("is_active", true)
+    .or(`alert_type.eq.maturity_reminder,last_checked_at.is.null,last_checked_at.lt.${staleBefore.toISOString()}`);
+
+  if (error) {
+    console.error("Error fetching alerts:", error);
+    throw new Error(`Failed to fetch alerts: ${error.message}`);
+  }
+
+  return evaluateAlerts(supabase, (alerts || []) as AlertRow[], options);
+}
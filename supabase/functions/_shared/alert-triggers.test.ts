@@ -0,0 +1,62 @@
+// =====================================================
+// Vestpod - Alert Triggers Tests
+// =====================================================
+// Tests for once / every_crossing / cooldown trigger modes
+// Run with: deno test alert-triggers.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { AlertTriggerState, decideAlertTrigger, validateTriggerInput } from "./alert-triggers.ts";
+
+const NOW = new Date("2024-06-03T12:00:00Z");
+
+function state(overrides: Partial<AlertTriggerState>): AlertTriggerState {
+  return {
+    trigger_mode: "once",
+    cooldown_hours: null,
+    is_armed: true,
+    triggered_at: null,
+    trigger_count: 0,
+    ...overrides,
+  };
+}
+
+Deno.test("decideAlertTrigger - once fires and deactivates", () => {
+  assertEquals(decideAlertTrigger(state({}), true, NOW), {
+    fire: true,
+    update: { triggered_at: NOW.toISOString(), trigger_count: 1, is_active: false },
+  });
+  assertEquals(decideAlertTrigger(state({}), false, NOW), { fire: false, update: {} });
+});
+
+Deno.test("decideAlertTrigger - every_crossing re-arms when the condition clears", () => {
+  const fired = decideAlertTrigger(state({ trigger_mode: "every_crossing" }), true, NOW);
+  assertEquals(fired.update, { triggered_at: NOW.toISOString(), trigger_count: 1, is_armed: false });
+
+  // Still above the target: no repeat
+  const disarmed = state({ trigger_mode: "every_crossing", is_armed: false, trigger_count: 1 });
+  assertEquals(decideAlertTrigger(disarmed, true, NOW), { fire: false, update: {} });
+
+  // Back below: re-arm, then fire on the next crossing
+  assertEquals(decideAlertTrigger(disarmed, false, NOW), { fire: false, update: { is_armed: true } });
+  assertEquals(decideAlertTrigger({ ...disarmed, is_armed: true }, true, NOW).update.trigger_count, 2);
+});
+
+Deno.test("decideAlertTrigger - cooldown fires at most once per window", () => {
+  const cooling = state({ trigger_mode: "cooldown", cooldown_hours: 4, triggered_at: "2024-06-03T09:00:00Z" });
+  assertEquals(decideAlertTrigger(cooling, true, NOW).fire, false);
+
+  const cooled = { ...cooling, triggered_at: "2024-06-03T08:00:00Z" };
+  assertEquals(decideAlertTrigger(cooled, true, NOW), {
+    fire: true,
+    update: { triggered_at: NOW.toISOString(), trigger_count: 1 },
+  });
+});
+
+Deno.test("validateTriggerInput - cooldown requires positive whole hours", () => {
+  assertEquals(validateTriggerInput({}).valid, true);
+  assertEquals(validateTriggerInput({ trigger_mode: "every_crossing" }).valid, true);
+  assertEquals(validateTriggerInput({ trigger_mode: "cooldown", cooldown_hours: 24 }).valid, true);
+  assertEquals(validateTriggerInput({ trigger_mode: "cooldown" }).valid, false);
+  assertEquals(validateTriggerInput({ trigger_mode: "cooldown", cooldown_hours: 1.5 }).valid, false);
+  assertEquals(validateTriggerInput({ trigger_mode: "always" }).valid, false);
+});
@@ -0,0 +1,110 @@
+// =====================================================
+// Vestpod - Alert Triggers Module
+// =====================================================
+// Decides whether an alert whose condition was evaluated
+// should fire, and how its state changes:
+// - once: fire, then deactivate
+// - every_crossing: fire, disarm, re-arm once the
+//   condition no longer holds
+// - cooldown: fire at most once per cooldown_hours
+
+/**
+ * Alert trigger modes
+ */
+export const ALERT_TRIGGER_MODES = ["once", "every_crossing", "cooldown"] as const;
+export type AlertTriggerMode = typeof ALERT_TRIGGER_MODES[number];
+
+/**
+ * Trigger state stored on the alert
+ */
+export interface AlertTriggerState {
+  trigger_mode: AlertTriggerMode;
+  cooldown_hours: number | null;
+  is_armed: boolean;
+  triggered_at: string | null;
+  trigger_count: number;
+}
+
+/**
+ * Trigger decision
+ */
+export interface TriggerDecision {
+  fire: boolean;
+  // Columns to update on the alert (empty when nothing changes)
+  update: Partial<AlertTriggerState & { is_active: boolean }>;
+}
+
+/**
+ * Validate trigger mode input
+ */
+export function validateTriggerInput(data: Record<string, unknown>): { valid: boolean; error?: string } {
+  if (
+    data.trigger_mode !== undefined &&
+    !ALERT_TRIGGER_MODES.includes(data.trigger_mode as AlertTriggerMode)
+  ) {
+    return {
+      valid: false,
+      error: `Trigger mode must be one of: ${ALERT_TRIGGER_MODES.join(", ")}`,
+    };
+  }
+
+  if (data.cooldown_hours !== undefined && data.cooldown_hours !== null) {
+    const hours = Number(data.cooldown_hours);
+    if (!Number.isInteger(hours) || hours <= 0) {
+      return {
+        valid: false,
+        error: "Cooldown hours must be a positive whole number",
+      };
+    }
+  }
+
+  if (data.trigger_mode === "cooldown" && (data.cooldown_hours === undefined || data.cooldown_hours === null)) {
+    return {
+      valid: false,
+      error: "Cooldown hours is required for the cooldown trigger mode",
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Decide whether to fire an alert
+ *
+ * @param state - Alert trigger state
+ * @param conditionMet - Result of the alert's condition check
+ * @param now - Evaluation time
+ */
+export function decideAlertTrigger(state: AlertTriggerState, conditionMet: boolean, now = new Date()): TriggerDecision {
+  if (!conditionMet) {
+    // Price moved back across the threshold: ready to fire again
+    if (state.trigger_mode === "every_crossing" && !state.is_armed) {
+      return { fire: false, update: { is_armed: true } };
+    }
+    return { fire: false, update: {} };
+  }
+
+  if (state.trigger_mode === "every_crossing" && !state.is_armed) {
+    return { fire: false, update: {} };
+  }
+
+  if (state.trigger_mode === "cooldown" && state.triggered_at) {
+    const cooldownMs = (state.cooldown_hours || 0) * 60 * 60 * 1000;
+    if (now.getTime() - new Date(state.triggered_at).getTime() < cooldownMs) {
+      return { fire: false, update: {} };
+    }
+  }
+
+  const update: TriggerDecision["update"] = {
+    triggered_at: now.toISOString(),
+    trigger_count: (state.trigger_count || 0) + 1,
+  };
+
+  if (state.trigger_mode === "once") {
+    update.is_active = false;
+  } else if (state.trigger_mode === "every_crossing") {
+    update.is_armed = false;
+  }
+
+  return { fire: true, update };
+}
@@ -0,0 +1,100 @@
+// =====================================================
+// Vestpod - Benchmarks Tests
+// =====================================================
+// Tests for benchmark validation, composite indexes and comparison statistics
+// Run with: deno test benchmarks.test.ts
+
+import { assertAlmostEquals, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildCompositeIndex,
+  calculateComparisonStats,
+  getPresetBenchmark,
+  validateBenchmarkComponents,
+} from "./benchmarks.ts";
+
+Deno.test("validateBenchmarkComponents - requires weights summing to 1", () => {
+  assertEquals(
+    validateBenchmarkComponents([
+      { assetType: "stock", symbol: "SPY", weight: 0.6 },
+      { assetType: "stock", symbol: "AGG", weight: 0.4 },
+    ]).valid,
+    true
+  );
+  assertEquals(validateBenchmarkComponents([{ assetType: "stock", symbol: "SPY", weight: 0.5 }]).valid, false);
+  assertEquals(validateBenchmarkComponents([{ assetType: "bond", symbol: "AGG", weight: 1 }]).valid, false);
+  assertEquals(
+    validateBenchmarkComponents([
+      { assetType: "stock", symbol: "SPY", weight: 0.5 },
+      { assetType: "stock", symbol: "spy", weight: 0.5 },
+    ]).valid,
+    false
+  );
+  assertEquals(validateBenchmarkComponents([]).valid, false);
+});
+
+Deno.test("getPresetBenchmark - finds built-in benchmarks", () => {
+  assertEquals(getPresetBenchmark("60-40")?.components.length, 2);
+  assertEquals(getPresetBenchmark("BTC")?.components[0].symbol, "BTC");
+  assertEquals(getPresetBenchmark("qqq"), null);
+});
+
+Deno.test("buildCompositeIndex - buys and holds weighted components", () => {
+  const index = buildCompositeIndex(
+    [
+      { assetType: "stock", symbol: "SPY", weight: 0.6 },
+      { assetType: "stock", symbol: "AGG", weight: 0.4 },
+    ],
+    {
+      "stock:SPY": [
+        { date: "2024-01-01", price: 100 },
+        { date: "2024-01-03", price: 110 },
+      ],
+      "stock:AGG": [
+        { date: "2024-01-01", price: 50 },
+        { date: "2024-01-02", price: 45 },
+      ],
+    },
+    ["2024-01-01", "2024-01-02", "2024-01-03"]
+  );
+
+  // SPY carries 100 into Jan 2; AGG carries 45 into Jan 3
+  assertEquals(index, [
+    { date: "2024-01-01", value: 100 },
+    { date: "2024-01-02", value: 96 },
+    { date: "2024-01-03", value: 102 },
+  ]);
+
+  assertEquals(
+    buildCompositeIndex([{ assetType: "crypto", symbol: "BTC", weight: 1 }], {}, ["2024-01-01"]),
+    null
+  );
+});
+
+Deno.test("calculateComparisonStats - compares against the benchmark", () => {
+  const benchmark = [
+    { date: "2024-01-01", value: 100 },
+    { date: "2024-01-02", value: 102 },
+    { date: "2024-01-03", value: 99 },
+    { date: "2024-01-04", value: 104 },
+  ];
+
+  // Identical series: no excess return, no tracking error, beta 1
+  const same = calculateComparisonStats(benchmark, benchmark)!;
+  assertAlmostEquals(same.excessReturn, 0, 1e-12);
+  assertAlmostEquals(same.trackingError, 0, 1e-12);
+  assertAlmostEquals(same.beta, 1, 1e-9);
+  assertAlmostEquals(same.alpha, 0, 1e-9);
+
+  const portfolio = [
+    { date: "2024-01-01", value: 100 },
+    { date: "2024-01-02", value: 103 },
+    { date: "2024-01-03", value: 101 },
+    { date: "2024-01-04", value: 108 },
+  ];
+  const stats = calculateComparisonStats(portfolio, benchmark)!;
+  assertAlmostEquals(stats.portfolioReturn, 0.08, 1e-9);
+  assertAlmostEquals(stats.excessReturn, 0.04, 1e-9);
+  assertEquals(stats.trackingError > 0, true);
+
+  assertEquals(calculateComparisonStats(portfolio.slice(0, 1), benchmark), null);
+});
@@ -0,0 +1,452 @@
+// =====================================================
+// Vestpod - Benchmarks Module
+// =====================================================
+// Benchmark definitions and comparison analytics:
+// - Built-in benchmarks (SPY, 60/40, BTC, gold) and validation
+//   of user-defined weighted composites
+// - Daily benchmark prices from the price provider registry,
+//   cached in benchmark_prices
+// - Composite index construction and portfolio vs benchmark
+//   statistics (excess return, alpha, beta, tracking error)
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { PriceProviderRegistry } from "./price-providers.ts";
+import { addDays } from "./portfolio-snapshots.ts";
+import { Valuation } from "./portfolio-returns.ts";
+
+/**
+ * Asset types a benchmark component can track
+ */
+export const BENCHMARK_ASSET_TYPES = ["stock", "crypto", "commodity"] as const;
+export type BenchmarkAssetType = typeof BENCHMARK_ASSET_TYPES[number];
+
+// Composite size limit
+export const MAX_BENCHMARK_COMPONENTS = 10;
+
+// Series are daily calendar values (snapshots include weekends)
+const PERIODS_PER_YEAR = 365;
+
+// Cached prices within this many days of the window edges count as covering it
+// (allows for weekends and market holidays)
+const COVERAGE_TOLERANCE_DAYS = 4;
+
+// Rows per request when reading price tables
+const PRICE_PAGE_SIZE = 1000;
+
+/**
+ * Weighted benchmark component
+ */
+export interface BenchmarkComponent {
+  assetType: BenchmarkAssetType;
+  symbol: string;
+  weight: number;
+}
+
+/**
+ * Benchmark definition (built-in or user-defined)
+ */
+export interface BenchmarkDefinition {
+  id: string;
+  name: string;
+  description?: string | null;
+  components: BenchmarkComponent[];
+  isPreset: boolean;
+}
+
+/**
+ * Daily price
+ */
+export interface PricePoint {
+  date: string;
+  price: number;
+}
+
+/**
+ * Portfolio vs benchmark statistics (fractions, not percentages)
+ */
+export interface ComparisonStats {
+  portfolioReturn: number;
+  benchmarkReturn: number;
+  excessReturn: number;
+  alpha: number;
+  beta: number;
+  trackingError: number;
+}
+
+/**
+ * Built-in benchmarks
+ */
+export const PRESET_BENCHMARKS: BenchmarkDefinition[] = [
+  {
+    id: "spy",
+    name: "S&P 500 (SPY)",
+    components: [{ assetType: "stock", symbol: "SPY", weight: 1 }],
+    isPreset: true,
+  },
+  {
+    id: "60-40",
+    name: "60/40 Stocks/Bonds",
+    description: "60% SPY, 40% AGG",
+    components: [
+      { assetType: "stock", symbol: "SPY", weight: 0.6 },
+      { assetType: "stock", symbol: "AGG", weight: 0.4 },
+    ],
+    isPreset: true,
+  },
+  {
+    id: "btc",
+    name: "Bitcoin (BTC)",
+    components: [{ assetType: "crypto", symbol: "BTC", weight: 1 }],
+    isPreset: true,
+  },
+  {
+    id: "gold",
+    name: "Gold (XAU)",
+    components: [{ assetType: "commodity", symbol: "XAU", weight: 1 }],
+    isPreset: true,
+  },
+];
+
+/**
+ * Find a built-in benchmark by id
+ */
+export function getPresetBenchmark(id: string): BenchmarkDefinition | null {
+  return PRESET_BENCHMARKS.find((b) => b.id === id.toLowerCase()) || null;
+}
+
+/**
+ * Cache and lookup key for a component
+ */
+export function componentKey(component: { assetType: string; symbol: string }): string {
+  return `${component.assetType}:${component.symbol.toUpperCase()}`;
+}
+
+/**
+ * Validate benchmark components
+ * 1-10 components with unique symbols and positive weights summing to 1
+ */
+export function validateBenchmarkComponents(components: unknown): { valid: boolean; error?: string } {
+  if (!Array.isArray(components) || components.length === 0) {
+    return { valid: false, error: "Components must be a non-empty array" };
+  }
+
+  if (components.length > MAX_BENCHMARK_COMPONENTS) {
+    return { valid: false, error: `A benchmark can have at most ${MAX_BENCHMARK_COMPONENTS} components` };
+  }
+
+  const seen = new Set<string>();
+  let totalWeight = 0;
+
+  for (const component of components) {
+    if (!component || !BENCHMARK_ASSET_TYPES.includes(component.assetType)) {
+      return {
+        valid: false,
+        error: `Component asset type must be one of: ${BENCHMARK_ASSET_TYPES.join(", ")}`,
+      };
+    }
+
+    if (typeof component.symbol !== "string" || component.symbol.trim().length === 0) {
+      return { valid: false, error: "Component symbol is required" };
+    }
+
+    if (typeof component.weight !== "number" || !(component.weight > 0)) {
+      return { valid: false, error: "Component weight must be a positive number" };
+    }
+
+    const key = componentKey(component);
+    if (seen.has(key)) {
+      return { valid: false, error: `Duplicate component: ${component.symbol.toUpperCase()}` };
+    }
+    seen.add(key);
+    totalWeight += component.weight;
+  }
+
+  if (Math.abs(totalWeight - 1) > 0.0001) {
+    return { valid: false, error: "Component weights must sum to 1" };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Build a composite benchmark index on the given dates
+ * Buy-and-hold from the first date: each component is bought at its
+ * weight, and carries its last known price over gaps. A component
+ * with no price at the start uses its first available price.
+ *
+ * @param components - Weighted components
+ * @param pricesByComponent - Daily prices keyed by componentKey
+ * @param dates - Dates to value the index on (ascending)
+ * @param base - Index value on the first date
+ * @returns Index series, or null if a component has no prices
+ */
+export function buildCompositeIndex(
+  components: BenchmarkComponent[],
+  pricesByComponent: Record<string, PricePoint[]>,
+  dates: string[],
+  base = 100
+): Valuation[] | null {
+  if (dates.length === 0) return [];
+
+  const series = components.map((component) => {
+    const prices = [...(pricesByComponent[componentKey(component)] || [])]
+      .sort((a, b) => a.date.localeCompare(b.date));
+    return { component, prices, index: 0, price: null as number | null };
+  });
+
+  if (series.some((s) => s.prices.length === 0)) return null;
+
+  // Advance each series to a date and return its price
+  const priceOn = (s: typeof series[number], date: string) => {
+    while (s.index < s.prices.length && s.prices[s.index].date <= date) {
+      s.price = s.prices[s.index].price;
+      s.index++;
+    }
+    return s.price ?? s.prices[0].price;
+  };
+
+  const units = series.map((s) => (s.component.weight * base) / priceOn(s, dates[0]));
+
+  return dates.map((date) => ({
+    date,
+    value: Number(series.reduce((sum, s, i) => sum + units[i] * priceOn(s, date), 0).toFixed(4)),
+  }));
+}
+
+/**
+ * Daily returns between consecutive index values
+ */
+function periodReturns(index: Valuation[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < index.length; i++) {
+    returns.push(index[i - 1].value > 0 ? index[i].value / index[i - 1].value - 1 : 0);
+  }
+  return returns;
+}
+
+/**
+ * Arithmetic mean
+ */
+export function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Compare a portfolio index with a benchmark index on the same dates
+ * Alpha is Jensen's alpha (zero risk-free rate) and tracking error is
+ * the standard deviation of daily return differences; both annualized.
+ *
+ * @returns Statistics, or null with fewer than two common dates
+ */
+export function calculateComparisonStats(portfolioIndex: Valuation[], benchmarkIndex: Valuation[]): ComparisonStats | null {
+  const benchmarkByDate = new Map(benchmarkIndex.map((v) => [v.date, v.value]));
+  const portfolio = portfolioIndex.filter((v) => benchmarkByDate.has(v.date));
+  const benchmark = portfolio.map((v) => ({ date: v.date, value: benchmarkByDate.get(v.date)! }));
+
+  if (portfolio.length < 2 || portfolio[0].value <= 0 || benchmark[0].value <= 0) return null;
+
+  const portfolioReturn = portfolio[portfolio.length - 1].value / portfolio[0].value - 1;
+  const benchmarkReturn = benchmark[benchmark.length - 1].value / benchmark[0].value - 1;
+
+  const rp = periodReturns(portfolio);
+  const rb = periodReturns(benchmark);
+  const meanP = mean(rp);
+  const meanB = mean(rb);
+
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < rp.length; i++) {
+    covariance += (rp[i] - meanP) * (rb[i] - meanB);
+    variance += (rb[i] - meanB) ** 2;
+  }
+  const beta = variance > 0 ? covariance / variance : 0;
+
+  const differences = rp.map((r, i) => r - rb[i]);
+  const meanDifference = mean(differences);
+  const differenceVariance = differences.length > 1
+    ? differences.reduce((sum, d) => sum + (d - meanDifference) ** 2, 0) / (differences.length - 1)
+    : 0;
+
+  return {
+    portfolioReturn,
+    benchmarkReturn,
+    excessReturn: portfolioReturn - benchmarkReturn,
+    alpha: (meanP - beta * meanB) * PERIODS_PER_YEAR,
+    beta,
+    trackingError: Math.sqrt(differenceVariance) * Math.sqrt(PERIODS_PER_YEAR),
+  };
+}
+
+/**
+ * Keep the last price per day
+ */
+function dailyCloses(points: { timestamp: number; price: number }[]): PricePoint[] {
+  const byDate = new Map<string, number>();
+  for (const point of [...points].sort((a, b) => a.timestamp - b.timestamp)) {
+    if (point.price > 0) {
+      byDate.set(new Date(point.timestamp).toISOString().split("T")[0], point.price);
+    }
+  }
+  return [...byDate.entries()].map(([date, price]) => ({ date, price }));
+}
+
+/**
+ * Fetch daily prices through the provider chain
+ * Providers without history (e.g. Gold-API on the free tier) only
+ * contribute today's quote, so history accumulates in the cache.
+ */
+async function fetchProviderPrices(
+  priceProviders: PriceProviderRegistry,
+  component: BenchmarkComponent,
+  startDate: string,
+  endDate: string
+): Promise<{ prices: PricePoint[]; source: string }> {
+  const symbol = component.symbol.toUpperCase();
+
+  try {
+    const history = await priceProviders.getHistory(component.assetType, symbol, {
+      from: startDate,
+      to: endDate,
+      timespan: "day",
+    });
+    return {
+      prices: dailyCloses(history.data.map((bar) => ({ timestamp: bar.timestamp, price: bar.close }))),
+      source: history.source,
+    };
+  } catch (error) {
+    console.error(`Error fetching benchmark history for ${symbol}:`, error);
+  }
+
+  const today = new Date().toISOString().split("T")[0];
+  if (today < startDate || today > endDate) {
+    return { prices: [], source: "none" };
+  }
+
+  const { quote, source } = await priceProviders.getQuote(component.assetType, symbol);
+  return { prices: [{ date: today, price: quote.price }], source };
+}
+
+/**
+ * Read every row of a paged price query
+ */
+async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PRICE_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PRICE_PAGE_SIZE - 1);
+    if (error) {
+      console.error("Error fetching benchmark prices:", error);
+      break;
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PRICE_PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/**
+ * Get daily prices for a benchmark component
+ * Served from benchmark_prices when the cache covers the window;
+ * otherwise fetched from the provider (or, if that fails, from
+ * price_history rows of assets with the same symbol) and cached.
+ *
+ * @param supabase - Service role client
+ * @param component - Benchmark component
+ * @param startDate - First date (YYYY-MM-DD)
+ * @param endDate - Last date (YYYY-MM-DD)
+ * @param priceProviders - Price provider registry
+ * @returns Daily prices in USD, oldest first
+ */
+export async function getBenchmarkPrices(
+  supabase: ReturnType<typeof createClient>,
+  component: BenchmarkComponent,
+  startDate: string,
+  endDate: string,
+  priceProviders: PriceProviderRegistry
+): Promise<PricePoint[]> {
+  const symbol = component.symbol.toUpperCase();
+
+  const cachedRows = await fetchAllPages<{ price_date: string; price: number }>((from, to) =>
+    supabase
+      .from("benchmark_prices")
+      .select("price_date, price")
+      .eq("asset_type", component.assetType)
+      .eq("symbol", symbol)
+      .gte("price_date", startDate)
+      .lte("price_date", endDate)
+      .order("price_date", { ascending: true })
+      .range(from, to)
+  );
+  const cached = cachedRows.map((row) => ({ date: row.price_date, price: Number(row.price) }));
+
+  const covered = cached.length > 0 &&
+    cached[0].date <= addDays(startDate, COVERAGE_TOLERANCE_DAYS) &&
+    cached[cached.length - 1].date >= addDays(endDate, -COVERAGE_TOLERANCE_DAYS);
+
+  if (covered) return cached;
+
+  let fetched: PricePoint[] = [];
+  let source = "price_history";
+
+  try {
+    const result = await fetchProviderPrices(priceProviders, component, startDate, endDate);
+    fetched = result.prices;
+    source = result.source;
+  } catch (error) {
+    console.error(`Error fetching benchmark prices for ${symbol}:`, error);
+  }
+
+  // Fall back to prices recorded for assets with the same symbol
+  if (fetched.length <= 1) {
+    const historyRows = await fetchAllPages<{ price: number; timestamp: string }>((from, to) =>
+      supabase
+        .from("price_history")
+        .select("price, timestamp")
+        .eq("asset_type", component.assetType)
+        .eq("symbol", symbol)
+        .gte("timestamp", `${startDate}T00:00:00Z`)
+        .lte("timestamp", `${endDate}T23:59:59Z`)
+        .order("timestamp", { ascending: true })
+        .range(from, to)
+    );
+
+    const history = dailyCloses(historyRows.map((row) => ({
+      timestamp: new Date(row.timestamp).getTime(),
+      price: Number(row.price),
+    })));
+
+    if (history.length > fetched.length) {
+      fetched = history;
+      source = "price_history";
+    }
+  }
+
+  if (fetched.length > 0) {
+    const { error } = await supabase
+      .from("benchmark_prices")
+      .upsert(
+        fetched.map((point) => ({
+          asset_type: component.assetType,
+          symbol,
+          price_date: point.date,
+          price: point.price,
+          source,
+        })),
+        { onConflict: "asset_type,symbol,price_date" }
+      );
+
+    if (error) {
+      console.error("Error caching benchmark prices:", error);
+    }
+  }
+
+  const merged = new Map(cached.map((p) => [p.date, p.price]));
+  for (const point of fetched) {
+    merged.set(point.date, point.price);
+  }
+
+  return [...merged.entries()]
+    .map(([date, price]) => ({ date, price }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,47 @@
+// =====================================================
+// Vestpod - Cash Ledger Tests
+// =====================================================
+// Tests for portfolio cash balances and contributions
+// Run with: deno test cash-ledger.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { cashDirection, isValidCurrencyCode, summarizeCash, totalInBaseCurrency } from "./cash-ledger.ts";
+
+Deno.test("cashDirection - inflows are positive, outflows negative", () => {
+  assertEquals(cashDirection("deposit"), 1);
+  assertEquals(cashDirection("sell"), 1);
+  assertEquals(cashDirection("income"), 1);
+  assertEquals(cashDirection("withdrawal"), -1);
+  assertEquals(cashDirection("buy"), -1);
+  assertEquals(cashDirection("fee"), -1);
+});
+
+Deno.test("isValidCurrencyCode - requires 3 uppercase letters", () => {
+  assertEquals(isValidCurrencyCode("USD"), true);
+  assertEquals(isValidCurrencyCode("usd"), false);
+  assertEquals(isValidCurrencyCode("US"), false);
+  assertEquals(isValidCurrencyCode(undefined), false);
+});
+
+Deno.test("summarizeCash - balances per currency and separates contributions", () => {
+  const summary = summarizeCash([
+    { transaction_type: "deposit", currency: "USD", amount: 10000 },
+    { transaction_type: "buy", currency: "USD", amount: "7500.50" },
+    { transaction_type: "sell", currency: "USD", amount: 2000 },
+    { transaction_type: "income", currency: "USD", amount: 120 },
+    { transaction_type: "withdrawal", currency: "USD", amount: 1000 },
+    { transaction_type: "deposit", currency: "EUR", amount: 500 },
+    { transaction_type: "fee", currency: "EUR", amount: 5 },
+  ]);
+
+  assertEquals(summary.balances, { USD: 3619.5, EUR: 495 });
+  assertEquals(summary.contributions.USD, { deposits: 10000, withdrawals: 1000, net: 9000 });
+  assertEquals(summary.contributions.EUR, { deposits: 500, withdrawals: 0, net: 500 });
+});
+
+Deno.test("totalInBaseCurrency - converts with rates from the base currency", () => {
+  const result = totalInBaseCurrency({ USD: 100, EUR: 92, GBP: 10 }, "USD", { EUR: 0.92 });
+
+  assertEquals(result.total, 200);
+  assertEquals(result.unconverted, ["GBP"]);
+});
@@ -0,0 +1,169 @@
+// =====================================================
+// Vestpod - Cash Ledger Module
+// =====================================================
+// Derives multi-currency cash balances and net external
+// contributions for a portfolio from its cash transactions,
+// and values a portfolio's cash in the user's currency
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { conversionFactor, getLatestRates } from "./fx-rates.ts";
+
+/**
+ * Supported cash transaction types
+ * deposit/withdrawal are external flows (contributions);
+ * buy/sell/income are settlements of asset activity
+ */
+export const CASH_TRANSACTION_TYPES = ["deposit", "withdrawal", "fee", "buy", "sell", "income"] as const;
+export type CashTransactionType = typeof CASH_TRANSACTION_TYPES[number];
+
+/**
+ * Cash transaction types that can be recorded directly
+ * (the rest are created when asset activity settles in cash)
+ */
+export const MANUAL_CASH_TRANSACTION_TYPES: CashTransactionType[] = ["deposit", "withdrawal", "fee"];
+
+/**
+ * Cash transaction row from database
+ */
+export interface CashTransaction {
+  transaction_type: CashTransactionType;
+  currency: string;
+  amount: number | string;
+}
+
+/**
+ * Cash position derived from the ledger
+ */
+export interface CashSummary {
+  balances: Record<string, number>;
+  contributions: Record<string, { deposits: number; withdrawals: number; net: number }>;
+}
+
+/**
+ * Validate cash transaction type
+ */
+export function isValidCashTransactionType(type: string): type is CashTransactionType {
+  return CASH_TRANSACTION_TYPES.includes(type as CashTransactionType);
+}
+
+/**
+ * Validate ISO 4217 currency code format
+ */
+export function isValidCurrencyCode(currency: unknown): currency is string {
+  return typeof currency === "string" && /^[A-Z]{3}$/.test(currency);
+}
+
+/**
+ * Sign applied to a cash transaction amount
+ */
+export function cashDirection(type: CashTransactionType): 1 | -1 {
+  return type === "deposit" || type === "sell" || type === "income" ? 1 : -1;
+}
+
+/**
+ * Summarize cash balances and contributions per currency
+ */
+export function summarizeCash(transactions: CashTransaction[]): CashSummary {
+  const balances: Record<string, number> = {};
+  const contributions: CashSummary["contributions"] = {};
+
+  for (const tx of transactions) {
+    const amount = Number(tx.amount);
+    balances[tx.currency] = (balances[tx.currency] || 0) + cashDirection(tx.transaction_type) * amount;
+
+    if (tx.transaction_type === "deposit" || tx.transaction_type === "withdrawal") {
+      const totals = contributions[tx.currency] ||= { deposits: 0, withdrawals: 0, net: 0 };
+      if (tx.transaction_type === "deposit") {
+        totals.deposits += amount;
+      } else {
+        totals.withdrawals += amount;
+      }
+      totals.net = totals.deposits - totals.withdrawals;
+    }
+  }
+
+  for (const currency of Object.keys(balances)) {
+    balances[currency] = Number(balances[currency].toFixed(2));
+  }
+
+  for (const totals of Object.values(contributions)) {
+    totals.deposits = Number(totals.deposits.toFixed(2));
+    totals.withdrawals = Number(totals.withdrawals.toFixed(2));
+    totals.net = Number(totals.net.toFixed(2));
+  }
+
+  return { balances, contributions };
+}
+
+/**
+ * Total per-currency amounts in a base currency
+ * Rates are quoted per unit of base currency (1 base = rate units of currency)
+ *
+ * @param amounts - Amount per currency code
+ * @param baseCurrency - Currency to total in
+ * @param rates - Exchange rates from the base currency
+ * @returns Total in base currency and currencies that had no rate
+ */
+export function totalInBaseCurrency(
+  amounts: Record<string, number>,
+  baseCurrency: string,
+  rates: Record<string, number>
+): { total: number; unconverted: string[] } {
+  let total = 0;
+  const unconverted: string[] = [];
+
+  for (const [currency, amount] of Object.entries(amounts)) {
+    if (currency === baseCurrency) {
+      total += amount;
+    } else if (rates[currency] > 0) {
+      total += amount / rates[currency];
+    } else if (amount !== 0) {
+      unconverted.push(currency);
+    }
+  }
+
+  return { total: Number(total.toFixed(2)), unconverted };
+}
+
+/**
+ * Load a portfolio's cash balance in the user's currency
+ * Balances in a currency with no exchange rate are left out.
+ *
+ * @param supabase - Service role client
+ * @param portfolioId - Portfolio to load
+ * @param currency - User's preferred currency
+ * @param exchangeRateApiKey - ExchangeRate-API key
+ * @returns Converted balance, and the currencies left out
+ */
+export async function getPortfolioCash(
+  supabase: ReturnType<typeof createClient>,
+  portfolioId: string,
+  currency: string,
+  exchangeRateApiKey: string
+): Promise<{ cash: number; unconvertedCurrencies: string[] }> {
+  const { data: cashTransactions, error } = await supabase
+    .from("cash_transactions")
+    .select("transaction_type, currency, amount")
+    .eq("portfolio_id", portfolioId);
+
+  if (error) {
+    throw new Error(`Failed to fetch cash transactions: ${error.message}`);
+  }
+
+  const { balances } = summarizeCash(cashTransactions || []);
+  const foreign = Object.keys(balances).some((c) => c !== currency);
+  const rates = foreign ? await getLatestRates(supabase, exchangeRateApiKey) : {};
+  const unconvertedCurrencies: string[] = [];
+  let cash = 0;
+
+  for (const [cashCurrency, amount] of Object.entries(balances)) {
+    const factor = conversionFactor(cashCurrency, currency, rates);
+    if (factor === null) {
+      if (amount !== 0) unconvertedCurrencies.push(cashCurrency);
+      continue;
+    }
+    cash += amount * factor;
+  }
+
+  return { cash, unconvertedCurrencies };
+}
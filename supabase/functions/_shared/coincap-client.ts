@@ -242,6 +242,30 @@ export async function fetchCoinList(_apiKey?: string): Promise<CoinMapping[]> {
   }
 }
 
+/**
+ * Current in-memory coin list, for persisting across cold starts
+ *
+ * @returns Coin list and fetch time, or null if not loaded
+ */
+export function getCoinListSnapshot(): { coins: CoinMapping[]; fetchedAt: number } | null {
+  return coinListCache ? { coins: coinListCache, fetchedAt: coinListCacheTime } : null;
+}
+
+/**
+ * Seed the in-memory coin list from a persisted copy
+ * Ignored if the copy is expired or older than the loaded list
+ *
+ * @param coins - Coin mappings
+ * @param fetchedAt - When the list was fetched (ms since epoch)
+ */
+export function primeCoinList(coins: CoinMapping[], fetchedAt: number): void {
+  if (Date.now() - fetchedAt >= CACHE_TTL || fetchedAt <= coinListCacheTime || coins.length === 0) {
+    return;
+  }
+  coinListCache = coins;
+  coinListCacheTime = fetchedAt;
+}
+
 /**
  * Map cryptocurrency symbol to CoinCap ID
  * Example: "BTC" -> "bitcoin", "ETH" -> "ethereum"
@@ -0,0 +1,79 @@
+// =====================================================
+// Vestpod - Correlation Tests
+// =====================================================
+// Tests for pairwise return correlation and the effective
+// number of bets
+// Run with: deno test correlation.test.ts
+
+import { assertAlmostEquals, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { calculateCorrelation, pairCorrelation } from "./correlation.ts";
+import { HoldingHistory } from "./risk-metrics.ts";
+import { addDays } from "./portfolio-snapshots.ts";
+import { PricePoint } from "./benchmarks.ts";
+
+// Daily prices starting on 2024-01-01 from a list of daily returns
+function pricesFromReturns(returns: number[], base = 100): PricePoint[] {
+  const prices: PricePoint[] = [{ date: "2024-01-01", price: base }];
+  returns.forEach((r, i) => {
+    prices.push({ date: addDays("2024-01-01", i + 1), price: prices[i].price * (1 + r) });
+  });
+  return prices;
+}
+
+function history(symbol: string, value: number, prices: PricePoint[]): HoldingHistory {
+  return {
+    holding: { assetId: symbol, name: symbol, symbol, assetType: "stock", quantity: 1, fxFactor: 1, value },
+    prices,
+  };
+}
+
+// Up/down pattern and a pattern independent of it
+const PATTERN = Array.from({ length: 40 }, (_, i) => (i % 2 === 0 ? 0.02 : -0.01));
+const INDEPENDENT = Array.from({ length: 40 }, (_, i) => (Math.floor(i / 2) % 2 === 0 ? 0.015 : -0.015));
+
+Deno.test("pairCorrelation - moving together, opposite and too short", () => {
+  const a = pricesFromReturns(PATTERN);
+
+  assertAlmostEquals(pairCorrelation(a, pricesFromReturns(PATTERN.map((r) => r * 3))) ?? 0, 1, 1e-9);
+  assertAlmostEquals(pairCorrelation(a, pricesFromReturns(PATTERN.map((r) => -r))) ?? 0, -1, 0.05);
+  assertEquals(pairCorrelation(a.slice(0, 10), a.slice(0, 10)), null);
+});
+
+Deno.test("pairCorrelation - returns are taken on common dates only", () => {
+  // Weekday-only series against a daily one
+  const daily = pricesFromReturns(PATTERN);
+  const weekdays = daily.filter((p) => ![0, 6].includes(new Date(`${p.date}T00:00:00Z`).getUTCDay()));
+
+  assertAlmostEquals(pairCorrelation(daily, weekdays) ?? 0, 1, 1e-9);
+});
+
+Deno.test("calculateCorrelation - matrix, highly correlated pairs and effective bets", () => {
+  const result = calculateCorrelation(
+    [
+      history("NVDA", 5000, pricesFromReturns(PATTERN)),
+      history("BTC", 5000, pricesFromReturns(PATTERN.map((r) => r * 2))),
+      history("NEW", 1000, pricesFromReturns([0.01, 0.02])),
+    ],
+    "2024-01-01",
+    "2024-12-31"
+  );
+
+  assertEquals(result.assets.map((a) => [a.symbol, a.weight]), [["NVDA", 50], ["BTC", 50]]);
+  assertEquals(result.matrix, [[1, 1], [1, 1]]);
+  assertEquals(result.highlyCorrelated, [{ first: "NVDA", second: "BTC", correlation: 1 }]);
+  assertEquals(result.excluded.map((e) => e.symbol), ["NEW"]);
+  // Everything moves together: one bet
+  assertEquals(result.effectiveBets, 1);
+});
+
+Deno.test("calculateCorrelation - uncorrelated holdings count as separate bets", () => {
+  const result = calculateCorrelation(
+    [history("A", 1000, pricesFromReturns(PATTERN)), history("B", 1000, pricesFromReturns(INDEPENDENT))],
+    "2024-01-01",
+    "2024-12-31"
+  );
+
+  assertAlmostEquals(result.matrix[0][1]!, 0, 0.1);
+  assertEquals(result.highlyCorrelated, []);
+  assertAlmostEquals(result.effectiveBets!, 2, 0.2);
+});
@@ -0,0 +1,241 @@
+// =====================================================
+// Vestpod - Correlation Module
+// =====================================================
+// How a portfolio's holdings move together:
+// - Pairwise correlation of daily returns over a selectable window
+// - Highly correlated pairs (e.g. crypto and tech stocks)
+// - Effective number of bets: the diversification ratio squared,
+//   from 1 (everything moves together) up to the number of
+//   holdings (independent holdings)
+
+import { HoldingHistory } from "./risk-metrics.ts";
+import { addDays } from "./portfolio-snapshots.ts";
+import { mean, PricePoint } from "./benchmarks.ts";
+
+/**
+ * Correlation windows
+ */
+export const CORRELATION_RANGES = ["1M", "3M", "6M", "1Y"] as const;
+export type CorrelationRange = typeof CORRELATION_RANGES[number];
+
+export const CORRELATION_RANGE_DAYS: Record<CorrelationRange, number> = {
+  "1M": 30,
+  "3M": 90,
+  "6M": 180,
+  "1Y": 365,
+};
+
+export const DEFAULT_CORRELATION_RANGE: CorrelationRange = "3M";
+
+// Common daily returns needed for a pair's correlation
+export const MIN_CORRELATION_OBSERVATIONS = 15;
+
+// Pairs at or above this correlation are reported as moving together
+export const HIGH_CORRELATION = 0.7;
+
+const DAYS_PER_YEAR = 365;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Holding included in the matrix
+ */
+export interface CorrelationAsset {
+  assetId: string;
+  name: string;
+  symbol: string | null;
+  assetType: string;
+  // Percent of the included value
+  weight: number;
+  // Annualized volatility of daily returns (fraction)
+  volatility: number;
+}
+
+/**
+ * Pair of holdings that move together
+ */
+export interface CorrelatedPair {
+  first: string;
+  second: string;
+  correlation: number;
+}
+
+/**
+ * Correlation matrix and diversification of a portfolio
+ */
+export interface CorrelationResult {
+  startDate: string;
+  endDate: string;
+  // Rows and columns of the matrix, in order
+  assets: CorrelationAsset[];
+  // null where a pair has too few common days
+  matrix: (number | null)[][];
+  highlyCorrelated: CorrelatedPair[];
+  averageCorrelation: number | null;
+  diversificationRatio: number | null;
+  effectiveBets: number | null;
+  // Holdings with too little history in the window
+  excluded: { assetId: string; name: string; symbol: string | null }[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Check a correlation window
+ */
+export function isValidCorrelationRange(range: string): range is CorrelationRange {
+  return CORRELATION_RANGES.includes(range as CorrelationRange);
+}
+
+/**
+ * First date of a correlation window
+ */
+export function getCorrelationStartDate(range: CorrelationRange, endDate: string): string {
+  return addDays(endDate, -CORRELATION_RANGE_DAYS[range]);
+}
+
+/**
+ * Daily returns between consecutive prices
+ */
+function returnsOf(prices: PricePoint[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    returns.push(prices[i - 1].price > 0 ? prices[i].price / prices[i - 1].price - 1 : 0);
+  }
+  return returns;
+}
+
+/**
+ * Annualized volatility of a price series
+ * Scaled by the series' own observations per year, so trading-day
+ * (stocks) and calendar-day (crypto) series are comparable
+ */
+export function annualizedVolatility(prices: PricePoint[]): number {
+  const returns = returnsOf(prices);
+  if (returns.length < 2) return 0;
+
+  const avg = mean(returns);
+  const variance = returns.reduce((sum, r) => sum + (r - avg) ** 2, 0) / (returns.length - 1);
+  const days = (Date.parse(prices[prices.length - 1].date) - Date.parse(prices[0].date)) / MS_PER_DAY;
+  const periodsPerYear = days > 0 ? (returns.length * DAYS_PER_YEAR) / days : DAYS_PER_YEAR;
+
+  return Math.sqrt(variance * periodsPerYear);
+}
+
+/**
+ * Pearson correlation of two price series' returns
+ * Returns are taken between the dates both series have a price,
+ * so a weekend move in crypto lines up with Monday's stock return
+ *
+ * @returns Correlation, or null with fewer than
+ *          MIN_CORRELATION_OBSERVATIONS common returns or a flat series
+ */
+export function pairCorrelation(a: PricePoint[], b: PricePoint[]): number | null {
+  const pricesB = new Map(b.map((p) => [p.date, p.price]));
+  const common = a.filter((p) => pricesB.has(p.date));
+
+  const ra = returnsOf(common);
+  const rb = returnsOf(common.map((p) => ({ date: p.date, price: pricesB.get(p.date)! })));
+  if (ra.length < MIN_CORRELATION_OBSERVATIONS) return null;
+
+  const meanA = mean(ra);
+  const meanB = mean(rb);
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < ra.length; i++) {
+    covariance += (ra[i] - meanA) * (rb[i] - meanB);
+    varianceA += (ra[i] - meanA) ** 2;
+    varianceB += (rb[i] - meanB) ** 2;
+  }
+
+  if (varianceA === 0 || varianceB === 0) return null;
+  return Math.max(-1, Math.min(1, covariance / Math.sqrt(varianceA * varianceB)));
+}
+
+/**
+ * Build the correlation matrix and diversification score
+ * Weights are the holdings' current values. The diversification
+ * ratio is the weighted average volatility over the portfolio
+ * volatility; its square is the effective number of bets.
+ *
+ * @param histories - Holdings and their daily closes
+ * @param startDate - First date of the window (YYYY-MM-DD)
+ * @param endDate - Last date of the window (YYYY-MM-DD)
+ */
+export function calculateCorrelation(histories: HoldingHistory[], startDate: string, endDate: string): CorrelationResult {
+  const windowed = histories.map((h) => ({
+    holding: h.holding,
+    prices: [...h.prices]
+      .filter((p) => p.date >= startDate && p.date <= endDate)
+      .sort((x, y) => x.date.localeCompare(y.date)),
+  }));
+
+  const included = windowed.filter((h) => h.prices.length > MIN_CORRELATION_OBSERVATIONS);
+  const excluded = windowed
+    .filter((h) => h.prices.length <= MIN_CORRELATION_OBSERVATIONS)
+    .map((h) => ({ assetId: h.holding.assetId, name: h.holding.name, symbol: h.holding.symbol }));
+
+  const includedValue = included.reduce((sum, h) => sum + h.holding.value, 0);
+  const weights = included.map((h) => (includedValue > 0 ? h.holding.value / includedValue : 1 / included.length));
+  const volatilities = included.map((h) => annualizedVolatility(h.prices));
+
+  const correlations: (number | null)[][] = included.map(() => included.map(() => null));
+  const highlyCorrelated: CorrelatedPair[] = [];
+  const pairCorrelations: number[] = [];
+
+  for (let i = 0; i < included.length; i++) {
+    correlations[i][i] = 1;
+    for (let j = i + 1; j < included.length; j++) {
+      const correlation = pairCorrelation(included[i].prices, included[j].prices);
+      if (correlation === null) continue;
+
+      correlations[i][j] = correlations[j][i] = correlation;
+      pairCorrelations.push(correlation);
+
+      if (correlation >= HIGH_CORRELATION) {
+        highlyCorrelated.push({
+          first: included[i].holding.symbol || included[i].holding.name,
+          second: included[j].holding.symbol || included[j].holding.name,
+          correlation: round2(correlation),
+        });
+      }
+    }
+  }
+  highlyCorrelated.sort((a, b) => b.correlation - a.correlation);
+
+  // Portfolio variance needs every pair
+  let diversificationRatio: number | null = null;
+  if (included.length > 0 && correlations.every((row) => row.every((c) => c !== null))) {
+    const weightedVolatility = weights.reduce((sum, w, i) => sum + w * volatilities[i], 0);
+    let variance = 0;
+    for (let i = 0; i < included.length; i++) {
+      for (let j = 0; j < included.length; j++) {
+        variance += weights[i] * weights[j] * volatilities[i] * volatilities[j] * correlations[i][j]!;
+      }
+    }
+    if (variance > 0) {
+      diversificationRatio = weightedVolatility / Math.sqrt(variance);
+    }
+  }
+
+  return {
+    startDate,
+    endDate,
+    assets: included.map((h, i) => ({
+      assetId: h.holding.assetId,
+      name: h.holding.name,
+      symbol: h.holding.symbol,
+      assetType: h.holding.assetType,
+      weight: round2(weights[i] * 100),
+      volatility: Math.round(volatilities[i] * 10000) / 10000,
+    })),
+    matrix: correlations.map((row) => row.map((c) => (c === null ? null : round2(c)))),
+    highlyCorrelated,
+    averageCorrelation: pairCorrelations.length > 0 ? round2(mean(pairCorrelations)) : null,
+    diversificationRatio: diversificationRatio === null ? null : round2(diversificationRatio),
+    effectiveBets: diversificationRatio === null ? null : round2(diversificationRatio ** 2),
+    excluded,
+  };
+}
@@ -0,0 +1,84 @@
+// =====================================================
+// Vestpod - Email Templates Tests
+// =====================================================
+// Tests for localized email rendering
+// Run with: deno test email-templates.test.ts
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { renderEmail, resolveEmailLanguage } from "./email-templates.ts";
+
+Deno.test("resolveEmailLanguage - regional variants and fallback to English", () => {
+  assertEquals(resolveEmailLanguage("es-MX"), "es");
+  assertEquals(resolveEmailLanguage("DE"), "de");
+  assertEquals(resolveEmailLanguage("ja"), "en");
+  assertEquals(resolveEmailLanguage(null), "en");
+});
+
+Deno.test("renderEmail - alert in the user's language", () => {
+  const email = renderEmail(
+    { template: "alert", params: { assetName: "Apple Inc.", symbol: "AAPL", reason: "AAPL is above $200" } },
+    "fr"
+  );
+
+  assertEquals(email.subject, "Alerte de prix : Apple Inc. (AAPL)");
+  assert(email.text.includes("Une de vos alertes a été déclenchée."));
+  assert(email.text.includes("AAPL is above $200"));
+});
+
+Deno.test("renderEmail - weekly digest formats money and percentages", () => {
+  const email = renderEmail(
+    {
+      template: "weekly_digest",
+      params: {
+        currency: "USD",
+        totalValue: 12500,
+        change: 250,
+        changePercent: 2.04,
+        portfolios: [
+          { name: "Brokerage", value: 10000, changePercent: 2.5 },
+          { name: "Crypto", value: 2500, changePercent: null },
+        ],
+      },
+    },
+    "en"
+  );
+
+  assertEquals(email.subject, "Your weekly portfolio digest");
+  assert(email.text.includes("Total value: $12,500.00"));
+  assert(email.text.includes("Change this week: $250.00 (+2.04%)"));
+  assert(email.text.includes("- Brokerage: $10,000.00 (+2.50%)"));
+  assert(email.text.includes("- Crypto: $2,500.00 (–)"));
+});
+
+Deno.test("renderEmail - daily insight skips empty lists and escapes HTML", () => {
+  const email = renderEmail(
+    {
+      template: "daily_insight",
+      params: { healthScore: 7.25, riskScore: 4, warnings: [], recommendations: ["Trim <TSLA> & rebalance"] },
+    },
+    "en"
+  );
+
+  assert(email.text.includes("Health score: 7.3/10"));
+  assert(!email.text.includes("Warnings"));
+  assert(email.html.includes("<li>Trim &lt;TSLA&gt; &amp; rebalance</li>"));
+});
+
+Deno.test("renderEmail - held notifications are listed in one email", () => {
+  const email = renderEmail(
+    {
+      template: "held_notifications",
+      params: {
+        items: [
+          { title: "Price Alert Triggered", body: "AAPL is above $200" },
+          { title: "Export Ready", body: "Your CSV export is ready" },
+        ],
+      },
+    },
+    "es"
+  );
+
+  assertEquals(email.subject, "2 notificaciones mientras no estabas");
+  assert(email.text.includes("Price Alert Triggered: AAPL is above $200"));
+  assert(email.text.includes("Export Ready: Your CSV export is ready"));
+});
@@ -0,0 +1,315 @@
+// =====================================================
+// Vestpod - Email Templates
+// =====================================================
+// Localized email templates:
+// - Alert triggered
+// - Weekly portfolio digest
+// - Daily AI insight summary
+// - Notifications held during quiet hours
+// - Generic notification (subscription, export)
+// Language follows user_profiles.language_preference
+// (en, es, fr, de; anything else falls back to English)
+
+/**
+ * Supported email languages
+ */
+export const EMAIL_LANGUAGES = ["en", "es", "fr", "de"] as const;
+export type EmailLanguage = typeof EMAIL_LANGUAGES[number];
+
+/**
+ * Portfolio line in the weekly digest
+ */
+export interface DigestPortfolio {
+  name: string;
+  value: number;
+  changePercent: number | null;
+}
+
+/**
+ * Template and its parameters
+ */
+export type EmailTemplate =
+  | { template: "alert"; params: { assetName: string; symbol?: string | null; reason: string } }
+  | {
+    template: "weekly_digest";
+    params: {
+      currency: string;
+      totalValue: number;
+      change: number;
+      changePercent: number | null;
+      portfolios: DigestPortfolio[];
+    };
+  }
+  | {
+    template: "daily_insight";
+    params: { healthScore: number; riskScore: number; warnings: string[]; recommendations: string[] };
+  }
+  | { template: "held_notifications"; params: { items: { title: string; body: string }[] } }
+  | { template: "generic"; params: { title: string; body: string } };
+
+/**
+ * Rendered email content
+ */
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface Strings {
+  alertSubject: (asset: string) => string;
+  alertIntro: string;
+  digestSubject: string;
+  digestIntro: string;
+  digestTotal: string;
+  digestChange: string;
+  digestPortfolios: string;
+  insightSubject: string;
+  insightIntro: string;
+  insightHealth: string;
+  insightRisk: string;
+  insightWarnings: string;
+  insightRecommendations: string;
+  heldSubject: (count: number) => string;
+  heldIntro: string;
+  openApp: string;
+  footer: string;
+}
+
+const STRINGS: Record<EmailLanguage, Strings> = {
+  en: {
+    alertSubject: (asset) => `Price alert: ${asset}`,
+    alertIntro: "One of your alerts was triggered.",
+    digestSubject: "Your weekly portfolio digest",
+    digestIntro: "Here is how your portfolio did this week.",
+    digestTotal: "Total value",
+    digestChange: "Change this week",
+    digestPortfolios: "Portfolios",
+    insightSubject: "Your daily portfolio insights",
+    insightIntro: "Today's AI analysis of your portfolio.",
+    insightHealth: "Health score",
+    insightRisk: "Risk score",
+    insightWarnings: "Warnings",
+    insightRecommendations: "Recommendations",
+    heldSubject: (count) => `${count} notifications while you were away`,
+    heldIntro: "These arrived during your quiet hours.",
+    openApp: "Open Vestpod for details.",
+    footer: "You can change which emails you receive in Settings > Notifications.",
+  },
+  es: {
+    alertSubject: (asset) => `Alerta de precio: ${asset}`,
+    alertIntro: "Se ha activado una de tus alertas.",
+    digestSubject: "Tu resumen semanal de cartera",
+    digestIntro: "Así le fue a tu cartera esta semana.",
+    digestTotal: "Valor total",
+    digestChange: "Cambio esta semana",
+    digestPortfolios: "Carteras",
+    insightSubject: "Tus análisis diarios de cartera",
+    insightIntro: "El análisis de IA de hoy sobre tu cartera.",
+    insightHealth: "Puntuación de salud",
+    insightRisk: "Puntuación de riesgo",
+    insightWarnings: "Advertencias",
+    insightRecommendations: "Recomendaciones",
+    heldSubject: (count) => `${count} notificaciones mientras no estabas`,
+    heldIntro: "Llegaron durante tus horas de silencio.",
+    openApp: "Abre Vestpod para ver los detalles.",
+    footer: "Puedes elegir qué correos recibes en Ajustes > Notificaciones.",
+  },
+  fr: {
+    alertSubject: (asset) => `Alerte de prix : ${asset}`,
+    alertIntro: "Une de vos alertes a été déclenchée.",
+    digestSubject: "Votre résumé hebdomadaire de portefeuille",
+    digestIntro: "Voici l'évolution de votre portefeuille cette semaine.",
+    digestTotal: "Valeur totale",
+    digestChange: "Variation cette semaine",
+    digestPortfolios: "Portefeuilles",
+    insightSubject: "Vos analyses quotidiennes de portefeuille",
+    insightIntro: "L'analyse IA du jour pour votre portefeuille.",
+    insightHealth: "Score de santé",
+    insightRisk: "Score de risque",
+    insightWarnings: "Avertissements",
+    insightRecommendations: "Recommandations",
+    heldSubject: (count) => `${count} notifications pendant votre absence`,
+    heldIntro: "Elles sont arrivées pendant vos heures calmes.",
+    openApp: "Ouvrez Vestpod pour plus de détails.",
+    footer: "Vous pouvez choisir les e-mails que vous recevez dans Réglages > Notifications.",
+  },
+  de: {
+    alertSubject: (asset) => `Preisalarm: ${asset}`,
+    alertIntro: "Einer Ihrer Alarme wurde ausgelöst.",
+    digestSubject: "Ihre wöchentliche Portfolio-Übersicht",
+    digestIntro: "So hat sich Ihr Portfolio diese Woche entwickelt.",
+    digestTotal: "Gesamtwert",
+    digestChange: "Veränderung diese Woche",
+    digestPortfolios: "Portfolios",
+    insightSubject: "Ihre täglichen Portfolio-Einblicke",
+    insightIntro: "Die heutige KI-Analyse Ihres Portfolios.",
+    insightHealth: "Gesundheitswert",
+    insightRisk: "Risikowert",
+    insightWarnings: "Warnungen",
+    insightRecommendations: "Empfehlungen",
+    heldSubject: (count) => `${count} Benachrichtigungen während Ihrer Ruhezeit`,
+    heldIntro: "Diese sind während Ihrer Ruhezeit eingegangen.",
+    openApp: "Öffnen Sie Vestpod für Details.",
+    footer: "Unter Einstellungen > Benachrichtigungen legen Sie fest, welche E-Mails Sie erhalten.",
+  },
+};
+
+/**
+ * Map a language preference (e.g. "es-MX") to a supported language
+ */
+export function resolveEmailLanguage(preference: string | null | undefined): EmailLanguage {
+  const base = (preference || "").split("-")[0].toLowerCase();
+  return EMAIL_LANGUAGES.includes(base as EmailLanguage) ? base as EmailLanguage : "en";
+}
+
+/**
+ * Escape text for HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatMoney(value: number, currency: string, language: EmailLanguage): string {
+  return new Intl.NumberFormat(language, { style: "currency", currency }).format(value);
+}
+
+function formatPercent(value: number | null, language: EmailLanguage): string {
+  if (value === null) return "–";
+  const formatted = new Intl.NumberFormat(language, { maximumFractionDigits: 2, minimumFractionDigits: 2 })
+    .format(value);
+  return `${value > 0 ? "+" : ""}${formatted}%`;
+}
+
+/**
+ * Content block: paragraph, key/value rows or a list
+ */
+type Block =
+  | { kind: "text"; value: string }
+  | { kind: "rows"; rows: [string, string][] }
+  | { kind: "list"; heading: string; items: string[] };
+
+/**
+ * Render blocks into text and HTML bodies
+ */
+function renderBlocks(blocks: Block[], strings: Strings): { text: string; html: string } {
+  const text: string[] = [];
+  const html: string[] = [];
+
+  for (const block of blocks) {
+    if (block.kind === "text") {
+      text.push(block.value);
+      html.push(`<p>${escapeHtml(block.value)}</p>`);
+    } else if (block.kind === "rows") {
+      text.push(block.rows.map(([label, value]) => `${label}: ${value}`).join("\n"));
+      html.push(
+        `<table>${
+          block.rows.map(([label, value]) =>
+            `<tr><td>${escapeHtml(label)}</td><td><strong>${escapeHtml(value)}</strong></td></tr>`
+          ).join("")
+        }</table>`
+      );
+    } else if (block.items.length > 0) {
+      text.push(`${block.heading}:\n${block.items.map((item) => `- ${item}`).join("\n")}`);
+      html.push(
+        `<h3>${escapeHtml(block.heading)}</h3><ul>${
+          block.items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")
+        }</ul>`
+      );
+    }
+  }
+
+  text.push(strings.openApp, "--", strings.footer);
+  html.push(`<p>${escapeHtml(strings.openApp)}</p>`, `<hr><p><small>${escapeHtml(strings.footer)}</small></p>`);
+
+  return {
+    text: text.join("\n\n"),
+    html: `<!DOCTYPE html><html><body style="font-family: sans-serif;">${html.join("")}</body></html>`,
+  };
+}
+
+/**
+ * Render an email in the user's language
+ *
+ * @param input - Template and parameters
+ * @param languagePreference - user_profiles.language_preference
+ */
+export function renderEmail(input: EmailTemplate, languagePreference?: string | null): RenderedEmail {
+  const language = resolveEmailLanguage(languagePreference);
+  const strings = STRINGS[language];
+
+  let subject: string;
+  let blocks: Block[];
+
+  switch (input.template) {
+    case "alert": {
+      const asset = input.params.symbol ? `${input.params.assetName} (${input.params.symbol})` : input.params.assetName;
+      subject = strings.alertSubject(asset);
+      blocks = [
+        { kind: "text", value: strings.alertIntro },
+        { kind: "text", value: input.params.reason },
+      ];
+      break;
+    }
+    case "weekly_digest": {
+      const { currency, totalValue, change, changePercent, portfolios } = input.params;
+      subject = strings.digestSubject;
+      blocks = [
+        { kind: "text", value: strings.digestIntro },
+        {
+          kind: "rows",
+          rows: [
+            [strings.digestTotal, formatMoney(totalValue, currency, language)],
+            [
+              strings.digestChange,
+              `${formatMoney(change, currency, language)} (${formatPercent(changePercent, language)})`,
+            ],
+          ],
+        },
+        {
+          kind: "list",
+          heading: strings.digestPortfolios,
+          items: portfolios.map((p) =>
+            `${p.name}: ${formatMoney(p.value, currency, language)} (${formatPercent(p.changePercent, language)})`
+          ),
+        },
+      ];
+      break;
+    }
+    case "daily_insight": {
+      const { healthScore, riskScore, warnings, recommendations } = input.params;
+      subject = strings.insightSubject;
+      blocks = [
+        { kind: "text", value: strings.insightIntro },
+        {
+          kind: "rows",
+          rows: [
+            [strings.insightHealth, `${healthScore.toFixed(1)}/10`],
+            [strings.insightRisk, `${riskScore.toFixed(1)}/10`],
+          ],
+        },
+        { kind: "list", heading: strings.insightWarnings, items: warnings },
+        { kind: "list", heading: strings.insightRecommendations, items: recommendations },
+      ];
+      break;
+    }
+    case "held_notifications": {
+      const { items } = input.params;
+      subject = strings.heldSubject(items.length);
+      blocks = [
+        { kind: "text", value: strings.heldIntro },
+        { kind: "rows", rows: items.map((item): [string, string] => [item.title, item.body]) },
+      ];
+      break;
+    }
+    default:
+      subject = input.params.title;
+      blocks = [{ kind: "text", value: input.params.body }];
+  }
+
+  return { subject, ...renderBlocks(blocks, strings) };
+}
@@ -0,0 +1,44 @@
+// =====================================================
+// Vestpod - FX Rates Tests
+// =====================================================
+// Tests for currency conversion and FX gain decomposition
+// Run with: deno test fx-rates.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { conversionFactor, convertAssetMetrics } from "./fx-rates.ts";
+
+const rates = { USD: 1, EUR: 0.8, GBP: 0.5 };
+
+Deno.test("conversionFactor - crosses USD-based rates", () => {
+  assertEquals(conversionFactor("USD", "USD", rates), 1);
+  assertEquals(conversionFactor("USD", "EUR", rates), 0.8);
+  assertEquals(conversionFactor("EUR", "USD", rates), 1.25);
+  assertEquals(conversionFactor("GBP", "EUR", rates), 1.6);
+  assertEquals(conversionFactor("JPY", "USD", rates), null);
+});
+
+Deno.test("convertAssetMetrics - splits gain into price and FX components", () => {
+  // 10 units bought at 100 EUR (1.25 USD/EUR), now 110 EUR (1.5 USD/EUR)
+  const metrics = convertAssetMetrics(
+    { quantity: 10, purchase_price: "100", current_price: 110 },
+    { purchase: 1.25, current: 1.5 }
+  );
+
+  assertEquals(metrics.totalCost, 1250);
+  assertEquals(metrics.totalValue, 1650);
+  assertEquals(metrics.priceGain, 125);
+  assertEquals(metrics.fxGain, 275);
+  assertEquals(metrics.gainLoss, 400);
+  assertEquals(metrics.gainLossPercent, 32);
+});
+
+Deno.test("convertAssetMetrics - no FX gain in the asset's own currency", () => {
+  const metrics = convertAssetMetrics(
+    { quantity: 2, purchase_price: 50, current_price: null },
+    { purchase: 1, current: 1 }
+  );
+
+  assertEquals(metrics.totalValue, 100);
+  assertEquals(metrics.gainLoss, 0);
+  assertEquals(metrics.fxGain, 0);
+});
@@ -0,0 +1,246 @@
+// =====================================================
+// Vestpod - FX Rates Module
+// =====================================================
+// Converts asset values into the user's preferred currency
+// - Daily USD-based rates cached in the fx_rates table
+//   (fetched from ExchangeRate-API at most once per day)
+// - Cross rates between any two cached currencies
+// - Price gain vs FX gain decomposition
+// Requirements: 5, 12
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { fetchAllRates } from "./exchangerate-api-client.ts";
+
+// All cached rates are quoted from USD; other pairs are crossed
+export const FX_BASE_CURRENCY = "USD";
+
+/**
+ * Units of each currency per 1 USD
+ */
+export type RateTable = Record<string, number>;
+
+/**
+ * Conversion factors for one asset into the reporting currency
+ * (reporting currency units per 1 unit of asset currency)
+ */
+export interface FxFactors {
+  purchase: number;
+  current: number;
+}
+
+/**
+ * Asset values in the reporting currency
+ */
+export interface ConvertedMetrics {
+  totalValue: number;
+  totalCost: number;
+  gainLoss: number;
+  gainLossPercent: number;
+  priceGain: number;
+  fxGain: number;
+}
+
+/**
+ * Conversion factor from one currency into another
+ *
+ * @param from - Currency the amount is in
+ * @param to - Currency to convert into
+ * @param rates - USD-based rate table
+ * @returns Units of `to` per 1 unit of `from`, or null if either rate is missing
+ */
+export function conversionFactor(from: string, to: string, rates: RateTable): number | null {
+  if (from === to) return 1;
+
+  const fromRate = from === FX_BASE_CURRENCY ? 1 : rates[from];
+  const toRate = to === FX_BASE_CURRENCY ? 1 : rates[to];
+
+  if (!fromRate || !toRate) return null;
+  return toRate / fromRate;
+}
+
+/**
+ * Convert asset metrics into the reporting currency
+ * Cost is converted at the purchase-date rate and value at the
+ * current rate; the difference splits into price gain (native
+ * gain at the purchase rate) and FX gain (rate move on current value)
+ */
+export function convertAssetMetrics(
+  asset: { quantity: number | string; purchase_price: number | string; current_price: number | string | null },
+  factors: FxFactors
+): ConvertedMetrics {
+  const quantity = Number(asset.quantity);
+  const purchasePrice = Number(asset.purchase_price);
+  const currentPrice = asset.current_price ? Number(asset.current_price) : purchasePrice;
+
+  const nativeValue = quantity * currentPrice;
+  const nativeCost = quantity * purchasePrice;
+
+  const totalValue = nativeValue * factors.current;
+  const totalCost = nativeCost * factors.purchase;
+  const priceGain = (nativeValue - nativeCost) * factors.purchase;
+  const fxGain = nativeValue * (factors.current - factors.purchase);
+  const gainLoss = totalValue - totalCost;
+
+  return {
+    totalValue: Number(totalValue.toFixed(2)),
+    totalCost: Number(totalCost.toFixed(2)),
+    gainLoss: Number(gainLoss.toFixed(2)),
+    gainLossPercent: totalCost > 0 ? Number(((gainLoss / totalCost) * 100).toFixed(2)) : 0,
+    priceGain: Number(priceGain.toFixed(2)),
+    fxGain: Number(fxGain.toFixed(2)),
+  };
+}
+
+/**
+ * Build a rate table from fx_rates rows
+ */
+function toRateTable(rows: { target_currency: string; rate: number | string }[]): RateTable {
+  const rates: RateTable = { [FX_BASE_CURRENCY]: 1 };
+  for (const row of rows) {
+    rates[row.target_currency] = Number(row.rate);
+  }
+  return rates;
+}
+
+/**
+ * Get cached rates for the most recent date on or before `date`
+ */
+async function getCachedRates(
+  supabase: ReturnType<typeof createClient>,
+  date: string
+): Promise<{ rates: RateTable; rateDate: string } | null> {
+  const { data: latest } = await supabase
+    .from("fx_rates")
+    .select("rate_date")
+    .eq("base_currency", FX_BASE_CURRENCY)
+    .lte("rate_date", date)
+    .order("rate_date", { ascending: false })
+    .limit(1)
+    .single();
+
+  if (!latest) return null;
+
+  const { data: rows, error } = await supabase
+    .from("fx_rates")
+    .select("target_currency, rate")
+    .eq("base_currency", FX_BASE_CURRENCY)
+    .eq("rate_date", latest.rate_date);
+
+  if (error || !rows || rows.length === 0) return null;
+
+  return { rates: toRateTable(rows), rateDate: latest.rate_date };
+}
+
+/**
+ * Get today's exchange rates
+ * Served from the fx_rates cache; fetched from ExchangeRate-API and
+ * stored when today's rates are missing. Falls back to the most
+ * recent cached rates if the API is unavailable.
+ *
+ * @param supabase - Service role client
+ * @param apiKey - ExchangeRate-API key
+ * @returns USD-based rate table (empty if nothing is cached and the API fails)
+ */
+export async function getLatestRates(
+  supabase: ReturnType<typeof createClient>,
+  apiKey: string
+): Promise<RateTable> {
+  const today = new Date().toISOString().split("T")[0];
+
+  const cached = await getCachedRates(supabase, today);
+  if (cached && cached.rateDate === today) {
+    return cached.rates;
+  }
+
+  try {
+    const { rates } = await fetchAllRates(FX_BASE_CURRENCY, apiKey);
+
+    const rows = Object.entries(rates).map(([currency, rate]) => ({
+      base_currency: FX_BASE_CURRENCY,
+      target_currency: currency,
+      rate,
+      rate_date: today,
+    }));
+
+    const { error } = await supabase
+      .from("fx_rates")
+      .upsert(rows, { onConflict: "base_currency,target_currency,rate_date" });
+
+    if (error) {
+      console.error("Error caching fx rates:", error);
+    }
+
+    return { ...rates, [FX_BASE_CURRENCY]: 1 };
+  } catch (error) {
+    console.error("Error fetching fx rates, using cached rates:", error);
+    return cached?.rates || {};
+  }
+}
+
+/**
+ * Get exchange rates as of a past date from the cache
+ * Uses the closest cached date on or before `date`
+ *
+ * @returns USD-based rate table, or null if no rates are cached for that period
+ */
+export async function getHistoricalRates(
+  supabase: ReturnType<typeof createClient>,
+  date: string
+): Promise<RateTable | null> {
+  const cached = await getCachedRates(supabase, date);
+  return cached?.rates || null;
+}
+
+/**
+ * Resolve purchase and current conversion factors for a set of assets
+ * Purchase-date rates come from the cache; when none are cached that
+ * far back the current rate is used, so FX gain is reported as zero.
+ * Assets whose currency has no rate are left out of the result.
+ *
+ * @param supabase - Service role client
+ * @param assets - Assets with id, currency and purchase_date
+ * @param reportingCurrency - User's preferred currency
+ * @param apiKey - ExchangeRate-API key
+ * @returns Factors keyed by asset id
+ */
+export async function getAssetFxFactors(
+  supabase: ReturnType<typeof createClient>,
+  assets: { id: string; currency?: string | null; purchase_date: string }[],
+  reportingCurrency: string,
+  apiKey: string
+): Promise<Map<string, FxFactors>> {
+  const factors = new Map<string, FxFactors>();
+  const needsConversion = assets.some((a) => (a.currency || FX_BASE_CURRENCY) !== reportingCurrency);
+
+  if (!needsConversion) {
+    for (const asset of assets) {
+      factors.set(asset.id, { purchase: 1, current: 1 });
+    }
+    return factors;
+  }
+
+  const latestRates = await getLatestRates(supabase, apiKey);
+  const historicalByDate = new Map<string, RateTable | null>();
+
+  for (const asset of assets) {
+    const currency = asset.currency || FX_BASE_CURRENCY;
+    const current = conversionFactor(currency, reportingCurrency, latestRates);
+    if (current === null) continue;
+
+    if (currency === reportingCurrency) {
+      factors.set(asset.id, { purchase: 1, current: 1 });
+      continue;
+    }
+
+    if (!historicalByDate.has(asset.purchase_date)) {
+      historicalByDate.set(asset.purchase_date, await getHistoricalRates(supabase, asset.purchase_date));
+    }
+
+    const historical = historicalByDate.get(asset.purchase_date);
+    const purchase = historical ? conversionFactor(currency, reportingCurrency, historical) : null;
+
+    factors.set(asset.id, { purchase: purchase ?? current, current });
+  }
+
+  return factors;
+}
@@ -5,6 +5,9 @@
 // assistance, and multi-step reasoning capabilities
 // Requirements: 8, 9
 
+import { RiskMetrics } from "./risk-metrics.ts";
+import { CorrelationResult } from "./correlation.ts";
+
 const GEMINI_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
 const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY = 1000; // 1 second
@@ -81,6 +84,10 @@ export interface PortfolioContext {
   assets: AssetContext[];
   priceHistory?: PriceHistoryContext[];
   userPreferences?: UserPreferences;
+  riskMetrics?: RiskMetrics;
+  correlation?: CorrelationResult;
+  // Currencies with no exchange rate; their assets are left out
+  unconvertedCurrencies?: string[];
 }
 
 /**
@@ -308,6 +315,46 @@ export async function generatePortfolioInsights(
   }
 }
 
+/**
+ * Describe risk metrics for the prompt
+ */
+function formatRiskMetrics(metrics: RiskMetrics): string {
+  const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+  const ratio = (value: number | null) => (value === null ? "n/a" : value.toFixed(2));
+
+  return [
+    `- Annualized Return: ${percent(metrics.annualizedReturn)}`,
+    `- Annualized Volatility: ${percent(metrics.annualizedVolatility)}`,
+    `- Sharpe Ratio: ${ratio(metrics.sharpeRatio)}`,
+    `- Sortino Ratio: ${ratio(metrics.sortinoRatio)}`,
+    `- Beta${metrics.benchmark ? ` vs ${metrics.benchmark.toUpperCase()}` : ""}: ${ratio(metrics.beta)}`,
+    `- 1-Day VaR (${percent(metrics.confidence)}): ${percent(metrics.historicalVaR)} historical, ${percent(metrics.parametricVaR)} parametric`,
+    `- 1-Day CVaR: ${percent(metrics.historicalCVaR)} historical, ${percent(metrics.parametricCVaR)} parametric`,
+    `- Max Drawdown: ${percent(metrics.maxDrawdown.drawdown)}`,
+    `- Share of Portfolio Covered: ${percent(metrics.coverage)}`,
+  ].join("\n");
+}
+
+/**
+ * Describe holdings correlation for the prompt
+ */
+function formatCorrelation(correlation: CorrelationResult): string {
+  const lines = [
+    `- Effective Number of Bets: ${correlation.effectiveBets ?? "n/a"} (of ${correlation.assets.length} holdings with history)`,
+    `- Average Pairwise Correlation: ${correlation.averageCorrelation ?? "n/a"}`,
+  ];
+
+  if (correlation.highlyCorrelated.length > 0) {
+    lines.push(
+      `- Highly Correlated Pairs: ${
+        correlation.highlyCorrelated.map((p) => `${p.first}/${p.second} (${p.correlation})`).join(", ")
+      }`
+    );
+  }
+
+  return lines.join("\n");
+}
+
 /**
  * Build portfolio analysis prompt
  */
@@ -331,7 +378,14 @@ Portfolio Context:
 - Number of Assets: ${context.assets.length}
 - Assets:
 ${assetsDescription}
-
+${context.unconvertedCurrencies?.length ? `- Not included (no exchange rate): holdings in ${context.unconvertedCurrencies.join(", ")}
+` : ""}
+${context.riskMetrics ? `Risk Metrics (daily returns, ${context.riskMetrics.startDate} to ${context.riskMetrics.endDate}):
+${formatRiskMetrics(context.riskMetrics)}
+` : ""}
+${context.correlation ? `Diversification (correlation of daily returns, ${context.correlation.startDate} to ${context.correlation.endDate}):
+${formatCorrelation(context.correlation)}
+` : ""}
 ${context.userPreferences ? `User Preferences:
 - Risk Tolerance: ${context.userPreferences.riskTolerance || "Not specified"}
 - Investment Goals: ${context.userPreferences.investmentGoals?.join(", ") || "Not specified"}
@@ -342,7 +396,7 @@ Use multi-step reasoning to analyze:
 2. Analyze geographic exposure by country
 3. Analyze sector exposure by industry
 4. Generate warnings if concentration exceeds thresholds (60% country, 40% sector)
-5. Provide actionable recommendations
+5. Provide actionable recommendations, citing the risk metrics and correlations above when relevant
 6. Self-verify your calculations
 
 Output Format (JSON only, no additional text):
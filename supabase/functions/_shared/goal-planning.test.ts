@@ -0,0 +1,92 @@
+// =====================================================
+// Vestpod - Goal Planning Tests
+// =====================================================
+// Tests for goal validation, the return model and the
+// Monte Carlo goal projection
+// Run with: deno test goal-planning.test.ts
+
+import { assert, assertAlmostEquals, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { addMonths, estimateReturnModel, projectGoal, ReturnModel, validateGoal } from "./goal-planning.ts";
+import { HoldingHistory } from "./risk-metrics.ts";
+import { addDays } from "./portfolio-snapshots.ts";
+
+const TODAY = "2024-06-15";
+
+function history(symbol: string, value: number, logReturns: number[]): HoldingHistory {
+  const prices = [{ date: "2024-01-01", price: 100 }];
+  logReturns.forEach((r, i) => {
+    prices.push({ date: addDays("2024-01-01", i + 1), price: prices[i].price * Math.exp(r) });
+  });
+  return {
+    holding: { assetId: symbol, name: symbol, symbol, assetType: "stock", quantity: 1, fxFactor: 1, value },
+    prices,
+  };
+}
+
+Deno.test("addMonths - clamps to the end of shorter months", () => {
+  assertEquals(addMonths("2024-01-31", 1), "2024-02-29");
+  assertEquals(addMonths("2024-06-15", 18), "2025-12-15");
+});
+
+Deno.test("validateGoal - amount, future date within 50 years and contribution", () => {
+  const goal = { name: "House", target_amount: 100000, target_date: "2030-01-01", monthly_contribution: 500 };
+
+  assertEquals(validateGoal(goal, TODAY).valid, true);
+  assertEquals(validateGoal({ ...goal, name: " " }, TODAY).valid, false);
+  assertEquals(validateGoal({ ...goal, target_amount: 0 }, TODAY).valid, false);
+  assertEquals(validateGoal({ ...goal, target_date: "2024-06-15" }, TODAY).valid, false);
+  assertEquals(validateGoal({ ...goal, target_date: "2080-01-01" }, TODAY).valid, false);
+  assertEquals(validateGoal({ ...goal, monthly_contribution: -1 }, TODAY).valid, false);
+  assertEquals(validateGoal({ monthly_contribution: 250 }, TODAY, true).valid, true);
+});
+
+Deno.test("estimateReturnModel - weighted mean and covariance of log returns", () => {
+  const a = Array.from({ length: 60 }, (_, i) => (i % 2 === 0 ? 0.02 : -0.01));
+  const model = estimateReturnModel([
+    history("A", 5000, a),
+    history("B", 5000, a.map((r) => -r)),
+    history("NEW", 10000, [0.01]),
+  ]);
+
+  // A and B cancel out; NEW has no history and is held flat
+  assertEquals(model.coverage, 0.5);
+  assertEquals(model.observations, 60);
+  assertAlmostEquals(model.volatility, 0, 1e-9);
+  assertAlmostEquals(model.meanLogReturn, 0, 1e-9);
+});
+
+Deno.test("estimateReturnModel - cash is held flat", () => {
+  const a = Array.from({ length: 60 }, () => 0.001);
+  const invested = estimateReturnModel([history("A", 5000, a)]);
+  const withCash = estimateReturnModel([history("A", 5000, a)], 5000);
+
+  assertEquals(withCash.coverage, 0.5);
+  assertAlmostEquals(withCash.meanLogReturn, invested.meanLogReturn / 2, 1e-9);
+});
+
+Deno.test("projectGoal - deterministic growth with contributions", () => {
+  const model: ReturnModel = { meanLogReturn: 0, volatility: 0, coverage: 1, observations: 100 };
+  const projection = projectGoal(1000, { targetAmount: 2200, targetDate: "2025-06-15", monthlyContribution: 100 }, model, TODAY);
+
+  assertEquals(projection.months, 12);
+  assertEquals(projection.totalContributions, 1200);
+  assertEquals(projection.paths.length, 13);
+  assertEquals(projection.paths[1], { date: "2024-07-15", p10: 1100, p25: 1100, p50: 1100, p75: 1100, p90: 1100 });
+  assertEquals(projection.finalValue.p50, 2200);
+  assertEquals(projection.probability, 1);
+});
+
+Deno.test("projectGoal - percentiles spread out and probability is reproducible", () => {
+  const model: ReturnModel = { meanLogReturn: 0.06, volatility: 0.2, coverage: 1, observations: 250 };
+  const goal = { targetAmount: 15000, targetDate: "2034-06-15", monthlyContribution: 0 };
+
+  const first = projectGoal(10000, goal, model, TODAY);
+  const second = projectGoal(10000, goal, model, TODAY);
+
+  const final = first.finalValue;
+  assert(final.p10 < final.p25 && final.p25 < final.p50 && final.p50 < final.p75 && final.p75 < final.p90);
+  // Median of a lognormal: 10000 * e^(0.06 * 10) = 18221
+  assertAlmostEquals(final.p50, 18221, 1500);
+  assert(first.probability > 0.5 && first.probability < 0.9);
+  assertEquals(second.probability, first.probability);
+});
@@ -0,0 +1,321 @@
+// =====================================================
+// Vestpod - Goal Planning Module
+// =====================================================
+// Savings goals and Monte Carlo projections:
+// - Goal validation (target amount, target date, monthly contribution)
+// - Return model from the holdings' historical daily log returns
+//   and their covariance
+// - Simulated monthly portfolio values with contributions
+// - Percentile paths and the probability of reaching the goal
+
+import { HoldingHistory, MIN_RISK_OBSERVATIONS } from "./risk-metrics.ts";
+import { isValidDate } from "./time-zones.ts";
+
+// Furthest target date
+export const MAX_GOAL_YEARS = 50;
+
+// Simulated paths per projection
+export const DEFAULT_SIMULATIONS = 1000;
+export const MAX_SIMULATIONS = 5000;
+
+// Percentiles reported for each month
+export const PROJECTION_PERCENTILES = [10, 25, 50, 75, 90] as const;
+
+// Goal names
+const MAX_GOAL_NAME_LENGTH = 100;
+
+// Same seed for every run, so a projection only changes with its inputs
+const DEFAULT_SEED = 1;
+
+const DAYS_PER_YEAR = 365;
+const MONTHS_PER_YEAR = 12;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Goal amounts (user's currency) and date
+ */
+export interface GoalInput {
+  targetAmount: number;
+  targetDate: string;
+  monthlyContribution: number;
+}
+
+/**
+ * Annual log return model of the portfolio
+ */
+export interface ReturnModel {
+  meanLogReturn: number;
+  volatility: number;
+  // Share of value with enough history; the rest is held flat
+  coverage: number;
+  observations: number;
+}
+
+/**
+ * Portfolio value percentiles on a date
+ */
+export interface ProjectionPoint {
+  date: string;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+/**
+ * Monte Carlo projection against a goal
+ */
+export interface GoalProjection {
+  startValue: number;
+  targetAmount: number;
+  targetDate: string;
+  monthlyContribution: number;
+  months: number;
+  totalContributions: number;
+  // Annual expected return and volatility the paths were drawn from
+  expectedReturn: number;
+  volatility: number;
+  coverage: number;
+  simulations: number;
+  // Share of paths at or above the target on the target date
+  probability: number;
+  finalValue: Omit<ProjectionPoint, "date">;
+  paths: ProjectionPoint[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Add calendar months to a date, clamping to the month's last day
+ */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const result = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result.toISOString().split("T")[0];
+}
+
+/**
+ * Validate goal fields
+ * Partial validation (updates) only checks the fields present
+ *
+ * @param body - Request body with name, target_amount, target_date, monthly_contribution
+ * @param today - Today's date (YYYY-MM-DD)
+ * @param partial - Allow missing fields
+ */
+export function validateGoal(
+  body: Record<string, unknown>,
+  today: string,
+  partial = false
+): { valid: boolean; error?: string } {
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== "string" || body.name.trim().length === 0) {
+      return { valid: false, error: "Goal name is required" };
+    }
+    if (body.name.length > MAX_GOAL_NAME_LENGTH) {
+      return { valid: false, error: `Goal name must be at most ${MAX_GOAL_NAME_LENGTH} characters` };
+    }
+  }
+
+  if (!partial || body.target_amount !== undefined) {
+    if (typeof body.target_amount !== "number" || !(body.target_amount > 0)) {
+      return { valid: false, error: "target_amount must be a positive number" };
+    }
+  }
+
+  if (!partial || body.target_date !== undefined) {
+    if (!isValidDate(body.target_date)) {
+      return { valid: false, error: "target_date must be a date (YYYY-MM-DD)" };
+    }
+    if (body.target_date <= today) {
+      return { valid: false, error: "target_date must be in the future" };
+    }
+    if (body.target_date > addMonths(today, MAX_GOAL_YEARS * MONTHS_PER_YEAR)) {
+      return { valid: false, error: `target_date must be within ${MAX_GOAL_YEARS} years` };
+    }
+  }
+
+  if (body.monthly_contribution !== undefined) {
+    if (typeof body.monthly_contribution !== "number" || !(body.monthly_contribution >= 0)) {
+      return { valid: false, error: "monthly_contribution must be a non-negative number" };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Estimate the portfolio's annual log return model
+ * Uses daily log returns between the dates every covered holding has
+ * a price; the portfolio mean and variance are w'mu and w'Sigma w at
+ * current value weights. Cash and holdings with too little history
+ * keep their value flat (zero return and volatility).
+ *
+ * @param histories - Holdings and their daily closes
+ * @param cash - Cash balance in the holdings' currency
+ */
+export function estimateReturnModel(histories: HoldingHistory[], cash = 0): ReturnModel {
+  const totalValue = histories.reduce((sum, h) => sum + h.holding.value, 0) + Math.max(cash, 0);
+  const covered = histories.filter((h) => h.prices.length > MIN_RISK_OBSERVATIONS && h.holding.value > 0);
+  const flat: ReturnModel = { meanLogReturn: 0, volatility: 0, coverage: 0, observations: 0 };
+
+  if (totalValue <= 0 || covered.length === 0) return flat;
+
+  // Dates every covered holding has a price on
+  const priceMaps = covered.map((h) => new Map(h.prices.map((p) => [p.date, p.price])));
+  const dates = [...priceMaps[0].keys()].filter((date) => priceMaps.every((m) => m.has(date))).sort();
+
+  const returns = priceMaps.map((prices) => {
+    const series: number[] = [];
+    for (let t = 1; t < dates.length; t++) {
+      const previous = prices.get(dates[t - 1])!;
+      const current = prices.get(dates[t])!;
+      series.push(previous > 0 && current > 0 ? Math.log(current / previous) : 0);
+    }
+    return series;
+  });
+
+  const observations = dates.length - 1;
+  if (observations < MIN_RISK_OBSERVATIONS) return flat;
+
+  // Trading-day series have fewer observations per year than calendar-day ones
+  const days = (Date.parse(dates[dates.length - 1]) - Date.parse(dates[0])) / MS_PER_DAY;
+  const periodsPerYear = (observations * DAYS_PER_YEAR) / days;
+
+  const weights = covered.map((h) => h.holding.value / totalValue);
+  const means = returns.map((series) => series.reduce((sum, r) => sum + r, 0) / observations);
+
+  let meanLogReturn = 0;
+  let variance = 0;
+  for (let i = 0; i < covered.length; i++) {
+    meanLogReturn += weights[i] * means[i] * periodsPerYear;
+    for (let j = 0; j < covered.length; j++) {
+      let covariance = 0;
+      for (let t = 0; t < observations; t++) {
+        covariance += (returns[i][t] - means[i]) * (returns[j][t] - means[j]);
+      }
+      variance += weights[i] * weights[j] * (covariance / (observations - 1)) * periodsPerYear;
+    }
+  }
+
+  return {
+    meanLogReturn,
+    volatility: Math.sqrt(Math.max(variance, 0)),
+    coverage: round4(weights.reduce((sum, w) => sum + w, 0)),
+    observations,
+  };
+}
+
+/**
+ * Seeded uniform random numbers in [0, 1) (mulberry32)
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal draws (Box-Muller)
+ */
+function normalSampler(random: () => number): () => number {
+  return () => {
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+}
+
+/**
+ * Value at a percentile of sorted values
+ */
+function percentile(sorted: Float64Array, p: number): number {
+  return sorted[Math.round((p / 100) * (sorted.length - 1))];
+}
+
+/**
+ * Project a portfolio against a goal with Monte Carlo simulation
+ * Each month the value grows by a lognormal return drawn from the
+ * model, then the monthly contribution is added.
+ *
+ * @param startValue - Current portfolio value (user's currency)
+ * @param goal - Target amount and date, monthly contribution
+ * @param model - Annual log return model
+ * @param today - Start date (YYYY-MM-DD)
+ * @param options - Number of simulations and random seed
+ */
+export function projectGoal(
+  startValue: number,
+  goal: GoalInput,
+  model: ReturnModel,
+  today: string,
+  options: { simulations?: number; seed?: number } = {}
+): GoalProjection {
+  const simulations = Math.min(Math.max(Math.floor(options.simulations ?? DEFAULT_SIMULATIONS), 1), MAX_SIMULATIONS);
+  const normal = normalSampler(seededRandom(options.seed ?? DEFAULT_SEED));
+
+  // Whole months to the target date (at least one)
+  const days = (Date.parse(goal.targetDate) - Date.parse(today)) / MS_PER_DAY;
+  const months = Math.max(1, Math.round((days / DAYS_PER_YEAR) * MONTHS_PER_YEAR));
+
+  const monthlyMean = model.meanLogReturn / MONTHS_PER_YEAR;
+  const monthlyVolatility = model.volatility / Math.sqrt(MONTHS_PER_YEAR);
+
+  // values[m][s]: value of path s after m months
+  const values = Array.from({ length: months + 1 }, () => new Float64Array(simulations));
+  values[0].fill(startValue);
+
+  for (let s = 0; s < simulations; s++) {
+    let value = startValue;
+    for (let m = 1; m <= months; m++) {
+      value = value * Math.exp(monthlyMean + monthlyVolatility * normal()) + goal.monthlyContribution;
+      values[m][s] = value;
+    }
+  }
+
+  const paths: ProjectionPoint[] = values.map((monthValues, m) => {
+    const sorted = monthValues.slice().sort();
+    const [p10, p25, p50, p75, p90] = PROJECTION_PERCENTILES.map((p) => round2(percentile(sorted, p)));
+    return {
+      date: m === months ? goal.targetDate : addMonths(today, m),
+      p10,
+      p25,
+      p50,
+      p75,
+      p90,
+    };
+  });
+
+  const finalValues = values[months];
+  const reached = finalValues.reduce((count, value) => count + (value >= goal.targetAmount ? 1 : 0), 0);
+  const { date: _date, ...finalValue } = paths[paths.length - 1];
+
+  return {
+    startValue: round2(startValue),
+    targetAmount: goal.targetAmount,
+    targetDate: goal.targetDate,
+    monthlyContribution: goal.monthlyContribution,
+    months,
+    totalContributions: round2(goal.monthlyContribution * months),
+    expectedReturn: round4(Math.exp(model.meanLogReturn + model.volatility ** 2 / 2) - 1),
+    volatility: round4(model.volatility),
+    coverage: model.coverage,
+    simulations,
+    probability: round4(reached / simulations),
+    finalValue,
+    paths,
+  };
+}
@@ -0,0 +1,74 @@
+// =====================================================
+// Vestpod - Income Module Tests
+// =====================================================
+// Tests for income summaries and coupon schedules
+// Run with: deno test income.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { generateCouponSchedule, isIncomeTypeAllowed, summarizeIncome } from "./income.ts";
+
+Deno.test("isIncomeTypeAllowed - matches income types to asset types", () => {
+  assertEquals(isIncomeTypeAllowed("stock", "dividend"), true);
+  assertEquals(isIncomeTypeAllowed("stock", "rent"), false);
+  assertEquals(isIncomeTypeAllowed("real_estate", "rent"), true);
+  assertEquals(isIncomeTypeAllowed("crypto", "staking_reward"), true);
+  assertEquals(isIncomeTypeAllowed("fixed_income", "coupon"), true);
+  assertEquals(isIncomeTypeAllowed("commodity", "dividend"), false);
+  assertEquals(isIncomeTypeAllowed("other", "interest"), true);
+});
+
+Deno.test("summarizeIncome - nets withholding tax by type and year", () => {
+  const summary = summarizeIncome([
+    { income_type: "dividend", amount: 100, withholding_tax: 15, payment_date: "2023-03-15" },
+    { income_type: "dividend", amount: 110, withholding_tax: 16.5, payment_date: "2024-03-15" },
+    { income_type: "rent", amount: "1200", payment_date: "2024-04-01" },
+  ]);
+
+  assertEquals(summary.gross, 1410);
+  assertEquals(summary.withholdingTax, 31.5);
+  assertEquals(summary.net, 1378.5);
+  assertEquals(summary.byType, { dividend: 178.5, rent: 1200 });
+  assertEquals(summary.byYear, { "2023": 85, "2024": 1293.5 });
+});
+
+Deno.test("summarizeIncome - filters to a calendar year", () => {
+  const summary = summarizeIncome([
+    { income_type: "coupon", amount: 50, payment_date: "2023-06-30" },
+    { income_type: "coupon", amount: 50, payment_date: "2024-06-30" },
+  ], 2024);
+
+  assertEquals(summary.net, 50);
+  assertEquals(summary.byYear, { "2024": 50 });
+});
+
+Deno.test("generateCouponSchedule - semi-annual coupons with principal at maturity", () => {
+  const payments = generateCouponSchedule(
+    { maturity_date: "2026-06-30", interest_rate: 5 },
+    10000,
+    "2025-01-01"
+  );
+
+  assertEquals(payments.map((p) => p.paymentDate), ["2025-06-30", "2025-12-31", "2026-06-30"]);
+  assertEquals(payments[0].couponAmount, 250);
+  assertEquals(payments[0].principalAmount, 0);
+  assertEquals(payments[2].totalAmount, 10250);
+});
+
+Deno.test("generateCouponSchedule - honors frequency, face value and month ends", () => {
+  const payments = generateCouponSchedule(
+    { maturity_date: "2025-05-31", interest_rate: "4", coupon_frequency: 4, face_value: 1000 },
+    950,
+    "2024-09-01"
+  );
+
+  assertEquals(payments.map((p) => p.paymentDate), ["2024-11-30", "2025-02-28", "2025-05-31"]);
+  assertEquals(payments[0].couponAmount, 10);
+  assertEquals(payments[2].principalAmount, 1000);
+});
+
+Deno.test("generateCouponSchedule - empty for incomplete or matured assets", () => {
+  assertEquals(generateCouponSchedule({ maturity_date: "2030-01-01" }, 1000), []);
+  assertEquals(generateCouponSchedule({ interest_rate: 3 }, 1000), []);
+  assertEquals(generateCouponSchedule({ maturity_date: "2020-01-01", interest_rate: 3 }, 1000, "2024-01-01"), []);
+  assertEquals(generateCouponSchedule(null, 1000), []);
+});
@@ -0,0 +1,199 @@
+// =====================================================
+// Vestpod - Income Module
+// =====================================================
+// Shared helpers for asset income (dividends, coupons,
+// interest, rent and staking rewards):
+// - Income type validation per asset type
+// - Income summaries (gross, withholding, net, by type/year)
+// - Projected coupon schedules from fixed income metadata
+
+/**
+ * Supported income types
+ */
+export const INCOME_TYPES = ["dividend", "coupon", "interest", "rent", "staking_reward"] as const;
+export type IncomeType = typeof INCOME_TYPES[number];
+
+/**
+ * Income types that can be recorded against each asset type
+ */
+export const INCOME_TYPES_BY_ASSET_TYPE: Record<string, IncomeType[]> = {
+  stock: ["dividend"],
+  crypto: ["staking_reward"],
+  commodity: [],
+  real_estate: ["rent"],
+  fixed_income: ["coupon", "interest"],
+  other: [...INCOME_TYPES],
+};
+
+/**
+ * Supported coupon payments per year
+ */
+export const COUPON_FREQUENCIES = [1, 2, 4, 12] as const;
+
+// Semi-annual coupons unless metadata.coupon_frequency says otherwise
+const DEFAULT_COUPON_FREQUENCY = 2;
+
+/**
+ * Income row from database
+ */
+export interface IncomeRecord {
+  income_type: IncomeType;
+  amount: number | string;
+  withholding_tax?: number | string | null;
+  payment_date: string;
+}
+
+/**
+ * Income totals
+ */
+export interface IncomeSummary {
+  gross: number;
+  withholdingTax: number;
+  net: number;
+  byType: Record<string, number>;
+  byYear: Record<string, number>;
+}
+
+/**
+ * Fixed income metadata used for coupon projection
+ */
+export interface FixedIncomeMetadata {
+  maturity_date?: string;
+  interest_rate?: number | string;
+  coupon_frequency?: number | string;
+  face_value?: number | string;
+}
+
+/**
+ * Projected coupon payment
+ */
+export interface CouponPayment {
+  paymentDate: string;
+  couponAmount: number;
+  principalAmount: number;
+  totalAmount: number;
+}
+
+/**
+ * Validate income type
+ */
+export function isValidIncomeType(type: string): type is IncomeType {
+  return INCOME_TYPES.includes(type as IncomeType);
+}
+
+/**
+ * Check whether an income type can be recorded against an asset type
+ */
+export function isIncomeTypeAllowed(assetType: string, incomeType: IncomeType): boolean {
+  return (INCOME_TYPES_BY_ASSET_TYPE[assetType] || []).includes(incomeType);
+}
+
+/**
+ * Summarize income records, optionally for a single calendar year
+ * Net income is gross amount less withholding tax
+ */
+export function summarizeIncome(records: IncomeRecord[], year?: number): IncomeSummary {
+  const inPeriod = year ? records.filter((r) => r.payment_date.startsWith(`${year}-`)) : records;
+
+  let gross = 0;
+  let withholdingTax = 0;
+  const byType: Record<string, number> = {};
+  const byYear: Record<string, number> = {};
+
+  for (const record of inPeriod) {
+    const amount = Number(record.amount);
+    const withheld = Number(record.withholding_tax || 0);
+    const net = amount - withheld;
+    const recordYear = record.payment_date.substring(0, 4);
+
+    gross += amount;
+    withholdingTax += withheld;
+    byType[record.income_type] = (byType[record.income_type] || 0) + net;
+    byYear[recordYear] = (byYear[recordYear] || 0) + net;
+  }
+
+  for (const key of Object.keys(byType)) byType[key] = Number(byType[key].toFixed(2));
+  for (const key of Object.keys(byYear)) byYear[key] = Number(byYear[key].toFixed(2));
+
+  return {
+    gross: Number(gross.toFixed(2)),
+    withholdingTax: Number(withholdingTax.toFixed(2)),
+    net: Number((gross - withholdingTax).toFixed(2)),
+    byType,
+    byYear,
+  };
+}
+
+/**
+ * Last day of the month for a date
+ */
+function lastDayOfMonth(date: Date): number {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+/**
+ * Shift a date by whole months, clamping to the last day of the month
+ * Month-end dates stay on month ends (e.g. Jun 30 -> Dec 31)
+ */
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const isMonthEnd = date.getUTCDate() === lastDayOfMonth(date);
+  result.setUTCDate(isMonthEnd ? lastDayOfMonth(result) : Math.min(date.getUTCDate(), lastDayOfMonth(result)));
+  return result;
+}
+
+/**
+ * Generate the projected coupon schedule for a fixed income asset
+ * Coupons are paid on dates counted back from maturity at the
+ * coupon frequency; principal is repaid with the final coupon.
+ * interest_rate is an annual percentage (e.g. 4.5 for 4.5%).
+ *
+ * @param metadata - Asset metadata (maturity_date, interest_rate, optional coupon_frequency and face_value)
+ * @param principal - Principal when metadata has no face_value (quantity x purchase price)
+ * @param fromDate - Only payments after this date are returned (YYYY-MM-DD, defaults to today)
+ * @returns Upcoming payments in date order, empty if the metadata is incomplete or matured
+ */
+export function generateCouponSchedule(
+  metadata: FixedIncomeMetadata | null | undefined,
+  principal: number,
+  fromDate?: string
+): CouponPayment[] {
+  if (!metadata?.maturity_date || metadata.interest_rate === undefined || metadata.interest_rate === null) {
+    return [];
+  }
+
+  const rate = Number(metadata.interest_rate);
+  const frequency = Number(metadata.coupon_frequency || DEFAULT_COUPON_FREQUENCY);
+  const faceValue = metadata.face_value !== undefined && metadata.face_value !== null
+    ? Number(metadata.face_value)
+    : principal;
+
+  if (isNaN(rate) || rate < 0 || !COUPON_FREQUENCIES.includes(frequency as typeof COUPON_FREQUENCIES[number])) {
+    return [];
+  }
+
+  const maturity = new Date(metadata.maturity_date);
+  const from = new Date(fromDate || new Date().toISOString().split("T")[0]);
+  if (isNaN(maturity.getTime()) || maturity <= from) {
+    return [];
+  }
+
+  const couponAmount = Number(((faceValue * rate) / 100 / frequency).toFixed(2));
+  const monthsBetweenPayments = 12 / frequency;
+  const payments: CouponPayment[] = [];
+
+  for (let i = 0; ; i++) {
+    const paymentDate = addMonths(maturity, -i * monthsBetweenPayments);
+    if (paymentDate <= from) break;
+
+    const principalAmount = i === 0 ? Number(faceValue.toFixed(2)) : 0;
+    payments.push({
+      paymentDate: paymentDate.toISOString().split("T")[0],
+      couponAmount,
+      principalAmount,
+      totalAmount: Number((couponAmount + principalAmount).toFixed(2)),
+    });
+  }
+
+  return payments.reverse();
+}
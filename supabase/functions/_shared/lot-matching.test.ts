@@ -0,0 +1,135 @@
+// =====================================================
+// Vestpod - Lot Matching Tests
+// =====================================================
+// Tests for realized/unrealized gain/loss by tax lot
+// Run with: deno test lot-matching.test.ts
+
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildGainsReport,
+  getHoldingPeriod,
+  LotTransaction,
+  matchLots,
+  summarizeRealizedByYear,
+} from "./lot-matching.ts";
+import { LedgerError } from "./transaction-ledger.ts";
+
+// Two lots at different prices, then a partial sale
+const ledger: LotTransaction[] = [
+  { id: "lot-1", transaction_type: "buy", quantity: 10, price: 100, transaction_date: "2022-01-10" },
+  { id: "lot-2", transaction_type: "buy", quantity: 10, price: 200, transaction_date: "2023-06-01" },
+  { id: "sale-1", transaction_type: "sell", quantity: 15, price: 250, transaction_date: "2023-09-01" },
+];
+
+Deno.test("getHoldingPeriod - more than one year is long term", () => {
+  assertEquals(getHoldingPeriod("2023-01-01", "2024-01-01"), "short_term");
+  assertEquals(getHoldingPeriod("2023-01-01", "2024-01-02"), "long_term");
+});
+
+Deno.test("matchLots - FIFO consumes oldest lots first", () => {
+  const result = matchLots(ledger, "fifo");
+
+  assertEquals(result.realized.length, 2);
+  assertEquals(result.realized[0].lotId, "lot-1");
+  assertEquals(result.realized[0].quantity, 10);
+  assertEquals(result.realized[0].gainLoss, 1500);
+  assertEquals(result.realized[0].holdingPeriod, "long_term");
+  assertEquals(result.realized[1].lotId, "lot-2");
+  assertEquals(result.realized[1].quantity, 5);
+  assertEquals(result.realized[1].gainLoss, 250);
+  assertEquals(result.realized[1].holdingPeriod, "short_term");
+
+  assertEquals(result.openLots.length, 1);
+  assertEquals(result.openLots[0].lotId, "lot-2");
+  assertEquals(result.openLots[0].quantity, 5);
+});
+
+Deno.test("matchLots - LIFO consumes newest lots first", () => {
+  const result = matchLots(ledger, "lifo");
+
+  assertEquals(result.realized[0].lotId, "lot-2");
+  assertEquals(result.realized[0].quantity, 10);
+  assertEquals(result.realized[0].gainLoss, 500);
+  assertEquals(result.realized[1].lotId, "lot-1");
+  assertEquals(result.realized[1].quantity, 5);
+  assertEquals(result.openLots[0].lotId, "lot-1");
+  assertEquals(result.openLots[0].quantity, 5);
+});
+
+Deno.test("matchLots - average cost uses pooled cost per unit", () => {
+  const result = matchLots(ledger, "average");
+  const totalGain = result.realized.reduce((sum, r) => sum + r.gainLoss, 0);
+
+  // 15 units sold at 250 against an average cost of 150
+  assertEquals(totalGain, 1500);
+  assertEquals(result.openLots[0].unitCost, 150);
+});
+
+Deno.test("matchLots - specific lot follows the user's selections", () => {
+  const result = matchLots([
+    ...ledger.slice(0, 2),
+    {
+      id: "sale-1",
+      transaction_type: "sell",
+      quantity: 15,
+      price: 250,
+      transaction_date: "2023-09-01",
+      lot_selections: [{ lotId: "lot-2", quantity: 10 }, { lotId: "lot-1", quantity: 5 }],
+    },
+  ], "specific_lot");
+
+  assertEquals(result.realized.map((r) => r.lotId), ["lot-2", "lot-1"]);
+  assertEquals(result.openLots[0].lotId, "lot-1");
+  assertEquals(result.openLots[0].quantity, 5);
+});
+
+Deno.test("matchLots - specific lot selections must cover the sale", () => {
+  assertThrows(
+    () =>
+      matchLots([
+        ...ledger.slice(0, 2),
+        {
+          transaction_type: "sell",
+          quantity: 15,
+          price: 250,
+          transaction_date: "2023-09-01",
+          lot_selections: [{ lotId: "lot-2", quantity: 10 }],
+        },
+      ], "specific_lot"),
+    LedgerError,
+  );
+});
+
+Deno.test("matchLots - sell fees reduce proceeds and transfers realize nothing", () => {
+  const result = matchLots([
+    { id: "lot-1", transaction_type: "buy", quantity: 2, price: 100, fees: 2, transaction_date: "2024-01-01" },
+    { transaction_type: "transfer_out", quantity: 1, price: 0, transaction_date: "2024-02-01" },
+    { transaction_type: "sell", quantity: 1, price: 150, fees: 5, transaction_date: "2024-03-01" },
+  ], "fifo");
+
+  assertEquals(result.realized.length, 1);
+  assertEquals(result.realized[0].proceeds, 145);
+  assertEquals(result.realized[0].costBasis, 101);
+  assertEquals(result.realized[0].gainLoss, 44);
+  assertEquals(result.openLots.length, 0);
+});
+
+Deno.test("summarizeRealizedByYear - groups by disposal year", () => {
+  const { realized } = matchLots([
+    { transaction_type: "buy", quantity: 2, price: 100, transaction_date: "2022-01-01" },
+    { transaction_type: "sell", quantity: 1, price: 120, transaction_date: "2022-06-01" },
+    { transaction_type: "sell", quantity: 1, price: 90, transaction_date: "2023-06-01" },
+  ], "fifo");
+
+  const byYear = summarizeRealizedByYear(realized);
+  assertEquals(byYear["2022"], { shortTerm: 20, longTerm: 0, total: 20 });
+  assertEquals(byYear["2023"], { shortTerm: 0, longTerm: -10, total: -10 });
+});
+
+Deno.test("buildGainsReport - filters realized by year and values open lots", () => {
+  const report = buildGainsReport(ledger, "fifo", 300, { year: 2023, asOfDate: "2024-07-01" });
+
+  assertEquals(report.summary.realized, { shortTerm: 250, longTerm: 1500, total: 1750 });
+  assertEquals(report.summary.unrealized, { shortTerm: 0, longTerm: 500, total: 500 });
+  assertEquals(buildGainsReport(ledger, "fifo", 300, { year: 2022 }).realized.length, 0);
+});
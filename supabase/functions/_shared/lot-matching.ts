@@ -0,0 +1,411 @@
+// =====================================================
+// Vestpod - Lot Matching Module
+// =====================================================
+// Matches sales against tax lots built from the transaction
+// ledger to compute realized and unrealized gain/loss
+// - FIFO, LIFO, average cost and specific-lot methods
+// - Short-term vs long-term holding period classification
+// - Per calendar year summaries
+// - Cost basis method from a request override or the user's profile
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import {
+  isInflow,
+  LedgerError,
+  LedgerTransaction,
+  sortTransactions,
+} from "./transaction-ledger.ts";
+
+/**
+ * Supported cost basis methods
+ */
+export const COST_BASIS_METHODS = ["fifo", "lifo", "average", "specific_lot"] as const;
+export type CostBasisMethod = typeof COST_BASIS_METHODS[number];
+
+export type HoldingPeriod = "short_term" | "long_term";
+
+/**
+ * Lot chosen by the user for a specific-lot sale
+ * lotId is the id of the buy/transfer_in transaction that opened the lot
+ */
+export interface LotSelection {
+  lotId: string;
+  quantity: number;
+}
+
+/**
+ * Ledger transaction with optional specific-lot selections
+ */
+export interface LotTransaction extends LedgerTransaction {
+  lot_selections?: LotSelection[] | null;
+}
+
+/**
+ * Open tax lot remaining after all outflows
+ */
+export interface OpenLot {
+  lotId: string | null;
+  acquiredDate: string;
+  quantity: number;
+  unitCost: number;
+  costBasis: number;
+}
+
+/**
+ * Portion of a sale matched against a single lot
+ */
+export interface RealizedLot {
+  saleId: string | null;
+  lotId: string | null;
+  acquiredDate: string;
+  disposedDate: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  gainLoss: number;
+  holdingPeriod: HoldingPeriod;
+}
+
+/**
+ * Open lot valued at the current price
+ */
+export interface UnrealizedLot extends OpenLot {
+  marketValue: number;
+  gainLoss: number;
+  holdingPeriod: HoldingPeriod;
+}
+
+/**
+ * Gain/loss totals split by holding period
+ */
+export interface GainSummary {
+  shortTerm: number;
+  longTerm: number;
+  total: number;
+}
+
+/**
+ * Result of matching a ledger against its lots
+ */
+export interface LotMatchResult {
+  method: CostBasisMethod;
+  openLots: OpenLot[];
+  realized: RealizedLot[];
+}
+
+/**
+ * Full gain/loss report for one asset
+ */
+export interface GainsReport {
+  method: CostBasisMethod;
+  realized: RealizedLot[];
+  unrealized: UnrealizedLot[];
+  summary: {
+    realized: GainSummary;
+    unrealized: GainSummary;
+    proceeds: number;
+    costBasisSold: number;
+  };
+  byYear: Record<string, GainSummary>;
+}
+
+interface WorkingLot {
+  lotId: string | null;
+  acquiredDate: string;
+  quantity: number;
+  unitCost: number;
+}
+
+// Quantities below this are treated as zero (DECIMAL(20, 8) precision)
+const QUANTITY_EPSILON = 1e-8;
+
+/**
+ * Validate cost basis method
+ */
+export function isValidCostBasisMethod(method: string): method is CostBasisMethod {
+  return COST_BASIS_METHODS.includes(method as CostBasisMethod);
+}
+
+/**
+ * Resolve the cost basis method for a gains request
+ * Uses the ?method= override when given, else the user's profile setting
+ */
+export async function resolveCostBasisMethod(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  override: string | null
+): Promise<{ method?: CostBasisMethod; error?: string }> {
+  if (override) {
+    if (!isValidCostBasisMethod(override)) {
+      return { error: `Invalid cost basis method. Must be one of: ${COST_BASIS_METHODS.join(", ")}` };
+    }
+    return { method: override };
+  }
+
+  const { data: profile } = await supabase
+    .from("user_profiles")
+    .select("cost_basis_method")
+    .eq("id", userId)
+    .single();
+
+  return { method: (profile?.cost_basis_method as CostBasisMethod) || "fifo" };
+}
+
+/**
+ * Classify holding period
+ * Long term when the lot was held for more than one year
+ */
+export function getHoldingPeriod(acquiredDate: string, disposedDate: string): HoldingPeriod {
+  const anniversary = new Date(acquiredDate);
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+  return new Date(disposedDate) > anniversary ? "long_term" : "short_term";
+}
+
+/**
+ * Round a monetary or quantity value to ledger precision
+ */
+function round(value: number): number {
+  return Number(value.toFixed(8));
+}
+
+/**
+ * Remove up to `quantity` units from a lot
+ * Returns the number of units actually taken
+ */
+function takeFromLot(lot: WorkingLot, quantity: number): number {
+  const taken = Math.min(lot.quantity, quantity);
+  lot.quantity = round(lot.quantity - taken);
+  return taken;
+}
+
+/**
+ * Pick lots to consume for an outflow, in the order the method dictates
+ */
+function allocateOutflow(
+  lots: WorkingLot[],
+  tx: LotTransaction,
+  method: CostBasisMethod
+): { lot: WorkingLot; quantity: number }[] {
+  const quantity = Number(tx.quantity);
+  const heldQuantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+
+  if (quantity > heldQuantity + QUANTITY_EPSILON) {
+    throw new LedgerError(
+      `Cannot ${tx.transaction_type === "sell" ? "sell" : "transfer out"} ${quantity} units on ${tx.transaction_date}: only ${round(heldQuantity)} held`
+    );
+  }
+
+  // Specific-lot sales use the user's selections; unselected sales fall back to FIFO
+  if (method === "specific_lot" && tx.lot_selections && tx.lot_selections.length > 0) {
+    const selectedQuantity = tx.lot_selections.reduce((sum, s) => sum + Number(s.quantity), 0);
+    if (Math.abs(selectedQuantity - quantity) > QUANTITY_EPSILON) {
+      throw new LedgerError(
+        `Lot selections for ${tx.transaction_date} total ${round(selectedQuantity)} units but ${quantity} were disposed`
+      );
+    }
+
+    return tx.lot_selections.map((selection) => {
+      const lot = lots.find((l) => l.lotId === selection.lotId);
+      if (!lot) {
+        throw new LedgerError(`Lot ${selection.lotId} is not open on ${tx.transaction_date}`);
+      }
+      if (Number(selection.quantity) > lot.quantity + QUANTITY_EPSILON) {
+        throw new LedgerError(
+          `Lot ${selection.lotId} only has ${lot.quantity} units available on ${tx.transaction_date}`
+        );
+      }
+      return { lot, quantity: Number(selection.quantity) };
+    });
+  }
+
+  const ordered = method === "lifo" ? [...lots].reverse() : lots;
+  const allocations: { lot: WorkingLot; quantity: number }[] = [];
+  let remaining = quantity;
+
+  for (const lot of ordered) {
+    if (remaining <= QUANTITY_EPSILON) break;
+    const taken = Math.min(lot.quantity, remaining);
+    allocations.push({ lot, quantity: taken });
+    remaining -= taken;
+  }
+
+  return allocations;
+}
+
+/**
+ * Match outflows against tax lots
+ * Buys and transfers in open lots (buy fees are capitalized);
+ * sells realize gain/loss net of sell fees; transfers out
+ * remove units without realizing gain/loss.
+ * Under average cost, every open lot carries the pooled
+ * average unit cost and lots are consumed oldest first so
+ * holding periods are still tracked.
+ *
+ * @param transactions - Asset transactions in any order
+ * @param method - Cost basis method
+ * @returns Open lots and realized lot matches
+ * @throws LedgerError if an outflow exceeds holdings or lot selections are invalid
+ */
+export function matchLots(transactions: LotTransaction[], method: CostBasisMethod): LotMatchResult {
+  let lots: WorkingLot[] = [];
+  const realized: RealizedLot[] = [];
+
+  for (const tx of sortTransactions(transactions)) {
+    const quantity = Number(tx.quantity);
+    const price = Number(tx.price);
+    const fees = Number(tx.fees || 0);
+
+    if (isInflow(tx.transaction_type)) {
+      lots.push({
+        lotId: tx.id || null,
+        acquiredDate: tx.transaction_date,
+        quantity,
+        unitCost: quantity > 0 ? (quantity * price + fees) / quantity : 0,
+      });
+
+      if (method === "average") {
+        const totalQuantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+        const totalCost = lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0);
+        const averageCost = totalQuantity > 0 ? totalCost / totalQuantity : 0;
+        lots.forEach((lot) => (lot.unitCost = averageCost));
+      }
+      continue;
+    }
+
+    const allocations = allocateOutflow(lots, tx, method);
+
+    for (const { lot, quantity: matched } of allocations) {
+      const taken = takeFromLot(lot, matched);
+
+      if (tx.transaction_type !== "sell") continue;
+
+      // Sell fees reduce proceeds pro rata across matched lots
+      const proceeds = taken * price - (quantity > 0 ? fees * (taken / quantity) : 0);
+      const costBasis = taken * lot.unitCost;
+
+      realized.push({
+        saleId: tx.id || null,
+        lotId: lot.lotId,
+        acquiredDate: lot.acquiredDate,
+        disposedDate: tx.transaction_date,
+        quantity: round(taken),
+        proceeds: round(proceeds),
+        costBasis: round(costBasis),
+        gainLoss: round(proceeds - costBasis),
+        holdingPeriod: getHoldingPeriod(lot.acquiredDate, tx.transaction_date),
+      });
+    }
+
+    lots = lots.filter((lot) => lot.quantity > QUANTITY_EPSILON);
+  }
+
+  return {
+    method,
+    openLots: lots.map((lot) => ({
+      lotId: lot.lotId,
+      acquiredDate: lot.acquiredDate,
+      quantity: round(lot.quantity),
+      unitCost: round(lot.unitCost),
+      costBasis: round(lot.quantity * lot.unitCost),
+    })),
+    realized,
+  };
+}
+
+/**
+ * Value open lots at the current price
+ *
+ * @param openLots - Lots remaining after matching
+ * @param currentPrice - Current price per unit
+ * @param asOfDate - Date used for holding period classification (YYYY-MM-DD)
+ */
+export function valueOpenLots(openLots: OpenLot[], currentPrice: number, asOfDate: string): UnrealizedLot[] {
+  return openLots.map((lot) => {
+    const marketValue = lot.quantity * currentPrice;
+    return {
+      ...lot,
+      marketValue: round(marketValue),
+      gainLoss: round(marketValue - lot.costBasis),
+      holdingPeriod: getHoldingPeriod(lot.acquiredDate, asOfDate),
+    };
+  });
+}
+
+/**
+ * Total gain/loss by holding period
+ */
+export function summarizeGains(entries: { gainLoss: number; holdingPeriod: HoldingPeriod }[]): GainSummary {
+  let shortTerm = 0;
+  let longTerm = 0;
+
+  for (const entry of entries) {
+    if (entry.holdingPeriod === "long_term") {
+      longTerm += entry.gainLoss;
+    } else {
+      shortTerm += entry.gainLoss;
+    }
+  }
+
+  return {
+    shortTerm: Number(shortTerm.toFixed(2)),
+    longTerm: Number(longTerm.toFixed(2)),
+    total: Number((shortTerm + longTerm).toFixed(2)),
+  };
+}
+
+/**
+ * Realized gain/loss grouped by calendar year of disposal
+ */
+export function summarizeRealizedByYear(realized: RealizedLot[]): Record<string, GainSummary> {
+  const grouped: Record<string, RealizedLot[]> = {};
+
+  for (const entry of realized) {
+    const year = entry.disposedDate.substring(0, 4);
+    (grouped[year] ||= []).push(entry);
+  }
+
+  const byYear: Record<string, GainSummary> = {};
+  for (const year of Object.keys(grouped).sort()) {
+    byYear[year] = summarizeGains(grouped[year]);
+  }
+
+  return byYear;
+}
+
+/**
+ * Build the realized/unrealized gain report for one asset
+ *
+ * @param transactions - Asset transactions in any order
+ * @param method - Cost basis method
+ * @param currentPrice - Current price per unit
+ * @param options.year - Only include realized gains disposed in this calendar year
+ * @param options.asOfDate - Date for unrealized holding periods (defaults to today)
+ */
+export function buildGainsReport(
+  transactions: LotTransaction[],
+  method: CostBasisMethod,
+  currentPrice: number,
+  options: { year?: number; asOfDate?: string } = {}
+): GainsReport {
+  const { openLots, realized } = matchLots(transactions, method);
+  const asOfDate = options.asOfDate || new Date().toISOString().split("T")[0];
+
+  const realizedInPeriod = options.year
+    ? realized.filter((entry) => entry.disposedDate.startsWith(`${options.year}-`))
+    : realized;
+
+  const unrealized = valueOpenLots(openLots, currentPrice, asOfDate);
+
+  return {
+    method,
+    realized: realizedInPeriod,
+    unrealized,
+    summary: {
+      realized: summarizeGains(realizedInPeriod),
+      unrealized: summarizeGains(unrealized),
+      proceeds: Number(realizedInPeriod.reduce((sum, r) => sum + r.proceeds, 0).toFixed(2)),
+      costBasisSold: Number(realizedInPeriod.reduce((sum, r) => sum + r.costBasis, 0).toFixed(2)),
+    },
+    byYear: summarizeRealizedByYear(realized),
+  };
+}
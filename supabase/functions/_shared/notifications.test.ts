@@ -0,0 +1,77 @@
+// =====================================================
+// Vestpod - Notifications Tests
+// =====================================================
+// Tests for per-channel delivery status, channel preferences and
+// batches released after quiet hours
+// Run with: deno test notifications.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  pushDeliveryStatus,
+  resolveNotificationPreferences,
+  summarizeHeldNotifications,
+  validateNotificationPreferences,
+  wasDelivered,
+} from "./notifications.ts";
+
+const AT = "2024-06-03T12:00:00.000Z";
+
+Deno.test("pushDeliveryStatus - sent when any device received it", () => {
+  assertEquals(pushDeliveryStatus({ sent: 1, failed: 1, pruned: 1 }, AT), {
+    status: "sent",
+    attemptedAt: AT,
+    sent: 1,
+    failed: 1,
+    pruned: 1,
+  });
+  assertEquals(pushDeliveryStatus({ sent: 0, failed: 2, pruned: 0 }, AT).status, "failed");
+});
+
+Deno.test("pushDeliveryStatus - skipped records the reason", () => {
+  assertEquals(pushDeliveryStatus({ sent: 0, failed: 0, pruned: 0, skipped: "notifications_disabled" }, AT), {
+    status: "skipped",
+    attemptedAt: AT,
+    reason: "notifications_disabled",
+  });
+});
+
+Deno.test("wasDelivered - true only when a channel sent", () => {
+  assertEquals(wasDelivered({ notificationId: "n1", delivery: { push: { status: "sent", attemptedAt: AT } } }), true);
+  assertEquals(wasDelivered({ notificationId: "n1", delivery: { push: { status: "skipped", attemptedAt: AT } } }), false);
+  assertEquals(wasDelivered({ notificationId: null, delivery: {} }), false);
+});
+
+Deno.test("validateNotificationPreferences - accepts partial category to channel maps", () => {
+  assertEquals(validateNotificationPreferences({ alert: ["push", "email"], digest: [] }).valid, true);
+  assertEquals(validateNotificationPreferences({ trades: ["push"] }).valid, false);
+  assertEquals(validateNotificationPreferences({ alert: ["sms"] }).valid, false);
+  assertEquals(validateNotificationPreferences({ alert: ["push", "push"] }).valid, false);
+  assertEquals(validateNotificationPreferences(["push"]).valid, false);
+});
+
+Deno.test("resolveNotificationPreferences - overrides replace the category defaults", () => {
+  const resolved = resolveNotificationPreferences({ alert: ["push", "email"], digest: [] });
+  assertEquals(resolved.alert, ["push", "email"]);
+  assertEquals(resolved.digest, []);
+  assertEquals(resolved.subscription, ["push", "email"]);
+
+  // Invalid stored values fall back to the defaults
+  assertEquals(resolveNotificationPreferences({ alert: "email" }).alert, ["push"]);
+  assertEquals(resolveNotificationPreferences(null).digest, ["email"]);
+});
+
+Deno.test("summarizeHeldNotifications - one notification as is, several as a summary", () => {
+  const alert = { title: "Price Alert Triggered", body: "AAPL is above $200" };
+  assertEquals(summarizeHeldNotifications([alert]), alert);
+
+  const items = ["Price Alert Triggered", "Portfolio Alert Triggered", "Export Ready", "Subscription Renewed"]
+    .map((title) => ({ title, body: "..." }));
+  assertEquals(summarizeHeldNotifications(items.slice(0, 2)), {
+    title: "2 notifications while you were away",
+    body: "Price Alert Triggered, Portfolio Alert Triggered",
+  });
+  assertEquals(
+    summarizeHeldNotifications(items).body,
+    "Price Alert Triggered, Portfolio Alert Triggered, Export Ready and 1 more"
+  );
+});
@@ -0,0 +1,485 @@
+// =====================================================
+// Vestpod - Notifications Module
+// =====================================================
+// Single entry point for user notifications:
+// - Writes an inbox entry to the notifications table
+// - Delivers on the channels (push, email) the user picked
+//   for the notification's category
+// - Records the per-channel outcome in delivery_status
+// - Holds non-urgent push and email during the user's quiet
+//   hours; releaseHeldNotifications sends them as one batch
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { PushDeliveryResult, PushProvider, PushTransport, sendPushToUser } from "./push-notifications.ts";
+import { EmailTemplate, renderEmail } from "./email-templates.ts";
+import { getSmtpConfigFromEnv, sendEmail, SmtpConfig } from "./smtp-client.ts";
+import { DEFAULT_TIME_ZONE, isInQuietHours, QuietHours, quietHoursEndAt } from "./time-zones.ts";
+
+/**
+ * Notification categories
+ */
+export const NOTIFICATION_CATEGORIES = ["alert", "insight", "subscription", "export", "digest"] as const;
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
+/**
+ * Delivery channels besides the inbox itself
+ */
+export const NOTIFICATION_CHANNELS = ["push", "email"] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+/**
+ * Channels per category until the user changes them
+ * (user_profiles.notification_preferences stores overrides)
+ */
+export const DEFAULT_CHANNEL_PREFERENCES: Record<NotificationCategory, NotificationChannel[]> = {
+  alert: ["push"],
+  insight: ["push"],
+  subscription: ["push", "email"],
+  export: ["push"],
+  digest: ["email"],
+};
+
+/**
+ * Outcome of one channel
+ */
+export interface ChannelDelivery {
+  status: "sent" | "failed" | "skipped" | "held";
+  attemptedAt: string;
+  reason?: string;
+  // Held: when quiet hours end
+  heldUntil?: string;
+  sent?: number;
+  failed?: number;
+  pruned?: number;
+}
+
+/**
+ * Notification to send
+ */
+export interface NotificationInput {
+  userId: string;
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  // Deep link ids for the app (alert_id, insight_id, ...)
+  data?: Record<string, string>;
+  // Email template (default: title and body)
+  email?: EmailTemplate;
+  // Limit delivery to these channels (still subject to preferences)
+  channels?: NotificationChannel[];
+  // Write an inbox entry (default true)
+  inbox?: boolean;
+  // Deliver during quiet hours (default false)
+  urgent?: boolean;
+}
+
+/**
+ * Delivery dependencies (default: from the environment)
+ */
+export interface NotificationTransports {
+  push?: Record<PushProvider, PushTransport>;
+  smtp?: SmtpConfig | null;
+}
+
+/**
+ * Notification result
+ */
+export interface NotificationResult {
+  notificationId: string | null;
+  delivery: Partial<Record<NotificationChannel, ChannelDelivery>>;
+}
+
+/**
+ * Release summary
+ */
+export interface HeldNotificationsResult {
+  users: number;
+  notifications: number;
+  // Users reached on at least one channel
+  delivered: number;
+}
+
+/**
+ * Recipient fields of user_profiles
+ */
+interface NotificationProfile {
+  email: string | null;
+  language_preference: string | null;
+  notifications_enabled: boolean;
+  notification_preferences: unknown;
+  timezone: string | null;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+}
+
+/**
+ * Content delivered on the channels
+ */
+interface ChannelContent {
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+  email?: EmailTemplate;
+}
+
+/**
+ * Notification held during quiet hours (held_notifications row)
+ */
+interface HeldNotification {
+  id: string;
+  user_id: string;
+  notification_id: string | null;
+  title: string;
+  body: string;
+  data: Record<string, string>;
+  email: EmailTemplate | null;
+  channels: NotificationChannel[];
+}
+
+const PROFILE_SELECT =
+  "email, language_preference, notifications_enabled, notification_preferences, timezone, quiet_hours_start, quiet_hours_end";
+
+// Titles listed in a batched push before "and N more"
+const BATCH_PUSH_TITLES = 3;
+
+/**
+ * Summarize a push delivery for delivery_status
+ */
+export function pushDeliveryStatus(result: PushDeliveryResult, attemptedAt = new Date().toISOString()): ChannelDelivery {
+  if (result.skipped) {
+    return { status: "skipped", attemptedAt, reason: result.skipped };
+  }
+
+  return {
+    status: result.sent > 0 ? "sent" : "failed",
+    attemptedAt,
+    sent: result.sent,
+    failed: result.failed,
+    pruned: result.pruned,
+  };
+}
+
+/**
+ * Check if any channel reached the user
+ */
+export function wasDelivered(result: NotificationResult): boolean {
+  return Object.values(result.delivery).some((d) => d?.status === "sent");
+}
+
+/**
+ * Validate notification preferences input
+ * Shape: { [category]: channel[] }, partial
+ */
+export function validateNotificationPreferences(value: unknown): { valid: boolean; error?: string } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {
+      valid: false,
+      error: "Notification preferences must be an object of category to channels",
+    };
+  }
+
+  for (const [category, channels] of Object.entries(value)) {
+    if (!NOTIFICATION_CATEGORIES.includes(category as NotificationCategory)) {
+      return {
+        valid: false,
+        error: `Notification category must be one of: ${NOTIFICATION_CATEGORIES.join(", ")}`,
+      };
+    }
+
+    if (
+      !Array.isArray(channels) ||
+      !channels.every((c) => NOTIFICATION_CHANNELS.includes(c as NotificationChannel)) ||
+      new Set(channels).size !== channels.length
+    ) {
+      return {
+        valid: false,
+        error: `Channels for ${category} must be a list of: ${NOTIFICATION_CHANNELS.join(", ")}`,
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Full channel map: stored overrides on top of the defaults
+ */
+export function resolveNotificationPreferences(stored: unknown): Record<NotificationCategory, NotificationChannel[]> {
+  const preferences = { ...DEFAULT_CHANNEL_PREFERENCES };
+  if (stored && typeof stored === "object" && validateNotificationPreferences(stored).valid) {
+    Object.assign(preferences, stored);
+  }
+  return preferences;
+}
+
+/**
+ * Quiet hours window of a profile, if set
+ */
+function profileQuietHours(profile: NotificationProfile | null): QuietHours | null {
+  if (!profile?.quiet_hours_start || !profile.quiet_hours_end) {
+    return null;
+  }
+  return { start: profile.quiet_hours_start, end: profile.quiet_hours_end };
+}
+
+/**
+ * Push content for notifications released after quiet hours
+ * A single notification is sent as is; several become one summary
+ */
+export function summarizeHeldNotifications(items: { title: string; body: string }[]): { title: string; body: string } {
+  if (items.length === 1) {
+    return { title: items[0].title, body: items[0].body };
+  }
+
+  const titles = items.slice(0, BATCH_PUSH_TITLES).map((item) => item.title);
+  const more = items.length - titles.length;
+
+  return {
+    title: `${items.length} notifications while you were away`,
+    body: more > 0 ? `${titles.join(", ")} and ${more} more` : titles.join(", "),
+  };
+}
+
+/**
+ * Deliver content on each channel
+ * Failures are logged and recorded per channel
+ */
+async function deliverToChannels(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  profile: NotificationProfile | null,
+  channels: NotificationChannel[],
+  content: ChannelContent,
+  transports: NotificationTransports
+): Promise<NotificationResult["delivery"]> {
+  const delivery: NotificationResult["delivery"] = {};
+  const notificationsEnabled = profile?.notifications_enabled !== false;
+
+  for (const channel of channels) {
+    const attemptedAt = new Date().toISOString();
+
+    if (!notificationsEnabled) {
+      delivery[channel] = { status: "skipped", attemptedAt, reason: "notifications_disabled" };
+      continue;
+    }
+
+    try {
+      if (channel === "push") {
+        const result = await sendPushToUser(
+          supabase,
+          userId,
+          { title: content.title, body: content.body, data: content.data },
+          transports.push
+        );
+        delivery.push = pushDeliveryStatus(result, attemptedAt);
+      } else {
+        const smtp = transports.smtp === undefined ? getSmtpConfigFromEnv() : transports.smtp;
+        if (!smtp) {
+          delivery.email = { status: "skipped", attemptedAt, reason: "email_not_configured" };
+        } else if (!profile?.email) {
+          delivery.email = { status: "skipped", attemptedAt, reason: "no_email_address" };
+        } else {
+          const email = renderEmail(
+            content.email || { template: "generic", params: { title: content.title, body: content.body } },
+            profile.language_preference
+          );
+          await sendEmail(smtp, { to: profile.email, ...email });
+          delivery.email = { status: "sent", attemptedAt };
+        }
+      }
+    } catch (error) {
+      console.error(`Error sending ${channel} notification:`, error);
+      delivery[channel] = { status: "failed", attemptedAt, reason: (error as Error).message };
+    }
+  }
+
+  return delivery;
+}
+
+/**
+ * Write an inbox entry and deliver it on each channel
+ * Never throws; failures are logged and recorded per channel
+ * During the user's quiet hours, non-urgent push and email are
+ * held (the inbox entry is written right away)
+ *
+ * @param supabase - Service role client
+ * @param input - Notification content
+ * @param transports - Push transports and SMTP settings (default: from the environment)
+ */
+export async function notifyUser(
+  supabase: ReturnType<typeof createClient>,
+  input: NotificationInput,
+  transports: NotificationTransports = {}
+): Promise<NotificationResult> {
+  const { data } = await supabase
+    .from("user_profiles")
+    .select(PROFILE_SELECT)
+    .eq("id", input.userId)
+    .single();
+  const profile = data as NotificationProfile | null;
+
+  const preferred = resolveNotificationPreferences(profile?.notification_preferences)[input.category];
+  const channels = preferred.filter((c) => !input.channels || input.channels.includes(c));
+
+  let notificationId: string | null = null;
+  if (input.inbox !== false) {
+    const { data: notification, error: insertError } = await supabase
+      .from("notifications")
+      .insert({
+        user_id: input.userId,
+        category: input.category,
+        title: input.title,
+        body: input.body,
+        data: input.data || {},
+      })
+      .select("id")
+      .single();
+
+    if (insertError) {
+      console.error("Error creating notification:", insertError);
+    }
+    notificationId = notification?.id ?? null;
+  }
+
+  const content: ChannelContent = {
+    title: input.title,
+    body: input.body,
+    data: notificationId ? { ...input.data, notification_id: notificationId } : input.data,
+    email: input.email,
+  };
+
+  const now = new Date();
+  const timeZone = profile?.timezone || DEFAULT_TIME_ZONE;
+  const quietHours = profileQuietHours(profile);
+  const hold = !input.urgent &&
+    channels.length > 0 &&
+    profile?.notifications_enabled !== false &&
+    isInQuietHours(now, timeZone, quietHours);
+
+  let delivery: NotificationResult["delivery"] = {};
+  if (hold) {
+    const heldUntil = quietHoursEndAt(now, timeZone, quietHours!).toISOString();
+    const { error: holdError } = await supabase
+      .from("held_notifications")
+      .insert({
+        user_id: input.userId,
+        notification_id: notificationId,
+        title: content.title,
+        body: content.body,
+        data: content.data || {},
+        email: content.email || null,
+        channels,
+        release_at: heldUntil,
+      });
+
+    if (holdError) {
+      // Deliver now rather than lose the notification
+      console.error("Error holding notification:", holdError);
+      delivery = await deliverToChannels(supabase, input.userId, profile, channels, content, transports);
+    } else {
+      for (const channel of channels) {
+        delivery[channel] = { status: "held", attemptedAt: now.toISOString(), reason: "quiet_hours", heldUntil };
+      }
+    }
+  } else {
+    delivery = await deliverToChannels(supabase, input.userId, profile, channels, content, transports);
+  }
+
+  if (notificationId) {
+    const { error: updateError } = await supabase
+      .from("notifications")
+      .update({ delivery_status: delivery })
+      .eq("id", notificationId);
+
+    if (updateError) {
+      console.error("Error recording notification delivery:", updateError);
+    }
+  }
+
+  return { notificationId, delivery };
+}
+
+/**
+ * Deliver notifications whose quiet hours have ended
+ * Each user gets one push and one email covering everything held
+ * for them; the inbox entries' delivery_status is updated
+ *
+ * @param supabase - Service role client
+ * @param now - Release notifications held until this time
+ * @param transports - Push transports and SMTP settings (default: from the environment)
+ */
+export async function releaseHeldNotifications(
+  supabase: ReturnType<typeof createClient>,
+  now: Date,
+  transports: NotificationTransports = {}
+): Promise<HeldNotificationsResult> {
+  const { data: rows, error } = await supabase
+    .from("held_notifications")
+    .select("id, user_id, notification_id, title, body, data, email, channels")
+    .lte("release_at", now.toISOString())
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch held notifications: ${error.message}`);
+  }
+
+  const byUser = new Map<string, HeldNotification[]>();
+  for (const row of (rows || []) as HeldNotification[]) {
+    byUser.set(row.user_id, [...(byUser.get(row.user_id) || []), row]);
+  }
+
+  let delivered = 0;
+  for (const [userId, held] of byUser) {
+    const { data } = await supabase
+      .from("user_profiles")
+      .select(PROFILE_SELECT)
+      .eq("id", userId)
+      .single();
+    const profile = data as NotificationProfile | null;
+
+    // One batch per channel, covering the notifications held on it
+    const delivery: NotificationResult["delivery"] = {};
+    for (const channel of NOTIFICATION_CHANNELS) {
+      const items = held.filter((h) => h.channels.includes(channel));
+      if (items.length === 0) continue;
+
+      const content: ChannelContent = items.length === 1
+        ? { title: items[0].title, body: items[0].body, data: items[0].data, email: items[0].email || undefined }
+        : {
+          ...summarizeHeldNotifications(items),
+          email: { template: "held_notifications", params: { items: items.map(({ title, body }) => ({ title, body })) } },
+        };
+
+      Object.assign(delivery, await deliverToChannels(supabase, userId, profile, [channel], content, transports));
+    }
+
+    if (Object.values(delivery).some((d) => d?.status === "sent")) {
+      delivered++;
+    }
+
+    for (const item of held) {
+      if (!item.notification_id) continue;
+
+      const itemDelivery = Object.fromEntries(item.channels.map((c) => [c, delivery[c]]));
+      const { error: updateError } = await supabase
+        .from("notifications")
+        .update({ delivery_status: itemDelivery })
+        .eq("id", item.notification_id);
+
+      if (updateError) {
+        console.error("Error recording notification delivery:", updateError);
+      }
+    }
+
+    const { error: deleteError } = await supabase
+      .from("held_notifications")
+      .delete()
+      .in("id", held.map((h) => h.id));
+
+    if (deleteError) {
+      console.error(`Error clearing held notifications for user ${userId}:`, deleteError);
+    }
+  }
+
+  return { users: byUser.size, notifications: rows?.length || 0, delivered };
+}
@@ -0,0 +1,137 @@
+// =====================================================
+// Vestpod - Portfolio Returns Tests
+// =====================================================
+// Tests for time-weighted and money-weighted returns
+// Run with: deno test portfolio-returns.test.ts
+
+import { assertAlmostEquals, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  annualizeReturn,
+  buildReturnIndex,
+  calculateMoneyWeightedReturn,
+  calculateTimeWeightedReturn,
+  calculateXirr,
+  collectExternalFlows,
+  combineValuations,
+  daysBetween,
+} from "./portfolio-returns.ts";
+
+Deno.test("calculateTimeWeightedReturn - removes the effect of flows", () => {
+  // +10%, then a 1000 deposit, then +10% again
+  const twr = calculateTimeWeightedReturn(
+    [
+      { date: "2024-01-01", value: 1000 },
+      { date: "2024-02-01", value: 1100 },
+      { date: "2024-02-02", value: 2100 },
+      { date: "2024-03-01", value: 2310 },
+    ],
+    [{ date: "2024-02-02", amount: 1000 }]
+  );
+
+  assertAlmostEquals(twr!, 0.21, 1e-9);
+});
+
+Deno.test("calculateTimeWeightedReturn - skips periods before funding", () => {
+  const twr = calculateTimeWeightedReturn(
+    [
+      { date: "2024-01-01", value: 0 },
+      { date: "2024-01-02", value: 500 },
+      { date: "2024-01-03", value: 550 },
+    ],
+    [{ date: "2024-01-02", amount: 500 }]
+  );
+
+  assertAlmostEquals(twr!, 0.1, 1e-9);
+  assertEquals(calculateTimeWeightedReturn([{ date: "2024-01-01", value: 100 }], []), null);
+});
+
+Deno.test("buildReturnIndex - chain-links daily growth from the base", () => {
+  const index = buildReturnIndex(
+    [
+      { date: "2024-01-01", value: 1000 },
+      { date: "2024-01-02", value: 1100 },
+      { date: "2024-01-03", value: 2200 },
+    ],
+    [{ date: "2024-01-03", amount: 1000 }]
+  );
+
+  assertEquals(index.map((v) => v.date), ["2024-01-01", "2024-01-02", "2024-01-03"]);
+  assertAlmostEquals(index[1].value, 110, 1e-9);
+  assertAlmostEquals(index[2].value, 110 * (1200 / 1100), 1e-9);
+});
+
+Deno.test("calculateXirr - solves for the annual rate", () => {
+  const rate = calculateXirr([
+    { date: "2023-01-01", amount: -1000 },
+    { date: "2024-01-01", amount: 1100 },
+  ]);
+
+  assertAlmostEquals(rate!, 0.1, 1e-6);
+  assertEquals(calculateXirr([{ date: "2023-01-01", amount: -1000 }]), null);
+});
+
+Deno.test("calculateMoneyWeightedReturn - weights by money invested", () => {
+  // Same prices as the TWR test but the deposit comes before a loss
+  const mwr = calculateMoneyWeightedReturn(
+    [
+      { date: "2023-01-01", value: 1000 },
+      { date: "2023-07-02", value: 11000 },
+      { date: "2024-01-01", value: 9900 },
+    ],
+    [{ date: "2023-07-02", amount: 10000 }]
+  );
+
+  // Most of the money suffered the -10% second half
+  assertEquals(mwr! < 0, true);
+});
+
+Deno.test("collectExternalFlows - counts deposits and unsettled trades only", () => {
+  const flows = collectExternalFlows({
+    cashTransactions: [
+      { transaction_type: "deposit", currency: "USD", amount: 1000, transaction_date: "2024-01-01" },
+      { transaction_type: "buy", currency: "USD", amount: 500, transaction_date: "2024-01-02" },
+      { transaction_type: "withdrawal", currency: "EUR", amount: 100, transaction_date: "2024-01-05" },
+    ],
+    transactions: [
+      { id: "t1", transaction_type: "buy", quantity: 5, price: 100, transaction_date: "2024-01-02", currency: "USD" },
+      { id: "t2", transaction_type: "buy", quantity: 2, price: 50, fees: 1, transaction_date: "2024-01-03", currency: "USD" },
+      { id: "t3", transaction_type: "sell", quantity: 1, price: 60, fees: 1, transaction_date: "2024-01-04", currency: "USD" },
+    ],
+    income: [
+      { id: "i1", amount: 10, withholding_tax: 2, payment_date: "2024-01-04", currency: "USD" },
+    ],
+    settledTransactionIds: new Set(["t1"]),
+    settledIncomeIds: new Set(),
+    factors: { USD: 1, EUR: 1.1 },
+  });
+
+  assertEquals(flows, [
+    { date: "2024-01-01", amount: 1000 },
+    { date: "2024-01-03", amount: 101 },
+    { date: "2024-01-04", amount: -67 },
+    { date: "2024-01-05", amount: -110 },
+  ]);
+});
+
+Deno.test("combineValuations - carries portfolio values forward", () => {
+  const combined = combineValuations([
+    [{ date: "2024-01-01", value: 100 }, { date: "2024-01-03", value: 120 }],
+    [{ date: "2024-01-02", value: 50 }],
+  ]);
+
+  assertEquals(combined, [
+    { date: "2024-01-01", value: 100 },
+    { date: "2024-01-02", value: 150 },
+    { date: "2024-01-03", value: 170 },
+  ]);
+});
+
+Deno.test("annualizeReturn - only annualizes periods over a year", () => {
+  assertEquals(annualizeReturn(0.05, 180), 0.05);
+  assertAlmostEquals(annualizeReturn(0.21, 730), 0.1, 1e-9);
+});
+
+Deno.test("daysBetween - signed days between dates", () => {
+  assertEquals(daysBetween("2024-06-03", "2024-06-10"), 7);
+  assertEquals(daysBetween("2024-06-10", "2024-06-03"), -7);
+});
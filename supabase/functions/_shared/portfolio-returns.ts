@@ -0,0 +1,280 @@
+// =====================================================
+// Vestpod - Portfolio Returns Module
+// =====================================================
+// Performance measures that account for dated cash flows:
+// - Time-weighted return (TWR), chain-linked between valuations
+// - Money-weighted return (XIRR)
+// - External flow extraction from the cash, transaction and
+//   income ledgers
+
+/**
+ * Portfolio value on a date
+ */
+export interface Valuation {
+  date: string;
+  value: number;
+}
+
+/**
+ * External cash flow into (positive) or out of (negative) a portfolio
+ */
+export interface CashFlow {
+  date: string;
+  amount: number;
+}
+
+/**
+ * Ledger rows needed to derive external flows
+ * Amounts are in the row's currency; factors convert into the
+ * reporting currency (reporting units per 1 unit of currency)
+ */
+export interface ExternalFlowInput {
+  cashTransactions: { id?: string; transaction_type: string; currency: string; amount: number | string; transaction_date: string }[];
+  transactions: {
+    id: string;
+    transaction_type: string;
+    quantity: number | string;
+    price: number | string;
+    fees?: number | string | null;
+    transaction_date: string;
+    currency: string;
+  }[];
+  income: {
+    id: string;
+    amount: number | string;
+    withholding_tax?: number | string | null;
+    payment_date: string;
+    currency: string;
+  }[];
+  settledTransactionIds: Set<string>;
+  settledIncomeIds: Set<string>;
+  factors: Record<string, number>;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Days from one YYYY-MM-DD date to another (negative when to is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  return (new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / MS_PER_DAY;
+}
+
+/**
+ * Derive external flows from the portfolio ledgers
+ * - Deposits and withdrawals are flows
+ * - Buys/transfers in not settled in cash bring new money in
+ * - Sells/transfers out not settled in cash take money out
+ * - Income not settled in cash is paid out of the portfolio
+ * Settled activity only moves value between cash and assets.
+ *
+ * @returns Flows netted per day, oldest first
+ */
+export function collectExternalFlows(input: ExternalFlowInput): CashFlow[] {
+  const byDate: Record<string, number> = {};
+  const add = (date: string, amount: number, currency: string) => {
+    byDate[date] = (byDate[date] || 0) + amount * (input.factors[currency] ?? 1);
+  };
+
+  for (const tx of input.cashTransactions) {
+    if (tx.transaction_type === "deposit") {
+      add(tx.transaction_date, Number(tx.amount), tx.currency);
+    } else if (tx.transaction_type === "withdrawal") {
+      add(tx.transaction_date, -Number(tx.amount), tx.currency);
+    }
+  }
+
+  for (const tx of input.transactions) {
+    if (input.settledTransactionIds.has(tx.id)) continue;
+
+    const gross = Number(tx.quantity) * Number(tx.price);
+    const fees = Number(tx.fees || 0);
+
+    switch (tx.transaction_type) {
+      case "buy":
+        add(tx.transaction_date, gross + fees, tx.currency);
+        break;
+      case "transfer_in":
+        add(tx.transaction_date, gross, tx.currency);
+        break;
+      case "sell":
+        add(tx.transaction_date, -(gross - fees), tx.currency);
+        break;
+      case "transfer_out":
+        add(tx.transaction_date, -gross, tx.currency);
+        break;
+    }
+  }
+
+  for (const record of input.income) {
+    if (input.settledIncomeIds.has(record.id)) continue;
+    add(record.payment_date, -(Number(record.amount) - Number(record.withholding_tax || 0)), record.currency);
+  }
+
+  return Object.entries(byDate)
+    .filter(([, amount]) => Math.abs(amount) > 1e-9)
+    .map(([date, amount]) => ({ date, amount: Number(amount.toFixed(8)) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Time-weighted return index between the first and last valuation
+ * Each period's flows are assumed to arrive at the end of the day
+ * they occur, so they are removed from the closing value. Periods
+ * that start from zero value (before the portfolio is funded) leave
+ * the index unchanged.
+ *
+ * @param valuations - Valuations in any order
+ * @param flows - External flows
+ * @param base - Index value on the first date
+ * @returns Index value per valuation date, oldest first
+ */
+export function buildReturnIndex(valuations: Valuation[], flows: CashFlow[], base = 100): Valuation[] {
+  const sorted = [...valuations].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length === 0) return [];
+
+  const index: Valuation[] = [{ date: sorted[0].date, value: base }];
+  let growth = 1;
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const current = sorted[i];
+
+    if (previous.value > 0) {
+      const periodFlows = flows
+        .filter((f) => f.date > previous.date && f.date <= current.date)
+        .reduce((sum, f) => sum + f.amount, 0);
+
+      growth *= (current.value - periodFlows) / previous.value;
+    }
+
+    index.push({ date: current.date, value: base * growth });
+  }
+
+  return index;
+}
+
+/**
+ * Time-weighted return between the first and last valuation
+ * Chain-links the periods of buildReturnIndex.
+ *
+ * @param valuations - Valuations in any order
+ * @param flows - External flows
+ * @returns Cumulative return as a fraction, or null with fewer than two valuations
+ */
+export function calculateTimeWeightedReturn(valuations: Valuation[], flows: CashFlow[]): number | null {
+  if (valuations.length < 2) return null;
+
+  const index = buildReturnIndex(valuations, flows, 1);
+  return index[index.length - 1].value - 1;
+}
+
+/**
+ * Internal rate of return for irregularly dated cash flows (XIRR)
+ * Amounts are from the investor's side: money paid in is negative,
+ * money received (including the closing value) is positive.
+ *
+ * @returns Annual rate as a fraction, or null if it cannot be solved
+ */
+export function calculateXirr(flows: CashFlow[]): number | null {
+  const nonZero = flows.filter((f) => f.amount !== 0);
+  if (!nonZero.some((f) => f.amount > 0) || !nonZero.some((f) => f.amount < 0)) {
+    return null;
+  }
+
+  const start = nonZero.reduce((min, f) => (f.date < min ? f.date : min), nonZero[0].date);
+  const timed = nonZero.map((f) => ({ years: daysBetween(start, f.date) / 365, amount: f.amount }));
+
+  const npv = (rate: number) => timed.reduce((sum, f) => sum + f.amount / Math.pow(1 + rate, f.years), 0);
+  const derivative = (rate: number) =>
+    timed.reduce((sum, f) => sum - (f.years * f.amount) / Math.pow(1 + rate, f.years + 1), 0);
+
+  // Newton-Raphson from 10%
+  let rate = 0.1;
+  for (let i = 0; i < 100; i++) {
+    const value = npv(rate);
+    const slope = derivative(rate);
+    if (!isFinite(value) || !isFinite(slope) || slope === 0) break;
+
+    const next = rate - value / slope;
+    if (next <= -1 || !isFinite(next)) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  // Fall back to bisection when Newton does not converge
+  let low = -0.9999;
+  let high = 100;
+  let lowValue = npv(low);
+  if (lowValue * npv(high) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid);
+    if (Math.abs(midValue) < 1e-9 || high - low < 1e-12) return mid;
+
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * Money-weighted return between the first and last valuation
+ * The opening value is treated as invested on the first date
+ * and the closing value as received on the last.
+ *
+ * @returns Annual rate as a fraction, or null if it cannot be solved
+ */
+export function calculateMoneyWeightedReturn(valuations: Valuation[], flows: CashFlow[]): number | null {
+  const sorted = [...valuations].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length < 2) return null;
+
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+
+  return calculateXirr([
+    { date: first.date, amount: -first.value },
+    ...flows
+      .filter((f) => f.date > first.date && f.date <= last.date)
+      .map((f) => ({ date: f.date, amount: -f.amount })),
+    { date: last.date, amount: last.value },
+  ]);
+}
+
+/**
+ * Annualize a cumulative return over a number of days
+ * Periods under a year are returned as-is (not extrapolated)
+ */
+export function annualizeReturn(cumulativeReturn: number, days: number): number {
+  if (days < 365) return cumulativeReturn;
+  return Math.pow(1 + cumulativeReturn, 365 / days) - 1;
+}
+
+/**
+ * Combine several portfolios' valuations into one series
+ * Each portfolio carries its last known value forward on dates
+ * where it has no valuation of its own.
+ */
+export function combineValuations(series: Valuation[][]): Valuation[] {
+  const dates = [...new Set(series.flat().map((v) => v.date))].sort();
+  const sortedSeries = series.map((s) => [...s].sort((a, b) => a.date.localeCompare(b.date)));
+  const indexes = sortedSeries.map(() => 0);
+  const lastValues = sortedSeries.map(() => 0);
+
+  return dates.map((date) => {
+    let total = 0;
+    sortedSeries.forEach((s, i) => {
+      while (indexes[i] < s.length && s[indexes[i]].date <= date) {
+        lastValues[i] = s[indexes[i]].value;
+        indexes[i]++;
+      }
+      total += lastValues[i];
+    });
+    return { date, value: Number(total.toFixed(2)) };
+  });
+}
@@ -0,0 +1,118 @@
+// =====================================================
+// Vestpod - Portfolio Snapshots Tests
+// =====================================================
+// Tests for history ranges, snapshot backfill and period summaries
+// Run with: deno test portfolio-snapshots.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { addDays, buildBackfillSnapshots, getRangeStartDate, summarizeSnapshotPeriod } from "./portfolio-snapshots.ts";
+
+Deno.test("addDays - crosses month and year ends", () => {
+  assertEquals(addDays("2024-03-01", -1), "2024-02-29");
+  assertEquals(addDays("2024-12-31", 1), "2025-01-01");
+});
+
+Deno.test("getRangeStartDate - maps chart ranges to start dates", () => {
+  assertEquals(getRangeStartDate("1D", "2024-03-01"), "2024-02-29");
+  assertEquals(getRangeStartDate("1W", "2024-03-01"), "2024-02-23");
+  assertEquals(getRangeStartDate("1M", "2024-03-31"), "2024-02-29");
+  assertEquals(getRangeStartDate("3M", "2024-05-15"), "2024-02-15");
+  assertEquals(getRangeStartDate("1Y", "2024-02-29"), "2023-02-28");
+  assertEquals(getRangeStartDate("ALL", "2024-03-01"), null);
+});
+
+Deno.test("buildBackfillSnapshots - values ledger positions at historical prices", () => {
+  const snapshots = buildBackfillSnapshots({
+    assets: [{ id: "a1", currency: "USD", purchase_price: 100 }],
+    transactions: [
+      { asset_id: "a1", transaction_type: "buy", quantity: 10, price: 100, transaction_date: "2024-01-01" },
+      { asset_id: "a1", transaction_type: "sell", quantity: 4, price: 120, transaction_date: "2024-01-03" },
+    ],
+    prices: [
+      { asset_id: "a1", price: 110, timestamp: "2024-01-02T16:00:00Z" },
+      { asset_id: "a1", price: "125", timestamp: "2024-01-04T16:00:00Z" },
+    ],
+    cashTransactions: [
+      { transaction_type: "deposit", currency: "USD", amount: 1000, transaction_date: "2024-01-01" },
+      { transaction_type: "sell", currency: "USD", amount: 480, transaction_date: "2024-01-03" },
+    ],
+    factors: { USD: 1 },
+  }, "2024-01-01", "2024-01-04");
+
+  assertEquals(snapshots.map((s) => s.assetsValue), [1000, 1100, 720, 750]);
+  assertEquals(snapshots.map((s) => s.costBasis), [1000, 1000, 600, 600]);
+  assertEquals(snapshots.map((s) => s.cashBalance), [1000, 1000, 1480, 1480]);
+  assertEquals(snapshots[3].totalValue, 2230);
+  assertEquals(snapshots[3].netContributions, 1000);
+});
+
+Deno.test("buildBackfillSnapshots - converts foreign currency holdings", () => {
+  const snapshots = buildBackfillSnapshots({
+    assets: [{ id: "a1", currency: "EUR", purchase_price: 50 }],
+    transactions: [
+      { asset_id: "a1", transaction_type: "buy", quantity: 2, price: 50, transaction_date: "2024-01-02" },
+    ],
+    prices: [],
+    cashTransactions: [],
+    factors: { EUR: 1.1 },
+  }, "2024-01-01", "2024-01-02");
+
+  assertEquals(snapshots[0].totalValue, 0);
+  assertEquals(snapshots[1].assetsValue, 110);
+  assertEquals(snapshots[1].costBasis, 110);
+});
+
+Deno.test("buildBackfillSnapshots - leaves out amounts with no factor", () => {
+  const snapshots = buildBackfillSnapshots({
+    assets: [{ id: "a1", currency: "USD", purchase_price: 100 }, { id: "a2", currency: "TRY", purchase_price: 30 }],
+    transactions: [
+      { asset_id: "a1", transaction_type: "buy", quantity: 1, price: 100, transaction_date: "2024-01-01" },
+      { asset_id: "a2", transaction_type: "buy", quantity: 10, price: 30, transaction_date: "2024-01-01" },
+    ],
+    prices: [],
+    cashTransactions: [
+      { transaction_type: "deposit", currency: "TRY", amount: 500, transaction_date: "2024-01-01" },
+    ],
+    factors: { USD: 1 },
+  }, "2024-01-01", "2024-01-01");
+
+  assertEquals(snapshots[0].assetsValue, 100);
+  assertEquals(snapshots[0].cashBalance, 0);
+  assertEquals(snapshots[0].netContributions, 0);
+});
+
+Deno.test("summarizeSnapshotPeriod - excludes contributions from the weekly change", () => {
+  const point = (portfolioId: string, snapshotDate: string, totalValue: number, netContributions = 0, currency = "USD") => ({
+    portfolioId,
+    snapshotDate,
+    currency,
+    totalValue,
+    netContributions,
+  });
+
+  const summary = summarizeSnapshotPeriod(
+    [
+      point("a", "2024-05-26", 900),
+      point("a", "2024-05-27", 1000),
+      point("a", "2024-06-03", 1600, 500), // Deposited 500, gained 100
+      point("b", "2024-05-30", 200), // Created mid-week
+      point("b", "2024-06-03", 190),
+      point("c", "2024-06-03", 50, 0, "EUR"), // Other currency
+      point("d", "2024-05-01", 75), // No snapshot in the period
+    ],
+    "2024-05-27",
+    "2024-06-03",
+    "USD"
+  );
+
+  assertEquals(summary, {
+    totalValue: 1790,
+    change: 90,
+    changePercent: 7.5,
+    portfolios: [
+      { portfolioId: "a", value: 1600, change: 100, changePercent: 10 },
+      { portfolioId: "b", value: 190, change: -10, changePercent: -5 },
+    ],
+  });
+  assertEquals(summarizeSnapshotPeriod([], "2024-05-27", "2024-06-03", "USD"), null);
+});
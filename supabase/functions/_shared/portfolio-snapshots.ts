@@ -0,0 +1,271 @@
+// =====================================================
+// Vestpod - Portfolio Snapshots Module
+// =====================================================
+// Portfolio value history:
+// - Chart ranges (1D/1W/1M/3M/1Y/ALL) to snapshot date windows
+// - Reconstruction of past daily values from the transaction
+//   ledger, price_history and cash ledger (snapshot backfill)
+// - Value change over a period (weekly digest)
+
+import { derivePosition, LedgerTransaction, sortTransactions } from "./transaction-ledger.ts";
+import { CashTransaction, summarizeCash } from "./cash-ledger.ts";
+
+/**
+ * Supported history ranges (same options as default_chart_view)
+ */
+export const HISTORY_RANGES = ["1D", "1W", "1M", "3M", "1Y", "ALL"] as const;
+export type HistoryRange = typeof HISTORY_RANGES[number];
+
+/**
+ * Portfolio values for one day, in the reporting currency
+ */
+export interface SnapshotValues {
+  snapshotDate: string;
+  totalValue: number;
+  assetsValue: number;
+  costBasis: number;
+  cashBalance: number;
+  netContributions: number;
+}
+
+/**
+ * Ledger and price data needed to rebuild a portfolio's history
+ */
+export interface BackfillInput {
+  assets: { id: string; currency?: string | null; purchase_price: number | string }[];
+  transactions: (LedgerTransaction & { asset_id: string })[];
+  prices: { asset_id: string; price: number | string; timestamp: string }[];
+  cashTransactions: (CashTransaction & { transaction_date: string })[];
+  // Reporting currency units per 1 unit of each currency
+  factors: Record<string, number>;
+}
+
+/**
+ * Stored snapshot used for period summaries
+ */
+export interface SnapshotPoint {
+  portfolioId: string;
+  snapshotDate: string;
+  currency: string;
+  totalValue: number;
+  netContributions: number;
+}
+
+/**
+ * Value change of one portfolio over a period
+ */
+export interface PortfolioPeriodChange {
+  portfolioId: string;
+  value: number;
+  change: number;
+  changePercent: number | null;
+}
+
+/**
+ * Value change across portfolios over a period
+ */
+export interface PeriodSummary {
+  totalValue: number;
+  change: number;
+  changePercent: number | null;
+  portfolios: PortfolioPeriodChange[];
+}
+
+/**
+ * Validate history range
+ */
+export function isValidHistoryRange(range: string): range is HistoryRange {
+  return HISTORY_RANGES.includes(range as HistoryRange);
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split("T")[0];
+}
+
+/**
+ * First snapshot date included in a range
+ *
+ * @param range - History range
+ * @param endDate - Last date of the range (YYYY-MM-DD)
+ * @returns Start date, or null for ALL
+ */
+export function getRangeStartDate(range: HistoryRange, endDate: string): string | null {
+  switch (range) {
+    case "1D":
+      return addDays(endDate, -1);
+    case "1W":
+      return addDays(endDate, -7);
+    case "1M":
+    case "3M":
+    case "1Y": {
+      const months = range === "1M" ? 1 : range === "3M" ? 3 : 12;
+      const start = new Date(`${endDate}T00:00:00Z`);
+      const day = start.getUTCDate();
+      start.setUTCDate(1);
+      start.setUTCMonth(start.getUTCMonth() - months);
+      // Clamp to month end (e.g. Mar 31 - 1M = Feb 28)
+      const lastDay = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0)).getUTCDate();
+      start.setUTCDate(Math.min(day, lastDay));
+      return start.toISOString().split("T")[0];
+    }
+    case "ALL":
+      return null;
+  }
+}
+
+/**
+ * Rebuild daily portfolio values between two dates
+ * Quantity and cost basis come from the ledger as of each day;
+ * assets are valued at the last price_history price on or before
+ * the day, falling back to the last transaction price, then the
+ * asset's purchase price. Amounts are converted with fixed factors;
+ * amounts in a currency with no factor are left out.
+ *
+ * @param input - Ledger, price and conversion data
+ * @param fromDate - First day to rebuild (YYYY-MM-DD)
+ * @param toDate - Last day to rebuild (YYYY-MM-DD)
+ * @returns One snapshot per day, oldest first
+ */
+export function buildBackfillSnapshots(input: BackfillInput, fromDate: string, toDate: string): SnapshotValues[] {
+  const factorFor = (currency?: string | null): number | undefined => input.factors[currency || "USD"];
+
+  const assetStates = input.assets.map((asset) => ({
+    asset,
+    transactions: sortTransactions(input.transactions.filter((t) => t.asset_id === asset.id)),
+    prices: input.prices
+      .filter((p) => p.asset_id === asset.id)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    txIndex: 0,
+    priceIndex: 0,
+    quantity: 0,
+    totalCost: 0,
+    price: null as number | null,
+  }));
+
+  const cashTransactions = [...input.cashTransactions].sort((a, b) =>
+    a.transaction_date.localeCompare(b.transaction_date)
+  );
+  let cashIndex = 0;
+  let cashBalance = 0;
+  let netContributions = 0;
+
+  const snapshots: SnapshotValues[] = [];
+
+  for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+    let assetsValue = 0;
+    let costBasis = 0;
+
+    for (const state of assetStates) {
+      // Re-derive the position only on days with new transactions
+      const startIndex = state.txIndex;
+      while (state.txIndex < state.transactions.length && state.transactions[state.txIndex].transaction_date <= date) {
+        state.price = Number(state.transactions[state.txIndex].price);
+        state.txIndex++;
+      }
+      if (state.txIndex !== startIndex) {
+        const position = derivePosition(state.transactions.slice(0, state.txIndex));
+        state.quantity = position.quantity;
+        state.totalCost = position.totalCost;
+      }
+
+      while (state.priceIndex < state.prices.length && state.prices[state.priceIndex].timestamp.slice(0, 10) <= date) {
+        state.price = Number(state.prices[state.priceIndex].price);
+        state.priceIndex++;
+      }
+
+      const factor = factorFor(state.asset.currency);
+      if (state.quantity === 0 || factor === undefined) continue;
+
+      const price = state.price ?? Number(state.asset.purchase_price);
+      assetsValue += state.quantity * price * factor;
+      costBasis += state.totalCost * factor;
+    }
+
+    const startCashIndex = cashIndex;
+    while (cashIndex < cashTransactions.length && cashTransactions[cashIndex].transaction_date <= date) {
+      cashIndex++;
+    }
+    if (cashIndex !== startCashIndex) {
+      const { balances, contributions } = summarizeCash(cashTransactions.slice(0, cashIndex));
+      cashBalance = Object.entries(balances)
+        .reduce((sum, [currency, amount]) => sum + amount * (factorFor(currency) ?? 0), 0);
+      netContributions = Object.entries(contributions)
+        .reduce((sum, [currency, totals]) => sum + totals.net * (factorFor(currency) ?? 0), 0);
+    }
+
+    snapshots.push({
+      snapshotDate: date,
+      totalValue: Number((assetsValue + cashBalance).toFixed(2)),
+      assetsValue: Number(assetsValue.toFixed(2)),
+      costBasis: Number(costBasis.toFixed(2)),
+      cashBalance: Number(cashBalance.toFixed(2)),
+      netContributions: Number(netContributions.toFixed(2)),
+    });
+  }
+
+  return snapshots;
+}
+
+/**
+ * Summarize value change between two dates from stored snapshots
+ * Each portfolio is measured from its last snapshot on or before
+ * startDate (or its first snapshot, if created later) to its last
+ * snapshot on or before endDate. Deposits and withdrawals are
+ * excluded from the change. Snapshots in other currencies are ignored.
+ *
+ * @returns Summary, or null if no portfolio has a snapshot in the period
+ */
+export function summarizeSnapshotPeriod(
+  snapshots: SnapshotPoint[],
+  startDate: string,
+  endDate: string,
+  currency: string
+): PeriodSummary | null {
+  const byPortfolio = new Map<string, SnapshotPoint[]>();
+  for (const snapshot of snapshots) {
+    if (snapshot.currency !== currency || snapshot.snapshotDate > endDate) continue;
+    const list = byPortfolio.get(snapshot.portfolioId) || [];
+    list.push(snapshot);
+    byPortfolio.set(snapshot.portfolioId, list);
+  }
+
+  const portfolios: PortfolioPeriodChange[] = [];
+  let startTotal = 0;
+
+  for (const [portfolioId, list] of byPortfolio.entries()) {
+    list.sort((a, b) => a.snapshotDate.localeCompare(b.snapshotDate));
+    const end = list[list.length - 1];
+    const beforeStart = list.filter((s) => s.snapshotDate <= startDate);
+    const start = beforeStart.length > 0 ? beforeStart[beforeStart.length - 1] : list[0];
+
+    if (end.snapshotDate < startDate) continue; // No snapshot in the period
+
+    const change = (end.totalValue - start.totalValue) - (end.netContributions - start.netContributions);
+    startTotal += start.totalValue;
+    portfolios.push({
+      portfolioId,
+      value: Number(end.totalValue.toFixed(2)),
+      change: Number(change.toFixed(2)),
+      changePercent: start.totalValue > 0 ? Number(((change / start.totalValue) * 100).toFixed(2)) : null,
+    });
+  }
+
+  if (portfolios.length === 0) {
+    return null;
+  }
+
+  const totalValue = portfolios.reduce((sum, p) => sum + p.value, 0);
+  const change = portfolios.reduce((sum, p) => sum + p.change, 0);
+
+  return {
+    totalValue: Number(totalValue.toFixed(2)),
+    change: Number(change.toFixed(2)),
+    changePercent: startTotal > 0 ? Number(((change / startTotal) * 100).toFixed(2)) : null,
+    portfolios,
+  };
+}
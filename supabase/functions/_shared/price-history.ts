@@ -0,0 +1,93 @@
+// =====================================================
+// Vestpod - Price History Module
+// =====================================================
+// Daily price history for an asset, shared by technical alerts
+// and risk analytics:
+// - price_history rows collapsed into daily bars
+// - The provider chain's daily history when the stored history
+//   is too short or volume is needed
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { PRICED_ASSET_TYPES, PricedAssetType, PriceProviderRegistry } from "./price-providers.ts";
+import { DailyBar, toDailyBars } from "./technical-indicators.ts";
+
+// Rows per price_history request
+const PRICE_HISTORY_PAGE_SIZE = 1000;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Asset whose history is loaded
+ */
+export interface HistoryAsset {
+  id: string;
+  symbol: string | null;
+  asset_type: string;
+}
+
+/**
+ * Load an asset's daily bars over the past days
+ * Reads price_history first; asks the provider chain when the stored
+ * history has fewer than minBars days or volume is needed
+ *
+ * @param supabase - Service role client
+ * @param priceProviders - Provider chain for historical prices
+ * @param asset - Asset id, symbol and type
+ * @param days - Calendar days to look back
+ * @param minBars - Bars below which the provider is asked
+ * @param needVolume - Require volume (price_history has none)
+ * @returns Bars in the asset's native currency, oldest first
+ */
+export async function getDailyHistory(
+  supabase: ReturnType<typeof createClient>,
+  priceProviders: PriceProviderRegistry,
+  asset: HistoryAsset,
+  days: number,
+  minBars: number,
+  needVolume = false
+): Promise<DailyBar[]> {
+  const from = new Date(Date.now() - days * MS_PER_DAY).toISOString().split("T")[0];
+  const to = new Date().toISOString().split("T")[0];
+  let bars: DailyBar[] = [];
+
+  // price_history has no volume
+  if (!needVolume) {
+    const prices: { price: number; timestamp: string }[] = [];
+    for (let offset = 0; ; offset += PRICE_HISTORY_PAGE_SIZE) {
+      const { data: page, error } = await supabase
+        .from("price_history")
+        .select("price, timestamp")
+        .eq("asset_id", asset.id)
+        .gte("timestamp", `${from}T00:00:00Z`)
+        .order("timestamp", { ascending: true })
+        .range(offset, offset + PRICE_HISTORY_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch price history: ${error.message}`);
+      }
+
+      prices.push(...(page || []));
+      if (!page || page.length < PRICE_HISTORY_PAGE_SIZE) break;
+    }
+
+    bars = toDailyBars(prices.map((p) => ({ timestamp: new Date(p.timestamp).getTime(), close: Number(p.price) })));
+  }
+
+  if (bars.length < minBars && asset.symbol && PRICED_ASSET_TYPES.includes(asset.asset_type as PricedAssetType)) {
+    try {
+      const history = await priceProviders.getHistory(asset.asset_type as PricedAssetType, asset.symbol, {
+        from,
+        to,
+        timespan: "day",
+      });
+      const providerBars = toDailyBars(history.data);
+      if (providerBars.length > bars.length) {
+        bars = providerBars;
+      }
+    } catch (error) {
+      console.error(`Error fetching daily history for ${asset.symbol}:`, error);
+    }
+  }
+
+  return bars;
+}
@@ -0,0 +1,140 @@
+// =====================================================
+// Vestpod - Price Provider Registry Tests
+// =====================================================
+// Tests for provider chains, fallback and symbol validation
+// Run with: deno test price-providers.test.ts
+
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  PriceProvider,
+  PriceProviderError,
+  PriceProviderRegistry,
+  PriceQuote,
+} from "./price-providers.ts";
+
+class FakeError extends Error {
+  constructor(message: string, public statusCode?: number) {
+    super(message);
+  }
+}
+
+function quote(symbol: string, price: number): PriceQuote {
+  return { symbol, price, change: 0, changePercent: 0, timestamp: 0 };
+}
+
+/**
+ * Provider that knows a fixed set of prices
+ */
+function fakeProvider(id: string, prices: Record<string, number>, overrides: Partial<PriceProvider> = {}): PriceProvider {
+  return {
+    id,
+    assetTypes: ["stock"],
+    configured: true,
+    fetchQuote: (symbol) => {
+      if (symbol in prices) return Promise.resolve(quote(symbol, prices[symbol]));
+      return Promise.reject(new FakeError(`Invalid symbol: ${symbol}`, 404));
+    },
+    ...overrides,
+  };
+}
+
+Deno.test("getQuote - falls back to the next provider", async () => {
+  const registry = new PriceProviderRegistry({ stock: ["primary", "backup"] })
+    .register(fakeProvider("primary", {}, { fetchQuote: () => Promise.reject(new FakeError("timeout")) }))
+    .register(fakeProvider("backup", { AAPL: 190 }));
+
+  const result = await registry.getQuote("stock", "AAPL");
+  assertEquals(result.quote.price, 190);
+  assertEquals(result.source, "backup");
+  assertEquals(result.fallback, true);
+});
+
+Deno.test("getQuote - skips unconfigured providers and honours the chain order", async () => {
+  const registry = new PriceProviderRegistry({ stock: ["a", "b", "c"] })
+    .register(fakeProvider("a", { AAPL: 1 }, { configured: false }))
+    .register(fakeProvider("b", { AAPL: 2 }))
+    .register(fakeProvider("c", { AAPL: 3 }));
+
+  const result = await registry.getQuote("stock", "AAPL");
+  assertEquals(result.source, "b");
+  assertEquals(result.fallback, false);
+
+  registry.setChain("stock", ["c", "b"]);
+  assertEquals((await registry.getQuote("stock", "AAPL")).source, "c");
+});
+
+Deno.test("getQuote - reports unknown symbols as 404 and rate limits as 503", async () => {
+  const registry = new PriceProviderRegistry({ stock: ["a", "b"] })
+    .register(fakeProvider("a", {}))
+    .register(fakeProvider("b", {}));
+
+  const notFound = await assertRejects(() => registry.getQuote("stock", "NOPE"), PriceProviderError) as PriceProviderError;
+  assertEquals(notFound.statusCode, 404);
+  assertEquals(notFound.attempts.map((a) => a.provider), ["a", "b"]);
+
+  registry.register(fakeProvider("b", {}, { fetchQuote: () => Promise.reject(new FakeError("limit", 429)) }));
+  const limited = await assertRejects(() => registry.getQuote("stock", "NOPE"), PriceProviderError) as PriceProviderError;
+  assertEquals(limited.statusCode, 503);
+
+  const empty = new PriceProviderRegistry({ stock: [] });
+  const none = await assertRejects(() => empty.getQuote("stock", "AAPL"), PriceProviderError) as PriceProviderError;
+  assertEquals(none.statusCode, 503);
+});
+
+Deno.test("getBatchQuotes - retries only the symbols that failed", async () => {
+  const requested: string[][] = [];
+  const registry = new PriceProviderRegistry({ stock: ["primary", "backup"] })
+    .register(fakeProvider("primary", { AAPL: 190 }, {
+      fetchBatchQuotes: (symbols) => {
+        requested.push(symbols);
+        return Promise.resolve(new Map(symbols.map((s) => [s, s === "AAPL" ? quote(s, 190) : new FakeError("missing", 404)])));
+      },
+    }))
+    .register(fakeProvider("backup", { MSFT: 410 }));
+
+  const results = await registry.getBatchQuotes("stock", ["AAPL", "MSFT", "NOPE"]);
+
+  assertEquals(requested, [["AAPL", "MSFT", "NOPE"]]);
+  assertEquals((results.get("AAPL") as { source: string }).source, "primary");
+  assertEquals((results.get("MSFT") as { source: string }).source, "backup");
+  assertEquals((results.get("NOPE") as PriceProviderError).statusCode, 404);
+});
+
+Deno.test("getHistory - skips providers without history and empty results", async () => {
+  const registry = new PriceProviderRegistry({ stock: ["quotes-only", "empty", "full"] })
+    .register(fakeProvider("quotes-only", {}))
+    .register(fakeProvider("empty", {}, { fetchHistory: () => Promise.resolve([]) }))
+    .register(fakeProvider("full", {}, { fetchHistory: () => Promise.resolve([{ timestamp: 1, close: 10 }]) }));
+
+  const history = await registry.getHistory("stock", "spy", { from: "2024-01-01", to: "2024-01-31" });
+  assertEquals(history.symbol, "SPY");
+  assertEquals(history.source, "full");
+  assertEquals(history.fallback, true);
+});
+
+Deno.test("validateSymbol - distinguishes invalid symbols from outages", async () => {
+  const registry = new PriceProviderRegistry({ stock: ["a"] }).register(fakeProvider("a", { AAPL: 190 }));
+
+  assertEquals(await registry.validateSymbol("stock", "AAPL"), { valid: true, price: 190, source: "a" });
+  assertEquals((await registry.validateSymbol("stock", "NOPE")).error?.startsWith("Invalid stock symbol"), true);
+
+  registry.register(fakeProvider("a", {}, { fetchQuote: () => Promise.reject(new FakeError("down", 500)) }));
+  assertEquals((await registry.validateSymbol("stock", "AAPL")).error?.startsWith("Unable to validate"), true);
+});
+
+Deno.test("supportsSymbol - unsupported symbols are rejected without a request", async () => {
+  let calls = 0;
+  const registry = new PriceProviderRegistry({ commodity: ["metals"] }).register({
+    ...fakeProvider("metals", { XAU: 2000 }),
+    assetTypes: ["commodity"],
+    supportsSymbol: (symbol) => symbol === "XAU",
+    fetchQuote: (symbol) => {
+      calls++;
+      return Promise.resolve(quote(symbol, 2000));
+    },
+  });
+
+  const error = await assertRejects(() => registry.getQuote("commodity", "OIL"), PriceProviderError) as PriceProviderError;
+  assertEquals(error.statusCode, 404);
+  assertEquals(calls, 0);
+});
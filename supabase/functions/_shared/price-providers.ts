@@ -0,0 +1,655 @@
+// =====================================================
+// Vestpod - Price Provider Registry
+// =====================================================
+// Single entry point for market prices:
+// - Common provider interface over the API clients
+//   (quotes, batch quotes, history, symbol validation)
+// - Registry keyed by asset type with ordered fallback
+//   chains, configurable per deployment
+// - Built-in providers: Massive and Alpha Vantage (stocks),
+//   CoinCap and CoinGecko (crypto), Gold-API and Metals-API
+//   (commodities)
+
+import {
+  fetchBatchQuotes as fetchMassiveBatch,
+  fetchHistoricalData as fetchMassiveHistory,
+  fetchStockQuote as fetchMassiveQuote,
+} from "./massive-client.ts";
+import {
+  fetchBatchQuotes as fetchAlphaVantageBatch,
+  fetchHistoricalData as fetchAlphaVantageHistory,
+  fetchStockQuote as fetchAlphaVantageQuote,
+} from "./alphavantage-client.ts";
+import {
+  CryptoQuote,
+  fetchBatchQuotesBySymbols as fetchCoinCapBatch,
+  fetchCryptoQuoteBySymbol as fetchCoinCapQuote,
+  fetchHistoricalData as fetchCoinCapHistory,
+  symbolToId as coinCapSymbolToId,
+} from "./coincap-client.ts";
+import {
+  fetchBatchQuotesBySymbols as fetchCoinGeckoBatch,
+  fetchCryptoQuoteBySymbol as fetchCoinGeckoQuote,
+  fetchHistoricalData as fetchCoinGeckoHistory,
+  symbolToId as coinGeckoSymbolToId,
+} from "./coingecko-client.ts";
+import {
+  CommodityQuote,
+  CommoditySymbol,
+  fetchBatchQuotes as fetchGoldApiBatch,
+  fetchCommodityQuote as fetchGoldApiQuote,
+} from "./goldapi-client.ts";
+import {
+  fetchBatchQuotes as fetchMetalsApiBatch,
+  fetchCommodityQuote as fetchMetalsApiQuote,
+  fetchHistoricalData as fetchMetalsApiHistory,
+} from "./metals-api-client.ts";
+
+/**
+ * Asset types with public market prices
+ */
+export const PRICED_ASSET_TYPES = ["stock", "crypto", "commodity"] as const;
+export type PricedAssetType = typeof PRICED_ASSET_TYPES[number];
+
+// Supported commodity symbols (precious metals, per troy ounce)
+export const COMMODITY_SYMBOLS: CommoditySymbol[] = ["XAU", "XAG", "XPT", "XPD"];
+
+/**
+ * Default provider order per asset type (first is primary)
+ * Override per deployment with PRICE_PROVIDERS_STOCK,
+ * PRICE_PROVIDERS_CRYPTO and PRICE_PROVIDERS_COMMODITY
+ * (comma-separated provider ids)
+ */
+export const DEFAULT_PROVIDER_CHAINS: Record<PricedAssetType, string[]> = {
+  stock: ["massive", "alphavantage"],
+  crypto: ["coincap", "coingecko"],
+  commodity: ["goldapi", "metals-api"],
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Normalized quote
+ * Stock providers fill the OHLC fields; crypto providers report
+ * 24h change, high and low
+ */
+export interface PriceQuote {
+  symbol: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  timestamp: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  close?: number;
+  volume?: number;
+  previousClose?: number;
+}
+
+/**
+ * Normalized historical price point
+ */
+export interface PriceBar {
+  timestamp: number;
+  close: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  volume?: number;
+}
+
+export type HistoryTimespan = "minute" | "hour" | "day" | "week" | "month" | "quarter" | "year";
+
+/**
+ * History request
+ */
+export interface HistoryOptions {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  timespan?: HistoryTimespan;
+  multiplier?: number;
+}
+
+/**
+ * Price provider plugged into the registry
+ * fetchBatchQuotes and fetchHistory are optional; batches fall back
+ * to single quotes and providers without history are skipped for
+ * history requests.
+ */
+export interface PriceProvider {
+  id: string;
+  assetTypes: readonly PricedAssetType[];
+  // False when a required API key is missing; the provider is skipped
+  configured: boolean;
+  fetchQuote(symbol: string): Promise<PriceQuote>;
+  fetchBatchQuotes?(symbols: string[]): Promise<Map<string, PriceQuote | Error>>;
+  fetchHistory?(symbol: string, options: HistoryOptions): Promise<PriceBar[]>;
+  // Cheap local check; symbols it rejects are not requested
+  supportsSymbol?(symbol: string): boolean;
+}
+
+/**
+ * Quote with the provider that served it
+ */
+export interface SourcedQuote {
+  quote: PriceQuote;
+  source: string;
+  // True when served by a provider after the primary
+  fallback: boolean;
+}
+
+/**
+ * History with the provider that served it
+ */
+export interface SourcedHistory {
+  symbol: string;
+  data: PriceBar[];
+  source: string;
+  fallback: boolean;
+}
+
+/**
+ * Failed provider attempt
+ */
+export interface ProviderAttempt {
+  provider: string;
+  error: string;
+  statusCode?: number;
+}
+
+/**
+ * Error raised when every provider in a chain fails
+ * statusCode is 404 when every provider rejected the symbol and
+ * 503 when a provider was rate limited or none is configured
+ */
+export class PriceProviderError extends Error {
+  constructor(
+    message: string,
+    public statusCode = 500,
+    public attempts: ProviderAttempt[] = []
+  ) {
+    super(message);
+    this.name = "PriceProviderError";
+  }
+}
+
+/**
+ * API keys for the built-in providers
+ * CoinCap and Gold-API need no key; CoinGecko's is optional
+ */
+export interface PriceApiKeys {
+  massive?: string;
+  alphaVantage?: string;
+  coinGecko?: string;
+  metalsApi?: string;
+}
+
+/**
+ * Record a provider failure
+ */
+function toAttempt(provider: string, error: unknown): ProviderAttempt {
+  const err = error as Error & { statusCode?: number };
+  return { provider, error: err?.message || String(error), statusCode: err?.statusCode };
+}
+
+/**
+ * Build the error for an exhausted chain
+ */
+function chainError(subject: string, attempts: ProviderAttempt[]): PriceProviderError {
+  let statusCode = 500;
+  if (attempts.length > 0 && attempts.every((a) => a.statusCode === 400 || a.statusCode === 404)) {
+    statusCode = 404;
+  } else if (attempts.some((a) => a.statusCode === 429)) {
+    statusCode = 503;
+  }
+
+  const detail = attempts.map((a) => `${a.provider}: ${a.error}`).join("; ");
+  return new PriceProviderError(`Failed to fetch ${subject} from all sources${detail ? ` (${detail})` : ""}`, statusCode, attempts);
+}
+
+/**
+ * Registry of price providers with per-asset-type fallback chains
+ */
+export class PriceProviderRegistry {
+  private providers = new Map<string, PriceProvider>();
+  private chains: Record<PricedAssetType, string[]>;
+
+  constructor(chains: Partial<Record<PricedAssetType, string[]>> = {}) {
+    this.chains = { ...DEFAULT_PROVIDER_CHAINS, ...chains };
+  }
+
+  /**
+   * Register (or replace) a provider
+   */
+  register(provider: PriceProvider): this {
+    this.providers.set(provider.id, provider);
+    return this;
+  }
+
+  /**
+   * Set the provider order for an asset type
+   */
+  setChain(assetType: PricedAssetType, providerIds: string[]): this {
+    this.chains[assetType] = [...providerIds];
+    return this;
+  }
+
+  /**
+   * Configured providers for an asset type, in priority order
+   */
+  getChain(assetType: PricedAssetType): PriceProvider[] {
+    return (this.chains[assetType] || [])
+      .map((id) => this.providers.get(id))
+      .filter((p): p is PriceProvider => !!p && p.configured && p.assetTypes.includes(assetType));
+  }
+
+  /**
+   * Providers to try for a symbol, or an error when there are none
+   */
+  private resolveChain(assetType: PricedAssetType, symbol?: string): PriceProvider[] {
+    const chain = this.getChain(assetType);
+    if (chain.length === 0) {
+      throw new PriceProviderError(`No price provider configured for ${assetType}`, 503);
+    }
+
+    if (symbol === undefined) return chain;
+
+    const supported = chain.filter((p) => !p.supportsSymbol || p.supportsSymbol(symbol));
+    if (supported.length === 0) {
+      throw new PriceProviderError(`Unsupported ${assetType} symbol: ${symbol}`, 404);
+    }
+    return supported;
+  }
+
+  /**
+   * Fetch a quote, trying each provider in order
+   */
+  async getQuote(assetType: PricedAssetType, symbol: string): Promise<SourcedQuote> {
+    const primary = this.resolveChain(assetType)[0];
+    const attempts: ProviderAttempt[] = [];
+
+    for (const provider of this.resolveChain(assetType, symbol)) {
+      try {
+        const quote = await provider.fetchQuote(symbol);
+        return { quote, source: provider.id, fallback: provider !== primary };
+      } catch (error) {
+        console.log(`${provider.id} quote failed for ${symbol}:`, (error as Error).message);
+        attempts.push(toAttempt(provider.id, error));
+      }
+    }
+
+    throw chainError(`${assetType} quote for ${symbol}`, attempts);
+  }
+
+  /**
+   * Fetch quotes for many symbols
+   * Symbols a provider fails on are retried with the next provider
+   *
+   * @returns Map of symbol to sourced quote (or PriceProviderError)
+   */
+  async getBatchQuotes(assetType: PricedAssetType, symbols: string[]): Promise<Map<string, SourcedQuote | Error>> {
+    const results = new Map<string, SourcedQuote | Error>();
+    const chain = this.resolveChain(assetType);
+    const attempts = new Map<string, ProviderAttempt[]>(symbols.map((s) => [s, []]));
+    let remaining = [...new Set(symbols)];
+
+    for (const provider of chain) {
+      const requested = remaining.filter((s) => !provider.supportsSymbol || provider.supportsSymbol(s));
+      if (requested.length === 0) continue;
+
+      let batch: Map<string, PriceQuote | Error>;
+      try {
+        batch = provider.fetchBatchQuotes
+          ? await provider.fetchBatchQuotes(requested)
+          : await this.fetchEach(provider, requested);
+      } catch (error) {
+        console.log(`${provider.id} batch failed:`, (error as Error).message);
+        batch = new Map(requested.map((s) => [s, error as Error]));
+      }
+
+      for (const symbol of requested) {
+        const result = batch.get(symbol) ?? new Error(`No quote returned for ${symbol}`);
+        if (result instanceof Error) {
+          attempts.get(symbol)!.push(toAttempt(provider.id, result));
+        } else {
+          results.set(symbol, { quote: result, source: provider.id, fallback: provider !== chain[0] });
+        }
+      }
+
+      remaining = remaining.filter((s) => !results.has(s));
+      if (remaining.length === 0) break;
+    }
+
+    for (const symbol of remaining) {
+      const symbolAttempts = attempts.get(symbol)!;
+      results.set(
+        symbol,
+        symbolAttempts.length > 0
+          ? chainError(`${assetType} quote for ${symbol}`, symbolAttempts)
+          : new PriceProviderError(`Unsupported ${assetType} symbol: ${symbol}`, 404)
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Fetch historical prices, trying each provider with history support
+   * An empty result counts as a failure
+   */
+  async getHistory(assetType: PricedAssetType, symbol: string, options: HistoryOptions): Promise<SourcedHistory> {
+    const primary = this.resolveChain(assetType).find((p) => p.fetchHistory);
+    const attempts: ProviderAttempt[] = [];
+
+    for (const provider of this.resolveChain(assetType, symbol)) {
+      if (!provider.fetchHistory) continue;
+
+      try {
+        const data = await provider.fetchHistory(symbol, options);
+        if (data.length === 0) {
+          throw new PriceProviderError(`No historical data for ${symbol}`, 404);
+        }
+        return { symbol: symbol.toUpperCase(), data, source: provider.id, fallback: provider !== primary };
+      } catch (error) {
+        console.log(`${provider.id} history failed for ${symbol}:`, (error as Error).message);
+        attempts.push(toAttempt(provider.id, error));
+      }
+    }
+
+    if (attempts.length === 0) {
+      throw new PriceProviderError(`No ${assetType} price provider supports history`, 503);
+    }
+
+    throw chainError(`${assetType} history for ${symbol}`, attempts);
+  }
+
+  /**
+   * Validate a symbol by fetching its current price
+   * Invalid means every provider rejected the symbol; other
+   * failures report that the symbol could not be validated
+   */
+  async validateSymbol(
+    assetType: PricedAssetType,
+    symbol: string
+  ): Promise<{ valid: boolean; price?: number; source?: string; error?: string }> {
+    try {
+      const { quote, source } = await this.getQuote(assetType, symbol);
+      if (!(quote.price > 0)) {
+        return {
+          valid: false,
+          error: `Invalid ${assetType} symbol: ${symbol}. Please check the symbol and try again.`,
+        };
+      }
+      return { valid: true, price: quote.price, source };
+    } catch (error) {
+      if (error instanceof PriceProviderError && error.statusCode === 404) {
+        return {
+          valid: false,
+          error: `Invalid ${assetType} symbol: ${symbol}. Please check the symbol and try again.`,
+        };
+      }
+      return {
+        valid: false,
+        error: `Unable to validate ${assetType} symbol: ${symbol}. ${(error as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Batch fallback for providers without a batch endpoint
+   */
+  private async fetchEach(provider: PriceProvider, symbols: string[]): Promise<Map<string, PriceQuote | Error>> {
+    const results = new Map<string, PriceQuote | Error>();
+    for (const symbol of symbols) {
+      try {
+        results.set(symbol, await provider.fetchQuote(symbol));
+      } catch (error) {
+        results.set(symbol, error as Error);
+      }
+    }
+    return results;
+  }
+}
+
+// =====================================================
+// Built-in Providers
+// =====================================================
+
+/**
+ * Map a client batch result (keyed by symbol) to normalized quotes
+ */
+function mapBatch<T>(batch: Map<string, T | Error>, normalize: (quote: T) => PriceQuote): Map<string, PriceQuote | Error> {
+  const results = new Map<string, PriceQuote | Error>();
+  for (const [symbol, result] of batch.entries()) {
+    results.set(symbol, result instanceof Error ? result : normalize(result));
+  }
+  return results;
+}
+
+function fromCryptoQuote(quote: CryptoQuote): PriceQuote {
+  return {
+    symbol: quote.symbol,
+    price: quote.price,
+    change: quote.change24h,
+    changePercent: quote.changePercent24h,
+    high: quote.high24h,
+    low: quote.low24h,
+    volume: quote.volume24h,
+    timestamp: quote.timestamp,
+  };
+}
+
+function fromCommodityQuote(quote: CommodityQuote): PriceQuote {
+  return {
+    symbol: quote.symbol,
+    price: quote.price,
+    change: 0,
+    changePercent: 0,
+    timestamp: quote.timestamp,
+  };
+}
+
+function isCommoditySymbol(symbol: string): boolean {
+  return COMMODITY_SYMBOLS.includes(symbol.toUpperCase() as CommoditySymbol);
+}
+
+/**
+ * Keep points within the requested dates
+ */
+function withinRange<T extends { timestamp: number }>(points: T[], options: HistoryOptions): T[] {
+  const from = new Date(`${options.from}T00:00:00Z`).getTime();
+  const to = new Date(`${options.to}T23:59:59Z`).getTime();
+  return points.filter((p) => p.timestamp >= from && p.timestamp <= to);
+}
+
+/**
+ * Keep the last point per UTC day
+ */
+function lastPerDay<T extends { timestamp: number }>(points: T[]): T[] {
+  const byDate = new Map<string, T>();
+  for (const point of [...points].sort((a, b) => a.timestamp - b.timestamp)) {
+    byDate.set(new Date(point.timestamp).toISOString().split("T")[0], point);
+  }
+  return [...byDate.values()];
+}
+
+/**
+ * Days of crypto history to request so `from` is covered
+ * Daily requests ask for at least 31 days, below which the
+ * crypto APIs return intraday points
+ */
+function cryptoHistoryDays(options: HistoryOptions): number {
+  const days = Math.ceil((Date.now() - new Date(`${options.from}T00:00:00Z`).getTime()) / MS_PER_DAY) + 1;
+  return (options.timespan ?? "day") === "day" ? Math.max(days, 31) : days;
+}
+
+/**
+ * Normalize crypto history to bars for the requested window
+ */
+function toCryptoBars(points: { timestamp: number; price: number }[], options: HistoryOptions): PriceBar[] {
+  const inRange = withinRange(points, options);
+  const daily = (options.timespan ?? "day") === "day" ? lastPerDay(inRange) : inRange;
+  return daily.map((p) => ({ timestamp: p.timestamp, close: p.price }));
+}
+
+/**
+ * Massive.com (Polygon.io) stocks
+ */
+export function createMassiveProvider(apiKey = ""): PriceProvider {
+  return {
+    id: "massive",
+    assetTypes: ["stock"],
+    configured: apiKey.length > 0,
+    fetchQuote: (symbol) => fetchMassiveQuote(symbol, apiKey),
+    fetchBatchQuotes: (symbols) => fetchMassiveBatch(symbols, apiKey),
+    fetchHistory: async (symbol, options) =>
+      (await fetchMassiveHistory(symbol, options.from, options.to, options.timespan ?? "day", options.multiplier ?? 1, apiKey)).data,
+  };
+}
+
+/**
+ * Alpha Vantage stocks (daily history only, 25 calls/day)
+ */
+export function createAlphaVantageProvider(apiKey = ""): PriceProvider {
+  return {
+    id: "alphavantage",
+    assetTypes: ["stock"],
+    configured: apiKey.length > 0,
+    fetchQuote: (symbol) => fetchAlphaVantageQuote(symbol, apiKey),
+    fetchBatchQuotes: (symbols) => fetchAlphaVantageBatch(symbols, apiKey),
+    fetchHistory: async (symbol, options) => {
+      // Compact covers roughly the last 100 trading days
+      const days = (Date.now() - new Date(`${options.from}T00:00:00Z`).getTime()) / MS_PER_DAY;
+      const history = await fetchAlphaVantageHistory(symbol, apiKey, days > 140 ? "full" : "compact");
+      return withinRange(history.data, options);
+    },
+  };
+}
+
+/**
+ * CoinCap crypto (no key required)
+ */
+export function createCoinCapProvider(): PriceProvider {
+  return {
+    id: "coincap",
+    assetTypes: ["crypto"],
+    configured: true,
+    fetchQuote: async (symbol) => fromCryptoQuote(await fetchCoinCapQuote(symbol)),
+    fetchBatchQuotes: async (symbols) => mapBatch(await fetchCoinCapBatch(symbols), fromCryptoQuote),
+    fetchHistory: async (symbol, options) => {
+      const id = await coinCapSymbolToId(symbol);
+      if (!id) {
+        throw new PriceProviderError(`Unknown cryptocurrency symbol: ${symbol}`, 404);
+      }
+      const history = await fetchCoinCapHistory(id, cryptoHistoryDays(options));
+      return toCryptoBars(history.data, options);
+    },
+  };
+}
+
+/**
+ * CoinGecko crypto (demo key optional)
+ */
+export function createCoinGeckoProvider(apiKey?: string): PriceProvider {
+  return {
+    id: "coingecko",
+    assetTypes: ["crypto"],
+    configured: true,
+    fetchQuote: async (symbol) => fromCryptoQuote(await fetchCoinGeckoQuote(symbol, apiKey)),
+    fetchBatchQuotes: async (symbols) => mapBatch(await fetchCoinGeckoBatch(symbols, apiKey), fromCryptoQuote),
+    fetchHistory: async (symbol, options) => {
+      const id = await coinGeckoSymbolToId(symbol, apiKey);
+      if (!id) {
+        throw new PriceProviderError(`Unknown cryptocurrency symbol: ${symbol}`, 404);
+      }
+      const history = await fetchCoinGeckoHistory(id, cryptoHistoryDays(options), apiKey);
+      return toCryptoBars(history.data, options);
+    },
+  };
+}
+
+/**
+ * Gold-API precious metals (no key, no history on the free tier)
+ */
+export function createGoldApiProvider(): PriceProvider {
+  return {
+    id: "goldapi",
+    assetTypes: ["commodity"],
+    configured: true,
+    supportsSymbol: isCommoditySymbol,
+    fetchQuote: async (symbol) => fromCommodityQuote(await fetchGoldApiQuote(symbol.toUpperCase() as CommoditySymbol)),
+    fetchBatchQuotes: async (symbols) => {
+      const batch = await fetchGoldApiBatch(symbols.map((s) => s.toUpperCase() as CommoditySymbol));
+      return new Map(symbols.map((s) => {
+        const result = batch.get(s.toUpperCase() as CommoditySymbol) ?? new Error(`No quote returned for ${s}`);
+        return [s, result instanceof Error ? result : fromCommodityQuote(result)];
+      }));
+    },
+  };
+}
+
+/**
+ * Metals-API precious metals (50 calls/month)
+ */
+export function createMetalsApiProvider(apiKey = ""): PriceProvider {
+  return {
+    id: "metals-api",
+    assetTypes: ["commodity"],
+    configured: apiKey.length > 0,
+    supportsSymbol: isCommoditySymbol,
+    fetchQuote: async (symbol) =>
+      fromCommodityQuote(await fetchMetalsApiQuote(symbol.toUpperCase() as CommoditySymbol, apiKey)),
+    fetchBatchQuotes: async (symbols) => {
+      const batch = await fetchMetalsApiBatch(symbols.map((s) => s.toUpperCase() as CommoditySymbol), apiKey);
+      return new Map(symbols.map((s) => {
+        const result = batch.get(s.toUpperCase() as CommoditySymbol) ?? new Error(`No quote returned for ${s}`);
+        return [s, result instanceof Error ? result : fromCommodityQuote(result)];
+      }));
+    },
+    fetchHistory: async (symbol, options) => {
+      const history = await fetchMetalsApiHistory(symbol.toUpperCase() as CommoditySymbol, options.from, options.to, apiKey);
+      return history.data.map((p) => ({ timestamp: p.timestamp, close: p.price }));
+    },
+  };
+}
+
+/**
+ * Read chain overrides from PRICE_PROVIDERS_<ASSET TYPE>
+ */
+export function getProviderChainsFromEnv(): Partial<Record<PricedAssetType, string[]>> {
+  const chains: Partial<Record<PricedAssetType, string[]>> = {};
+  for (const assetType of PRICED_ASSET_TYPES) {
+    const value = Deno.env.get(`PRICE_PROVIDERS_${assetType.toUpperCase()}`);
+    if (value) {
+      chains[assetType] = value.split(",").map((id) => id.trim()).filter(Boolean);
+    }
+  }
+  return chains;
+}
+
+/**
+ * Create a registry with the built-in providers
+ * Keys and chains default to the environment
+ *
+ * @param options.apiKeys - Provider API keys
+ * @param options.chains - Provider order overrides per asset type
+ */
+export function createPriceProviderRegistry(
+  options: { apiKeys?: PriceApiKeys; chains?: Partial<Record<PricedAssetType, string[]>> } = {}
+): PriceProviderRegistry {
+  const apiKeys = options.apiKeys ?? {
+    massive: Deno.env.get("MASSIVE_API_KEY"),
+    alphaVantage: Deno.env.get("ALPHA_VANTAGE_API_KEY"),
+    coinGecko: Deno.env.get("COINGECKO_API_KEY"),
+    metalsApi: Deno.env.get("METALS_API_KEY"),
+  };
+
+  return new PriceProviderRegistry(options.chains ?? getProviderChainsFromEnv())
+    .register(createMassiveProvider(apiKeys.massive))
+    .register(createAlphaVantageProvider(apiKeys.alphaVantage))
+    .register(createCoinCapProvider())
+    .register(createCoinGeckoProvider(apiKeys.coinGecko))
+    .register(createGoldApiProvider())
+    .register(createMetalsApiProvider(apiKeys.metalsApi));
+}
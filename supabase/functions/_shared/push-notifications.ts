@@ -0,0 +1,455 @@
+// =====================================================
+// Vestpod - Push Notifications
+// =====================================================
+// Delivers push notifications to registered devices:
+// - Firebase Cloud Messaging (HTTP v1 API, service
+//   account OAuth2)
+// - Apple Push Notification service (token-based auth)
+// - Honors user_profiles.notifications_enabled
+// - Deletes tokens the services report as unregistered
+// Endpoints can be overridden (FCM_API_URL, FCM_TOKEN_URL,
+// APNS_API_URL) to point at a local mock push server
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+
+const FCM_API_URL = "https://fcm.googleapis.com";
+const FCM_TOKEN_URL = "https://oauth2.googleapis.com/token";
+const FCM_SCOPE = "https://www.googleapis.com/auth/firebase.messaging";
+const APNS_PRODUCTION_URL = "https://api.push.apple.com";
+const APNS_SANDBOX_URL = "https://api.sandbox.push.apple.com";
+
+// Refresh credentials this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// APNs provider tokens are valid for up to an hour
+const APNS_TOKEN_TTL_MS = 50 * 60 * 1000;
+
+/**
+ * Push services
+ */
+export const PUSH_PROVIDERS = ["fcm", "apns"] as const;
+export type PushProvider = typeof PUSH_PROVIDERS[number];
+
+/**
+ * Device platforms
+ */
+export const DEVICE_PLATFORMS = ["ios", "android"] as const;
+export type DevicePlatform = typeof DEVICE_PLATFORMS[number];
+
+/**
+ * Notification content
+ * Data values are delivered to the app alongside the alert
+ */
+export interface PushMessage {
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+}
+
+/**
+ * Registered device
+ */
+export interface DeviceToken {
+  id: string;
+  token: string;
+  platform: DevicePlatform;
+  provider: PushProvider;
+}
+
+/**
+ * Push service client
+ */
+export interface PushTransport {
+  id: PushProvider;
+  configured: boolean;
+  send(token: string, message: PushMessage): Promise<void>;
+}
+
+/**
+ * FCM service account settings
+ */
+export interface FcmConfig {
+  projectId: string;
+  clientEmail: string;
+  privateKey: string; // PKCS#8 PEM
+  apiUrl?: string;
+  tokenUrl?: string;
+}
+
+/**
+ * APNs token auth settings
+ */
+export interface ApnsConfig {
+  teamId: string;
+  keyId: string;
+  privateKey: string; // .p8 PEM
+  bundleId: string;
+  apiUrl?: string;
+}
+
+/**
+ * Delivery result for one user
+ */
+export interface PushDeliveryResult {
+  sent: number;
+  failed: number;
+  pruned: number;
+  skipped?: "notifications_disabled" | "no_devices";
+}
+
+/**
+ * Custom error class for push delivery errors
+ */
+export class PushNotificationError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public invalidToken: boolean = false
+  ) {
+    super(message);
+    this.name = "PushNotificationError";
+  }
+}
+
+// =====================================================
+// Signing
+// =====================================================
+
+/**
+ * Base64url-encode bytes or a string
+ */
+function base64Url(input: Uint8Array | string): string {
+  const bytes = typeof input === "string" ? new TextEncoder().encode(input) : input;
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Decode a PEM private key to DER bytes
+ * Accepts keys stored in env vars with escaped newlines
+ */
+function pemToDer(pem: string): ArrayBuffer {
+  const binary = atob(
+    pem
+      .replace(/\\n/g, "\n")
+      .replace(/-----(BEGIN|END) [A-Z ]+-----/g, "")
+      .replace(/\s+/g, "")
+  );
+  const der = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) der[i] = binary.charCodeAt(i);
+  return der.buffer;
+}
+
+/**
+ * Sign a JWT (RS256 for Google, ES256 for Apple)
+ */
+async function signJwt(
+  header: Record<string, string>,
+  claims: Record<string, unknown>,
+  privateKey: string
+): Promise<string> {
+  const algorithm = header.alg === "RS256"
+    ? { importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, signParams: { name: "RSASSA-PKCS1-v1_5" } }
+    : { importParams: { name: "ECDSA", namedCurve: "P-256" }, signParams: { name: "ECDSA", hash: "SHA-256" } };
+
+  const key = await crypto.subtle.importKey("pkcs8", pemToDer(privateKey), algorithm.importParams, false, ["sign"]);
+  const signingInput = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(claims))}`;
+  const signature = await crypto.subtle.sign(algorithm.signParams, key, new TextEncoder().encode(signingInput));
+
+  return `${signingInput}.${base64Url(new Uint8Array(signature))}`;
+}
+
+// =====================================================
+// Transports
+// =====================================================
+
+/**
+ * Create the FCM HTTP v1 transport
+ */
+export function createFcmTransport(config?: FcmConfig): PushTransport {
+  let accessToken: { value: string; expiresAt: number } | null = null;
+
+  async function getAccessToken(fcm: FcmConfig): Promise<string> {
+    if (accessToken && Date.now() < accessToken.expiresAt - TOKEN_REFRESH_MARGIN_MS) {
+      return accessToken.value;
+    }
+
+    const tokenUrl = fcm.tokenUrl || FCM_TOKEN_URL;
+    const now = Math.floor(Date.now() / 1000);
+    const assertion = await signJwt(
+      { alg: "RS256", typ: "JWT" },
+      { iss: fcm.clientEmail, scope: FCM_SCOPE, aud: tokenUrl, iat: now, exp: now + 3600 },
+      fcm.privateKey
+    );
+
+    const response = await fetch(tokenUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+        assertion,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new PushNotificationError(`FCM authentication failed: ${response.status}`, response.status);
+    }
+
+    const data = await response.json();
+    accessToken = { value: data.access_token, expiresAt: Date.now() + (data.expires_in || 3600) * 1000 };
+    return accessToken.value;
+  }
+
+  return {
+    id: "fcm",
+    configured: !!config,
+    send: async (token, message) => {
+      if (!config) {
+        throw new PushNotificationError("FCM is not configured", 503);
+      }
+
+      const response = await fetch(
+        `${config.apiUrl || FCM_API_URL}/v1/projects/${config.projectId}/messages:send`,
+        {
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${await getAccessToken(config)}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            message: {
+              token,
+              notification: { title: message.title, body: message.body },
+              data: message.data,
+              android: { priority: "high" },
+              apns: { payload: { aps: { sound: "default" } } },
+            },
+          }),
+        }
+      );
+
+      if (response.ok) {
+        await response.body?.cancel();
+        return;
+      }
+
+      const error = await response.json().catch(() => ({}));
+      const status: string | undefined = error?.error?.status;
+      const errorCode = (error?.error?.details || [])
+        .map((d: { errorCode?: string }) => d.errorCode)
+        .find(Boolean);
+      const invalidToken = errorCode === "UNREGISTERED" ||
+        status === "NOT_FOUND" ||
+        (errorCode === "INVALID_ARGUMENT" && /registration token/i.test(error?.error?.message || ""));
+
+      throw new PushNotificationError(
+        `FCM error: ${errorCode || status || response.status}`,
+        response.status,
+        invalidToken
+      );
+    },
+  };
+}
+
+/**
+ * Create the APNs transport
+ */
+export function createApnsTransport(config?: ApnsConfig): PushTransport {
+  let providerToken: { value: string; issuedAt: number } | null = null;
+
+  async function getProviderToken(apns: ApnsConfig): Promise<string> {
+    if (providerToken && Date.now() - providerToken.issuedAt < APNS_TOKEN_TTL_MS) {
+      return providerToken.value;
+    }
+
+    const issuedAt = Date.now();
+    const value = await signJwt(
+      { alg: "ES256", kid: apns.keyId },
+      { iss: apns.teamId, iat: Math.floor(issuedAt / 1000) },
+      apns.privateKey
+    );
+    providerToken = { value, issuedAt };
+    return value;
+  }
+
+  return {
+    id: "apns",
+    configured: !!config,
+    send: async (token, message) => {
+      if (!config) {
+        throw new PushNotificationError("APNs is not configured", 503);
+      }
+
+      const response = await fetch(`${config.apiUrl || APNS_PRODUCTION_URL}/3/device/${token}`, {
+        method: "POST",
+        headers: {
+          "Authorization": `bearer ${await getProviderToken(config)}`,
+          "apns-topic": config.bundleId,
+          "apns-push-type": "alert",
+          "apns-priority": "10",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          aps: { alert: { title: message.title, body: message.body }, sound: "default" },
+          ...message.data,
+        }),
+      });
+
+      if (response.ok) {
+        await response.body?.cancel();
+        return;
+      }
+
+      const error = await response.json().catch(() => ({}));
+      const reason: string | undefined = error?.reason;
+      const invalidToken = response.status === 410 ||
+        reason === "BadDeviceToken" ||
+        reason === "DeviceTokenNotForTopic";
+
+      throw new PushNotificationError(`APNs error: ${reason || response.status}`, response.status, invalidToken);
+    },
+  };
+}
+
+/**
+ * Read FCM and APNs settings from the environment
+ * Missing credentials leave that service unconfigured
+ */
+export function getPushConfigFromEnv(): { fcm?: FcmConfig; apns?: ApnsConfig } {
+  const fcmProjectId = Deno.env.get("FCM_PROJECT_ID");
+  const fcmClientEmail = Deno.env.get("FCM_CLIENT_EMAIL");
+  const fcmPrivateKey = Deno.env.get("FCM_PRIVATE_KEY");
+
+  const apnsTeamId = Deno.env.get("APNS_TEAM_ID");
+  const apnsKeyId = Deno.env.get("APNS_KEY_ID");
+  const apnsPrivateKey = Deno.env.get("APNS_PRIVATE_KEY");
+  const apnsBundleId = Deno.env.get("APNS_BUNDLE_ID");
+
+  return {
+    fcm: fcmProjectId && fcmClientEmail && fcmPrivateKey
+      ? {
+        projectId: fcmProjectId,
+        clientEmail: fcmClientEmail,
+        privateKey: fcmPrivateKey,
+        apiUrl: Deno.env.get("FCM_API_URL"),
+        tokenUrl: Deno.env.get("FCM_TOKEN_URL"),
+      }
+      : undefined,
+    apns: apnsTeamId && apnsKeyId && apnsPrivateKey && apnsBundleId
+      ? {
+        teamId: apnsTeamId,
+        keyId: apnsKeyId,
+        privateKey: apnsPrivateKey,
+        bundleId: apnsBundleId,
+        apiUrl: Deno.env.get("APNS_API_URL") ||
+          (Deno.env.get("APNS_ENVIRONMENT") === "sandbox" ? APNS_SANDBOX_URL : APNS_PRODUCTION_URL),
+      }
+      : undefined,
+  };
+}
+
+/**
+ * Create transports for every push service
+ */
+export function createPushTransports(
+  config: { fcm?: FcmConfig; apns?: ApnsConfig } = getPushConfigFromEnv()
+): Record<PushProvider, PushTransport> {
+  return {
+    fcm: createFcmTransport(config.fcm),
+    apns: createApnsTransport(config.apns),
+  };
+}
+
+// =====================================================
+// Delivery
+// =====================================================
+
+/**
+ * Send a message to a list of devices
+ * Never throws; failures are counted and invalid tokens returned
+ */
+export async function deliverToDevices(
+  transports: Record<PushProvider, PushTransport>,
+  devices: DeviceToken[],
+  message: PushMessage
+): Promise<{ sent: number; failed: number; invalidTokenIds: string[] }> {
+  let sent = 0;
+  let failed = 0;
+  const invalidTokenIds: string[] = [];
+
+  for (const device of devices) {
+    const transport = transports[device.provider];
+    if (!transport?.configured) {
+      failed++;
+      continue;
+    }
+
+    try {
+      await transport.send(device.token, message);
+      sent++;
+    } catch (error) {
+      failed++;
+      if (error instanceof PushNotificationError && error.invalidToken) {
+        invalidTokenIds.push(device.id);
+      } else {
+        console.error(`Push delivery via ${device.provider} failed:`, error);
+      }
+    }
+  }
+
+  return { sent, failed, invalidTokenIds };
+}
+
+/**
+ * Send a notification to all of a user's devices
+ * Skipped when the user has turned notifications off
+ */
+export async function sendPushToUser(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  message: PushMessage,
+  transports: Record<PushProvider, PushTransport> = createPushTransports()
+): Promise<PushDeliveryResult> {
+  const { data: profile } = await supabase
+    .from("user_profiles")
+    .select("notifications_enabled")
+    .eq("id", userId)
+    .single();
+
+  if (profile && profile.notifications_enabled === false) {
+    return { sent: 0, failed: 0, pruned: 0, skipped: "notifications_disabled" };
+  }
+
+  const { data: devices, error } = await supabase
+    .from("device_tokens")
+    .select("id, token, platform, provider")
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("Error fetching device tokens:", error);
+    return { sent: 0, failed: 0, pruned: 0 };
+  }
+
+  if (!devices || devices.length === 0) {
+    return { sent: 0, failed: 0, pruned: 0, skipped: "no_devices" };
+  }
+
+  const { sent, failed, invalidTokenIds } = await deliverToDevices(transports, devices as DeviceToken[], message);
+
+  // Prune tokens the push services no longer accept
+  let pruned = 0;
+  if (invalidTokenIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from("device_tokens")
+      .delete()
+      .in("id", invalidTokenIds);
+
+    if (deleteError) {
+      console.error("Error pruning device tokens:", deleteError);
+    } else {
+      pruned = invalidTokenIds.length;
+    }
+  }
+
+  return { sent, failed, pruned };
+}
@@ -0,0 +1,63 @@
+// =====================================================
+// Vestpod - Quote Cache Tests
+// =====================================================
+// Tests for cache hit/refresh planning across holders
+// Run with: deno test quote-cache.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { CachedQuote, planQuoteRefresh, quoteCacheKey } from "./quote-cache.ts";
+
+const NOW = Date.parse("2024-06-03T12:00:00Z");
+
+function cachedQuote(symbol: string, minutesAgo: number): CachedQuote {
+  return {
+    assetType: "stock",
+    symbol,
+    price: 100,
+    change: 0,
+    changePercent: 0,
+    source: "massive",
+    fetchedAt: new Date(NOW - minutesAgo * 60 * 1000).toISOString(),
+    cached: true,
+  };
+}
+
+Deno.test("planQuoteRefresh - fetches each symbol once across holders", () => {
+  const { hits, toFetch } = planQuoteRefresh(
+    [
+      { assetType: "stock", symbol: "AAPL", ttlMinutes: 15 },
+      { assetType: "stock", symbol: "aapl", ttlMinutes: 15 },
+      { assetType: "crypto", symbol: "BTC", ttlMinutes: 5 },
+      { assetType: "crypto", symbol: "BTC", ttlMinutes: 15 },
+    ],
+    new Map(),
+    NOW
+  );
+
+  assertEquals(hits.size, 0);
+  assertEquals(toFetch, { stock: ["AAPL"], crypto: ["BTC"], commodity: [] });
+});
+
+Deno.test("planQuoteRefresh - reuses quotes within the shortest holder TTL", () => {
+  const cached = new Map([
+    [quoteCacheKey("stock", "AAPL"), cachedQuote("AAPL", 10)],
+    [quoteCacheKey("stock", "MSFT"), cachedQuote("MSFT", 10)],
+    [quoteCacheKey("stock", "TSLA"), cachedQuote("TSLA", 20)],
+  ]);
+
+  const { hits, toFetch } = planQuoteRefresh(
+    [
+      // Free holders only: a 10 minute old quote is fresh enough
+      { assetType: "stock", symbol: "AAPL", ttlMinutes: 15 },
+      // A premium holder needs a quote under 5 minutes old
+      { assetType: "stock", symbol: "MSFT", ttlMinutes: 15 },
+      { assetType: "stock", symbol: "MSFT", ttlMinutes: 5 },
+      { assetType: "stock", symbol: "TSLA", ttlMinutes: 15 },
+    ],
+    cached,
+    NOW
+  );
+
+  assertEquals([...hits.keys()], ["stock:AAPL"]);
+  assertEquals(toFetch.stock, ["MSFT", "TSLA"]);
+});
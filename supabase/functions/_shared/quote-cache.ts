@@ -0,0 +1,284 @@
+// =====================================================
+// Vestpod - Quote Cache Module
+// =====================================================
+// Database-backed cache of the latest quote per
+// (asset_type, symbol), shared across users:
+// - Reuses quotes younger than the requester's TTL (the
+//   subscription tier's price_update_frequency_minutes)
+// - Fetches each stale symbol once through the price
+//   provider registry and stores the result
+// - Persists the CoinCap coin list across cold starts
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { CoinMapping, getCoinListSnapshot, primeCoinList } from "./coincap-client.ts";
+import { PRICED_ASSET_TYPES, PricedAssetType, PriceProviderRegistry } from "./price-providers.ts";
+
+// Free tier update frequency, used when a requester has none
+export const DEFAULT_QUOTE_TTL_MINUTES = 15;
+
+// Symbols per cache query (keeps request URLs short)
+const CACHE_QUERY_CHUNK_SIZE = 200;
+
+/**
+ * Quote wanted by one holder
+ */
+export interface QuoteRequest {
+  assetType: PricedAssetType;
+  symbol: string;
+  ttlMinutes: number;
+}
+
+/**
+ * Cached quote
+ */
+export interface CachedQuote {
+  assetType: PricedAssetType;
+  symbol: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  source: string;
+  fetchedAt: string;
+  // True when served from the cache rather than fetched this call
+  cached: boolean;
+}
+
+/**
+ * Providers failed and the cached quote is past its TTL
+ * Carries the expired quote for reporting; it is not a price update
+ */
+export class StaleQuoteError extends Error {
+  constructor(public quote: CachedQuote) {
+    super(`Price providers failed; cached ${quote.symbol} quote from ${quote.fetchedAt} is stale`);
+    this.name = "StaleQuoteError";
+  }
+}
+
+/**
+ * Cache key for a symbol
+ */
+export function quoteCacheKey(assetType: string, symbol: string): string {
+  return `${assetType}:${symbol.toUpperCase()}`;
+}
+
+/**
+ * Split requests into cache hits and symbols to fetch
+ * Requests for the same symbol are merged; the shortest TTL wins
+ *
+ * @param requests - Quotes wanted, possibly repeated across holders
+ * @param cached - Cached quotes by quoteCacheKey
+ * @param now - Current time (ms since epoch)
+ * @returns Fresh cached quotes and stale/missing symbols per asset type
+ */
+export function planQuoteRefresh(
+  requests: QuoteRequest[],
+  cached: Map<string, CachedQuote>,
+  now = Date.now()
+): { hits: Map<string, CachedQuote>; toFetch: Record<PricedAssetType, string[]> } {
+  const ttls = new Map<string, { assetType: PricedAssetType; symbol: string; ttlMinutes: number }>();
+  for (const request of requests) {
+    const key = quoteCacheKey(request.assetType, request.symbol);
+    const existing = ttls.get(key);
+    if (!existing || request.ttlMinutes < existing.ttlMinutes) {
+      ttls.set(key, { assetType: request.assetType, symbol: request.symbol.toUpperCase(), ttlMinutes: request.ttlMinutes });
+    }
+  }
+
+  const hits = new Map<string, CachedQuote>();
+  const toFetch: Record<PricedAssetType, string[]> = { stock: [], crypto: [], commodity: [] };
+
+  for (const [key, { assetType, symbol, ttlMinutes }] of ttls.entries()) {
+    const quote = cached.get(key);
+    if (quote && now - new Date(quote.fetchedAt).getTime() < ttlMinutes * 60 * 1000) {
+      hits.set(key, { ...quote, cached: true });
+    } else {
+      toFetch[assetType].push(symbol);
+    }
+  }
+
+  return { hits, toFetch };
+}
+
+/**
+ * Read cached quotes for symbols
+ *
+ * @returns Cached quotes by quoteCacheKey
+ */
+export async function readCachedQuotes(
+  supabase: ReturnType<typeof createClient>,
+  keys: { assetType: PricedAssetType; symbol: string }[]
+): Promise<Map<string, CachedQuote>> {
+  const results = new Map<string, CachedQuote>();
+
+  for (const assetType of PRICED_ASSET_TYPES) {
+    const symbols = [...new Set(keys.filter((k) => k.assetType === assetType).map((k) => k.symbol.toUpperCase()))];
+
+    for (let i = 0; i < symbols.length; i += CACHE_QUERY_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from("quote_cache")
+        .select("asset_type, symbol, price, change, change_percent, source, fetched_at")
+        .eq("asset_type", assetType)
+        .in("symbol", symbols.slice(i, i + CACHE_QUERY_CHUNK_SIZE));
+
+      if (error) {
+        console.error("Error reading quote cache:", error);
+        continue;
+      }
+
+      for (const row of data || []) {
+        results.set(quoteCacheKey(row.asset_type, row.symbol), {
+          assetType: row.asset_type,
+          symbol: row.symbol,
+          price: Number(row.price),
+          change: Number(row.change),
+          changePercent: Number(row.change_percent),
+          source: row.source,
+          fetchedAt: row.fetched_at,
+          cached: true,
+        });
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Store freshly fetched quotes
+ */
+export async function writeCachedQuotes(supabase: ReturnType<typeof createClient>, quotes: CachedQuote[]): Promise<void> {
+  if (quotes.length === 0) return;
+
+  const { error } = await supabase
+    .from("quote_cache")
+    .upsert(
+      quotes.map((q) => ({
+        asset_type: q.assetType,
+        symbol: q.symbol,
+        price: q.price,
+        change: q.change,
+        change_percent: q.changePercent,
+        source: q.source,
+        fetched_at: q.fetchedAt,
+      })),
+      { onConflict: "asset_type,symbol" }
+    );
+
+  if (error) {
+    console.error("Error writing quote cache:", error);
+  }
+}
+
+/**
+ * Get quotes for many holders, fetching each stale symbol once
+ *
+ * @param supabase - Service role client
+ * @param priceProviders - Price provider registry
+ * @param requests - Quotes wanted (one per holder and symbol)
+ * @returns Quote (or error) by quoteCacheKey, plus cache statistics;
+ *          an expired quote whose refresh failed is a StaleQuoteError
+ */
+export async function getQuotes(
+  supabase: ReturnType<typeof createClient>,
+  priceProviders: PriceProviderRegistry,
+  requests: QuoteRequest[]
+): Promise<{ quotes: Map<string, CachedQuote | Error>; uniqueSymbols: number; cacheHits: number; fetched: number }> {
+  const cached = await readCachedQuotes(supabase, requests);
+  const { hits, toFetch } = planQuoteRefresh(requests, cached);
+
+  const quotes = new Map<string, CachedQuote | Error>(hits);
+  const fresh: CachedQuote[] = [];
+  let fetched = 0;
+
+  for (const assetType of PRICED_ASSET_TYPES) {
+    const symbols = toFetch[assetType];
+    if (symbols.length === 0) continue;
+    fetched += symbols.length;
+
+    let results: Awaited<ReturnType<PriceProviderRegistry["getBatchQuotes"]>>;
+    try {
+      results = await priceProviders.getBatchQuotes(assetType, symbols);
+    } catch (error) {
+      console.error(`${assetType} price providers unavailable:`, error);
+      results = new Map(symbols.map((s) => [s, error as Error]));
+    }
+
+    const fetchedAt = new Date().toISOString();
+    for (const symbol of symbols) {
+      const key = quoteCacheKey(assetType, symbol);
+      const result = results.get(symbol) ?? new Error(`No quote returned for ${symbol}`);
+
+      if (result instanceof Error || !(result.quote.price > 0)) {
+        const stale = cached.get(key);
+        quotes.set(
+          key,
+          stale
+            ? new StaleQuoteError(stale)
+            : result instanceof Error
+            ? result
+            : new Error(`Invalid price for ${symbol}`)
+        );
+        continue;
+      }
+
+      const quote: CachedQuote = {
+        assetType,
+        symbol,
+        price: result.quote.price,
+        change: result.quote.change,
+        changePercent: result.quote.changePercent,
+        source: result.source,
+        fetchedAt,
+        cached: false,
+      };
+      quotes.set(key, quote);
+      fresh.push(quote);
+    }
+  }
+
+  await writeCachedQuotes(supabase, fresh);
+
+  return { quotes, uniqueSymbols: hits.size + fetched, cacheHits: hits.size, fetched };
+}
+
+/**
+ * Load the persisted CoinCap coin list into memory
+ */
+export async function restoreCoinList(supabase: ReturnType<typeof createClient>): Promise<void> {
+  const { data, error } = await supabase
+    .from("coin_list_cache")
+    .select("coins, fetched_at")
+    .eq("provider", "coincap")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error reading coin list cache:", error);
+    return;
+  }
+
+  if (data) {
+    primeCoinList(data.coins as CoinMapping[], new Date(data.fetched_at).getTime());
+  }
+}
+
+/**
+ * Persist the in-memory CoinCap coin list if it was refreshed
+ *
+ * @param since - Fetch time of the list restored at startup (ms since epoch)
+ */
+export async function persistCoinList(supabase: ReturnType<typeof createClient>, since = 0): Promise<void> {
+  const snapshot = getCoinListSnapshot();
+  if (!snapshot || snapshot.fetchedAt <= since) return;
+
+  const { error } = await supabase
+    .from("coin_list_cache")
+    .upsert({
+      provider: "coincap",
+      coins: snapshot.coins,
+      fetched_at: new Date(snapshot.fetchedAt).toISOString(),
+    }, { onConflict: "provider" });
+
+  if (error) {
+    console.error("Error writing coin list cache:", error);
+  }
+}
@@ -0,0 +1,69 @@
+// =====================================================
+// Vestpod - Rebalancing Tests
+// =====================================================
+// Tests for target allocation validation and the rebalancing planner
+// Run with: deno test rebalancing.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { planRebalance, RebalanceHolding, RebalanceOptions, validateAllocationTargets } from "./rebalancing.ts";
+
+function holding(assetId: string, assetType: string, quantity: number, price: number, sector: string | null = null): RebalanceHolding {
+  return { assetId, name: assetId, symbol: assetId, assetType, sector, country: null, quantity, price, tradable: true };
+}
+
+const OPTIONS: RebalanceOptions = { cash: 0, minTradeValue: 0, newMoneyOnly: false, wholeUnits: false };
+
+// 80/20 stocks/crypto against a 60/40 target
+const HOLDINGS = [holding("SPY", "stock", 16, 500), holding("BTC", "crypto", 0.05, 40000)];
+const TARGETS = [{ key: "stock", weight: 60 }, { key: "crypto", weight: 40 }];
+
+Deno.test("validateAllocationTargets - unique keys with weights summing to 100", () => {
+  assertEquals(validateAllocationTargets("asset_type", TARGETS).valid, true);
+  assertEquals(validateAllocationTargets("sector", [{ key: "Technology", weight: 100 }]).valid, true);
+  assertEquals(validateAllocationTargets("region", TARGETS).valid, false);
+  assertEquals(validateAllocationTargets("asset_type", [{ key: "stock", weight: 60 }]).valid, false);
+  assertEquals(validateAllocationTargets("asset_type", [{ key: "cash", weight: 100 }]).valid, false);
+  assertEquals(validateAllocationTargets("sector", [{ key: "Tech", weight: 50 }, { key: "Tech", weight: 50 }]).valid, false);
+  assertEquals(validateAllocationTargets("sector", []).valid, false);
+});
+
+Deno.test("planRebalance - sells overweight and buys underweight keys", () => {
+  const plan = planRebalance(HOLDINGS, "asset_type", TARGETS, OPTIONS);
+
+  assertEquals(plan.investedValue, 10000);
+  assertEquals(plan.drift.map((d) => [d.key, d.currentWeight, d.drift, d.projectedWeight]), [
+    ["stock", 80, 20, 60],
+    ["crypto", 20, -20, 40],
+  ]);
+  assertEquals(plan.trades.map((t) => [t.assetId, t.action, t.quantity, t.value]), [
+    ["SPY", "sell", 4, 2000],
+    ["BTC", "buy", 0.05, 2000],
+  ]);
+  assertEquals(plan.cashAfter, 0);
+});
+
+Deno.test("planRebalance - new money only buys with cash and never sells", () => {
+  const plan = planRebalance(HOLDINGS, "asset_type", TARGETS, { ...OPTIONS, cash: 1000, newMoneyOnly: true });
+
+  // Crypto is 3400 short of 40% of 11000; the 1000 available all goes there
+  assertEquals(plan.trades.map((t) => [t.assetId, t.action, t.value]), [["BTC", "buy", 1000]]);
+  assertEquals(plan.totalSells, 0);
+  assertEquals(plan.cashAfter, 0);
+});
+
+Deno.test("planRebalance - whole units, minimum trade size and unfunded keys", () => {
+  const holdings = [holding("AAPL", "stock", 10, 150, "Technology"), holding("XOM", "stock", 10, 110, "Energy")];
+  const targets = [
+    { key: "Technology", weight: 40 },
+    { key: "Energy", weight: 40 },
+    { key: "Healthcare", weight: 20 },
+  ];
+
+  const plan = planRebalance(holdings, "sector", targets, { ...OPTIONS, cash: 400, wholeUnits: true, minTradeValue: 200 });
+
+  // Total 3000: Technology 1500 -> 1200, Energy 1100 -> 1200, Healthcare has nothing to buy
+  assertEquals(plan.unfunded, ["Healthcare"]);
+  assertEquals(plan.trades.map((t) => [t.assetId, t.action, t.quantity]), [["AAPL", "sell", 2]]);
+  // Buying XOM for 100 is below the minimum trade size
+  assertEquals(plan.cashAfter, 700);
+});
@@ -0,0 +1,345 @@
+// =====================================================
+// Vestpod - Rebalancing Module
+// =====================================================
+// Target allocation models and the rebalancing planner:
+// - Target weights by asset, asset type, sector or country
+// - Drift of current holdings from target
+// - Trade list (buy/sell quantities) back to target, using
+//   available cash, skipping trades below a minimum size
+// - "New money only" plans that buy with cash and never sell
+
+import { ALLOCATION_BUCKETS } from "./alert-conditions.ts";
+
+/**
+ * Dimensions a target allocation can be defined on
+ */
+export const ALLOCATION_DIMENSIONS = ["asset", "asset_type", "sector", "country"] as const;
+export type AllocationDimension = typeof ALLOCATION_DIMENSIONS[number];
+
+// Targets per model
+export const MAX_ALLOCATION_TARGETS = 50;
+
+// Key for holdings without a sector or country
+export const UNKNOWN_ALLOCATION_KEY = "Unknown";
+
+// Decimal places of fractional trade quantities
+const QUANTITY_DECIMALS = 6;
+
+/**
+ * Target weight (percent of invested value)
+ */
+export interface AllocationTarget {
+  key: string;
+  weight: number;
+}
+
+/**
+ * Holding valued in the user's currency
+ */
+export interface RebalanceHolding {
+  assetId: string;
+  name: string;
+  symbol: string | null;
+  assetType: string;
+  sector: string | null;
+  country: string | null;
+  quantity: number;
+  price: number;
+  // Holdings without a price (or real estate) cannot be traded
+  tradable: boolean;
+}
+
+/**
+ * Planner options
+ */
+export interface RebalanceOptions {
+  // Cash available to invest
+  cash: number;
+  // Trades below this value are skipped
+  minTradeValue: number;
+  // Buy with cash only, never sell
+  newMoneyOnly: boolean;
+  // Round quantities down to whole units
+  wholeUnits: boolean;
+}
+
+/**
+ * Current and target weight of one allocation key
+ */
+export interface AllocationDrift {
+  key: string;
+  targetWeight: number;
+  currentWeight: number;
+  currentValue: number;
+  targetValue: number;
+  // Current minus target weight, in percentage points
+  drift: number;
+  // Weight once the trades are done
+  projectedWeight: number;
+}
+
+/**
+ * Trade to reach the target
+ */
+export interface RebalanceTrade {
+  assetId: string;
+  name: string;
+  symbol: string | null;
+  key: string;
+  action: "buy" | "sell";
+  quantity: number;
+  price: number;
+  value: number;
+}
+
+/**
+ * Rebalancing plan
+ */
+export interface RebalancePlan {
+  investedValue: number;
+  cashAvailable: number;
+  drift: AllocationDrift[];
+  trades: RebalanceTrade[];
+  totalBuys: number;
+  totalSells: number;
+  cashAfter: number;
+  // Underweight keys with no tradable holding to buy
+  unfunded: string[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Validate a target allocation model
+ * 1-50 unique keys with non-negative weights summing to 100
+ */
+export function validateAllocationTargets(dimension: unknown, targets: unknown): { valid: boolean; error?: string } {
+  if (!ALLOCATION_DIMENSIONS.includes(dimension as AllocationDimension)) {
+    return { valid: false, error: `Dimension must be one of: ${ALLOCATION_DIMENSIONS.join(", ")}` };
+  }
+
+  if (!Array.isArray(targets) || targets.length === 0) {
+    return { valid: false, error: "Targets must be a non-empty array" };
+  }
+
+  if (targets.length > MAX_ALLOCATION_TARGETS) {
+    return { valid: false, error: `A target allocation can have at most ${MAX_ALLOCATION_TARGETS} targets` };
+  }
+
+  const seen = new Set<string>();
+  let totalWeight = 0;
+
+  for (const target of targets) {
+    if (!target || typeof target.key !== "string" || target.key.trim().length === 0) {
+      return { valid: false, error: "Target key is required" };
+    }
+
+    if (dimension === "asset_type" && (target.key === "cash" || !ALLOCATION_BUCKETS.includes(target.key))) {
+      return {
+        valid: false,
+        error: `Asset type must be one of: ${ALLOCATION_BUCKETS.filter((b) => b !== "cash").join(", ")}`,
+      };
+    }
+
+    if (typeof target.weight !== "number" || !(target.weight >= 0) || target.weight > 100) {
+      return { valid: false, error: "Target weight must be a percentage between 0 and 100" };
+    }
+
+    if (seen.has(target.key)) {
+      return { valid: false, error: `Duplicate target: ${target.key}` };
+    }
+    seen.add(target.key);
+    totalWeight += target.weight;
+  }
+
+  if (Math.abs(totalWeight - 100) > 0.01) {
+    return { valid: false, error: "Target weights must sum to 100" };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Allocation key of a holding in a dimension
+ */
+export function allocationKey(holding: RebalanceHolding, dimension: AllocationDimension): string {
+  switch (dimension) {
+    case "asset":
+      return holding.assetId;
+    case "asset_type":
+      return holding.assetType;
+    case "sector":
+      return holding.sector || UNKNOWN_ALLOCATION_KEY;
+    case "country":
+      return holding.country || UNKNOWN_ALLOCATION_KEY;
+  }
+}
+
+/**
+ * Round a quantity down so trades never exceed their budget
+ */
+function roundQuantity(quantity: number, wholeUnits: boolean): number {
+  const factor = wholeUnits ? 1 : 10 ** QUANTITY_DECIMALS;
+  return Math.floor(quantity * factor + 1e-9) / factor;
+}
+
+/**
+ * Split an amount over holdings in proportion to their value
+ * (equally when none has a value yet)
+ */
+function splitByValue(amount: number, holdings: RebalanceHolding[]): number[] {
+  const values = holdings.map((h) => h.quantity * h.price);
+  const total = values.reduce((sum, v) => sum + v, 0);
+  return total > 0 ? values.map((v) => (amount * v) / total) : holdings.map(() => amount / holdings.length);
+}
+
+/**
+ * Plan the trades that bring holdings back to target
+ * Targets apply to invested value after the cash is put to work;
+ * keys held but missing from the model have a 0% target.
+ * Sells fund buys unless newMoneyOnly is set; buys are scaled down
+ * when cash and sale proceeds do not cover every shortfall.
+ *
+ * @param holdings - Holdings with prices in the user's currency
+ * @param dimension - Dimension of the target model
+ * @param targets - Target weights (percentages summing to 100)
+ * @param options - Cash, minimum trade value and mode
+ */
+export function planRebalance(
+  holdings: RebalanceHolding[],
+  dimension: AllocationDimension,
+  targets: AllocationTarget[],
+  options: RebalanceOptions
+): RebalancePlan {
+  const cash = Math.max(options.cash, 0);
+  const investedValue = holdings.reduce((sum, h) => sum + h.quantity * h.price, 0);
+  const totalValue = investedValue + cash;
+
+  // Holdings and value per key, including targets with nothing held
+  const groups = new Map<string, { holdings: RebalanceHolding[]; value: number }>();
+  for (const target of targets) {
+    groups.set(target.key, { holdings: [], value: 0 });
+  }
+  for (const holding of holdings) {
+    const key = allocationKey(holding, dimension);
+    const group = groups.get(key) || { holdings: [], value: 0 };
+    group.holdings.push(holding);
+    group.value += holding.quantity * holding.price;
+    groups.set(key, group);
+  }
+
+  const targetWeights = new Map(targets.map((t) => [t.key, t.weight]));
+  const deltas = new Map<string, number>();
+  for (const [key, group] of groups) {
+    deltas.set(key, ((targetWeights.get(key) || 0) / 100) * totalValue - group.value);
+  }
+
+  // Records a trade unless it rounds to nothing or is below the minimum;
+  // returns its value
+  const trades: RebalanceTrade[] = [];
+  const addTrade = (holding: RebalanceHolding, key: string, action: "buy" | "sell", amount: number): number => {
+    const positionValue = holding.quantity * holding.price;
+    // Selling the whole position is not subject to rounding
+    const quantity = action === "sell" && amount >= positionValue
+      ? holding.quantity
+      : roundQuantity(amount / holding.price, options.wholeUnits);
+    const value = quantity * holding.price;
+
+    if (quantity <= 0 || value < options.minTradeValue) {
+      return 0;
+    }
+
+    trades.push({
+      assetId: holding.assetId,
+      name: holding.name,
+      symbol: holding.symbol,
+      key,
+      action,
+      quantity,
+      price: holding.price,
+      value: round2(value),
+    });
+    return value;
+  };
+
+  // Sell overweight keys
+  let sellProceeds = 0;
+  if (!options.newMoneyOnly) {
+    for (const [key, delta] of deltas) {
+      if (delta >= 0) continue;
+
+      const tradable = groups.get(key)!.holdings.filter((h) => h.tradable);
+      const amounts = splitByValue(-delta, tradable);
+      tradable.forEach((holding, i) => {
+        sellProceeds += addTrade(holding, key, "sell", Math.min(amounts[i], holding.quantity * holding.price));
+      });
+    }
+  }
+
+  // Buy underweight keys with cash and sale proceeds
+  const unfunded: string[] = [];
+  const shortfalls: [string, RebalanceHolding[], number][] = [];
+  for (const [key, delta] of deltas) {
+    if (delta <= 0) continue;
+
+    const tradable = groups.get(key)!.holdings.filter((h) => h.tradable);
+    if (tradable.length === 0) {
+      unfunded.push(key);
+    } else {
+      shortfalls.push([key, tradable, delta]);
+    }
+  }
+
+  const budget = cash + sellProceeds;
+  const totalShortfall = shortfalls.reduce((sum, [, , delta]) => sum + delta, 0);
+  const scale = totalShortfall > budget ? budget / totalShortfall : 1;
+
+  let totalBuys = 0;
+  for (const [key, tradable, delta] of shortfalls) {
+    const amounts = splitByValue(delta * scale, tradable);
+    tradable.forEach((holding, i) => {
+      totalBuys += addTrade(holding, key, "buy", amounts[i]);
+    });
+  }
+
+  // Weights once the trades are done
+  const tradedValue = new Map<string, number>();
+  for (const trade of trades) {
+    const signed = trade.action === "buy" ? trade.quantity * trade.price : -trade.quantity * trade.price;
+    tradedValue.set(trade.key, (tradedValue.get(trade.key) || 0) + signed);
+  }
+  const investedAfter = investedValue + totalBuys - sellProceeds;
+
+  const drift: AllocationDrift[] = [...groups.entries()].map(([key, group]) => {
+    const targetWeight = targetWeights.get(key) || 0;
+    const currentWeight = investedValue > 0 ? (group.value / investedValue) * 100 : 0;
+    const valueAfter = group.value + (tradedValue.get(key) || 0);
+
+    return {
+      key,
+      targetWeight,
+      currentWeight: round2(currentWeight),
+      currentValue: round2(group.value),
+      targetValue: round2((targetWeight / 100) * totalValue),
+      drift: round2(currentWeight - targetWeight),
+      projectedWeight: round2(investedAfter > 0 ? (valueAfter / investedAfter) * 100 : 0),
+    };
+  });
+  drift.sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+
+  // Sells first: their proceeds fund the buys
+  trades.sort((a, b) => (a.action === b.action ? b.value - a.value : a.action === "sell" ? -1 : 1));
+
+  return {
+    investedValue: round2(investedValue),
+    cashAvailable: round2(cash),
+    drift,
+    trades,
+    totalBuys: round2(totalBuys),
+    totalSells: round2(sellProceeds),
+    cashAfter: round2(budget - totalBuys),
+    unfunded,
+  };
+}
@@ -0,0 +1,115 @@
+// =====================================================
+// Vestpod - Risk Metrics Tests
+// =====================================================
+// Tests for the holdings value series, VaR/CVaR, drawdown and
+// the volatility, Sharpe, Sortino and beta calculations
+// Run with: deno test risk-metrics.test.ts
+
+import { assertAlmostEquals, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildHoldingsIndex,
+  calculateMaxDrawdown,
+  calculateRiskMetrics,
+  historicalValueAtRisk,
+} from "./risk-metrics.ts";
+import { addDays } from "./portfolio-snapshots.ts";
+import { Valuation } from "./portfolio-returns.ts";
+
+// Daily series starting on 2024-01-01 from a list of daily returns
+function seriesFromReturns(returns: number[], base = 100): Valuation[] {
+  const index: Valuation[] = [{ date: "2024-01-01", value: base }];
+  returns.forEach((r, i) => {
+    index.push({ date: addDays("2024-01-01", i + 1), value: index[i].value * (1 + r) });
+  });
+  return index;
+}
+
+Deno.test("buildHoldingsIndex - starts when every holding is priced and carries prices forward", () => {
+  // No holding has a close on 2024-01-03
+  const index = buildHoldingsIndex([
+    {
+      units: 2,
+      prices: [
+        { date: "2024-01-01", price: 10 },
+        { date: "2024-01-02", price: 11 },
+        { date: "2024-01-05", price: 12 },
+      ],
+    },
+    { units: 1, prices: [{ date: "2024-01-02", price: 100 }, { date: "2024-01-04", price: 90 }] },
+  ]);
+
+  assertEquals(index, [
+    { date: "2024-01-02", value: 122 },
+    { date: "2024-01-04", value: 112 },
+    { date: "2024-01-05", value: 114 },
+  ]);
+});
+
+Deno.test("calculateMaxDrawdown - largest decline from a running peak", () => {
+  const drawdown = calculateMaxDrawdown([
+    { date: "2024-01-01", value: 100 },
+    { date: "2024-01-02", value: 120 },
+    { date: "2024-01-03", value: 90 },
+    { date: "2024-01-04", value: 130 },
+    { date: "2024-01-05", value: 110 },
+  ]);
+
+  assertEquals(drawdown, { drawdown: 0.25, peakDate: "2024-01-02", troughDate: "2024-01-03" });
+  assertEquals(calculateMaxDrawdown([{ date: "2024-01-01", value: 100 }]).drawdown, 0);
+});
+
+Deno.test("historicalValueAtRisk - loss at the 5% quantile and the tail average", () => {
+  // 40 returns: two worst days of -10% and -6%
+  const returns = [-0.1, -0.06, ...Array(38).fill(0.01)];
+  const result = historicalValueAtRisk(returns);
+
+  assertEquals(result.var, 0.06);
+  assertAlmostEquals(result.cvar, 0.08, 1e-12);
+});
+
+Deno.test("calculateRiskMetrics - needs enough observations", () => {
+  assertEquals(calculateRiskMetrics(seriesFromReturns(Array(10).fill(0.01)), null), null);
+});
+
+Deno.test("calculateRiskMetrics - volatility, Sharpe, Sortino, VaR and beta", () => {
+  // Alternating +2% / -1% days
+  const returns = Array.from({ length: 60 }, (_, i) => (i % 2 === 0 ? 0.02 : -0.01));
+  const portfolio = seriesFromReturns(returns);
+  // Benchmark moving half as much
+  const benchmark = seriesFromReturns(returns.map((r) => r / 2));
+
+  const metrics = calculateRiskMetrics(portfolio, benchmark, 0)!;
+
+  const dailyStdDev = Math.sqrt((60 * 0.015 ** 2) / 59);
+  assertEquals(metrics.observations, 60);
+  assertAlmostEquals(metrics.annualizedVolatility, dailyStdDev * Math.sqrt(365), 1e-4);
+  assertAlmostEquals(metrics.sharpeRatio!, (0.005 * 365) / (dailyStdDev * Math.sqrt(365)), 1e-3);
+  // Downside deviation only counts the -1% days
+  assertAlmostEquals(metrics.sortinoRatio!, (0.005 * 365) / (Math.sqrt(0.0001 / 2) * Math.sqrt(365)), 1e-3);
+  assertEquals(metrics.historicalVaR, 0.01);
+  assertEquals(metrics.historicalCVaR, 0.01);
+  assertAlmostEquals(metrics.parametricVaR, 1.6448536 * dailyStdDev - 0.005, 1e-4);
+  assertAlmostEquals(metrics.beta!, 2, 1e-3);
+  assertEquals(metrics.maxDrawdown.drawdown, 0.01);
+});
+
+Deno.test("calculateRiskMetrics - annualizes weekday-only series by trading days", () => {
+  // Same returns on weekdays only: 60 returns over 84 calendar days
+  const returns = Array.from({ length: 60 }, (_, i) => (i % 2 === 0 ? 0.02 : -0.01));
+  const weekdays: Valuation[] = [{ date: "2024-01-01", value: 100 }];
+  let date = "2024-01-01";
+  for (const r of returns) {
+    do {
+      date = addDays(date, 1);
+    } while ([0, 6].includes(new Date(`${date}T00:00:00Z`).getUTCDay()));
+    weekdays.push({ date, value: weekdays[weekdays.length - 1].value * (1 + r) });
+  }
+
+  const metrics = calculateRiskMetrics(weekdays, null, 0)!;
+
+  const dailyStdDev = Math.sqrt((60 * 0.015 ** 2) / 59);
+  const periodsPerYear = (60 * 365) / 84;
+  assertEquals(metrics.observations, 60);
+  assertAlmostEquals(metrics.annualizedVolatility, dailyStdDev * Math.sqrt(periodsPerYear), 1e-4);
+  assertEquals(metrics.historicalVaR, 0.01);
+});
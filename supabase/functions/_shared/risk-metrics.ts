@@ -0,0 +1,423 @@
+// =====================================================
+// Vestpod - Risk Metrics Module
+// =====================================================
+// Portfolio risk analytics from daily price history:
+// - Daily value series of the current holdings
+// - Annualized return and volatility, Sharpe and Sortino ratios
+// - Beta against a benchmark (S&P 500 by default)
+// - Historical and parametric 1-day Value at Risk and
+//   Conditional VaR (expected shortfall)
+// - Maximum drawdown
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { PriceProviderRegistry } from "./price-providers.ts";
+import { getDailyHistory } from "./price-history.ts";
+import { Valuation } from "./portfolio-returns.ts";
+import { FX_BASE_CURRENCY, getAssetFxFactors } from "./fx-rates.ts";
+import {
+  BenchmarkDefinition,
+  buildCompositeIndex,
+  calculateComparisonStats,
+  componentKey,
+  getBenchmarkPrices,
+  getPresetBenchmark,
+  mean,
+  PricePoint,
+} from "./benchmarks.ts";
+
+// Calendar days of history the metrics are computed over
+export const RISK_LOOKBACK_DAYS = 365;
+
+// Daily returns needed before metrics are reported
+export const MIN_RISK_OBSERVATIONS = 30;
+
+// Stored history covering less than this share of a window's calendar
+// days is topped up from the provider (trading days are ~69% of them)
+const MIN_HISTORY_SHARE = 0.6;
+
+// VaR / CVaR confidence level
+export const VAR_CONFIDENCE = 0.95;
+
+// Returns are annualized by the observations per calendar year, so
+// trading-day (stocks) and calendar-day (crypto) series both scale right
+const DAYS_PER_YEAR = 365;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Standard normal quantile at 95%, and the expected shortfall
+// multiplier phi(z) / (1 - 0.95)
+const NORMAL_VAR_Z = 1.6448536;
+const NORMAL_CVAR_Z = 2.0627128;
+
+/**
+ * Holding whose price history feeds the metrics
+ */
+export interface RiskHolding {
+  assetId: string;
+  name: string;
+  symbol: string | null;
+  assetType: string;
+  quantity: number;
+  // Native price to user currency (current rate)
+  fxFactor: number;
+  // Current value in the user's currency
+  value: number;
+}
+
+/**
+ * Holding and its daily closes in native currency
+ */
+export interface HoldingHistory {
+  holding: RiskHolding;
+  prices: PricePoint[];
+}
+
+/**
+ * Units held and daily closes of one holding
+ */
+export interface HoldingSeries {
+  units: number;
+  prices: PricePoint[];
+}
+
+/**
+ * Largest peak-to-trough decline
+ */
+export interface Drawdown {
+  // Decline from peak (fraction, positive)
+  drawdown: number;
+  peakDate: string | null;
+  troughDate: string | null;
+}
+
+/**
+ * Risk metrics (fractions, not percentages)
+ * VaR and CVaR are 1-day losses as a fraction of portfolio value
+ */
+export interface RiskMetrics {
+  startDate: string;
+  endDate: string;
+  observations: number;
+  // Share of portfolio value with enough history to be included
+  coverage: number;
+  annualizedReturn: number;
+  annualizedVolatility: number;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  beta: number | null;
+  benchmark: string | null;
+  riskFreeRate: number;
+  confidence: number;
+  historicalVaR: number;
+  historicalCVaR: number;
+  parametricVaR: number;
+  parametricCVaR: number;
+  maxDrawdown: Drawdown;
+}
+
+function sampleStdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1));
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Daily values of fixed holdings
+ * Starts on the first date every holding has a price and has a value
+ * on each date any holding has a close; holdings without a close that
+ * day (stocks on weekends, holidays) carry their last close forward
+ *
+ * @param series - Units and daily closes per holding
+ * @returns Daily values, oldest first
+ */
+export function buildHoldingsIndex(series: HoldingSeries[]): Valuation[] {
+  const sorted = series
+    .filter((s) => s.prices.length > 0)
+    .map((s) => ({ units: s.units, prices: [...s.prices].sort((a, b) => a.date.localeCompare(b.date)) }));
+
+  if (sorted.length === 0) return [];
+
+  const startDate = sorted.reduce((latest, s) => (s.prices[0].date > latest ? s.prices[0].date : latest), "");
+  const endDate = sorted.reduce((latest, s) => {
+    const last = s.prices[s.prices.length - 1].date;
+    return last > latest ? last : latest;
+  }, "");
+
+  const dates = [...new Set(sorted.flatMap((s) => s.prices.map((p) => p.date)))]
+    .filter((date) => date >= startDate && date <= endDate)
+    .sort();
+
+  const cursors = sorted.map(() => ({ index: 0, price: 0 }));
+  const index: Valuation[] = [];
+
+  for (const date of dates) {
+    let value = 0;
+    sorted.forEach((s, i) => {
+      const cursor = cursors[i];
+      while (cursor.index < s.prices.length && s.prices[cursor.index].date <= date) {
+        cursor.price = s.prices[cursor.index].price;
+        cursor.index++;
+      }
+      value += s.units * cursor.price;
+    });
+    index.push({ date, value });
+  }
+
+  return index;
+}
+
+/**
+ * Daily returns between consecutive values
+ */
+export function dailyReturns(index: Valuation[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < index.length; i++) {
+    returns.push(index[i - 1].value > 0 ? index[i].value / index[i - 1].value - 1 : 0);
+  }
+  return returns;
+}
+
+/**
+ * Largest peak-to-trough decline of a value series
+ */
+export function calculateMaxDrawdown(index: Valuation[]): Drawdown {
+  let peak: Valuation | null = null;
+  let worst: Drawdown = { drawdown: 0, peakDate: null, troughDate: null };
+
+  for (const point of index) {
+    if (!peak || point.value > peak.value) {
+      peak = point;
+      continue;
+    }
+    const drawdown = peak.value > 0 ? 1 - point.value / peak.value : 0;
+    if (drawdown > worst.drawdown) {
+      worst = { drawdown, peakDate: peak.date, troughDate: point.date };
+    }
+  }
+
+  return worst;
+}
+
+/**
+ * Historical 1-day VaR and CVaR: the loss at the (1 - confidence)
+ * quantile of daily returns and the average loss beyond it
+ */
+export function historicalValueAtRisk(returns: number[], confidence = VAR_CONFIDENCE): { var: number; cvar: number } {
+  if (returns.length === 0) return { var: 0, cvar: 0 };
+
+  const sorted = [...returns].sort((a, b) => a - b);
+  const tail = sorted.slice(0, Math.max(1, Math.floor(sorted.length * (1 - confidence))));
+
+  return {
+    var: Math.max(0, -tail[tail.length - 1]),
+    cvar: Math.max(0, -mean(tail)),
+  };
+}
+
+/**
+ * Calculate risk metrics from a daily value series
+ * Sharpe and Sortino use the annualized mean daily return in excess
+ * of the risk-free rate; beta needs a benchmark series on the same dates.
+ * Annualization uses the series' own observations per year.
+ *
+ * @param index - Daily portfolio values, oldest first
+ * @param benchmarkIndex - Daily benchmark values, if any
+ * @param riskFreeRate - Annual risk-free rate (fraction)
+ * @returns Metrics, or null with fewer than MIN_RISK_OBSERVATIONS returns
+ */
+export function calculateRiskMetrics(
+  index: Valuation[],
+  benchmarkIndex: Valuation[] | null,
+  riskFreeRate = 0
+): Omit<RiskMetrics, "coverage" | "benchmark"> | null {
+  const returns = dailyReturns(index);
+  if (returns.length < MIN_RISK_OBSERVATIONS || index[0].value <= 0) return null;
+
+  const days = (Date.parse(index[index.length - 1].date) - Date.parse(index[0].date)) / MS_PER_DAY;
+  const periodsPerYear = (returns.length * DAYS_PER_YEAR) / days;
+
+  const dailyRiskFree = riskFreeRate / periodsPerYear;
+  const meanReturn = mean(returns);
+  const dailyVolatility = sampleStdDev(returns);
+  const annualizedVolatility = dailyVolatility * Math.sqrt(periodsPerYear);
+  const excessReturn = (meanReturn - dailyRiskFree) * periodsPerYear;
+
+  const downside = returns.map((r) => Math.min(0, r - dailyRiskFree) ** 2);
+  const downsideDeviation = Math.sqrt(mean(downside)) * Math.sqrt(periodsPerYear);
+
+  const cumulativeReturn = index[index.length - 1].value / index[0].value - 1;
+  const annualizedReturn = (1 + cumulativeReturn) ** (DAYS_PER_YEAR / days) - 1;
+
+  const historical = historicalValueAtRisk(returns);
+  const drawdown = calculateMaxDrawdown(index);
+  const stats = benchmarkIndex ? calculateComparisonStats(index, benchmarkIndex) : null;
+
+  return {
+    startDate: index[0].date,
+    endDate: index[index.length - 1].date,
+    observations: returns.length,
+    annualizedReturn: round4(annualizedReturn),
+    annualizedVolatility: round4(annualizedVolatility),
+    sharpeRatio: annualizedVolatility > 0 ? round4(excessReturn / annualizedVolatility) : null,
+    sortinoRatio: downsideDeviation > 0 ? round4(excessReturn / downsideDeviation) : null,
+    beta: stats ? round4(stats.beta) : null,
+    riskFreeRate,
+    confidence: VAR_CONFIDENCE,
+    historicalVaR: round4(historical.var),
+    historicalCVaR: round4(historical.cvar),
+    parametricVaR: round4(Math.max(0, NORMAL_VAR_Z * dailyVolatility - meanReturn)),
+    parametricCVaR: round4(Math.max(0, NORMAL_CVAR_Z * dailyVolatility - meanReturn)),
+    maxDrawdown: { ...drawdown, drawdown: round4(drawdown.drawdown) },
+  };
+}
+
+/**
+ * Load a portfolio's current holdings
+ * Holdings are valued in the user's currency at current rates;
+ * assets without a current price are valued at purchase price.
+ * Assets whose currency has no exchange rate are left out.
+ *
+ * @param supabase - Service role client
+ * @param portfolioId - Portfolio to load
+ * @param currency - User's preferred currency
+ * @param exchangeRateApiKey - ExchangeRate-API key
+ * @returns Holdings with a positive quantity, and the currencies left out
+ */
+export async function getPortfolioHoldings(
+  supabase: ReturnType<typeof createClient>,
+  portfolioId: string,
+  currency: string,
+  exchangeRateApiKey: string
+): Promise<{ holdings: RiskHolding[]; unconvertedCurrencies: string[] }> {
+  const { data: assets, error } = await supabase
+    .from("assets")
+    .select("id, name, symbol, asset_type, quantity, purchase_price, current_price, purchase_date, currency")
+    .eq("portfolio_id", portfolioId);
+
+  if (error) {
+    throw new Error(`Failed to fetch assets: ${error.message}`);
+  }
+
+  const fxFactors = await getAssetFxFactors(supabase, assets || [], currency, exchangeRateApiKey);
+  const unconvertedCurrencies = new Set<string>();
+  const holdings: RiskHolding[] = [];
+
+  for (const asset of assets || []) {
+    if (!(Number(asset.quantity) > 0)) continue;
+
+    const fxFactor = fxFactors.get(asset.id)?.current;
+    if (fxFactor === undefined) {
+      unconvertedCurrencies.add(asset.currency || FX_BASE_CURRENCY);
+      continue;
+    }
+
+    const price = asset.current_price ? Number(asset.current_price) : Number(asset.purchase_price);
+    holdings.push({
+      assetId: asset.id,
+      name: asset.name,
+      symbol: asset.symbol,
+      assetType: asset.asset_type,
+      quantity: Number(asset.quantity),
+      fxFactor,
+      value: Number(asset.quantity) * price * fxFactor,
+    });
+  }
+
+  return { holdings, unconvertedCurrencies: [...unconvertedCurrencies] };
+}
+
+/**
+ * Load each holding's daily closes over the past days
+ *
+ * @param supabase - Service role client
+ * @param priceProviders - Provider chain for historical prices
+ * @param holdings - Current holdings
+ * @param days - Calendar days to look back
+ * @returns Closes per holding (empty without history), oldest first
+ */
+export async function getHoldingHistories(
+  supabase: ReturnType<typeof createClient>,
+  priceProviders: PriceProviderRegistry,
+  holdings: RiskHolding[],
+  days = RISK_LOOKBACK_DAYS
+): Promise<HoldingHistory[]> {
+  const minBars = Math.floor(days * MIN_HISTORY_SHARE);
+  const histories: HoldingHistory[] = [];
+
+  for (const holding of holdings) {
+    const bars = await getDailyHistory(
+      supabase,
+      priceProviders,
+      { id: holding.assetId, symbol: holding.symbol, asset_type: holding.assetType },
+      days,
+      minBars
+    );
+    histories.push({ holding, prices: bars.map((bar) => ({ date: bar.date, price: bar.close })) });
+  }
+
+  return histories;
+}
+
+/**
+ * Calculate a portfolio's risk metrics from its holdings' history
+ * Values the current holdings over the window at today's exchange
+ * rates; holdings with too little history are left out and reported
+ * through coverage.
+ *
+ * @param supabase - Service role client
+ * @param priceProviders - Provider chain for benchmark prices
+ * @param histories - Holdings and their daily closes
+ * @param riskFreeRate - Annual risk-free rate (fraction)
+ * @param benchmark - Benchmark for beta (default S&P 500)
+ * @returns Metrics, or null without enough history
+ */
+export async function getRiskMetrics(
+  supabase: ReturnType<typeof createClient>,
+  priceProviders: PriceProviderRegistry,
+  histories: HoldingHistory[],
+  riskFreeRate = 0,
+  benchmark: BenchmarkDefinition | null = getPresetBenchmark("spy")
+): Promise<RiskMetrics | null> {
+  const covered = histories.filter((h) => h.prices.length > MIN_RISK_OBSERVATIONS);
+  const totalValue = histories.reduce((sum, h) => sum + h.holding.value, 0);
+  const coveredValue = covered.reduce((sum, h) => sum + h.holding.value, 0);
+
+  const index = buildHoldingsIndex(
+    covered.map((h) => ({ units: h.holding.quantity * h.holding.fxFactor, prices: h.prices }))
+  );
+  if (index.length <= MIN_RISK_OBSERVATIONS) return null;
+
+  let benchmarkIndex: Valuation[] | null = null;
+  if (benchmark) {
+    const startDate = index[0].date;
+    const endDate = index[index.length - 1].date;
+    const pricesByComponent: Record<string, PricePoint[]> = {};
+
+    try {
+      for (const component of benchmark.components) {
+        pricesByComponent[componentKey(component)] = await getBenchmarkPrices(
+          supabase,
+          component,
+          startDate,
+          endDate,
+          priceProviders
+        );
+      }
+      benchmarkIndex = buildCompositeIndex(benchmark.components, pricesByComponent, index.map((v) => v.date));
+    } catch (error) {
+      console.error(`Error fetching ${benchmark.id} prices for beta:`, error);
+    }
+  }
+
+  const metrics = calculateRiskMetrics(index, benchmarkIndex, riskFreeRate);
+  if (!metrics) return null;
+
+  return {
+    ...metrics,
+    coverage: totalValue > 0 ? round4(coveredValue / totalValue) : 0,
+    benchmark: metrics.beta !== null && benchmark ? benchmark.id : null,
+  };
+}
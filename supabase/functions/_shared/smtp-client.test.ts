@@ -0,0 +1,151 @@
+// =====================================================
+// Vestpod - SMTP Client Tests
+// =====================================================
+// Tests message encoding and delivery against a local SMTP sink
+// Run with: deno test --allow-net smtp-client.test.ts
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { buildMimeMessage, encodeHeader, sendEmail, SmtpError } from "./smtp-client.ts";
+
+interface SinkSession {
+  commands: string[];
+  data: string;
+}
+
+/**
+ * Local SMTP sink
+ * Accepts AUTH PLAIN for user/secret and rejects recipients at blocked.test
+ */
+function startSmtpSink() {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const sessions: SinkSession[] = [];
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  async function handle(conn: Deno.Conn) {
+    const session: SinkSession = { commands: [], data: "" };
+    sessions.push(session);
+    const reply = (line: string) => conn.write(encoder.encode(`${line}\r\n`));
+
+    let buffer = "";
+    let inData = false;
+    const chunk = new Uint8Array(4096);
+
+    await reply("220 sink.test ESMTP");
+    while (true) {
+      const read = await conn.read(chunk);
+      if (read === null) break;
+      buffer += decoder.decode(chunk.subarray(0, read));
+
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end === -1) continue;
+        session.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        await reply("250 OK queued");
+      }
+
+      let newline;
+      while (!inData && (newline = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        session.commands.push(line);
+
+        if (line.startsWith("EHLO")) {
+          await reply("250-sink.test");
+          await reply("250 AUTH PLAIN LOGIN");
+        } else if (line.startsWith("AUTH PLAIN")) {
+          await reply(line === `AUTH PLAIN ${btoa("\0user\0secret")}` ? "235 Authenticated" : "535 Bad credentials");
+        } else if (line.startsWith("RCPT TO") && line.includes("@blocked.test")) {
+          await reply("550 Mailbox unavailable");
+        } else if (line === "DATA") {
+          inData = true;
+          await reply("354 End data with <CR><LF>.<CR><LF>");
+        } else if (line === "QUIT") {
+          await reply("221 Bye");
+          conn.close();
+          return;
+        } else {
+          await reply("250 OK");
+        }
+      }
+    }
+    conn.close();
+  }
+
+  const served = (async () => {
+    for await (const conn of listener) {
+      await handle(conn).catch(() => {});
+    }
+  })();
+
+  return {
+    port: (listener.addr as Deno.NetAddr).port,
+    sessions,
+    close: async () => {
+      listener.close();
+      await served.catch(() => {});
+    },
+  };
+}
+
+Deno.test("encodeHeader - leaves ASCII alone and encodes UTF-8", () => {
+  assertEquals(encodeHeader("Price alert: AAPL"), "Price alert: AAPL");
+  assertEquals(encodeHeader("Préférences"), `=?UTF-8?B?${btoa("PrÃ©fÃ©rences")}?=`);
+});
+
+Deno.test("buildMimeMessage - multipart text and HTML parts", () => {
+  const message = buildMimeMessage(
+    { from: "alerts@vestpod.app", fromName: "Vestpod" },
+    { to: "user@example.com", subject: "Weekly digest", text: "Hello", html: "<p>Hello</p>" },
+    new Date("2024-06-03T07:00:00Z"),
+    "b1"
+  );
+
+  assert(message.includes("From: Vestpod <alerts@vestpod.app>\r\n"));
+  assert(message.includes("Date: Mon, 03 Jun 2024 07:00:00 GMT\r\n"));
+  assert(message.includes('Content-Type: multipart/alternative; boundary="b1"'));
+  assert(message.includes(`\r\n\r\n${btoa("Hello")}\r\n--b1\r\n`));
+  assert(message.includes(`\r\n\r\n${btoa("<p>Hello</p>")}\r\n--b1--`));
+});
+
+Deno.test("sendEmail - delivers to the local sink with AUTH PLAIN", async () => {
+  const sink = startSmtpSink();
+  try {
+    await sendEmail(
+      { host: "127.0.0.1", port: sink.port, secure: false, username: "user", password: "secret", from: "alerts@vestpod.app" },
+      { to: "user@example.com", subject: "Test", text: ".leading dot" }
+    );
+
+    const [session] = sink.sessions;
+    assertEquals(session.commands, [
+      "EHLO vestpod.app",
+      `AUTH PLAIN ${btoa("\0user\0secret")}`,
+      "MAIL FROM:<alerts@vestpod.app>",
+      "RCPT TO:<user@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    assert(session.data.includes("To: user@example.com\r\n"));
+    assert(session.data.includes(btoa(".leading dot")));
+  } finally {
+    await sink.close();
+  }
+});
+
+Deno.test("sendEmail - rejected recipient throws SmtpError with the reply code", async () => {
+  const sink = startSmtpSink();
+  try {
+    let error: SmtpError | undefined;
+    await sendEmail(
+      { host: "127.0.0.1", port: sink.port, secure: false, from: "alerts@vestpod.app" },
+      { to: "user@blocked.test", subject: "Test", text: "Hello" }
+    ).catch((e) => (error = e));
+
+    assert(error instanceof SmtpError);
+    assertEquals(error.code, 550);
+  } finally {
+    await sink.close();
+  }
+});
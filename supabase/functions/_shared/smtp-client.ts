@@ -0,0 +1,269 @@
+// =====================================================
+// Vestpod - SMTP Client
+// =====================================================
+// Minimal SMTP client for transactional email:
+// - Implicit TLS (port 465) or STARTTLS upgrade
+// - AUTH PLAIN
+// - multipart/alternative (text + HTML) UTF-8 messages
+// Works with any SMTP-compatible provider and with a local
+// SMTP sink (SMTP_SECURE=false) for development and tests
+
+// Give up on a server that stops responding
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * SMTP server settings
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte (port 465)
+  secure: boolean;
+  // Upgrade plain connections with STARTTLS when offered
+  startTls?: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+  fromName?: string;
+}
+
+/**
+ * Email to send
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Custom error class for SMTP errors
+ */
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public code?: number
+  ) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+/**
+ * Read SMTP settings from the environment
+ * Returns undefined when email delivery is not configured
+ */
+export function getSmtpConfigFromEnv(): SmtpConfig | undefined {
+  const host = Deno.env.get("SMTP_HOST");
+  const from = Deno.env.get("SMTP_FROM");
+
+  if (!host || !from) {
+    return undefined;
+  }
+
+  const secure = (Deno.env.get("SMTP_SECURE") || "true") === "true";
+
+  return {
+    host,
+    port: parseInt(Deno.env.get("SMTP_PORT") || (secure ? "465" : "587")),
+    secure,
+    startTls: Deno.env.get("SMTP_STARTTLS") !== "false",
+    username: Deno.env.get("SMTP_USERNAME"),
+    password: Deno.env.get("SMTP_PASSWORD"),
+    from,
+    fromName: Deno.env.get("SMTP_FROM_NAME") || "Vestpod",
+  };
+}
+
+// =====================================================
+// Message Encoding
+// =====================================================
+
+/**
+ * Base64-encode UTF-8 text
+ */
+function base64Utf8(value: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(value)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+/**
+ * Encode a header value (RFC 2047) when it is not plain ASCII
+ */
+export function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${base64Utf8(value)}?=`;
+}
+
+/**
+ * Base64-encode a body part, wrapped at 76 characters
+ */
+function encodeBody(value: string): string {
+  return base64Utf8(value).replace(/.{1,76}/g, "$&\r\n").trimEnd();
+}
+
+/**
+ * Build the RFC 5322 message
+ */
+export function buildMimeMessage(
+  config: Pick<SmtpConfig, "from" | "fromName">,
+  message: EmailMessage,
+  date = new Date(),
+  boundary = `vestpod-${crypto.randomUUID()}`
+): string {
+  const domain = config.from.split("@")[1] || "localhost";
+  const from = config.fromName ? `${encodeHeader(config.fromName)} <${config.from}>` : config.from;
+
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+  ];
+
+  const textPart = [
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.text),
+  ];
+
+  if (!message.html) {
+    return [...headers, ...textPart].join("\r\n");
+  }
+
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    "Content-Type: text/html; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.html),
+    `--${boundary}--`,
+  ].join("\r\n");
+}
+
+// =====================================================
+// SMTP Session
+// =====================================================
+
+/**
+ * Line-based SMTP connection
+ */
+class SmtpConnection {
+  private buffer = "";
+  private decoder = new TextDecoder();
+  private encoder = new TextEncoder();
+
+  constructor(public conn: Deno.Conn) {}
+
+  /**
+   * Read one (possibly multi-line) reply
+   */
+  async readReply(): Promise<{ code: number; lines: string[] }> {
+    const lines: string[] = [];
+
+    while (true) {
+      let newline = this.buffer.indexOf("\r\n");
+      while (newline === -1) {
+        const chunk = new Uint8Array(4096);
+        const read = await this.conn.read(chunk);
+        if (read === null) {
+          throw new SmtpError("Connection closed by server");
+        }
+        this.buffer += this.decoder.decode(chunk.subarray(0, read));
+        newline = this.buffer.indexOf("\r\n");
+      }
+
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      lines.push(line.slice(4));
+
+      // "250-" continues, "250 " ends the reply
+      if (line[3] !== "-") {
+        return { code: parseInt(line.slice(0, 3)), lines };
+      }
+    }
+  }
+
+  /**
+   * Send a command and check the reply code
+   */
+  async command(line: string, expected: number[]): Promise<string[]> {
+    await this.write(`${line}\r\n`);
+    return await this.expect(expected, line.split(" ")[0]);
+  }
+
+  async expect(expected: number[], step: string): Promise<string[]> {
+    const reply = await this.readReply();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${step} failed: ${reply.code} ${reply.lines.join(" ")}`, reply.code);
+    }
+    return reply.lines;
+  }
+
+  async write(data: string): Promise<void> {
+    const bytes = this.encoder.encode(data);
+    let written = 0;
+    while (written < bytes.length) {
+      written += await this.conn.write(bytes.subarray(written));
+    }
+  }
+}
+
+/**
+ * Send an email
+ *
+ * @throws SmtpError on a rejected command or lost connection
+ */
+export async function sendEmail(config: SmtpConfig, message: EmailMessage): Promise<void> {
+  const conn = config.secure
+    ? await Deno.connectTls({ hostname: config.host, port: config.port })
+    : await Deno.connect({ hostname: config.host, port: config.port });
+
+  let smtp = new SmtpConnection(conn);
+  const timer = setTimeout(() => smtp.conn.close(), SMTP_TIMEOUT_MS);
+
+  try {
+    await smtp.expect([220], "greeting");
+    let capabilities = await smtp.command(`EHLO ${config.from.split("@")[1] || "localhost"}`, [250]);
+
+    if (!config.secure && config.startTls !== false && capabilities.some((c) => c.toUpperCase() === "STARTTLS")) {
+      await smtp.command("STARTTLS", [220]);
+      smtp = new SmtpConnection(await Deno.startTls(smtp.conn as Deno.TcpConn, { hostname: config.host }));
+      capabilities = await smtp.command(`EHLO ${config.from.split("@")[1] || "localhost"}`, [250]);
+    }
+
+    if (config.username) {
+      if (!capabilities.some((c) => /^AUTH\b.*\bPLAIN\b/i.test(c))) {
+        throw new SmtpError("SMTP server does not support AUTH PLAIN");
+      }
+      await smtp.command(`AUTH PLAIN ${base64Utf8(`\0${config.username}\0${config.password || ""}`)}`, [235]);
+    }
+
+    await smtp.command(`MAIL FROM:<${config.from}>`, [250]);
+    await smtp.command(`RCPT TO:<${message.to}>`, [250, 251]);
+    await smtp.command("DATA", [354]);
+
+    // Dot-stuff lines starting with "." and terminate with <CRLF>.<CRLF>
+    const body = buildMimeMessage(config, message).replace(/^\./gm, "..");
+    await smtp.write(`${body}\r\n.\r\n`);
+    await smtp.expect([250], "DATA");
+
+    await smtp.command("QUIT", [221]).catch(() => {});
+  } finally {
+    clearTimeout(timer);
+    try {
+      smtp.conn.close();
+    } catch (_error) {
+      // Already closed
+    }
+  }
+}
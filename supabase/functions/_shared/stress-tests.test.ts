@@ -0,0 +1,57 @@
+// =====================================================
+// Vestpod - Stress Tests Tests
+// =====================================================
+// Tests for scenario shocks, custom shock validation and
+// the stress test loss per holding and in total
+// Run with: deno test stress-tests.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildCustomScenario,
+  getStressScenario,
+  runStressTest,
+  shockFor,
+  validateCustomShocks,
+} from "./stress-tests.ts";
+import { RiskHolding } from "./risk-metrics.ts";
+
+function holding(symbol: string | null, assetType: string, value: number): RiskHolding {
+  return { assetId: symbol || assetType, name: symbol || assetType, symbol, assetType, quantity: 1, fxFactor: 1, value };
+}
+
+Deno.test("shockFor - symbol shocks take precedence over asset type shocks", () => {
+  const scenario = getStressScenario("2022_crypto_winter")!;
+
+  assertEquals(shockFor({ symbol: "btc", assetType: "crypto" }, scenario), { shock: -77, matchedBy: "symbol" });
+  assertEquals(shockFor({ symbol: "SOL", assetType: "crypto" }, scenario), { shock: -75, matchedBy: "asset_type" });
+  assertEquals(shockFor({ symbol: null, assetType: "cash" }, scenario), { shock: 0, matchedBy: null });
+  assertEquals(getStressScenario("1987_crash"), null);
+});
+
+Deno.test("validateCustomShocks - asset type or symbol with a bounded change", () => {
+  assertEquals(validateCustomShocks([{ symbol: "XAU", change: 20 }, { asset_type: "stock", change: -30 }]).valid, true);
+  assertEquals(validateCustomShocks([]).valid, false);
+  assertEquals(validateCustomShocks([{ change: -30 }]).valid, false);
+  assertEquals(validateCustomShocks([{ asset_type: "stock", symbol: "SPY", change: -30 }]).valid, false);
+  assertEquals(validateCustomShocks([{ asset_type: "cash", change: -30 }]).valid, false);
+  assertEquals(validateCustomShocks([{ symbol: "XAU", change: -120 }]).valid, false);
+  assertEquals(validateCustomShocks([{ symbol: "xau", change: 20 }, { symbol: "XAU ", change: 10 }]).valid, false);
+});
+
+Deno.test("runStressTest - loss per holding and in total", () => {
+  const scenario = buildCustomScenario([{ symbol: "xau", change: 20 }, { asset_type: "stock", change: -30 }]);
+  const result = runStressTest(
+    [holding("XAU", "commodity", 2000), holding("NVDA", "stock", 5000), holding(null, "real_estate", 3000)],
+    scenario
+  );
+
+  assertEquals(result.scenarioId, "custom");
+  assertEquals(result.totalValue, 10000);
+  assertEquals(result.stressedValue, 8900);
+  assertEquals(result.loss, 1100);
+  assertEquals(result.lossPercent, 11);
+  assertEquals(
+    result.assets.map((a) => [a.name, a.shock, a.matchedBy, a.loss]),
+    [["NVDA", -30, "asset_type", 1500], ["real_estate", 0, null, 0], ["XAU", 20, "symbol", -400]]
+  );
+});
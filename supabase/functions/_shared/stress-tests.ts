@@ -0,0 +1,254 @@
+// =====================================================
+// Vestpod - Stress Tests Module
+// =====================================================
+// What market scenarios would do to current holdings:
+// - Historical scenarios (2008 financial crisis, March 2020
+//   crash, 2022 crypto winter) as per-asset-type and per-symbol
+//   price shocks
+// - Validation of user-defined shocks (e.g. gold +20%, stocks -30%)
+// - Loss per holding and for the portfolio
+
+import { RiskHolding } from "./risk-metrics.ts";
+
+/**
+ * Asset types a shock can apply to
+ */
+export const STRESS_ASSET_TYPES = ["stock", "crypto", "commodity", "real_estate", "fixed_income", "other"] as const;
+export type StressAssetType = typeof STRESS_ASSET_TYPES[number];
+
+// Custom scenario size limit
+export const MAX_CUSTOM_SHOCKS = 20;
+
+// Shock limits (percent price change)
+const MIN_SHOCK = -100;
+const MAX_SHOCK = 1000;
+
+/**
+ * Scenario definition
+ * Shocks are percent price changes; a symbol shock takes
+ * precedence over its asset type's shock
+ */
+export interface StressScenario {
+  id: string;
+  name: string;
+  description: string;
+  // Period the historical moves were measured over
+  startDate: string | null;
+  endDate: string | null;
+  assetTypes: Partial<Record<StressAssetType, number>>;
+  symbols: Record<string, number>;
+}
+
+/**
+ * Scenario outcome for one holding
+ */
+export interface StressedAsset {
+  assetId: string;
+  name: string;
+  symbol: string | null;
+  assetType: string;
+  value: number;
+  // Percent price change applied
+  shock: number;
+  matchedBy: "symbol" | "asset_type" | null;
+  stressedValue: number;
+  // Positive for a loss, negative for a gain
+  loss: number;
+}
+
+/**
+ * Scenario outcome for a portfolio
+ */
+export interface StressTestResult {
+  scenarioId: string;
+  name: string;
+  description: string;
+  startDate: string | null;
+  endDate: string | null;
+  totalValue: number;
+  stressedValue: number;
+  loss: number;
+  lossPercent: number;
+  // Largest loss first
+  assets: StressedAsset[];
+}
+
+/**
+ * Historical scenarios
+ * Approximate peak-to-trough price moves over each period
+ */
+export const STRESS_SCENARIOS: StressScenario[] = [
+  {
+    id: "2008_financial_crisis",
+    name: "2008 Financial Crisis",
+    description: "Global financial crisis, from the October 2007 stock market peak to the March 2009 low",
+    startDate: "2007-10-09",
+    endDate: "2009-03-09",
+    // Crypto did not trade yet; assumed to fall harder than stocks
+    assetTypes: { stock: -55, crypto: -80, commodity: -40, real_estate: -35, fixed_income: 5, other: -25 },
+    symbols: { SPY: -55, QQQ: -50, AGG: 6, TLT: 25, XAU: 25, XAG: -5 },
+  },
+  {
+    id: "2020_covid_crash",
+    name: "March 2020 COVID Crash",
+    description: "Pandemic sell-off, from the February 2020 stock market peak to the March 23 low",
+    startDate: "2020-02-19",
+    endDate: "2020-03-23",
+    assetTypes: { stock: -34, crypto: -40, commodity: -20, real_estate: -40, fixed_income: -5, other: -20 },
+    symbols: { SPY: -34, QQQ: -28, AGG: -5, TLT: 5, BTC: -38, ETH: -50, XAU: -3, XAG: -25 },
+  },
+  {
+    id: "2022_crypto_winter",
+    name: "2022 Crypto Winter",
+    description: "Crypto bear market and rate hikes, from the November 2021 crypto peak to the November 2022 low",
+    startDate: "2021-11-10",
+    endDate: "2022-11-21",
+    assetTypes: { stock: -20, crypto: -75, commodity: 5, real_estate: -25, fixed_income: -15, other: -10 },
+    symbols: { SPY: -16, QQQ: -32, AGG: -15, TLT: -35, BTC: -77, ETH: -77, XAU: -6 },
+  },
+];
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Find a historical scenario by id
+ */
+export function getStressScenario(id: string): StressScenario | null {
+  return STRESS_SCENARIOS.find((s) => s.id === id.toLowerCase()) || null;
+}
+
+/**
+ * Validate user-defined shocks
+ * 1-20 shocks, each with an asset_type or a symbol (not both) and a
+ * change of at least -100 percent
+ */
+export function validateCustomShocks(shocks: unknown): { valid: boolean; error?: string } {
+  if (!Array.isArray(shocks) || shocks.length === 0) {
+    return { valid: false, error: "Shocks must be a non-empty array" };
+  }
+
+  if (shocks.length > MAX_CUSTOM_SHOCKS) {
+    return { valid: false, error: `A scenario can have at most ${MAX_CUSTOM_SHOCKS} shocks` };
+  }
+
+  const seen = new Set<string>();
+
+  for (const shock of shocks) {
+    if (!shock || (shock.asset_type === undefined) === (shock.symbol === undefined)) {
+      return { valid: false, error: "Each shock needs either an asset_type or a symbol" };
+    }
+
+    if (shock.asset_type !== undefined && !STRESS_ASSET_TYPES.includes(shock.asset_type)) {
+      return { valid: false, error: `Shock asset type must be one of: ${STRESS_ASSET_TYPES.join(", ")}` };
+    }
+
+    if (shock.symbol !== undefined && (typeof shock.symbol !== "string" || shock.symbol.trim().length === 0)) {
+      return { valid: false, error: "Shock symbol must be a non-empty string" };
+    }
+
+    if (typeof shock.change !== "number" || !(shock.change >= MIN_SHOCK) || shock.change > MAX_SHOCK) {
+      return { valid: false, error: `Shock change must be a percentage between ${MIN_SHOCK} and ${MAX_SHOCK}` };
+    }
+
+    const key = shock.symbol !== undefined ? `symbol:${shock.symbol.trim().toUpperCase()}` : `type:${shock.asset_type}`;
+    if (seen.has(key)) {
+      return { valid: false, error: `Duplicate shock: ${shock.symbol?.trim().toUpperCase() ?? shock.asset_type}` };
+    }
+    seen.add(key);
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Build a scenario from validated user-defined shocks
+ */
+export function buildCustomScenario(
+  shocks: { asset_type?: StressAssetType; symbol?: string; change: number }[]
+): StressScenario {
+  const scenario: StressScenario = {
+    id: "custom",
+    name: "Custom Scenario",
+    description: "User-defined shocks",
+    startDate: null,
+    endDate: null,
+    assetTypes: {},
+    symbols: {},
+  };
+
+  for (const shock of shocks) {
+    if (shock.symbol !== undefined) {
+      scenario.symbols[shock.symbol.trim().toUpperCase()] = shock.change;
+    } else if (shock.asset_type !== undefined) {
+      scenario.assetTypes[shock.asset_type] = shock.change;
+    }
+  }
+
+  return scenario;
+}
+
+/**
+ * Shock a scenario applies to a holding
+ * Holdings matched by neither symbol nor asset type are unchanged
+ */
+export function shockFor(
+  holding: { symbol: string | null; assetType: string },
+  scenario: StressScenario
+): { shock: number; matchedBy: StressedAsset["matchedBy"] } {
+  const symbol = holding.symbol?.toUpperCase();
+  if (symbol && scenario.symbols[symbol] !== undefined) {
+    return { shock: scenario.symbols[symbol], matchedBy: "symbol" };
+  }
+
+  const typeShock = scenario.assetTypes[holding.assetType as StressAssetType];
+  if (typeShock !== undefined) {
+    return { shock: typeShock, matchedBy: "asset_type" };
+  }
+
+  return { shock: 0, matchedBy: null };
+}
+
+/**
+ * Apply a scenario to current holdings
+ *
+ * @param holdings - Current holdings valued in the user's currency
+ * @param scenario - Scenario shocks
+ */
+export function runStressTest(holdings: RiskHolding[], scenario: StressScenario): StressTestResult {
+  const assets: StressedAsset[] = holdings.map((holding) => {
+    const { shock, matchedBy } = shockFor(holding, scenario);
+    const stressedValue = holding.value * (1 + shock / 100);
+
+    return {
+      assetId: holding.assetId,
+      name: holding.name,
+      symbol: holding.symbol,
+      assetType: holding.assetType,
+      value: round2(holding.value),
+      shock,
+      matchedBy,
+      stressedValue: round2(stressedValue),
+      loss: round2(holding.value - stressedValue),
+    };
+  });
+  assets.sort((a, b) => b.loss - a.loss);
+
+  const totalValue = holdings.reduce((sum, h) => sum + h.value, 0);
+  const stressedValue = holdings.reduce((sum, h) => sum + h.value * (1 + shockFor(h, scenario).shock / 100), 0);
+  const loss = totalValue - stressedValue;
+
+  return {
+    scenarioId: scenario.id,
+    name: scenario.name,
+    description: scenario.description,
+    startDate: scenario.startDate,
+    endDate: scenario.endDate,
+    totalValue: round2(totalValue),
+    stressedValue: round2(stressedValue),
+    loss: round2(loss),
+    lossPercent: totalValue > 0 ? round2((loss / totalValue) * 100) : 0,
+    assets,
+  };
+}
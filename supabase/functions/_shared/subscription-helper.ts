@@ -29,6 +29,7 @@ export interface FeatureAccess {
   canAccessAIInsights: boolean;
   canAccessAIChat: boolean;
   canExportData: boolean;
+  canUseTechnicalAlerts: boolean;
   maxAlerts: number;
   priceUpdateFrequency: number;
 }
@@ -125,6 +126,7 @@ export async function getFeatureAccess(userId: string): Promise<FeatureAccess> {
     canAccessAIInsights: isPremiumActive,
     canAccessAIChat: isPremiumActive,
     canExportData: isPremiumActive,
+    canUseTechnicalAlerts: isPremiumActive,
     maxAlerts: status.maxAlerts,
     priceUpdateFrequency: status.priceUpdateFrequency,
   };
@@ -139,7 +141,7 @@ export async function getFeatureAccess(userId: string): Promise<FeatureAccess> {
  */
 export async function canAccessFeature(
   userId: string,
-  feature: "ai_insights" | "ai_chat" | "data_export" | "unlimited_alerts"
+  feature: "ai_insights" | "ai_chat" | "data_export" | "unlimited_alerts" | "technical_alerts"
 ): Promise<boolean> {
   const access = await getFeatureAccess(userId);
 
@@ -150,6 +152,8 @@ export async function canAccessFeature(
       return access.canAccessAIChat;
     case "data_export":
       return access.canExportData;
+    case "technical_alerts":
+      return access.canUseTechnicalAlerts;
     case "unlimited_alerts":
       return access.maxAlerts > 3; // Premium users have unlimited (999999)
     default:
@@ -0,0 +1,90 @@
+// =====================================================
+// Vestpod - Technical Indicators Tests
+// =====================================================
+// Tests for moving averages, RSI, ranges and volume ratios
+// Run with: deno test technical-indicators.test.ts
+
+import { assertAlmostEquals, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  DailyBar,
+  detectCrossover,
+  emaSeries,
+  priorRange,
+  relativeStrengthIndex,
+  smaSeries,
+  toDailyBars,
+  volumeRatio,
+  withCurrentPrice,
+} from "./technical-indicators.ts";
+
+// Wilder's RSI reference series (StockCharts example; their table
+// rounds intermediate averages, so values differ in the second decimal)
+const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08,
+  45.89, 46.03, 45.61, 46.28, 46.28, 46.00, 46.03, 46.41, 46.22, 45.64,
+];
+
+function bar(date: string, close: number, volume?: number): DailyBar {
+  return { date, close, high: close, low: close, volume };
+}
+
+Deno.test("toDailyBars - last close per day with the day's range", () => {
+  const day = Date.UTC(2024, 5, 3);
+  const bars = toDailyBars([
+    { timestamp: day + 3 * 3600_000, close: 101 },
+    { timestamp: day + 1 * 3600_000, close: 100 },
+    { timestamp: day + 2 * 3600_000, close: 104 },
+    { timestamp: day + 24 * 3600_000, close: 99, high: 102, low: 98, volume: 500 },
+  ]);
+
+  assertEquals(bars, [
+    { date: "2024-06-03", close: 101, high: 104, low: 100, volume: undefined },
+    { date: "2024-06-04", close: 99, high: 102, low: 98, volume: 500 },
+  ]);
+});
+
+Deno.test("withCurrentPrice - extends today's bar or appends one", () => {
+  const bars = [bar("2024-06-03", 100), bar("2024-06-04", 102)];
+
+  assertEquals(withCurrentPrice(bars, 105, "2024-06-04")[1], { date: "2024-06-04", close: 105, high: 105, low: 102, volume: undefined });
+  assertEquals(withCurrentPrice(bars, 99, "2024-06-05").length, 3);
+});
+
+Deno.test("smaSeries and emaSeries - fixed series", () => {
+  assertEquals(smaSeries([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4]);
+
+  // Seeded with SMA(3) = 2, then k = 0.5
+  assertEquals(emaSeries([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4]);
+  assertEquals(emaSeries([1, 2, 3, 7], 3), [null, null, 2, 4.5]);
+});
+
+Deno.test("relativeStrengthIndex - matches Wilder's reference values", () => {
+  assertAlmostEquals(relativeStrengthIndex(RSI_CLOSES.slice(0, 15))!, 70.46, 0.01);
+  assertAlmostEquals(relativeStrengthIndex(RSI_CLOSES.slice(0, 16))!, 66.25, 0.01);
+  assertAlmostEquals(relativeStrengthIndex(RSI_CLOSES)!, 57.92, 0.01);
+
+  assertEquals(relativeStrengthIndex(RSI_CLOSES.slice(0, 14)), null);
+  assertEquals(relativeStrengthIndex([1, 2, 3, 4], 3), 100);
+});
+
+Deno.test("detectCrossover - golden and death crosses on the latest value", () => {
+  const closes = [10, 10, 10, 10, 8, 8, 14];
+  const fast = smaSeries(closes, 2);
+  const slow = smaSeries(closes, 4);
+
+  // Fast 8 vs slow 9 yesterday, 11 vs 10 today
+  assertEquals(detectCrossover(fast, slow), "above");
+  assertEquals(detectCrossover(slow, fast), "below");
+  assertEquals(detectCrossover(fast.slice(0, -1), slow.slice(0, -1)), null);
+  assertEquals(detectCrossover([null, 1], [null, 2]), null);
+});
+
+Deno.test("priorRange and volumeRatio - exclude the latest bar", () => {
+  const bars = [bar("2024-06-01", 100), bar("2024-06-02", 120), bar("2024-06-03", 90), bar("2024-06-04", 130)];
+  assertEquals(priorRange(bars), { high: 120, low: 90 });
+  assertEquals(priorRange([bar("2024-06-04", 130)]), null);
+
+  assertEquals(volumeRatio([100, 200, 300, 600], 3), 3);
+  assertEquals(volumeRatio([100, 200, 600], 3), null);
+  assertEquals(volumeRatio([0, 0, 0, 600], 3), null);
+});
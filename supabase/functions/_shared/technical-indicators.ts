@@ -0,0 +1,217 @@
+// =====================================================
+// Vestpod - Technical Indicators Module
+// =====================================================
+// Pure indicator calculations on daily price series:
+// - Daily bars from price_history points or provider history
+// - Simple and exponential moving averages and crossovers
+// - Relative Strength Index (Wilder's smoothing)
+// - Prior high/low range (52-week highs and lows)
+// - Volume relative to its recent average
+
+/**
+ * One trading day
+ */
+export interface DailyBar {
+  date: string; // YYYY-MM-DD (UTC)
+  close: number;
+  high: number;
+  low: number;
+  volume?: number;
+}
+
+/**
+ * Price point from price_history or a provider history bar
+ */
+export interface PricePoint {
+  timestamp: number; // Unix ms
+  close: number;
+  high?: number;
+  low?: number;
+  volume?: number;
+}
+
+export type CrossDirection = "above" | "below";
+
+/**
+ * Collapse price points into one bar per UTC day
+ * Close is the day's last point; high and low span all points;
+ * volume is summed when the points carry it
+ */
+export function toDailyBars(points: PricePoint[]): DailyBar[] {
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const bars: DailyBar[] = [];
+
+  for (const point of sorted) {
+    const date = new Date(point.timestamp).toISOString().split("T")[0];
+    const high = point.high ?? point.close;
+    const low = point.low ?? point.close;
+    const last = bars[bars.length - 1];
+
+    if (last && last.date === date) {
+      last.close = point.close;
+      last.high = Math.max(last.high, high);
+      last.low = Math.min(last.low, low);
+      if (point.volume !== undefined) {
+        last.volume = (last.volume || 0) + point.volume;
+      }
+    } else {
+      bars.push({ date, close: point.close, high, low, volume: point.volume });
+    }
+  }
+
+  return bars;
+}
+
+/**
+ * Use the current price as today's close
+ * Extends today's bar, or appends one when the series ends earlier
+ */
+export function withCurrentPrice(bars: DailyBar[], price: number, today: string): DailyBar[] {
+  const last = bars[bars.length - 1];
+
+  if (last && last.date === today) {
+    return [
+      ...bars.slice(0, -1),
+      { ...last, close: price, high: Math.max(last.high, price), low: Math.min(last.low, price) },
+    ];
+  }
+
+  return [...bars, { date: today, close: price, high: price, low: price }];
+}
+
+/**
+ * Simple moving average series
+ * Entries before the first full period are null
+ */
+export function smaSeries(values: number[], period: number): (number | null)[] {
+  const result: (number | null)[] = [];
+  let sum = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) {
+      sum -= values[i - period];
+    }
+    result.push(i >= period - 1 ? sum / period : null);
+  }
+
+  return result;
+}
+
+/**
+ * Exponential moving average series
+ * Seeded with the SMA of the first period; earlier entries are null
+ */
+export function emaSeries(values: number[], period: number): (number | null)[] {
+  const result: (number | null)[] = [];
+  const k = 2 / (period + 1);
+  let ema: number | null = null;
+
+  for (let i = 0; i < values.length; i++) {
+    if (i < period - 1) {
+      result.push(null);
+      continue;
+    }
+
+    if (ema === null) {
+      ema = values.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
+    } else {
+      ema = values[i] * k + ema * (1 - k);
+    }
+    result.push(ema);
+  }
+
+  return result;
+}
+
+/**
+ * Relative Strength Index of the latest value
+ * Uses Wilder's smoothing; returns null with fewer than period + 1 values
+ */
+export function relativeStrengthIndex(values: number[], period = 14): number | null {
+  if (values.length < period + 1) {
+    return null;
+  }
+
+  let avgGain = 0;
+  let avgLoss = 0;
+
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain += Math.max(change, 0);
+    avgLoss += Math.max(-change, 0);
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+
+  if (avgLoss === 0) {
+    return avgGain === 0 ? 50 : 100;
+  }
+
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+/**
+ * Detect a crossover on the latest value
+ * "above" when fast moved from at or below slow to above it,
+ * "below" for the reverse, null otherwise
+ */
+export function detectCrossover(fast: (number | null)[], slow: (number | null)[]): CrossDirection | null {
+  const n = Math.min(fast.length, slow.length);
+  if (n < 2) {
+    return null;
+  }
+
+  const [prevFast, lastFast] = [fast[n - 2], fast[n - 1]];
+  const [prevSlow, lastSlow] = [slow[n - 2], slow[n - 1]];
+  if (prevFast === null || lastFast === null || prevSlow === null || lastSlow === null) {
+    return null;
+  }
+
+  if (prevFast <= prevSlow && lastFast > lastSlow) {
+    return "above";
+  }
+  if (prevFast >= prevSlow && lastFast < lastSlow) {
+    return "below";
+  }
+  return null;
+}
+
+/**
+ * High and low of every bar before the latest one
+ */
+export function priorRange(bars: DailyBar[]): { high: number; low: number } | null {
+  const prior = bars.slice(0, -1);
+  if (prior.length === 0) {
+    return null;
+  }
+
+  return {
+    high: Math.max(...prior.map((b) => b.high)),
+    low: Math.min(...prior.map((b) => b.low)),
+  };
+}
+
+/**
+ * Latest volume as a multiple of the average over the previous period
+ * Returns null without enough volume data or with a zero average
+ */
+export function volumeRatio(volumes: number[], period = 20): number | null {
+  if (volumes.length < period + 1) {
+    return null;
+  }
+
+  const previous = volumes.slice(-period - 1, -1);
+  const average = previous.reduce((sum, v) => sum + v, 0) / period;
+  if (!(average > 0)) {
+    return null;
+  }
+
+  return volumes[volumes.length - 1] / average;
+}
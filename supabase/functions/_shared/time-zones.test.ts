@@ -0,0 +1,87 @@
+// =====================================================
+// Vestpod - Time Zones Tests
+// =====================================================
+// Tests for local dates, calendar date formatting and quiet hours
+// Run with: deno test time-zones.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  formatCalendarDate,
+  isInQuietHours,
+  isValidDate,
+  isValidTimeOfDay,
+  isValidTimeZone,
+  localDate,
+  localHour,
+  quietHoursEndAt,
+} from "./time-zones.ts";
+
+// 02:30 UTC: still the previous evening in New York, morning in Tokyo
+const AT = new Date("2024-06-03T02:30:00Z");
+
+Deno.test("isValidTimeZone and isValidTimeOfDay", () => {
+  assertEquals(isValidTimeZone("Europe/Paris"), true);
+  assertEquals(isValidTimeZone("UTC"), true);
+  assertEquals(isValidTimeZone("Mars/Olympus"), false);
+
+  assertEquals(isValidTimeOfDay("22:00"), true);
+  assertEquals(isValidTimeOfDay("07:30:00"), true);
+  assertEquals(isValidTimeOfDay("24:00"), false);
+  assertEquals(isValidTimeOfDay("7:30"), false);
+});
+
+Deno.test("localDate and localHour - follow the user's time zone", () => {
+  assertEquals(localDate(AT, "UTC"), "2024-06-03");
+  assertEquals(localDate(AT, "America/New_York"), "2024-06-02");
+  assertEquals(localDate(AT, "Asia/Tokyo"), "2024-06-03");
+  assertEquals(localHour(AT, "America/New_York"), 22);
+  assertEquals(localHour(AT, "Asia/Kolkata"), 8);
+
+  // Unknown time zones fall back to UTC
+  assertEquals(localHour(AT, "Mars/Olympus"), 2);
+});
+
+Deno.test("isValidDate - YYYY-MM-DD calendar dates only", () => {
+  assertEquals(isValidDate("2024-02-29"), true);
+  assertEquals(isValidDate("2024-13-01"), false);
+  assertEquals(isValidDate("2024-6-3"), false);
+  assertEquals(isValidDate("2024-06-03T10:00:00Z"), false);
+  assertEquals(isValidDate(20240603), false);
+});
+
+Deno.test("formatCalendarDate - short month, day and year", () => {
+  assertEquals(formatCalendarDate("2024-06-03"), "Jun 3, 2024");
+});
+
+Deno.test("isInQuietHours - same-day and overnight windows", () => {
+  const overnight = { start: "22:00", end: "07:00" };
+  assertEquals(isInQuietHours(AT, "America/New_York", overnight), true); // 22:30
+  assertEquals(isInQuietHours(AT, "Asia/Kolkata", overnight), false); // 08:00
+  assertEquals(isInQuietHours(AT, "UTC", overnight), true); // 02:30
+
+  const afternoon = { start: "13:00:00", end: "15:00:00" };
+  assertEquals(isInQuietHours(new Date("2024-06-03T13:00:00Z"), "UTC", afternoon), true);
+  assertEquals(isInQuietHours(new Date("2024-06-03T15:00:00Z"), "UTC", afternoon), false);
+
+  assertEquals(isInQuietHours(AT, "UTC", null), false);
+  assertEquals(isInQuietHours(AT, "UTC", { start: "02:00", end: "02:00" }), false);
+});
+
+Deno.test("quietHoursEndAt - next local end of the window", () => {
+  const overnight = { start: "22:00", end: "07:00" };
+
+  // 22:30 in New York (EDT) -> 07:00 the next morning
+  assertEquals(quietHoursEndAt(AT, "America/New_York", overnight).toISOString(), "2024-06-03T11:00:00.000Z");
+  assertEquals(quietHoursEndAt(AT, "UTC", overnight).toISOString(), "2024-06-03T07:00:00.000Z");
+
+  // Clocks spring forward overnight: 22:30 EST -> 07:00 EDT
+  assertEquals(
+    quietHoursEndAt(new Date("2024-03-10T03:30:00Z"), "America/New_York", overnight).toISOString(),
+    "2024-03-10T11:00:00.000Z"
+  );
+  // Clocks fall back overnight: 22:30 EDT -> 07:00 EST
+  assertEquals(
+    quietHoursEndAt(new Date("2024-11-03T02:30:00Z"), "America/New_York", overnight).toISOString(),
+    "2024-11-03T12:00:00.000Z"
+  );
+});
@@ -0,0 +1,155 @@
+// =====================================================
+// Vestpod - Time Zones Module
+// =====================================================
+// Per-user local time:
+// - Time zone, calendar date and time-of-day validation
+// - Local calendar dates and times of day (IANA time zones)
+// - Quiet hours windows (may span midnight)
+
+import { addDays } from "./portfolio-snapshots.ts";
+
+/**
+ * Time zone for users who have not set one
+ */
+export const DEFAULT_TIME_ZONE = "UTC";
+
+/**
+ * Daily window in which non-urgent notifications are held
+ * Times are "HH:MM" (or "HH:MM:SS" as stored) in the user's time zone
+ */
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+
+/**
+ * Check an IANA time zone name (e.g. "Europe/Paris")
+ */
+export function isValidTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a time of day: "HH:MM", or "HH:MM:SS" as returned for TIME columns
+ */
+export function isValidTimeOfDay(value: string): boolean {
+  return /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(value);
+}
+
+/**
+ * Check a calendar date (YYYY-MM-DD)
+ */
+export function isValidDate(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+/**
+ * Minutes since midnight of a time of day
+ */
+function minutesOfDay(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Calendar date and time of day of an instant in a time zone
+ * Falls back to UTC for unknown time zones
+ */
+function localParts(at: Date, timeZone: string): { date: string; minutes: number } {
+  const formatter = new Intl.DateTimeFormat("en-CA", {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+  const parts = Object.fromEntries(formatter.formatToParts(at).map((p) => [p.type, p.value]));
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant
+ */
+export function localDate(at: Date, timeZone: string): string {
+  return localParts(at, timeZone).date;
+}
+
+/**
+ * Local hour (0-23) of an instant
+ */
+export function localHour(at: Date, timeZone: string): number {
+  return Math.floor(localParts(at, timeZone).minutes / 60);
+}
+
+/**
+ * Format a calendar date for notification text (e.g. "Jun 3, 2024")
+ */
+export function formatCalendarDate(date: string): string {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Check if an instant falls within quiet hours
+ * start == end is treated as no quiet hours
+ */
+export function isInQuietHours(at: Date, timeZone: string, quietHours: QuietHours | null): boolean {
+  if (!quietHours) {
+    return false;
+  }
+
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  const now = localParts(at, timeZone).minutes;
+
+  // Windows like 22:00-07:00 span midnight
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Instant a local calendar date and time of day falls on
+ * Corrects for the zone's UTC offset at that instant, so days with a
+ * DST change resolve to the right wall-clock time
+ */
+function zonedInstant(date: string, minutes: number, timeZone: string): Date {
+  const wallClock = Date.parse(`${date}T00:00:00Z`) + minutes * 60_000;
+
+  // Offset of the zone at an instant: its local wall-clock time minus the instant
+  const offsetAt = (instant: number) => {
+    const parts = localParts(new Date(instant), timeZone);
+    return Date.parse(`${parts.date}T00:00:00Z`) + parts.minutes * 60_000 - Math.floor(instant / 60_000) * 60_000;
+  };
+
+  // The offset at the first guess can differ from the offset at the result
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+}
+
+/**
+ * Instant at which the current quiet hours end
+ * (call only while isInQuietHours is true)
+ */
+export function quietHoursEndAt(at: Date, timeZone: string, quietHours: QuietHours): Date {
+  const now = localParts(at, timeZone);
+  const end = minutesOfDay(quietHours.end);
+
+  // Ends later today, or tomorrow once the window has spanned midnight
+  const endDate = end > now.minutes ? now.date : addDays(now.date, 1);
+  return zonedInstant(endDate, end, timeZone);
+}
@@ -0,0 +1,86 @@
+// =====================================================
+// Vestpod - Transaction Ledger Tests
+// =====================================================
+// Tests for deriving asset positions from transactions
+// Run with: deno test transaction-ledger.test.ts
+
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { derivePosition, LedgerError, LedgerTransaction } from "./transaction-ledger.ts";
+
+Deno.test("derivePosition - opening buy matches legacy asset fields", () => {
+  const position = derivePosition([
+    { transaction_type: "buy", quantity: 10, price: 150, transaction_date: "2024-01-01" },
+  ]);
+
+  assertEquals(position.quantity, 10);
+  assertEquals(position.totalCost, 1500);
+  assertEquals(position.averageCost, 150);
+  assertEquals(position.firstAcquiredDate, "2024-01-01");
+});
+
+Deno.test("derivePosition - averaging in blends cost basis and capitalizes fees", () => {
+  const position = derivePosition([
+    { transaction_type: "buy", quantity: 10, price: 100, transaction_date: "2024-01-01" },
+    { transaction_type: "buy", quantity: 10, price: 200, fees: 10, transaction_date: "2024-02-01" },
+  ]);
+
+  assertEquals(position.quantity, 20);
+  assertEquals(position.totalCost, 3010);
+  assertEquals(position.averageCost, 150.5);
+});
+
+Deno.test("derivePosition - partial sell releases cost at average cost", () => {
+  const position = derivePosition([
+    { transaction_type: "buy", quantity: 10, price: 100, transaction_date: "2024-01-01" },
+    { transaction_type: "buy", quantity: 10, price: 200, transaction_date: "2024-02-01" },
+    { transaction_type: "sell", quantity: 5, price: 250, transaction_date: "2024-03-01" },
+  ]);
+
+  assertEquals(position.quantity, 15);
+  assertEquals(position.averageCost, 150);
+  assertEquals(position.totalCost, 2250);
+});
+
+Deno.test("derivePosition - transfers move units like buys and sells", () => {
+  const position = derivePosition([
+    { transaction_type: "transfer_in", quantity: 2, price: 30000, transaction_date: "2023-06-01" },
+    { transaction_type: "transfer_out", quantity: 1, price: 0, transaction_date: "2024-06-01" },
+  ]);
+
+  assertEquals(position.quantity, 1);
+  assertEquals(position.averageCost, 30000);
+  assertEquals(position.firstAcquiredDate, "2023-06-01");
+});
+
+Deno.test("derivePosition - orders transactions by date regardless of input order", () => {
+  const transactions: LedgerTransaction[] = [
+    { transaction_type: "sell", quantity: 5, price: 120, transaction_date: "2024-03-01" },
+    { transaction_type: "buy", quantity: 10, price: 100, transaction_date: "2024-01-01" },
+  ];
+
+  const position = derivePosition(transactions);
+  assertEquals(position.quantity, 5);
+  assertEquals(position.averageCost, 100);
+});
+
+Deno.test("derivePosition - closing a position resets cost basis", () => {
+  const position = derivePosition([
+    { transaction_type: "buy", quantity: 3, price: 100, transaction_date: "2024-01-01" },
+    { transaction_type: "sell", quantity: 3, price: 110, transaction_date: "2024-02-01" },
+  ]);
+
+  assertEquals(position.quantity, 0);
+  assertEquals(position.totalCost, 0);
+  assertEquals(position.averageCost, 0);
+});
+
+Deno.test("derivePosition - rejects selling more than is held", () => {
+  assertThrows(
+    () =>
+      derivePosition([
+        { transaction_type: "buy", quantity: 1, price: 100, transaction_date: "2024-02-01" },
+        { transaction_type: "sell", quantity: 1, price: 100, transaction_date: "2024-01-01" },
+      ]),
+    LedgerError,
+  );
+});
@@ -0,0 +1,120 @@
+// =====================================================
+// Vestpod - Transaction Ledger Module
+// =====================================================
+// Derives an asset's position (quantity, cost basis and
+// opening date) from its buy/sell/transfer transactions
+
+/**
+ * Supported ledger transaction types
+ */
+export const TRANSACTION_TYPES = ["buy", "sell", "transfer_in", "transfer_out"] as const;
+export type TransactionType = typeof TRANSACTION_TYPES[number];
+
+/**
+ * Transaction row from database
+ */
+export interface LedgerTransaction {
+  id?: string;
+  transaction_type: TransactionType;
+  quantity: number | string;
+  price: number | string;
+  fees?: number | string | null;
+  transaction_date: string;
+  created_at?: string;
+}
+
+/**
+ * Position derived from the ledger
+ */
+export interface PositionSummary {
+  quantity: number;
+  totalCost: number;
+  averageCost: number;
+  firstAcquiredDate: string | null;
+  transactionCount: number;
+}
+
+/**
+ * Ledger error (e.g. selling more than is held)
+ */
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+/**
+ * Check whether a transaction type adds units to the position
+ */
+export function isInflow(type: TransactionType): boolean {
+  return type === "buy" || type === "transfer_in";
+}
+
+/**
+ * Validate transaction type
+ */
+export function isValidTransactionType(type: string): type is TransactionType {
+  return TRANSACTION_TYPES.includes(type as TransactionType);
+}
+
+/**
+ * Sort transactions chronologically (date, then creation time)
+ */
+export function sortTransactions<T extends LedgerTransaction>(transactions: T[]): T[] {
+  return [...transactions].sort((a, b) => {
+    if (a.transaction_date !== b.transaction_date) {
+      return a.transaction_date < b.transaction_date ? -1 : 1;
+    }
+    return (a.created_at || "").localeCompare(b.created_at || "");
+  });
+}
+
+/**
+ * Derive position from ledger transactions using average cost
+ * Buy fees are capitalized into cost basis; outflows release
+ * cost at the running average cost per unit
+ *
+ * @param transactions - Asset transactions in any order
+ * @returns Derived position
+ * @throws LedgerError if an outflow exceeds the quantity held at that date
+ */
+export function derivePosition(transactions: LedgerTransaction[]): PositionSummary {
+  let quantity = 0;
+  let totalCost = 0;
+  let firstAcquiredDate: string | null = null;
+
+  for (const tx of sortTransactions(transactions)) {
+    const txQuantity = Number(tx.quantity);
+    const txPrice = Number(tx.price);
+    const txFees = Number(tx.fees || 0);
+
+    if (isInflow(tx.transaction_type)) {
+      quantity += txQuantity;
+      totalCost += txQuantity * txPrice + txFees;
+      if (!firstAcquiredDate) {
+        firstAcquiredDate = tx.transaction_date;
+      }
+      continue;
+    }
+
+    // Allow for DECIMAL(20, 8) rounding when closing a position
+    if (txQuantity > quantity + 1e-8) {
+      throw new LedgerError(
+        `Cannot ${tx.transaction_type === "sell" ? "sell" : "transfer out"} ${txQuantity} units on ${tx.transaction_date}: only ${Number(quantity.toFixed(8))} held`
+      );
+    }
+
+    const averageCost = quantity > 0 ? totalCost / quantity : 0;
+    quantity = Math.max(0, quantity - txQuantity);
+    totalCost = quantity > 0 ? Math.max(0, totalCost - averageCost * txQuantity) : 0;
+  }
+
+  return {
+    quantity: Number(quantity.toFixed(8)),
+    totalCost: Number(totalCost.toFixed(8)),
+    averageCost: quantity > 0 ? Number((totalCost / quantity).toFixed(8)) : 0,
+    firstAcquiredDate,
+    transactionCount: transactions.length,
+  };
+}
@@ -1,16 +1,21 @@
 // =====================================================
 // Vestpod - Alert Checker Job Edge Function
 // =====================================================
-// Scheduled job that checks alert conditions and sends notifications
-// - Evaluates price target alerts (above/below)
-// - Evaluates percentage change alerts (change_up/change_down)
-// - Evaluates maturity reminder alerts
-// - Sends push notifications when conditions are met
-// - Runs every 5 minutes via cron trigger
+// Scheduled safety net for alerts that price updates do not cover
+// - price-update-job evaluates alerts on assets as soon as their
+//   prices change (see _shared/alert-evaluator.ts)
+// - This job evaluates maturity reminders, which depend on the
+//   date rather than on prices
+// - It also evaluates alerts not checked for STALE_ALERT_HOURS
+//   (e.g. assets without automated prices, missed updates)
+// - Runs hourly via cron trigger
 // Requirements: 7
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createPushTransports } from "../_shared/push-notifications.ts";
+import { createPriceProviderRegistry } from "../_shared/price-providers.ts";
+import { evaluateScheduledAlerts } from "../_shared/alert-evaluator.ts";
 
 // CORS headers
 const corsHeaders = {
@@ -18,51 +23,14 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-/**
- * Alert from database
- */
-interface Alert {
-  id: string;
-  user_id: string;
-  asset_id: string;
-  alert_type: "price_target" | "percentage_change" | "maturity_reminder";
-  condition_value: number | null;
-  condition_operator: "above" | "below" | "change_up" | "change_down" | null;
-  is_active: boolean;
-  triggered_at: string | null;
-  last_checked_at: string | null;
-  reminder_days_before: number | null;
-  created_at: string;
-  updated_at: string;
-}
+// Push transports (FCM/APNs credentials from the environment)
+const pushTransports = createPushTransports();
 
-/**
- * Asset with price information
- */
-interface Asset {
-  id: string;
-  name: string;
-  symbol: string | null;
-  asset_type: string;
-  current_price: number | null;
-  purchase_price: number;
-  metadata: {
-    maturity_date?: string;
-    [key: string]: unknown;
-  };
-}
+// Price providers for daily history when price_history is too short
+const priceProviders = createPriceProviderRegistry();
 
-/**
- * Alert check result
- */
-interface AlertCheckResult {
-  alert_id: string;
-  user_id: string;
-  triggered: boolean;
-  reason?: string;
-  notification_sent?: boolean;
-  error?: string;
-}
+// Alerts not evaluated for this long are re-checked
+const STALE_ALERT_HOURS = 24;
 
 /**
  * Send JSON response
@@ -74,287 +42,6 @@ function jsonResponse(data: Record<string, unknown> | { error: string }, status
   });
 }
 
-/**
- * Check if price target alert condition is met
- * Requirement 7.2: Trigger when asset price reaches target
- */
-function checkPriceTargetAlert(
-  alert: Alert,
-  asset: Asset
-): { triggered: boolean; reason?: string } {
-  if (!asset.current_price || !alert.condition_value) {
-    return { triggered: false };
-  }
-
-  const currentPrice = asset.current_price;
-  const targetPrice = alert.condition_value;
-  const operator = alert.condition_operator;
-
-  if (operator === "above" && currentPrice >= targetPrice) {
-    return {
-      triggered: true,
-      reason: `${asset.name} (${asset.symbol || "N/A"}) reached $${currentPrice.toFixed(2)}, above target of $${targetPrice.toFixed(2)}`,
-    };
-  }
-
-  if (operator === "below" && currentPrice <= targetPrice) {
-    return {
-      triggered: true,
-      reason: `${asset.name} (${asset.symbol || "N/A"}) dropped to $${currentPrice.toFixed(2)}, below target of $${targetPrice.toFixed(2)}`,
-    };
-  }
-
-  return { triggered: false };
-}
-
-/**
- * Check if percentage change alert condition is met
- * Requirement 7.3: Trigger when price changes by specified percentage
- */
-function checkPercentageChangeAlert(
-  alert: Alert,
-  asset: Asset
-): { triggered: boolean; reason?: string } {
-  if (!asset.current_price || !alert.condition_value) {
-    return { triggered: false };
-  }
-
-  const currentPrice = asset.current_price;
-  const purchasePrice = asset.purchase_price;
-  const targetPercentage = alert.condition_value;
-  const operator = alert.condition_operator;
-
-  // Calculate percentage change from purchase price
-  const percentageChange = ((currentPrice - purchasePrice) / purchasePrice) * 100;
-
-  if (operator === "change_up" && percentageChange >= targetPercentage) {
-    return {
-      triggered: true,
-      reason: `${asset.name} (${asset.symbol || "N/A"}) increased by ${percentageChange.toFixed(2)}%, exceeding target of ${targetPercentage.toFixed(2)}%`,
-    };
-  }
-
-  if (operator === "change_down" && percentageChange <= -targetPercentage) {
-    return {
-      triggered: true,
-      reason: `${asset.name} (${asset.symbol || "N/A"}) decreased by ${Math.abs(percentageChange).toFixed(2)}%, exceeding target of ${targetPercentage.toFixed(2)}%`,
-    };
-  }
-
-  return { triggered: false };
-}
-
-/**
- * Check if maturity reminder alert condition is met
- * Requirement 7.4: Trigger N days before maturity date
- */
-function checkMaturityReminderAlert(
-  alert: Alert,
-  asset: Asset
-): { triggered: boolean; reason?: string } {
-  if (!asset.metadata?.maturity_date || alert.reminder_days_before === null) {
-    return { triggered: false };
-  }
-
-  const maturityDate = new Date(asset.metadata.maturity_date);
-  const today = new Date();
-  const reminderDate = new Date(maturityDate);
-  reminderDate.setDate(reminderDate.getDate() - alert.reminder_days_before);
-
-  // Check if today is the reminder date or later (but before maturity)
-  if (today >= reminderDate && today < maturityDate) {
-    const daysUntilMaturity = Math.ceil(
-      (maturityDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
-    );
-
-    return {
-      triggered: true,
-      reason: `${asset.name} will mature in ${daysUntilMaturity} day${daysUntilMaturity !== 1 ? "s" : ""} on ${maturityDate.toLocaleDateString()}`,
-    };
-  }
-
-  return { triggered: false };
-}
-
-/**
- * Send push notification to user
- * Requirement 7.5: Send push notification when alert triggers
- */
-async function sendPushNotification(
-  userId: string,
-  title: string,
-  body: string,
-  alertId: string
-): Promise<boolean> {
-  try {
-    // In a production environment, this would integrate with:
-    // - Firebase Cloud Messaging (FCM) for Android
-    // - Apple Push Notification Service (APNs) for iOS
-    // - Or a service like OneSignal, Pusher, etc.
-    
-    // For now, we'll log the notification
-    console.log(`[PUSH NOTIFICATION] User: ${userId}`);
-    console.log(`  Title: ${title}`);
-    console.log(`  Body: ${body}`);
-    console.log(`  Alert ID: ${alertId}`);
-
-    // TODO: Implement actual push notification service integration
-    // Example with FCM:
-    // const fcmToken = await getUserFCMToken(userId);
-    // await sendFCMNotification(fcmToken, { title, body, data: { alert_id: alertId } });
-
-    return true;
-  } catch (error) {
-    console.error("Error sending push notification:", error);
-    return false;
-  }
-}
-
-/**
- * Check a single alert and trigger notification if needed
- */
-async function checkAlert(
-  supabase: ReturnType<typeof createClient>,
-  alert: Alert,
-  asset: Asset
-): Promise<AlertCheckResult> {
-  const now = new Date().toISOString();
-
-  // Update last_checked_at timestamp
-  await supabase
-    .from("alerts")
-    .update({ last_checked_at: now })
-    .eq("id", alert.id);
-
-  let checkResult: { triggered: boolean; reason?: string } = { triggered: false };
-
-  // Check alert condition based on type
-  switch (alert.alert_type) {
-    case "price_target":
-      checkResult = checkPriceTargetAlert(alert, asset);
-      break;
-    case "percentage_change":
-      checkResult = checkPercentageChangeAlert(alert, asset);
-      break;
-    case "maturity_reminder":
-      checkResult = checkMaturityReminderAlert(alert, asset);
-      break;
-    default:
-      return {
-        alert_id: alert.id,
-        user_id: alert.user_id,
-        triggered: false,
-        error: `Unknown alert type: ${alert.alert_type}`,
-      };
-  }
-
-  if (!checkResult.triggered) {
-    return {
-      alert_id: alert.id,
-      user_id: alert.user_id,
-      triggered: false,
-    };
-  }
-
-  // Alert condition is met - send notification and mark as triggered
-  const notificationTitle = "Price Alert Triggered";
-  const notificationBody = checkResult.reason || "Your alert condition has been met";
-
-  const notificationSent = await sendPushNotification(
-    alert.user_id,
-    notificationTitle,
-    notificationBody,
-    alert.id
-  );
-
-  // Mark alert as triggered and deactivate it
-  await supabase
-    .from("alerts")
-    .update({
-      triggered_at: now,
-      is_active: false,
-    })
-    .eq("id", alert.id);
-
-  return {
-    alert_id: alert.id,
-    user_id: alert.user_id,
-    triggered: true,
-    reason: checkResult.reason,
-    notification_sent: notificationSent,
-  };
-}
-
-/**
- * Process all active alerts
- */
-async function processAlerts(supabase: ReturnType<typeof createClient>) {
-  // Fetch all active alerts with their associated assets
-  const { data: alerts, error: alertsError } = await supabase
-    .from("alerts")
-    .select(`
-      *,
-      assets (
-        id,
-        name,
-        symbol,
-        asset_type,
-        current_price,
-        purchase_price,
-        metadata
-      )
-    `)
-    .eq("is_active", true);
-
-  if (alertsError) {
-    console.error("Error fetching alerts:", alertsError);
-    throw new Error(`Failed to fetch alerts: ${alertsError.message}`);
-  }
-
-  if (!alerts || alerts.length === 0) {
-    return {
-      total_alerts: 0,
-      alerts_triggered: 0,
-      notifications_sent: 0,
-      results: [],
-    };
-  }
-
-  console.log(`Checking ${alerts.length} active alerts`);
-
-  // Check each alert
-  const results: AlertCheckResult[] = [];
-  for (const alert of alerts) {
-    if (!alert.assets) {
-      console.error(`Alert ${alert.id} has no associated asset`);
-      results.push({
-        alert_id: alert.id,
-        user_id: alert.user_id,
-        triggered: false,
-        error: "Asset not found",
-      });
-      continue;
-    }
-
-    const result = await checkAlert(
-      supabase,
-      alert as Alert,
-      alert.assets as unknown as Asset
-    );
-    results.push(result);
-  }
-
-  const triggeredCount = results.filter((r) => r.triggered).length;
-  const notificationsSent = results.filter((r) => r.notification_sent).length;
-
-  return {
-    total_alerts: alerts.length,
-    alerts_triggered: triggeredCount,
-    notifications_sent: notificationsSent,
-    results,
-  };
-}
-
 // =====================================================
 // Main Request Handler
 // =====================================================
@@ -369,6 +56,7 @@ serve(async (req: Request) => {
     // Get Supabase configuration
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const exchangeRateApiKey = Deno.env.get("EXCHANGE_RATE_API_KEY") || "";
 
     if (!supabaseUrl || !supabaseServiceKey) {
       return jsonResponse({ error: "Supabase configuration missing" }, 500);
@@ -379,8 +67,13 @@ serve(async (req: Request) => {
 
     const startTime = Date.now();
 
-    // Process all active alerts
-    const result = await processAlerts(supabase);
+    // Maturity reminders and stale alerts
+    const staleBefore = new Date(startTime - STALE_ALERT_HOURS * 60 * 60 * 1000);
+    const result = await evaluateScheduledAlerts(supabase, staleBefore, {
+      exchangeRateApiKey,
+      transports: { push: pushTransports },
+      priceProviders,
+    });
 
     const endTime = Date.now();
     const duration = endTime - startTime;
@@ -2,16 +2,39 @@
 // Vestpod - Alert Handler Edge Function
 // =====================================================
 // Handles alert CRUD operations:
-// - Create alert (price target, percentage change, maturity reminder)
+// - Create alert (price target, percentage change over an optional
+//   24h/7d/30d window, maturity reminder)
+// - Create portfolio alert (total value, drawdown, daily P&L,
+//   allocation drift)
+// - Create composite alert (AND/OR of asset, portfolio and
+//   sector exposure conditions)
+// - Create technical alert (premium: moving average cross, RSI,
+//   52-week high/low, volume spike)
 // - Read alerts (list and single)
 // - Update alert
 // - Delete alert
+// - Trigger history (when and at what price each firing happened)
 // - Enforce free user alert limit (3 alerts)
 // Requirements: 7
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
 import { authenticateRequest } from "../_shared/auth.ts";
+import { validateTriggerInput } from "../_shared/alert-triggers.ts";
+import {
+  ALERT_LOOKBACK_WINDOWS,
+  collectConditionTargets,
+  ConditionNode,
+  isPortfolioAlertType,
+  isTechnicalAlertType,
+  isValidLookbackWindow,
+  PORTFOLIO_ALERT_TYPES,
+  TECHNICAL_ALERT_TYPES,
+  validateAllocationBand,
+  validateConditionTree,
+  validateTechnicalAlert,
+} from "../_shared/alert-conditions.ts";
+import { PRICED_ASSET_TYPES, PricedAssetType } from "../_shared/price-providers.ts";
 
 // CORS headers for mobile app
 const corsHeaders = {
@@ -25,8 +48,19 @@ const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+// Page size limits for the trigger history route
+const DEFAULT_TRIGGER_PAGE_SIZE = 50;
+const MAX_TRIGGER_PAGE_SIZE = 200;
+
 // Valid alert types
-const ALERT_TYPES = ["price_target", "percentage_change", "maturity_reminder"] as const;
+const ALERT_TYPES = [
+  "price_target",
+  "percentage_change",
+  "maturity_reminder",
+  ...PORTFOLIO_ALERT_TYPES,
+  ...TECHNICAL_ALERT_TYPES,
+  "composite",
+] as const;
 type AlertType = typeof ALERT_TYPES[number];
 
 // Valid condition operators
@@ -69,7 +103,7 @@ function isValidConditionOperator(operator: string): operator is ConditionOperat
 }
 
 // Import centralized subscription helper
-import { getSubscriptionLimits, checkPremiumStatus } from "../_shared/subscription-helper.ts";
+import { canAccessFeature, getSubscriptionLimits, checkPremiumStatus } from "../_shared/subscription-helper.ts";
 
 /**
  * Get user's subscription status
@@ -108,8 +142,37 @@ async function countActiveAlerts(userId: string): Promise<number> {
  * Requirement 7.1: Require asset, alert type, and condition parameters
  */
 function validateAlertInput(data: Record<string, unknown>, isUpdate = false): { valid: boolean; error?: string } {
-  // Asset ID validation
-  if (!isUpdate && (!data.asset_id || typeof data.asset_id !== "string")) {
+  // Target validation: portfolio alerts need a portfolio, composite
+  // alerts a condition tree, the rest an asset
+  if (!isUpdate && data.alert_type === "composite") {
+    if (data.condition_tree === undefined || data.condition_tree === null) {
+      return {
+        valid: false,
+        error: "Condition tree is required for composite alerts",
+      };
+    }
+
+    if ((data.asset_id !== undefined && data.asset_id !== null) || (data.portfolio_id !== undefined && data.portfolio_id !== null)) {
+      return {
+        valid: false,
+        error: "Composite alerts set their targets in the condition tree",
+      };
+    }
+  } else if (!isUpdate && isPortfolioAlertType(data.alert_type)) {
+    if (!data.portfolio_id || typeof data.portfolio_id !== "string") {
+      return {
+        valid: false,
+        error: "Portfolio ID is required for portfolio alerts",
+      };
+    }
+
+    if (data.asset_id !== undefined && data.asset_id !== null) {
+      return {
+        valid: false,
+        error: "Portfolio alerts cannot target an asset",
+      };
+    }
+  } else if (!isUpdate && (!data.asset_id || typeof data.asset_id !== "string")) {
     return {
       valid: false,
       error: "Asset ID is required",
@@ -188,6 +251,99 @@ function validateAlertInput(data: Record<string, unknown>, isUpdate = false): {
     }
   }
 
+  // Portfolio total value validation
+  if (!isUpdate && alertType === "portfolio_value") {
+    if (isNaN(Number(data.condition_value)) || !(Number(data.condition_value) > 0)) {
+      return {
+        valid: false,
+        error: "Condition value (target portfolio value) must be a positive number",
+      };
+    }
+
+    if (!["above", "below"].includes(data.condition_operator as string)) {
+      return {
+        valid: false,
+        error: "Condition operator must be 'above' or 'below' for portfolio value alerts",
+      };
+    }
+  }
+
+  // Drawdown validation
+  if (!isUpdate && alertType === "portfolio_drawdown") {
+    const drawdown = Number(data.condition_value);
+    if (isNaN(drawdown) || drawdown <= 0 || drawdown > 100) {
+      return {
+        valid: false,
+        error: "Condition value (drawdown percentage) must be between 0 and 100",
+      };
+    }
+  }
+
+  // Daily P&L validation
+  if (!isUpdate && alertType === "portfolio_daily_pnl") {
+    if (isNaN(Number(data.condition_value)) || !(Number(data.condition_value) > 0)) {
+      return {
+        valid: false,
+        error: "Condition value (daily gain or loss amount) must be a positive number",
+      };
+    }
+
+    if (!["change_up", "change_down"].includes(data.condition_operator as string)) {
+      return {
+        valid: false,
+        error: "Condition operator must be 'change_up' or 'change_down' for daily P&L alerts",
+      };
+    }
+  }
+
+  // Allocation drift validation
+  if (!isUpdate && alertType === "allocation_drift") {
+    const bandValidation = validateAllocationBand(data.condition_params);
+    if (!bandValidation.valid) {
+      return bandValidation;
+    }
+  }
+
+  // Technical alert validation
+  if (!isUpdate && isTechnicalAlertType(alertType)) {
+    const technicalValidation = validateTechnicalAlert(alertType, data);
+    if (!technicalValidation.valid) {
+      return technicalValidation;
+    }
+  }
+
+  // Composite condition tree validation
+  if (data.condition_tree !== undefined) {
+    if (!isUpdate && alertType !== "composite") {
+      return {
+        valid: false,
+        error: "Condition tree is only supported for composite alerts",
+      };
+    }
+
+    const treeValidation = validateConditionTree(data.condition_tree);
+    if (!treeValidation.valid) {
+      return treeValidation;
+    }
+  }
+
+  // Lookback window validation (percentage change only; null = since purchase)
+  if (data.lookback_window !== undefined && data.lookback_window !== null) {
+    if (!isValidLookbackWindow(data.lookback_window)) {
+      return {
+        valid: false,
+        error: `Lookback window must be one of: ${ALERT_LOOKBACK_WINDOWS.join(", ")}`,
+      };
+    }
+
+    if (!isUpdate && alertType !== "percentage_change") {
+      return {
+        valid: false,
+        error: "Lookback window is only supported for percentage change alerts",
+      };
+    }
+  }
+
   // Maturity reminder validation
   if (!isUpdate && alertType === "maturity_reminder") {
     if (data.reminder_days_before === undefined || data.reminder_days_before === null) {
@@ -205,9 +361,48 @@ function validateAlertInput(data: Record<string, unknown>, isUpdate = false): {
     }
   }
 
+  // Trigger mode validation (updates are checked against the stored alert)
+  if (!isUpdate) {
+    return validateTriggerInput(data);
+  }
+
   return { valid: true };
 }
 
+/**
+ * Verify the assets and portfolios in a condition tree belong to user
+ * Returns an error message, or null when all targets are found
+ */
+async function verifyConditionTargets(tree: ConditionNode, userId: string): Promise<string | null> {
+  const { assetIds, portfolioIds } = collectConditionTargets(tree);
+
+  if (assetIds.length > 0) {
+    const { count, error } = await supabase
+      .from("assets")
+      .select("id", { count: "exact", head: true })
+      .in("id", assetIds)
+      .eq("user_id", userId);
+
+    if (error || count !== assetIds.length) {
+      return "Asset not found";
+    }
+  }
+
+  if (portfolioIds.length > 0) {
+    const { count, error } = await supabase
+      .from("portfolios")
+      .select("id", { count: "exact", head: true })
+      .in("id", portfolioIds)
+      .eq("user_id", userId);
+
+    if (error || count !== portfolioIds.length) {
+      return "Portfolio not found";
+    }
+  }
+
+  return null;
+}
+
 /**
  * Format alert for response
  */
@@ -216,18 +411,40 @@ function formatAlert(alert: Record<string, unknown>) {
     id: alert.id,
     userId: alert.user_id,
     assetId: alert.asset_id,
+    portfolioId: alert.portfolio_id,
     alertType: alert.alert_type,
     conditionValue: alert.condition_value,
     conditionOperator: alert.condition_operator,
+    conditionParams: alert.condition_params,
+    conditionTree: alert.condition_tree,
     isActive: alert.is_active,
+    triggerMode: alert.trigger_mode,
+    cooldownHours: alert.cooldown_hours,
+    isArmed: alert.is_armed,
+    triggerCount: alert.trigger_count,
     triggeredAt: alert.triggered_at,
     lastCheckedAt: alert.last_checked_at,
     reminderDaysBefore: alert.reminder_days_before,
+    lookbackWindow: alert.lookback_window,
     createdAt: alert.created_at,
     updatedAt: alert.updated_at,
   };
 }
 
+/**
+ * Format alert trigger for response
+ */
+function formatAlertTrigger(trigger: Record<string, unknown>) {
+  return {
+    id: trigger.id,
+    alertId: trigger.alert_id,
+    triggeredAt: trigger.triggered_at,
+    price: trigger.price,
+    reason: trigger.reason,
+    notificationSent: trigger.notification_sent,
+  };
+}
+
 // =====================================================
 // Route Handlers
 // =====================================================
@@ -249,22 +466,56 @@ async function handleCreateAlert(req: Request, userId: string) {
 
     const {
       asset_id,
+      portfolio_id,
       alert_type,
       condition_value,
       condition_operator,
       reminder_days_before,
+      lookback_window,
+      trigger_mode,
+      cooldown_hours,
+      condition_params,
+      condition_tree,
     } = body;
 
-    // Verify asset belongs to user
-    const { data: asset, error: assetError } = await supabase
-      .from("assets")
-      .select("id, name, asset_type, metadata")
-      .eq("id", asset_id)
-      .eq("user_id", userId)
-      .single();
+    const isPortfolioAlert = isPortfolioAlertType(alert_type);
+    const isCompositeAlert = alert_type === "composite";
 
-    if (assetError || !asset) {
-      return errorResponse("Asset not found", 404);
+    // Verify the target asset or portfolio belongs to user
+    let asset: { asset_type: string; symbol: string | null; metadata: { maturity_date?: string } | null } | null = null;
+    if (isCompositeAlert) {
+      const targetError = await verifyConditionTargets(condition_tree, userId);
+      if (targetError) {
+        return errorResponse(targetError, 404);
+      }
+    } else if (isPortfolioAlert) {
+      const { data: portfolio, error: portfolioError } = await supabase
+        .from("portfolios")
+        .select("id")
+        .eq("id", portfolio_id)
+        .eq("user_id", userId)
+        .single();
+
+      if (portfolioError || !portfolio) {
+        return errorResponse("Portfolio not found", 404);
+      }
+    } else {
+      const { data: assetData, error: assetError } = await supabase
+        .from("assets")
+        .select("id, name, symbol, asset_type, metadata")
+        .eq("id", asset_id)
+        .eq("user_id", userId)
+        .single();
+
+      if (assetError || !assetData) {
+        return errorResponse("Asset not found", 404);
+      }
+      asset = assetData;
+    }
+
+    // Technical alerts are premium-only
+    if (isTechnicalAlertType(alert_type) && !(await canAccessFeature(userId, "technical_alerts"))) {
+      return errorResponse("Technical alerts require a premium subscription", 403);
     }
 
     // Check alert limit for free users
@@ -279,7 +530,7 @@ async function handleCreateAlert(req: Request, userId: string) {
     }
 
     // For maturity reminders, verify asset is fixed income with maturity date
-    if (alert_type === "maturity_reminder") {
+    if (alert_type === "maturity_reminder" && asset) {
       if (asset.asset_type !== "fixed_income") {
         return errorResponse("Maturity reminders can only be set for fixed income assets");
       }
@@ -289,16 +540,33 @@ async function handleCreateAlert(req: Request, userId: string) {
       }
     }
 
+    // Technical alerts need a market-priced asset; volume is only reported for stocks
+    if (isTechnicalAlertType(alert_type) && asset) {
+      if (!asset.symbol || !PRICED_ASSET_TYPES.includes(asset.asset_type as PricedAssetType)) {
+        return errorResponse("Technical alerts can only be set for stocks, crypto and commodities with a symbol");
+      }
+
+      if (alert_type === "volume_spike" && asset.asset_type !== "stock") {
+        return errorResponse("Volume spike alerts can only be set for stocks");
+      }
+    }
+
     // Create alert
     const { data: alert, error: createError } = await supabase
       .from("alerts")
       .insert({
         user_id: userId,
-        asset_id,
+        asset_id: isPortfolioAlert || isCompositeAlert ? null : asset_id,
+        portfolio_id: isPortfolioAlert ? portfolio_id : null,
         alert_type,
         condition_value: condition_value !== undefined ? Number(condition_value) : null,
         condition_operator: condition_operator || null,
         reminder_days_before: reminder_days_before !== undefined ? Number(reminder_days_before) : null,
+        lookback_window: lookback_window || null,
+        condition_params: alert_type === "allocation_drift" || isTechnicalAlertType(alert_type) ? condition_params ?? {} : {},
+        condition_tree: isCompositeAlert ? condition_tree : null,
+        trigger_mode: trigger_mode || "once",
+        cooldown_hours: cooldown_hours !== undefined && cooldown_hours !== null ? Number(cooldown_hours) : null,
         is_active: true,
       })
       .select()
@@ -329,6 +597,7 @@ async function handleListAlerts(req: Request, userId: string) {
   try {
     const url = new URL(req.url);
     const assetId = url.searchParams.get("asset_id");
+    const portfolioId = url.searchParams.get("portfolio_id");
     const activeOnly = url.searchParams.get("active_only") === "true";
 
     let query = supabase
@@ -341,6 +610,10 @@ async function handleListAlerts(req: Request, userId: string) {
           symbol,
           asset_type,
           current_price
+        ),
+        portfolios (
+          id,
+          name
         )
       `)
       .eq("user_id", userId);
@@ -349,6 +622,10 @@ async function handleListAlerts(req: Request, userId: string) {
       query = query.eq("asset_id", assetId);
     }
 
+    if (portfolioId) {
+      query = query.eq("portfolio_id", portfolioId);
+    }
+
     if (activeOnly) {
       query = query.eq("is_active", true);
     }
@@ -371,6 +648,10 @@ async function handleListAlerts(req: Request, userId: string) {
         assetType: alert.assets.asset_type,
         currentPrice: alert.assets.current_price,
       } : null,
+      portfolio: alert.portfolios ? {
+        id: alert.portfolios.id,
+        name: alert.portfolios.name,
+      } : null,
     }));
 
     return jsonResponse({
@@ -399,6 +680,10 @@ async function handleGetAlert(alertId: string, userId: string) {
           symbol,
           asset_type,
           current_price
+        ),
+        portfolios (
+          id,
+          name
         )
       `)
       .eq("id", alertId)
@@ -420,6 +705,10 @@ async function handleGetAlert(alertId: string, userId: string) {
           assetType: alert.assets.asset_type,
           currentPrice: alert.assets.current_price,
         } : null,
+        portfolio: alert.portfolios ? {
+          id: alert.portfolios.id,
+          name: alert.portfolios.name,
+        } : null,
       },
     });
   } catch (error) {
@@ -454,6 +743,57 @@ async function handleUpdateAlert(req: Request, alertId: string, userId: string)
       return errorResponse("Alert not found", 404);
     }
 
+    if (
+      body.lookback_window !== undefined && body.lookback_window !== null &&
+      existingAlert.alert_type !== "percentage_change"
+    ) {
+      return errorResponse("Lookback window is only supported for percentage change alerts");
+    }
+
+    if (isTechnicalAlertType(existingAlert.alert_type)) {
+      // Validate the merged condition; reactivation needs premium again
+      const technicalValidation = validateTechnicalAlert(existingAlert.alert_type, {
+        condition_value: body.condition_value !== undefined ? body.condition_value : existingAlert.condition_value,
+        condition_operator: body.condition_operator !== undefined ? body.condition_operator : existingAlert.condition_operator,
+        condition_params: body.condition_params !== undefined ? body.condition_params : existingAlert.condition_params,
+      });
+      if (!technicalValidation.valid) {
+        return errorResponse(technicalValidation.error!);
+      }
+
+      if (body.is_active === true && !(await canAccessFeature(userId, "technical_alerts"))) {
+        return errorResponse("Technical alerts require a premium subscription", 403);
+      }
+    } else if (body.condition_params !== undefined) {
+      if (existingAlert.alert_type !== "allocation_drift") {
+        return errorResponse("Condition params are only supported for allocation drift and technical alerts");
+      }
+
+      const bandValidation = validateAllocationBand(body.condition_params);
+      if (!bandValidation.valid) {
+        return errorResponse(bandValidation.error!);
+      }
+    }
+
+    if (body.condition_tree !== undefined) {
+      if (existingAlert.alert_type !== "composite") {
+        return errorResponse("Condition tree is only supported for composite alerts");
+      }
+
+      const targetError = await verifyConditionTargets(body.condition_tree, userId);
+      if (targetError) {
+        return errorResponse(targetError, 404);
+      }
+    }
+
+    const triggerValidation = validateTriggerInput({
+      trigger_mode: body.trigger_mode ?? existingAlert.trigger_mode,
+      cooldown_hours: body.cooldown_hours !== undefined ? body.cooldown_hours : existingAlert.cooldown_hours,
+    });
+    if (!triggerValidation.valid) {
+      return errorResponse(triggerValidation.error!);
+    }
+
     // Build update object
     const updateData: Record<string, unknown> = {};
 
@@ -469,10 +809,39 @@ async function handleUpdateAlert(req: Request, alertId: string, userId: string)
       updateData.reminder_days_before = Number(body.reminder_days_before);
     }
 
+    if (body.lookback_window !== undefined) {
+      updateData.lookback_window = body.lookback_window;
+    }
+
+    if (body.condition_params !== undefined) {
+      updateData.condition_params = body.condition_params;
+    }
+
+    if (body.condition_tree !== undefined) {
+      updateData.condition_tree = body.condition_tree;
+    }
+
     if (body.is_active !== undefined) {
       updateData.is_active = Boolean(body.is_active);
     }
 
+    if (body.trigger_mode !== undefined) {
+      updateData.trigger_mode = body.trigger_mode;
+    }
+
+    if (body.cooldown_hours !== undefined) {
+      updateData.cooldown_hours = body.cooldown_hours === null ? null : Number(body.cooldown_hours);
+    }
+
+    // A changed condition or mode, or reactivation, starts armed
+    if (
+      body.condition_value !== undefined || body.condition_operator !== undefined ||
+      body.lookback_window !== undefined || body.condition_params !== undefined || body.condition_tree !== undefined ||
+      body.trigger_mode !== undefined || body.is_active === true
+    ) {
+      updateData.is_armed = true;
+    }
+
     // Update alert
     const { data: alert, error: updateError } = await supabase
       .from("alerts")
@@ -498,6 +867,52 @@ async function handleUpdateAlert(req: Request, alertId: string, userId: string)
   }
 }
 
+/**
+ * GET /alert-handler/:id/triggers?limit=50
+ * Get an alert's trigger history, newest first
+ */
+async function handleListAlertTriggers(url: URL, alertId: string, userId: string) {
+  try {
+    const limit = parseInt(url.searchParams.get("limit") || String(DEFAULT_TRIGGER_PAGE_SIZE));
+
+    if (isNaN(limit) || limit < 1) {
+      return errorResponse("Limit must be a positive number");
+    }
+
+    // Check if alert exists and belongs to user
+    const { data: alert, error: fetchError } = await supabase
+      .from("alerts")
+      .select("id")
+      .eq("id", alertId)
+      .eq("user_id", userId)
+      .single();
+
+    if (fetchError || !alert) {
+      return errorResponse("Alert not found", 404);
+    }
+
+    const { data: triggers, error: triggersError } = await supabase
+      .from("alert_triggers")
+      .select("*")
+      .eq("alert_id", alertId)
+      .order("triggered_at", { ascending: false })
+      .limit(Math.min(limit, MAX_TRIGGER_PAGE_SIZE));
+
+    if (triggersError) {
+      console.error("Error fetching alert triggers:", triggersError);
+      return errorResponse("Failed to fetch alert triggers", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      triggers: (triggers || []).map(formatAlertTrigger),
+    });
+  } catch (error) {
+    console.error("List alert triggers handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
 /**
  * DELETE /alert-handler/:id
  * Delete an alert
@@ -570,6 +985,11 @@ serve(async (req: Request) => {
       return await handleListAlerts(req, user.id);
     }
 
+    // Handle /:id/triggers
+    if (pathParts.length >= 3 && pathParts[pathParts.length - 1] === "triggers" && req.method === "GET") {
+      return await handleListAlertTriggers(url, pathParts[pathParts.length - 2], user.id);
+    }
+
     // Handle /:id routes
     if (pathParts.length >= 2) {
       const alertId = pathParts[pathParts.length - 1];
@@ -7,14 +7,36 @@
 // - Read assets (list and single)
 // - Update asset
 // - Delete asset
-// Requirements: 3, 4
+// - Transaction ledger (buy, sell, transfer) per asset
+// - Realized/unrealized gain/loss by tax lot
+// - Optional cash settlement of buys and sells
+// - Native asset currency with values converted into the
+//   user's preferred currency (price gain and FX gain split)
+// Requirements: 3, 4, 12
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
 import { authenticateRequest } from "../_shared/auth.ts";
-import { fetchStockQuote, MassiveAPIError } from "../_shared/massive-client.ts";
-import { fetchCryptoQuoteBySymbol, CoinCapAPIError } from "../_shared/coincap-client.ts";
-import { fetchCommodityQuote, GoldAPIError, CommoditySymbol } from "../_shared/goldapi-client.ts";
+import { createPriceProviderRegistry, PricedAssetType } from "../_shared/price-providers.ts";
+import {
+  derivePosition,
+  isInflow,
+  isValidTransactionType,
+  LedgerError,
+  LedgerTransaction,
+  PositionSummary,
+  TRANSACTION_TYPES,
+  TransactionType,
+} from "../_shared/transaction-ledger.ts";
+import {
+  buildGainsReport,
+  LotTransaction,
+  matchLots,
+  resolveCostBasisMethod,
+} from "../_shared/lot-matching.ts";
+import { isValidCurrencyCode, summarizeCash } from "../_shared/cash-ledger.ts";
+import { convertAssetMetrics, FX_BASE_CURRENCY, getAssetFxFactors } from "../_shared/fx-rates.ts";
+import { isValidDate } from "../_shared/time-zones.ts";
 
 // CORS headers for mobile app
 const corsHeaders = {
@@ -28,8 +50,11 @@ const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-// API keys for price fetching (only Massive API requires a key)
-const massiveApiKey = Deno.env.get("MASSIVE_API_KEY") || "";
+// Price providers (keys and fallback order from the environment)
+const priceProviders = createPriceProviderRegistry();
+
+// API key for currency conversion
+const exchangeRateApiKey = Deno.env.get("EXCHANGE_RATE_API_KEY") || "";
 
 // Valid asset types
 const ASSET_TYPES = ["stock", "crypto", "commodity", "real_estate", "fixed_income", "other"] as const;
@@ -73,61 +98,19 @@ function isListedAssetType(type: AssetType): boolean {
   return LISTED_ASSET_TYPES.includes(type);
 }
 
-/**
- * Fetch current price for listed asset
- * Requirement 3.1: Fetch current price from financial APIs
- */
-async function fetchAssetPrice(assetType: AssetType, symbol: string): Promise<number | null> {
-  try {
-    if (assetType === "stock") {
-      const quote = await fetchStockQuote(symbol, massiveApiKey);
-      return quote.price;
-    } else if (assetType === "crypto") {
-      const quote = await fetchCryptoQuoteBySymbol(symbol);
-      return quote.price;
-    } else if (assetType === "commodity") {
-      const commoditySymbol = symbol.toUpperCase() as CommoditySymbol;
-      if (!["XAU", "XAG", "XPT", "XPD"].includes(commoditySymbol)) {
-        return null;
-      }
-      const quote = await fetchCommodityQuote(commoditySymbol);
-      return quote.price;
-    }
-    return null;
-  } catch (error) {
-    console.error(`Error fetching price for ${symbol}:`, error);
-    return null;
-  }
-}
-
 /**
  * Validate listed asset symbol
+ * Requirement 3.1: Fetch current price from financial APIs
  * Requirement 3.2: Validate ticker symbol
  */
 async function validateListedAsset(assetType: AssetType, symbol: string): Promise<{ valid: boolean; price?: number; error?: string }> {
-  try {
-    const price = await fetchAssetPrice(assetType, symbol);
-    
-    if (price === null) {
-      return {
-        valid: false,
-        error: `Invalid ${assetType} symbol: ${symbol}. Please check the symbol and try again.`,
-      };
-    }
+  const validation = await priceProviders.validateSymbol(assetType as PricedAssetType, symbol);
 
-    return { valid: true, price };
-  } catch (error) {
-    if (error instanceof MassiveAPIError || error instanceof CoinCapAPIError || error instanceof GoldAPIError) {
-      return {
-        valid: false,
-        error: `Unable to validate ${assetType} symbol: ${symbol}. ${error.message}`,
-      };
-    }
-    return {
-      valid: false,
-      error: `Failed to validate ${assetType} symbol: ${symbol}`,
-    };
+  if (!validation.valid) {
+    console.error(`Symbol validation failed for ${symbol}:`, validation.error);
   }
+
+  return { valid: validation.valid, price: validation.price, error: validation.error };
 }
 
 /**
@@ -215,18 +198,22 @@ function validateAssetInput(data: Record<string, unknown>, isUpdate = false): {
     };
   }
 
-  return { valid: true };
-}
+  // Currency validation (listed asset prices are quoted in USD)
+  if (data.currency !== undefined && !isValidCurrencyCode(data.currency)) {
+    return {
+      valid: false,
+      error: "Currency must be a 3-letter code (e.g., USD, EUR)",
+    };
+  }
 
-/**
- * Validate date format (YYYY-MM-DD)
- */
-function isValidDate(dateString: string): boolean {
-  const regex = /^\d{4}-\d{2}-\d{2}$/;
-  if (!regex.test(dateString)) return false;
+  if (!isUpdate && isListed && data.currency !== undefined && data.currency !== FX_BASE_CURRENCY) {
+    return {
+      valid: false,
+      error: `Listed assets are priced in ${FX_BASE_CURRENCY}`,
+    };
+  }
 
-  const date = new Date(dateString);
-  return date instanceof Date && !isNaN(date.getTime());
+  return { valid: true };
 }
 
 /**
@@ -254,6 +241,314 @@ function calculateAssetMetrics(asset: {
   };
 }
 
+/**
+ * Get user's preferred currency
+ */
+async function getUserCurrency(userId: string): Promise<string> {
+  const { data: profile } = await supabase
+    .from("user_profiles")
+    .select("currency_preference")
+    .eq("id", userId)
+    .single();
+
+  return profile?.currency_preference || "USD";
+}
+
+/**
+ * Calculate asset metrics in the user's preferred currency
+ * Cost is converted at the purchase-date rate and value at today's rate;
+ * assets whose currency has no rate keep native-currency metrics.
+ * Requirement 12: Currency conversion
+ *
+ * @returns Metrics keyed by asset id
+ */
+async function calculateReportingMetrics(assets: Record<string, unknown>[], userId: string) {
+  const reportingCurrency = await getUserCurrency(userId);
+  const factors = await getAssetFxFactors(
+    supabase,
+    assets as { id: string; currency?: string | null; purchase_date: string }[],
+    reportingCurrency,
+    exchangeRateApiKey
+  );
+
+  const metricsById = new Map<string, Record<string, unknown>>();
+
+  for (const asset of assets) {
+    const position = asset as { quantity: number; purchase_price: number; current_price: number | null };
+    const native = calculateAssetMetrics(position);
+    const nativeCurrency = (asset.currency as string) || FX_BASE_CURRENCY;
+    const assetFactors = factors.get(asset.id as string);
+
+    const converted = assetFactors
+      ? convertAssetMetrics(position, assetFactors)
+      : { ...native, priceGain: native.gainLoss, fxGain: 0 };
+
+    metricsById.set(asset.id as string, {
+      currency: assetFactors ? reportingCurrency : nativeCurrency,
+      nativeCurrency,
+      ...converted,
+      nativeTotalValue: native.totalValue,
+      nativeTotalCost: native.totalCost,
+    });
+  }
+
+  return metricsById;
+}
+
+/**
+ * Validate transaction input
+ */
+function validateTransactionInput(data: Record<string, unknown>, isUpdate = false): { valid: boolean; error?: string } {
+  if (!isUpdate && (!data.transaction_type || !isValidTransactionType(data.transaction_type as string))) {
+    return {
+      valid: false,
+      error: `Invalid transaction type. Must be one of: ${TRANSACTION_TYPES.join(", ")}`,
+    };
+  }
+
+  if (isUpdate && data.transaction_type !== undefined && !isValidTransactionType(data.transaction_type as string)) {
+    return {
+      valid: false,
+      error: `Invalid transaction type. Must be one of: ${TRANSACTION_TYPES.join(", ")}`,
+    };
+  }
+
+  if (!isUpdate && (data.quantity === undefined || data.quantity === null)) {
+    return {
+      valid: false,
+      error: "Quantity is required",
+    };
+  }
+
+  if (data.quantity !== undefined && (isNaN(Number(data.quantity)) || Number(data.quantity) <= 0)) {
+    return {
+      valid: false,
+      error: "Quantity must be a positive number",
+    };
+  }
+
+  if (!isUpdate && (data.price === undefined || data.price === null)) {
+    return {
+      valid: false,
+      error: "Price is required",
+    };
+  }
+
+  if (data.price !== undefined && (isNaN(Number(data.price)) || Number(data.price) < 0)) {
+    return {
+      valid: false,
+      error: "Price must be a non-negative number",
+    };
+  }
+
+  if (data.fees !== undefined && data.fees !== null && (isNaN(Number(data.fees)) || Number(data.fees) < 0)) {
+    return {
+      valid: false,
+      error: "Fees must be a non-negative number",
+    };
+  }
+
+  if (!isUpdate && (!data.transaction_date || typeof data.transaction_date !== "string")) {
+    return {
+      valid: false,
+      error: "Transaction date is required (YYYY-MM-DD format)",
+    };
+  }
+
+  if (data.transaction_date && !isValidDate(data.transaction_date as string)) {
+    return {
+      valid: false,
+      error: "Invalid transaction date format. Use YYYY-MM-DD",
+    };
+  }
+
+  if (data.settle_cash !== undefined && typeof data.settle_cash !== "boolean") {
+    return {
+      valid: false,
+      error: "Settle cash must be a boolean",
+    };
+  }
+
+  if (data.cash_currency !== undefined && !isValidCurrencyCode(data.cash_currency)) {
+    return {
+      valid: false,
+      error: "Cash currency must be a 3-letter code (e.g., USD, EUR)",
+    };
+  }
+
+  if (data.lot_selections !== undefined && data.lot_selections !== null) {
+    if (data.transaction_type && isInflow(data.transaction_type as TransactionType)) {
+      return {
+        valid: false,
+        error: "Lot selections can only be provided for sell or transfer_out transactions",
+      };
+    }
+
+    const selections = data.lot_selections;
+    if (
+      !Array.isArray(selections) ||
+      selections.length === 0 ||
+      selections.some((s) =>
+        !s || typeof s.lotId !== "string" || isNaN(Number(s.quantity)) || Number(s.quantity) <= 0
+      )
+    ) {
+      return {
+        valid: false,
+        error: "Lot selections must be a non-empty array of { lotId, quantity } with positive quantities",
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Format transaction for response
+ */
+function formatTransaction(transaction: Record<string, unknown>) {
+  return {
+    id: transaction.id,
+    assetId: transaction.asset_id,
+    transactionType: transaction.transaction_type,
+    quantity: transaction.quantity,
+    price: transaction.price,
+    fees: transaction.fees,
+    transactionDate: transaction.transaction_date,
+    lotSelections: transaction.lot_selections,
+    notes: transaction.notes,
+    createdAt: transaction.created_at,
+    updatedAt: transaction.updated_at,
+  };
+}
+
+/**
+ * Fetch all ledger transactions for an asset
+ */
+async function fetchAssetTransactions(assetId: string, userId: string): Promise<(LedgerTransaction & Record<string, unknown>)[] | null> {
+  const { data: transactions, error } = await supabase
+    .from("transactions")
+    .select("*")
+    .eq("asset_id", assetId)
+    .eq("user_id", userId)
+    .order("transaction_date", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching transactions:", error);
+    return null;
+  }
+
+  return transactions || [];
+}
+
+/**
+ * Write the ledger-derived position back onto the asset row
+ * Keeps quantity, purchase_price (average cost) and purchase_date
+ * consistent for every reader of the assets table
+ */
+async function syncAssetPosition(assetId: string, userId: string, transactions: LedgerTransaction[]) {
+  const position = derivePosition(transactions);
+
+  const updateData: Record<string, unknown> = {
+    quantity: position.quantity,
+    purchase_price: position.averageCost,
+  };
+
+  if (position.firstAcquiredDate) {
+    updateData.purchase_date = position.firstAcquiredDate;
+  }
+
+  const { data: asset, error } = await supabase
+    .from("assets")
+    .update(updateData)
+    .eq("id", assetId)
+    .eq("user_id", userId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error syncing asset position:", error);
+    return null;
+  }
+
+  return asset;
+}
+
+/**
+ * Cash moved by settling a buy or sell (fees increase a buy, reduce a sale)
+ * Returns null for transfers, which do not settle in cash
+ */
+function cashSettlementAmount(transaction: LedgerTransaction): number | null {
+  const gross = Number(transaction.quantity) * Number(transaction.price);
+  const fees = Number(transaction.fees || 0);
+
+  if (transaction.transaction_type === "buy") return Number((gross + fees).toFixed(8));
+  if (transaction.transaction_type === "sell") return Number((gross - fees).toFixed(8));
+  return null;
+}
+
+/**
+ * Current cash balance of a portfolio in one currency
+ */
+async function getCashBalance(portfolioId: string, currency: string): Promise<number> {
+  const { data: cashTransactions } = await supabase
+    .from("cash_transactions")
+    .select("transaction_type, currency, amount")
+    .eq("portfolio_id", portfolioId)
+    .eq("currency", currency);
+
+  return summarizeCash(cashTransactions || []).balances[currency] || 0;
+}
+
+/**
+ * Keep the cash settlement of an edited transaction in step with it
+ * Transfers do not settle in cash, so their settlement is removed
+ */
+async function syncCashSettlement(transaction: Record<string, unknown>) {
+  const amount = cashSettlementAmount(transaction as unknown as LedgerTransaction);
+
+  if (amount === null || amount <= 0) {
+    await supabase.from("cash_transactions").delete().eq("asset_transaction_id", transaction.id);
+    return;
+  }
+
+  const { error } = await supabase
+    .from("cash_transactions")
+    .update({
+      transaction_type: transaction.transaction_type,
+      amount,
+      transaction_date: transaction.transaction_date,
+    })
+    .eq("asset_transaction_id", transaction.id);
+
+  if (error) {
+    console.error("Error syncing cash settlement:", error);
+  }
+}
+
+/**
+ * Format asset for response
+ */
+async function formatAsset(asset: Record<string, unknown>, userId: string) {
+  const metrics = (await calculateReportingMetrics([asset], userId)).get(asset.id as string);
+
+  return {
+    id: asset.id,
+    portfolioId: asset.portfolio_id,
+    assetType: asset.asset_type,
+    symbol: asset.symbol,
+    name: asset.name,
+    quantity: asset.quantity,
+    purchasePrice: asset.purchase_price,
+    purchaseDate: asset.purchase_date,
+    currentPrice: asset.current_price,
+    lastPriceUpdate: asset.last_price_update,
+    metadata: asset.metadata,
+    updatedAt: asset.updated_at,
+    ...metrics,
+  };
+}
+
 // =====================================================
 // Route Handlers
 // =====================================================
@@ -281,6 +576,7 @@ async function handleCreateAsset(req: Request, userId: string) {
       quantity,
       purchase_price,
       purchase_date,
+      currency,
       metadata = {},
     } = body;
 
@@ -327,6 +623,8 @@ async function handleCreateAsset(req: Request, userId: string) {
         quantity: Number(quantity),
         purchase_price: Number(purchase_price),
         purchase_date,
+        // Non-listed assets default to the user's currency
+        currency: isListed ? FX_BASE_CURRENCY : currency || await getUserCurrency(userId),
         current_price: currentPrice,
         last_price_update: isListed && currentPrice ? new Date().toISOString() : null,
         metadata: metadata || {},
@@ -339,8 +637,27 @@ async function handleCreateAsset(req: Request, userId: string) {
       return errorResponse("Failed to create asset", 500);
     }
 
+    // Record the opening buy so the position is backed by the ledger
+    const { error: transactionError } = await supabase
+      .from("transactions")
+      .insert({
+        asset_id: asset.id,
+        user_id: userId,
+        transaction_type: "buy",
+        quantity: Number(quantity),
+        price: Number(purchase_price),
+        transaction_date: purchase_date,
+        notes: "Opening position",
+      });
+
+    if (transactionError) {
+      console.error("Error creating opening transaction:", transactionError);
+      await supabase.from("assets").delete().eq("id", asset.id);
+      return errorResponse("Failed to create asset", 500);
+    }
+
     // Calculate metrics
-    const metrics = calculateAssetMetrics(asset);
+    const metrics = (await calculateReportingMetrics([asset], userId)).get(asset.id);
 
     // Requirement 4.7: Create automatic maturity reminder for fixed income
     if (asset_type === "fixed_income" && metadata.maturity_date) {
@@ -422,8 +739,9 @@ async function handleListAssets(req: Request, userId: string) {
     }
 
     // Calculate metrics for each asset
+    const metricsById = await calculateReportingMetrics(assets, userId);
     const assetsWithMetrics = assets.map((asset) => {
-      const metrics = calculateAssetMetrics(asset);
+      const metrics = metricsById.get(asset.id);
       return {
         id: asset.id,
         portfolioId: asset.portfolio_id,
@@ -471,7 +789,7 @@ async function handleGetAsset(assetId: string, userId: string) {
     }
 
     // Calculate metrics
-    const metrics = calculateAssetMetrics(asset);
+    const metrics = (await calculateReportingMetrics([asset], userId)).get(asset.id);
 
     return jsonResponse({
       success: true,
@@ -525,6 +843,61 @@ async function handleUpdateAsset(req: Request, assetId: string, userId: string)
       return errorResponse("Asset not found", 404);
     }
 
+    // Position fields are derived from the ledger. They can only be edited
+    // here while the ledger holds just the opening buy; otherwise the
+    // transaction routes must be used so history is not overwritten.
+    const editsPosition = body.quantity !== undefined ||
+      body.purchase_price !== undefined ||
+      body.purchase_date !== undefined;
+
+    let openingPosition: PositionSummary | null = null;
+
+    if (editsPosition) {
+      const transactions = await fetchAssetTransactions(assetId, userId);
+      if (!transactions) {
+        return errorResponse("Failed to update asset", 500);
+      }
+
+      if (transactions.length > 1 || (transactions.length === 1 && transactions[0].transaction_type !== "buy")) {
+        return errorResponse(
+          "This asset has transaction history. Use the transactions endpoints to record buys, sells and transfers.",
+          409
+        );
+      }
+
+      const openingData = {
+        quantity: body.quantity !== undefined ? Number(body.quantity) : Number(existingAsset.quantity),
+        price: body.purchase_price !== undefined ? Number(body.purchase_price) : Number(existingAsset.purchase_price),
+        transaction_date: body.purchase_date !== undefined ? body.purchase_date : existingAsset.purchase_date,
+      };
+
+      const { error: ledgerError } = transactions.length === 1
+        ? await supabase
+          .from("transactions")
+          .update(openingData)
+          .eq("id", transactions[0].id)
+        : await supabase
+          .from("transactions")
+          .insert({
+            asset_id: assetId,
+            user_id: userId,
+            transaction_type: "buy",
+            notes: "Opening position",
+            ...openingData,
+          });
+
+      if (ledgerError) {
+        console.error("Error updating opening transaction:", ledgerError);
+        return errorResponse("Failed to update asset", 500);
+      }
+
+      openingPosition = derivePosition([{
+        transaction_type: "buy",
+        fees: transactions[0]?.fees,
+        ...openingData,
+      }]);
+    }
+
     // Build update object
     const updateData: Record<string, unknown> = {};
 
@@ -532,22 +905,24 @@ async function handleUpdateAsset(req: Request, assetId: string, userId: string)
       updateData.name = body.name.trim();
     }
 
-    if (body.quantity !== undefined) {
-      updateData.quantity = Number(body.quantity);
-    }
-
-    if (body.purchase_price !== undefined) {
-      updateData.purchase_price = Number(body.purchase_price);
-    }
-
-    if (body.purchase_date !== undefined) {
-      updateData.purchase_date = body.purchase_date;
+    if (openingPosition) {
+      updateData.quantity = openingPosition.quantity;
+      updateData.purchase_price = openingPosition.averageCost;
+      updateData.purchase_date = openingPosition.firstAcquiredDate;
     }
 
     if (body.metadata !== undefined) {
       updateData.metadata = body.metadata;
     }
 
+    // Listed assets are always quoted in USD
+    if (body.currency !== undefined) {
+      if (isListedAssetType(existingAsset.asset_type) && body.currency !== FX_BASE_CURRENCY) {
+        return errorResponse(`Listed assets are priced in ${FX_BASE_CURRENCY}`);
+      }
+      updateData.currency = body.currency;
+    }
+
     // For non-listed assets, allow manual price updates
     if (!isListedAssetType(existingAsset.asset_type) && body.current_price !== undefined) {
       updateData.current_price = Number(body.current_price);
@@ -569,7 +944,7 @@ async function handleUpdateAsset(req: Request, assetId: string, userId: string)
     }
 
     // Calculate metrics
-    const metrics = calculateAssetMetrics(asset);
+    const metrics = (await calculateReportingMetrics([asset], userId)).get(asset.id);
 
     return jsonResponse({
       success: true,
@@ -637,6 +1012,380 @@ async function handleDeleteAsset(assetId: string, userId: string) {
   }
 }
 
+/**
+ * GET /asset-handler/:id/transactions
+ * List the ledger for an asset with the derived position
+ */
+async function handleListTransactions(assetId: string, userId: string) {
+  try {
+    const { data: asset, error: assetError } = await supabase
+      .from("assets")
+      .select("id")
+      .eq("id", assetId)
+      .eq("user_id", userId)
+      .single();
+
+    if (assetError || !asset) {
+      return errorResponse("Asset not found", 404);
+    }
+
+    const transactions = await fetchAssetTransactions(assetId, userId);
+    if (!transactions) {
+      return errorResponse("Failed to fetch transactions", 500);
+    }
+
+    const position = derivePosition(transactions);
+
+    return jsonResponse({
+      success: true,
+      transactions: transactions.map(formatTransaction),
+      position,
+    });
+  } catch (error) {
+    if (error instanceof LedgerError) {
+      return errorResponse(error.message, 409);
+    }
+    console.error("List transactions handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * POST /asset-handler/:id/transactions
+ * Record a buy, sell or transfer against an asset
+ */
+async function handleCreateTransaction(req: Request, assetId: string, userId: string) {
+  try {
+    const body = await req.json();
+
+    const validation = validateTransactionInput(body);
+    if (!validation.valid) {
+      return errorResponse(validation.error!);
+    }
+
+    const { data: asset, error: assetError } = await supabase
+      .from("assets")
+      .select("id, portfolio_id, currency")
+      .eq("id", assetId)
+      .eq("user_id", userId)
+      .single();
+
+    if (assetError || !asset) {
+      return errorResponse("Asset not found", 404);
+    }
+
+    const transactions = await fetchAssetTransactions(assetId, userId);
+    if (!transactions) {
+      return errorResponse("Failed to create transaction", 500);
+    }
+
+    const newTransaction = {
+      transaction_type: body.transaction_type,
+      quantity: Number(body.quantity),
+      price: Number(body.price),
+      fees: body.fees !== undefined && body.fees !== null ? Number(body.fees) : 0,
+      transaction_date: body.transaction_date,
+      lot_selections: body.lot_selections || null,
+      created_at: new Date().toISOString(),
+    };
+
+    // Reject transactions that would leave the ledger oversold
+    // or select lots that are not open at the transaction date
+    derivePosition([...transactions, newTransaction]);
+    matchLots([...transactions, newTransaction] as LotTransaction[], "specific_lot");
+
+    // Settle buys and sells against the portfolio's cash when requested
+    const settlementAmount = body.settle_cash ? cashSettlementAmount(newTransaction) : null;
+    // Trades settle in the asset's currency; amounts are not converted
+    const cashCurrency = asset.currency || FX_BASE_CURRENCY;
+
+    if (body.settle_cash && settlementAmount === null) {
+      return errorResponse("Only buy and sell transactions can be settled in cash");
+    }
+
+    if (settlementAmount !== null) {
+      if (body.cash_currency && body.cash_currency !== cashCurrency) {
+        return errorResponse(`Cash currency must match the asset currency (${cashCurrency})`);
+      }
+
+      if (newTransaction.transaction_type === "buy") {
+        const balance = await getCashBalance(asset.portfolio_id, cashCurrency);
+        if (settlementAmount > balance) {
+          return errorResponse(`Insufficient ${cashCurrency} cash balance (${balance} available)`);
+        }
+      }
+    }
+
+    const { data: transaction, error: createError } = await supabase
+      .from("transactions")
+      .insert({
+        asset_id: assetId,
+        user_id: userId,
+        transaction_type: newTransaction.transaction_type,
+        quantity: newTransaction.quantity,
+        price: newTransaction.price,
+        fees: newTransaction.fees,
+        transaction_date: newTransaction.transaction_date,
+        lot_selections: newTransaction.lot_selections,
+        notes: body.notes || null,
+      })
+      .select()
+      .single();
+
+    if (createError) {
+      console.error("Error creating transaction:", createError);
+      return errorResponse("Failed to create transaction", 500);
+    }
+
+    if (settlementAmount !== null && settlementAmount > 0) {
+      const { error: cashError } = await supabase
+        .from("cash_transactions")
+        .insert({
+          portfolio_id: asset.portfolio_id,
+          user_id: userId,
+          transaction_type: transaction.transaction_type,
+          currency: cashCurrency,
+          amount: settlementAmount,
+          transaction_date: transaction.transaction_date,
+          asset_transaction_id: transaction.id,
+        });
+
+      if (cashError) {
+        console.error("Error creating cash settlement:", cashError);
+        await supabase.from("transactions").delete().eq("id", transaction.id);
+        return errorResponse("Failed to create transaction", 500);
+      }
+    }
+
+    const updatedAsset = await syncAssetPosition(assetId, userId, [...transactions, transaction]);
+
+    return jsonResponse({
+      success: true,
+      message: "Transaction recorded successfully",
+      transaction: formatTransaction(transaction),
+      asset: updatedAsset ? await formatAsset(updatedAsset, userId) : null,
+    }, 201);
+  } catch (error) {
+    if (error instanceof LedgerError) {
+      return errorResponse(error.message);
+    }
+    console.error("Create transaction handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * PUT /asset-handler/:id/transactions/:transactionId
+ * Correct a recorded transaction
+ */
+async function handleUpdateTransaction(req: Request, assetId: string, transactionId: string, userId: string) {
+  try {
+    const body = await req.json();
+
+    const validation = validateTransactionInput(body, true);
+    if (!validation.valid) {
+      return errorResponse(validation.error!);
+    }
+
+    const transactions = await fetchAssetTransactions(assetId, userId);
+    if (!transactions) {
+      return errorResponse("Failed to update transaction", 500);
+    }
+
+    const existingTransaction = transactions.find((t) => t.id === transactionId);
+    if (!existingTransaction) {
+      return errorResponse("Transaction not found", 404);
+    }
+
+    // Build update object
+    const updateData: Record<string, unknown> = {};
+
+    if (body.transaction_type !== undefined) {
+      updateData.transaction_type = body.transaction_type;
+    }
+
+    if (body.quantity !== undefined) {
+      updateData.quantity = Number(body.quantity);
+    }
+
+    if (body.price !== undefined) {
+      updateData.price = Number(body.price);
+    }
+
+    if (body.fees !== undefined) {
+      updateData.fees = body.fees !== null ? Number(body.fees) : 0;
+    }
+
+    if (body.transaction_date !== undefined) {
+      updateData.transaction_date = body.transaction_date;
+    }
+
+    if (body.notes !== undefined) {
+      updateData.notes = body.notes;
+    }
+
+    if (body.lot_selections !== undefined) {
+      updateData.lot_selections = body.lot_selections;
+    }
+
+    const transactionType = (updateData.transaction_type || existingTransaction.transaction_type) as TransactionType;
+    if (isInflow(transactionType)) {
+      if (body.lot_selections) {
+        return errorResponse("Lot selections can only be provided for sell or transfer_out transactions");
+      }
+      updateData.lot_selections = null;
+    }
+
+    const candidateLedger = transactions.map((t) =>
+      t.id === transactionId ? { ...t, ...updateData } as LedgerTransaction & Record<string, unknown> : t
+    );
+
+    // Reject edits that would leave the ledger oversold
+    // or invalidate specific-lot selections
+    derivePosition(candidateLedger);
+    matchLots(candidateLedger as LotTransaction[], "specific_lot");
+
+    const { data: transaction, error: updateError } = await supabase
+      .from("transactions")
+      .update(updateData)
+      .eq("id", transactionId)
+      .eq("asset_id", assetId)
+      .eq("user_id", userId)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error("Error updating transaction:", updateError);
+      return errorResponse("Failed to update transaction", 500);
+    }
+
+    await syncCashSettlement(transaction);
+
+    const updatedAsset = await syncAssetPosition(assetId, userId, candidateLedger);
+
+    return jsonResponse({
+      success: true,
+      message: "Transaction updated successfully",
+      transaction: formatTransaction(transaction),
+      asset: updatedAsset ? await formatAsset(updatedAsset, userId) : null,
+    });
+  } catch (error) {
+    if (error instanceof LedgerError) {
+      return errorResponse(error.message);
+    }
+    console.error("Update transaction handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * DELETE /asset-handler/:id/transactions/:transactionId
+ * Remove a transaction from the ledger
+ */
+async function handleDeleteTransaction(assetId: string, transactionId: string, userId: string) {
+  try {
+    const transactions = await fetchAssetTransactions(assetId, userId);
+    if (!transactions) {
+      return errorResponse("Failed to delete transaction", 500);
+    }
+
+    if (!transactions.some((t) => t.id === transactionId)) {
+      return errorResponse("Transaction not found", 404);
+    }
+
+    const remainingLedger = transactions.filter((t) => t.id !== transactionId);
+
+    // Reject deletions that would leave a later sale uncovered
+    // or remove a lot that a specific-lot sale disposed of
+    derivePosition(remainingLedger);
+    matchLots(remainingLedger as LotTransaction[], "specific_lot");
+
+    const { error: deleteError } = await supabase
+      .from("transactions")
+      .delete()
+      .eq("id", transactionId)
+      .eq("asset_id", assetId)
+      .eq("user_id", userId);
+
+    if (deleteError) {
+      console.error("Error deleting transaction:", deleteError);
+      return errorResponse("Failed to delete transaction", 500);
+    }
+
+    const updatedAsset = await syncAssetPosition(assetId, userId, remainingLedger);
+
+    return jsonResponse({
+      success: true,
+      message: "Transaction deleted successfully",
+      asset: updatedAsset ? await formatAsset(updatedAsset, userId) : null,
+    });
+  } catch (error) {
+    if (error instanceof LedgerError) {
+      return errorResponse(error.message);
+    }
+    console.error("Delete transaction handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * GET /asset-handler/:id/gains
+ * Realized and unrealized gain/loss by tax lot
+ * Query params: method (fifo, lifo, average, specific_lot), year (YYYY)
+ */
+async function handleGetAssetGains(assetId: string, userId: string, searchParams: URLSearchParams) {
+  try {
+    const year = searchParams.get("year");
+    if (year && !/^\d{4}$/.test(year)) {
+      return errorResponse("Invalid year. Use YYYY");
+    }
+
+    const { method, error: methodError } = await resolveCostBasisMethod(supabase, userId, searchParams.get("method"));
+    if (!method) {
+      return errorResponse(methodError!);
+    }
+
+    const { data: asset, error: assetError } = await supabase
+      .from("assets")
+      .select("*")
+      .eq("id", assetId)
+      .eq("user_id", userId)
+      .single();
+
+    if (assetError || !asset) {
+      return errorResponse("Asset not found", 404);
+    }
+
+    const transactions = await fetchAssetTransactions(assetId, userId);
+    if (!transactions) {
+      return errorResponse("Failed to fetch transactions", 500);
+    }
+
+    const currentPrice = Number(asset.current_price ?? asset.purchase_price);
+    const report = buildGainsReport(transactions as LotTransaction[], method, currentPrice, {
+      year: year ? Number(year) : undefined,
+    });
+
+    return jsonResponse({
+      success: true,
+      assetId: asset.id,
+      symbol: asset.symbol,
+      name: asset.name,
+      // Lot gains are reported in the asset's native currency
+      currency: asset.currency || FX_BASE_CURRENCY,
+      currentPrice,
+      year: year ? Number(year) : null,
+      ...report,
+    });
+  } catch (error) {
+    if (error instanceof LedgerError) {
+      return errorResponse(error.message, 409);
+    }
+    console.error("Get asset gains handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
 // =====================================================
 // Main Request Handler
 // =====================================================
@@ -669,6 +1418,37 @@ serve(async (req: Request) => {
       return await handleListAssets(req, user.id);
     }
 
+    // Route: GET /:id/gains
+    if (pathParts.length >= 3 && pathParts[pathParts.length - 1] === "gains" && req.method === "GET") {
+      const assetId = pathParts[pathParts.length - 2];
+      return await handleGetAssetGains(assetId, user.id, url.searchParams);
+    }
+
+    // Handle /:id/transactions routes
+    const transactionsIndex = pathParts.indexOf("transactions");
+    if (transactionsIndex >= 2) {
+      const assetId = pathParts[transactionsIndex - 1];
+      const transactionId = pathParts[transactionsIndex + 1];
+
+      if (!transactionId && req.method === "GET") {
+        return await handleListTransactions(assetId, user.id);
+      }
+
+      if (!transactionId && req.method === "POST") {
+        return await handleCreateTransaction(req, assetId, user.id);
+      }
+
+      if (transactionId && req.method === "PUT") {
+        return await handleUpdateTransaction(req, assetId, transactionId, user.id);
+      }
+
+      if (transactionId && req.method === "DELETE") {
+        return await handleDeleteTransaction(assetId, transactionId, user.id);
+      }
+
+      return errorResponse("Route not found", 404);
+    }
+
     // Handle /:id routes
     if (pathParts.length >= 2) {
       const assetId = pathParts[pathParts.length - 1];
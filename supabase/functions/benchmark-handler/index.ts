@@ -0,0 +1,394 @@
+// =====================================================
+// Vestpod - Benchmark Handler Edge Function
+// =====================================================
+// Handles benchmark operations:
+// - List built-in (SPY, 60/40, BTC, gold) and custom benchmarks
+// - Create custom weighted composite benchmarks
+// - Read, update and delete custom benchmarks
+// Portfolio comparison lives in portfolio-handler (/:id/compare)
+// Requirements: 2
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { authenticateRequest } from "../_shared/auth.ts";
+import {
+  BenchmarkComponent,
+  getPresetBenchmark,
+  PRESET_BENCHMARKS,
+  validateBenchmarkComponents,
+} from "../_shared/benchmarks.ts";
+
+// CORS headers for mobile app
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Initialize Supabase client with service role for database operations
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// =====================================================
+// Helper Functions
+// =====================================================
+
+/**
+ * Send JSON response
+ */
+function jsonResponse(data: Record<string, unknown> | { error: string } | { success: boolean; [key: string]: unknown }, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Send error response
+ */
+function errorResponse(message: string, status = 400) {
+  return jsonResponse({ error: message }, status);
+}
+
+/**
+ * Validate benchmark input
+ */
+function validateBenchmarkInput(data: Record<string, unknown>, isUpdate = false): { valid: boolean; error?: string } {
+  if (!isUpdate || data.name !== undefined) {
+    if (!data.name || typeof data.name !== "string" || data.name.trim().length === 0) {
+      return {
+        valid: false,
+        error: "Benchmark name is required",
+      };
+    }
+
+    if (data.name.length > 100) {
+      return {
+        valid: false,
+        error: "Benchmark name must be 100 characters or less",
+      };
+    }
+  }
+
+  if (data.description !== undefined && data.description !== null && typeof data.description !== "string") {
+    return {
+      valid: false,
+      error: "Description must be a string",
+    };
+  }
+
+  if (!isUpdate || data.components !== undefined) {
+    return validateBenchmarkComponents(data.components);
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Normalize components for storage
+ */
+function normalizeComponents(components: BenchmarkComponent[]): BenchmarkComponent[] {
+  return components.map((c) => ({
+    assetType: c.assetType,
+    symbol: c.symbol.trim().toUpperCase(),
+    weight: c.weight,
+  }));
+}
+
+/**
+ * Format custom benchmark for response
+ */
+function formatBenchmark(benchmark: Record<string, unknown>) {
+  return {
+    id: benchmark.id,
+    name: benchmark.name,
+    description: benchmark.description,
+    components: benchmark.components,
+    isPreset: false,
+    createdAt: benchmark.created_at,
+    updatedAt: benchmark.updated_at,
+  };
+}
+
+// =====================================================
+// Route Handlers
+// =====================================================
+
+/**
+ * POST /benchmark-handler/create
+ * Create a custom composite benchmark
+ */
+async function handleCreateBenchmark(req: Request, userId: string) {
+  try {
+    const body = await req.json();
+
+    // Validate input
+    const validation = validateBenchmarkInput(body);
+    if (!validation.valid) {
+      return errorResponse(validation.error!);
+    }
+
+    const { data: benchmark, error: createError } = await supabase
+      .from("benchmarks")
+      .insert({
+        user_id: userId,
+        name: body.name.trim(),
+        description: body.description || null,
+        components: normalizeComponents(body.components),
+      })
+      .select()
+      .single();
+
+    if (createError) {
+      if (createError.code === "23505") {
+        return errorResponse("A benchmark with this name already exists", 409);
+      }
+      console.error("Error creating benchmark:", createError);
+      return errorResponse("Failed to create benchmark", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "Benchmark created successfully",
+      benchmark: formatBenchmark(benchmark),
+    }, 201);
+  } catch (error) {
+    console.error("Create benchmark handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * GET /benchmark-handler/list
+ * List built-in and custom benchmarks
+ */
+async function handleListBenchmarks(userId: string) {
+  try {
+    const { data: benchmarks, error: benchmarksError } = await supabase
+      .from("benchmarks")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (benchmarksError) {
+      console.error("Error fetching benchmarks:", benchmarksError);
+      return errorResponse("Failed to fetch benchmarks", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      benchmarks: [...PRESET_BENCHMARKS, ...(benchmarks || []).map(formatBenchmark)],
+    });
+  } catch (error) {
+    console.error("List benchmarks handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * GET /benchmark-handler/:id
+ * Get a built-in or custom benchmark
+ */
+async function handleGetBenchmark(benchmarkId: string, userId: string) {
+  try {
+    const preset = getPresetBenchmark(benchmarkId);
+    if (preset) {
+      return jsonResponse({
+        success: true,
+        benchmark: preset,
+      });
+    }
+
+    const { data: benchmark, error: benchmarkError } = await supabase
+      .from("benchmarks")
+      .select("*")
+      .eq("id", benchmarkId)
+      .eq("user_id", userId)
+      .single();
+
+    if (benchmarkError || !benchmark) {
+      return errorResponse("Benchmark not found", 404);
+    }
+
+    return jsonResponse({
+      success: true,
+      benchmark: formatBenchmark(benchmark),
+    });
+  } catch (error) {
+    console.error("Get benchmark handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * PUT /benchmark-handler/:id
+ * Update a custom benchmark
+ */
+async function handleUpdateBenchmark(req: Request, benchmarkId: string, userId: string) {
+  try {
+    if (getPresetBenchmark(benchmarkId)) {
+      return errorResponse("Built-in benchmarks cannot be modified", 403);
+    }
+
+    const body = await req.json();
+
+    // Validate input
+    const validation = validateBenchmarkInput(body, true);
+    if (!validation.valid) {
+      return errorResponse(validation.error!);
+    }
+
+    // Check if benchmark exists and belongs to user
+    const { data: existingBenchmark, error: fetchError } = await supabase
+      .from("benchmarks")
+      .select("id")
+      .eq("id", benchmarkId)
+      .eq("user_id", userId)
+      .single();
+
+    if (fetchError || !existingBenchmark) {
+      return errorResponse("Benchmark not found", 404);
+    }
+
+    // Build update object
+    const updateData: Record<string, unknown> = {};
+
+    if (body.name !== undefined) {
+      updateData.name = body.name.trim();
+    }
+
+    if (body.description !== undefined) {
+      updateData.description = body.description || null;
+    }
+
+    if (body.components !== undefined) {
+      updateData.components = normalizeComponents(body.components);
+    }
+
+    const { data: benchmark, error: updateError } = await supabase
+      .from("benchmarks")
+      .update(updateData)
+      .eq("id", benchmarkId)
+      .eq("user_id", userId)
+      .select()
+      .single();
+
+    if (updateError) {
+      if (updateError.code === "23505") {
+        return errorResponse("A benchmark with this name already exists", 409);
+      }
+      console.error("Error updating benchmark:", updateError);
+      return errorResponse("Failed to update benchmark", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "Benchmark updated successfully",
+      benchmark: formatBenchmark(benchmark),
+    });
+  } catch (error) {
+    console.error("Update benchmark handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * DELETE /benchmark-handler/:id
+ * Delete a custom benchmark
+ */
+async function handleDeleteBenchmark(benchmarkId: string, userId: string) {
+  try {
+    if (getPresetBenchmark(benchmarkId)) {
+      return errorResponse("Built-in benchmarks cannot be deleted", 403);
+    }
+
+    // Check if benchmark exists and belongs to user
+    const { data: benchmark, error: fetchError } = await supabase
+      .from("benchmarks")
+      .select("id")
+      .eq("id", benchmarkId)
+      .eq("user_id", userId)
+      .single();
+
+    if (fetchError || !benchmark) {
+      return errorResponse("Benchmark not found", 404);
+    }
+
+    const { error: deleteError } = await supabase
+      .from("benchmarks")
+      .delete()
+      .eq("id", benchmarkId)
+      .eq("user_id", userId);
+
+    if (deleteError) {
+      console.error("Error deleting benchmark:", deleteError);
+      return errorResponse("Failed to delete benchmark", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "Benchmark deleted successfully",
+    });
+  } catch (error) {
+    console.error("Delete benchmark handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+// =====================================================
+// Main Request Handler
+// =====================================================
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // Authenticate request using shared auth module
+    let user;
+    try {
+      user = await authenticateRequest(req);
+    } catch (error) {
+      return errorResponse(error.message, 401);
+    }
+
+    const url = new URL(req.url);
+    const path = url.pathname;
+    const pathParts = path.split("/").filter(Boolean);
+
+    // Route requests
+    if (path.endsWith("/create") && req.method === "POST") {
+      return await handleCreateBenchmark(req, user.id);
+    }
+
+    if (path.endsWith("/list") && req.method === "GET") {
+      return await handleListBenchmarks(user.id);
+    }
+
+    // Handle /:id routes
+    if (pathParts.length >= 2) {
+      const benchmarkId = pathParts[pathParts.length - 1];
+
+      if (req.method === "GET") {
+        return await handleGetBenchmark(benchmarkId, user.id);
+      }
+
+      if (req.method === "PUT") {
+        return await handleUpdateBenchmark(req, benchmarkId, user.id);
+      }
+
+      if (req.method === "DELETE") {
+        return await handleDeleteBenchmark(benchmarkId, user.id);
+      }
+    }
+
+    // Route not found
+    return errorResponse("Route not found", 404);
+  } catch (error) {
+    console.error("Request handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+});
@@ -3,14 +3,34 @@
 // =====================================================
 // Scheduled job that generates AI insights for premium users
 // - Fetches all premium users
-// - Generates portfolio insights for each user
-// - Stores insights in database
-// - Sends push notifications for critical insights
-// - Runs daily at 6 AM via cron trigger
+// - Generates portfolio insights for each user once per local day,
+//   from INSIGHTS_LOCAL_HOUR in the user's time zone
+// - Stores insights in database, with risk metrics from price
+//   history so their trend can be tracked
+// - Re-evaluates each user's savings goals (Monte Carlo projection)
+// - Notifies users (inbox and push) of critical insights; critical
+//   insights are urgent and skip quiet hours
+// - Runs hourly via cron trigger
 // Requirements: 8
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createPushTransports } from "../_shared/push-notifications.ts";
+import { notifyUser, wasDelivered } from "../_shared/notifications.ts";
+import { EmailTemplate } from "../_shared/email-templates.ts";
+import { DEFAULT_TIME_ZONE, localDate, localHour } from "../_shared/time-zones.ts";
+import { createPriceProviderRegistry } from "../_shared/price-providers.ts";
+import {
+  getHoldingHistories,
+  getPortfolioHoldings,
+  getRiskMetrics,
+  HoldingHistory,
+  RISK_LOOKBACK_DAYS,
+  RiskMetrics,
+} from "../_shared/risk-metrics.ts";
+import { estimateReturnModel, projectGoal } from "../_shared/goal-planning.ts";
+import { getPortfolioCash } from "../_shared/cash-ledger.ts";
+import { calculateCorrelation, DEFAULT_CORRELATION_RANGE, getCorrelationStartDate } from "../_shared/correlation.ts";
 import {
   generatePortfolioInsights,
   PortfolioContext,
@@ -24,6 +44,22 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Push transports (FCM/APNs credentials from the environment)
+const pushTransports = createPushTransports();
+
+// Price providers for daily history when price_history is too short
+const priceProviders = createPriceProviderRegistry();
+
+// Annual risk-free rate for Sharpe and Sortino ratios (e.g. 0.04)
+const riskFreeRate = Number(Deno.env.get("RISK_FREE_RATE") || 0);
+const exchangeRateApiKey = Deno.env.get("EXCHANGE_RATE_API_KEY") || "";
+
+// Local hour from which a user's daily insights are generated
+const INSIGHTS_LOCAL_HOUR = 6;
+
+// User ids per ai_insights lookup
+const USER_BATCH_SIZE = 200;
+
 /**
  * Premium user from database
  */
@@ -31,6 +67,7 @@ interface PremiumUser {
   id: string;
   email: string;
   currency_preference: string;
+  timezone: string;
 }
 
 /**
@@ -42,6 +79,7 @@ interface InsightResult {
   insight_id?: string;
   is_critical?: boolean;
   notification_sent?: boolean;
+  goals_evaluated?: number;
   error?: string;
 }
 
@@ -237,7 +275,8 @@ async function storeInsights(
   geographicExposure: Record<string, number>,
   sectorExposure: Record<string, number>,
   recommendations: unknown[],
-  isCritical: boolean
+  isCritical: boolean,
+  riskMetrics: RiskMetrics | null
 ): Promise<string | null> {
   try {
     const { data, error } = await supabase
@@ -249,6 +288,7 @@ async function storeInsights(
         geographic_exposure: geographicExposure,
         sector_exposure: sectorExposure,
         recommendations,
+        risk_metrics: riskMetrics,
         is_critical: isCritical,
         notification_sent: false,
       })
@@ -268,36 +308,119 @@ async function storeInsights(
 }
 
 /**
- * Send push notification to user
+ * Notify the user of an insight on their insight channels
+ * Critical insights go to the inbox and every channel; others
+ * only send the daily summary email (if the user opted in)
  * Requirement 8.9: Send push notification for critical insights
  */
-async function sendPushNotification(
+async function sendNotification(
+  supabase: ReturnType<typeof createClient>,
   userId: string,
   title: string,
   body: string,
-  insightId: string
+  insightId: string,
+  email: EmailTemplate,
+  isCritical: boolean
 ): Promise<boolean> {
-  try {
-    // In a production environment, this would integrate with:
-    // - Firebase Cloud Messaging (FCM) for Android
-    // - Apple Push Notification Service (APNs) for iOS
-    // - Or a service like OneSignal, Pusher, etc.
-    
-    console.log(`[PUSH NOTIFICATION] User: ${userId}`);
-    console.log(`  Title: ${title}`);
-    console.log(`  Body: ${body}`);
-    console.log(`  Insight ID: ${insightId}`);
+  const result = await notifyUser(
+    supabase,
+    {
+      userId,
+      category: "insight",
+      title,
+      body,
+      data: { insight_id: insightId },
+      email,
+      ...(isCritical ? { urgent: true } : { channels: ["email"], inbox: false }),
+    },
+    { push: pushTransports }
+  );
+
+  console.log(
+    `[NOTIFICATION] User: ${userId} Insight ID: ${insightId} ` +
+      `inbox=${result.notificationId ?? (isCritical ? "failed" : "none")} push=${result.delivery.push?.status} ` +
+      `email=${result.delivery.email?.status}`
+  );
+
+  return wasDelivered(result);
+}
 
-    // TODO: Implement actual push notification service integration
-    // Example with FCM:
-    // const fcmToken = await getUserFCMToken(userId);
-    // await sendFCMNotification(fcmToken, { title, body, data: { insight_id: insightId } });
+/**
+ * Re-evaluate the user's savings goals against their current holdings
+ * Each goal is evaluated in its own currency; histories already
+ * loaded for a portfolio in that currency are reused. Goals past
+ * their target date keep their last evaluation
+ *
+ * @returns Number of goals evaluated
+ */
+async function evaluateGoals(
+  supabase: ReturnType<typeof createClient>,
+  user: PremiumUser,
+  historiesByPortfolio: Map<string, HoldingHistory[]>
+): Promise<number> {
+  const today = localDate(new Date(), user.timezone || DEFAULT_TIME_ZONE);
+
+  const { data: goals, error } = await supabase
+    .from("portfolio_goals")
+    .select("id, portfolio_id, currency, target_amount, target_date, monthly_contribution")
+    .eq("user_id", user.id)
+    .gt("target_date", today);
+
+  if (error) {
+    console.error(`Error fetching goals for user ${user.id}:`, error);
+    return 0;
+  }
 
-    return true;
-  } catch (error) {
-    console.error("Error sending push notification:", error);
-    return false;
+  let evaluated = 0;
+  for (const goal of goals || []) {
+    try {
+      // Loaded histories are valued in the user's preferred currency
+      const currency = goal.currency || user.currency_preference;
+      const reusable = currency === user.currency_preference;
+
+      let histories = reusable ? historiesByPortfolio.get(goal.portfolio_id) : undefined;
+      if (!histories) {
+        const { holdings } = await getPortfolioHoldings(supabase, goal.portfolio_id, currency, exchangeRateApiKey);
+        histories = await getHoldingHistories(supabase, priceProviders, holdings, RISK_LOOKBACK_DAYS);
+        if (reusable) {
+          historiesByPortfolio.set(goal.portfolio_id, histories);
+        }
+      }
+
+      const { cash } = await getPortfolioCash(supabase, goal.portfolio_id, currency, exchangeRateApiKey);
+
+      // Start from holdings plus cash
+      const projection = projectGoal(
+        histories.reduce((sum, h) => sum + h.holding.value, 0) + cash,
+        {
+          targetAmount: Number(goal.target_amount),
+          targetDate: goal.target_date,
+          monthlyContribution: Number(goal.monthly_contribution),
+        },
+        estimateReturnModel(histories, cash),
+        today
+      );
+
+      const { error: updateError } = await supabase
+        .from("portfolio_goals")
+        .update({
+          probability: projection.probability,
+          projected_median: projection.finalValue.p50,
+          evaluated_at: new Date().toISOString(),
+        })
+        .eq("id", goal.id);
+
+      if (updateError) {
+        console.error(`Error saving evaluation of goal ${goal.id}:`, updateError);
+        continue;
+      }
+      evaluated++;
+    } catch (error) {
+      console.error(`Error evaluating goal ${goal.id}:`, error);
+    }
   }
+
+  return evaluated;
 }
 
 /**
@@ -324,6 +447,35 @@ async function generateInsightsForUser(
       };
     }
 
+    // Calculate risk metrics and correlation from price history
+    let riskMetrics: RiskMetrics | null = null;
+    const historiesByPortfolio = new Map<string, HoldingHistory[]>();
+    try {
+      const { holdings } = await getPortfolioHoldings(
+        supabase,
+        portfolioContext.portfolioId,
+        portfolioContext.currency,
+        exchangeRateApiKey
+      );
+      const histories = await getHoldingHistories(supabase, priceProviders, holdings, RISK_LOOKBACK_DAYS);
+      historiesByPortfolio.set(portfolioContext.portfolioId, histories);
+      riskMetrics = await getRiskMetrics(supabase, priceProviders, histories, riskFreeRate);
+      portfolioContext.riskMetrics = riskMetrics || undefined;
+
+      const today = localDate(new Date(), user.timezone || DEFAULT_TIME_ZONE);
+      const correlation = calculateCorrelation(
+        histories,
+        getCorrelationStartDate(DEFAULT_CORRELATION_RANGE, today),
+        today
+      );
+      portfolioContext.correlation = correlation.assets.length > 1 ? correlation : undefined;
+    } catch (error) {
+      console.error(`Error calculating risk metrics for user ${user.id}:`, error);
+    }
+
+    // Re-evaluate savings goals
+    const goalsEvaluated = await evaluateGoals(supabase, user, historiesByPortfolio);
+
     // Analyze geographic exposure
     const geoAnalysis = analyzeGeographicExposure(portfolioContext);
 
@@ -343,6 +495,7 @@ async function generateInsightsForUser(
         return {
           user_id: user.id,
           success: false,
+          goals_evaluated: goalsEvaluated,
           error: `AI analysis failed: ${error.message}`,
         };
       }
@@ -369,37 +522,49 @@ async function generateInsightsForUser(
       geoAnalysis.exposure,
       sectorAnalysis.exposure,
       aiInsight.recommendations,
-      isCritical
+      isCritical,
+      riskMetrics
     );
 
     if (!insightId) {
       return {
         user_id: user.id,
         success: false,
+        goals_evaluated: goalsEvaluated,
         error: "Failed to store insights",
       };
     }
 
-    // Send push notification if critical
-    let notificationSent = false;
-    if (isCritical) {
-      const notificationTitle = "Portfolio Alert";
-      const notificationBody = `Your portfolio has ${geoAnalysis.warnings.length + sectorAnalysis.warnings.length} critical insights. Tap to review.`;
-      
-      notificationSent = await sendPushNotification(
-        user.id,
-        notificationTitle,
-        notificationBody,
-        insightId
-      );
+    // Notify: critical insights on every channel, otherwise the daily summary email
+    const notificationTitle = isCritical ? "Portfolio Alert" : "Daily Portfolio Insights";
+    const notificationBody = isCritical
+      ? `Your portfolio has ${geoAnalysis.warnings.length + sectorAnalysis.warnings.length} critical insights. Tap to review.`
+      : `Health score ${healthScore}/10, risk score ${aiInsight.riskScore}/10.`;
 
-      // Update notification_sent flag
-      if (notificationSent) {
-        await supabase
-          .from("ai_insights")
-          .update({ notification_sent: true })
-          .eq("id", insightId);
-      }
+    const notificationSent = await sendNotification(
+      supabase,
+      user.id,
+      notificationTitle,
+      notificationBody,
+      insightId,
+      {
+        template: "daily_insight",
+        params: {
+          healthScore,
+          riskScore: aiInsight.riskScore,
+          warnings: [...geoAnalysis.warnings, ...sectorAnalysis.warnings],
+          recommendations: aiInsight.recommendations.map((r) => `${r.title}: ${r.description}`),
+        },
+      },
+      isCritical
+    );
+
+    // Update notification_sent flag
+    if (notificationSent) {
+      await supabase
+        .from("ai_insights")
+        .update({ notification_sent: true })
+        .eq("id", insightId);
     }
 
     return {
@@ -408,6 +573,7 @@ async function generateInsightsForUser(
       insight_id: insightId,
       is_critical: isCritical,
       notification_sent: notificationSent,
+      goals_evaluated: goalsEvaluated,
     };
   } catch (error) {
     console.error(`Error generating insights for user ${user.id}:`, error);
@@ -419,6 +585,45 @@ async function generateInsightsForUser(
   }
 }
 
+/**
+ * Users due for today's insights
+ * A user is due once their local time reaches INSIGHTS_LOCAL_HOUR and
+ * no insight has been generated on their local date yet
+ */
+async function selectDueUsers(
+  supabase: ReturnType<typeof createClient>,
+  users: PremiumUser[],
+  now: Date
+): Promise<PremiumUser[]> {
+  const started = users.filter((u) => localHour(now, u.timezone || DEFAULT_TIME_ZONE) >= INSIGHTS_LOCAL_HOUR);
+
+  // Latest insight per user (local days are at most ~26 hours apart from UTC)
+  const since = new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000).toISOString();
+  const lastGenerated = new Map<string, string>();
+  for (let i = 0; i < started.length; i += USER_BATCH_SIZE) {
+    const { data: insights, error } = await supabase
+      .from("ai_insights")
+      .select("user_id, generated_at")
+      .in("user_id", started.slice(i, i + USER_BATCH_SIZE).map((u) => u.id))
+      .gte("generated_at", since)
+      .order("generated_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch latest insights: ${error.message}`);
+    }
+
+    for (const insight of insights || []) {
+      lastGenerated.set(insight.user_id, insight.generated_at);
+    }
+  }
+
+  return started.filter((u) => {
+    const generatedAt = lastGenerated.get(u.id);
+    const timeZone = u.timezone || DEFAULT_TIME_ZONE;
+    return !generatedAt || localDate(new Date(generatedAt), timeZone) !== localDate(now, timeZone);
+  });
+}
+
 /**
  * Process all premium users
  * Requirement 8.8: Generate insights daily for all premium users
@@ -435,7 +640,8 @@ async function processAllPremiumUsers(
       user_profiles!inner (
         id,
         email,
-        currency_preference
+        currency_preference,
+        timezone
       )
     `)
     .eq("is_premium", true);
@@ -448,17 +654,17 @@ async function processAllPremiumUsers(
   if (!premiumUsers || premiumUsers.length === 0) {
     return {
       total_users: 0,
+      users_due: 0,
       insights_generated: 0,
       critical_insights: 0,
       notifications_sent: 0,
+      goals_evaluated: 0,
       results: [],
     };
   }
 
-  console.log(`Processing ${premiumUsers.length} premium users`);
-
-  // Generate insights for each user
   const results: InsightResult[] = [];
+  const profiles: PremiumUser[] = [];
   for (const subscription of premiumUsers) {
     const userProfile = subscription.user_profiles as unknown as PremiumUser;
     
@@ -472,6 +678,15 @@ async function processAllPremiumUsers(
       continue;
     }
 
+    profiles.push(userProfile);
+  }
+
+  const dueUsers = await selectDueUsers(supabase, profiles, new Date());
+
+  console.log(`Processing ${dueUsers.length} of ${premiumUsers.length} premium users`);
+
+  // Generate insights for each user
+  for (const userProfile of dueUsers) {
     const result = await generateInsightsForUser(
       supabase,
       userProfile,
@@ -486,12 +701,15 @@ async function processAllPremiumUsers(
   const successCount = results.filter((r) => r.success).length;
   const criticalCount = results.filter((r) => r.is_critical).length;
   const notificationCount = results.filter((r) => r.notification_sent).length;
+  const goalsEvaluated = results.reduce((sum, r) => sum + (r.goals_evaluated || 0), 0);
 
   return {
     total_users: premiumUsers.length,
+    users_due: dueUsers.length,
     insights_generated: successCount,
     critical_insights: criticalCount,
     notifications_sent: notificationCount,
+    goals_evaluated: goalsEvaluated,
     results,
   };
 }
@@ -533,9 +751,11 @@ serve(async (req: Request) => {
 
     console.log(`Daily insights job completed in ${duration}ms`);
     console.log(`  Total premium users: ${result.total_users}`);
+    console.log(`  Users due: ${result.users_due}`);
     console.log(`  Insights generated: ${result.insights_generated}`);
     console.log(`  Critical insights: ${result.critical_insights}`);
     console.log(`  Notifications sent: ${result.notifications_sent}`);
+    console.log(`  Goals evaluated: ${result.goals_evaluated}`);
 
     return jsonResponse({
       success: true,
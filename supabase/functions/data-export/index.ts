@@ -2,12 +2,16 @@
 // Vestpod - Data Export Edge Function
 // =====================================================
 // Generates portfolio data exports in CSV, JSON, and PDF formats
+// Completed exports are added to the notification inbox
 // Requirements: 11
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
 import { authenticateRequest } from "../_shared/auth.ts";
 import { checkPremiumStatus } from "../_shared/subscription-helper.ts";
+import { summarizeIncome } from "../_shared/income.ts";
+import { convertAssetMetrics, FX_BASE_CURRENCY, getAssetFxFactors } from "../_shared/fx-rates.ts";
+import { notifyUser } from "../_shared/notifications.ts";
 
 // CORS headers for mobile app
 const corsHeaders = {
@@ -18,6 +22,7 @@ const corsHeaders = {
 // Initialize Supabase client
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const exchangeRateApiKey = Deno.env.get("EXCHANGE_RATE_API_KEY") || "";
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
 // =====================================================
@@ -28,6 +33,7 @@ interface ExportAsset {
   symbol: string;
   name: string;
   type: string;
+  currency: string;
   quantity: number;
   purchasePrice: number;
   purchaseDate: string;
@@ -36,10 +42,23 @@ interface ExportAsset {
   totalCost: number;
   gainLoss: number;
   gainLossPercent: number;
+  fxGain: number;
+  incomeReceived: number;
   sector?: string;
   country?: string;
 }
 
+interface ExportIncome {
+  symbol: string;
+  name: string;
+  incomeType: string;
+  paymentDate: string;
+  currency: string;
+  amount: number;
+  withholdingTax: number;
+  netAmount: number;
+}
+
 interface ExportData {
   user: {
     email: string;
@@ -52,7 +71,12 @@ interface ExportData {
     totalCost: number;
     totalGainLoss: number;
     totalGainLossPercent: number;
+    totalFxGain: number;
+    totalIncome: number;
+    totalReturn: number;
+    totalReturnPercent: number;
     assets: ExportAsset[];
+    income: ExportIncome[];
   }[];
   insights?: {
     healthScore: number;
@@ -125,6 +149,23 @@ async function fetchExportData(userId: string): Promise<ExportData | null> {
         continue;
       }
 
+      // Get income received from assets in portfolio
+      const { data: incomeRecords } = await supabase
+        .from("income")
+        .select("*")
+        .in("asset_id", assets.map((a) => a.id))
+        .eq("user_id", userId)
+        .order("payment_date", { ascending: true });
+
+      // Values are converted into the user's currency; prices and
+      // income rows stay in each asset's native currency
+      const fxFactors = await getAssetFxFactors(
+        supabase,
+        assets,
+        userProfile.currency_preference || "USD",
+        exchangeRateApiKey
+      );
+
       // Build asset data
       const exportAssets: ExportAsset[] = assets.map((asset) => {
         const quantity = Number(asset.quantity);
@@ -133,23 +174,27 @@ async function fetchExportData(userId: string): Promise<ExportData | null> {
           ? Number(asset.current_price)
           : purchasePrice;
 
-        const currentValue = quantity * currentPrice;
-        const totalCost = quantity * purchasePrice;
-        const gainLoss = currentValue - totalCost;
-        const gainLossPercent = totalCost > 0 ? (gainLoss / totalCost) * 100 : 0;
+        const factors = fxFactors.get(asset.id) || { purchase: 1, current: 1 };
+        const metrics = convertAssetMetrics(asset, factors);
+        const incomeReceived = summarizeIncome(
+          (incomeRecords || []).filter((r) => r.asset_id === asset.id)
+        ).net * factors.current;
 
         return {
           symbol: asset.symbol || "",
           name: asset.name,
           type: asset.asset_type,
+          currency: asset.currency || FX_BASE_CURRENCY,
           quantity,
           purchasePrice: Number(purchasePrice.toFixed(2)),
           purchaseDate: asset.purchase_date,
           currentPrice: Number(currentPrice.toFixed(2)),
-          currentValue: Number(currentValue.toFixed(2)),
-          totalCost: Number(totalCost.toFixed(2)),
-          gainLoss: Number(gainLoss.toFixed(2)),
-          gainLossPercent: Number(gainLossPercent.toFixed(2)),
+          currentValue: metrics.totalValue,
+          totalCost: metrics.totalCost,
+          gainLoss: metrics.gainLoss,
+          gainLossPercent: metrics.gainLossPercent,
+          fxGain: metrics.fxGain,
+          incomeReceived: Number(incomeReceived.toFixed(2)),
           sector: asset.metadata?.sector as string | undefined,
           country: asset.metadata?.country as string | undefined,
         };
@@ -160,6 +205,27 @@ async function fetchExportData(userId: string): Promise<ExportData | null> {
       const totalCost = exportAssets.reduce((sum, a) => sum + a.totalCost, 0);
       const totalGainLoss = totalValue - totalCost;
       const totalGainLossPercent = totalCost > 0 ? (totalGainLoss / totalCost) * 100 : 0;
+      const totalFxGain = exportAssets.reduce((sum, a) => sum + a.fxGain, 0);
+      const totalIncome = exportAssets.reduce((sum, a) => sum + a.incomeReceived, 0);
+      const totalReturn = totalGainLoss + totalIncome;
+      const totalReturnPercent = totalCost > 0 ? (totalReturn / totalCost) * 100 : 0;
+
+      const exportIncome: ExportIncome[] = (incomeRecords || []).map((record) => {
+        const asset = assets.find((a) => a.id === record.asset_id);
+        const amount = Number(record.amount);
+        const withholdingTax = Number(record.withholding_tax || 0);
+
+        return {
+          symbol: asset?.symbol || "",
+          name: asset?.name || "",
+          incomeType: record.income_type,
+          paymentDate: record.payment_date,
+          currency: asset?.currency || FX_BASE_CURRENCY,
+          amount: Number(amount.toFixed(2)),
+          withholdingTax: Number(withholdingTax.toFixed(2)),
+          netAmount: Number((amount - withholdingTax).toFixed(2)),
+        };
+      });
 
       portfolioData.push({
         name: portfolio.name,
@@ -167,7 +233,12 @@ async function fetchExportData(userId: string): Promise<ExportData | null> {
         totalCost: Number(totalCost.toFixed(2)),
         totalGainLoss: Number(totalGainLoss.toFixed(2)),
         totalGainLossPercent: Number(totalGainLossPercent.toFixed(2)),
+        totalFxGain: Number(totalFxGain.toFixed(2)),
+        totalIncome: Number(totalIncome.toFixed(2)),
+        totalReturn: Number(totalReturn.toFixed(2)),
+        totalReturnPercent: Number(totalReturnPercent.toFixed(2)),
         assets: exportAssets,
+        income: exportIncome,
       });
     }
 
@@ -227,11 +298,14 @@ function generateCSV(data: ExportData): string {
     lines.push(`# Portfolio: ${portfolio.name}`);
     lines.push(`# Total Value: ${portfolio.totalValue} ${data.user.currency}`);
     lines.push(`# Total Gain/Loss: ${portfolio.totalGainLoss} ${data.user.currency} (${portfolio.totalGainLossPercent}%)`);
+    lines.push(`# FX Gain/Loss: ${portfolio.totalFxGain} ${data.user.currency}`);
+    lines.push(`# Total Income: ${portfolio.totalIncome} ${data.user.currency}`);
+    lines.push(`# Total Return: ${portfolio.totalReturn} ${data.user.currency} (${portfolio.totalReturnPercent}%)`);
     lines.push("");
 
     // Asset headers
     lines.push(
-      "Symbol,Name,Type,Quantity,Purchase Price,Purchase Date,Current Price,Current Value,Total Cost,Gain/Loss,Gain/Loss %,Sector,Country"
+      "Symbol,Name,Type,Currency,Quantity,Purchase Price,Purchase Date,Current Price,Current Value,Total Cost,Gain/Loss,Gain/Loss %,FX Gain/Loss,Income,Sector,Country"
     );
 
     // Asset rows
@@ -240,6 +314,7 @@ function generateCSV(data: ExportData): string {
         asset.symbol || "",
         `"${asset.name}"`,
         asset.type,
+        asset.currency,
         asset.quantity,
         asset.purchasePrice,
         asset.purchaseDate,
@@ -248,6 +323,8 @@ function generateCSV(data: ExportData): string {
         asset.totalCost,
         asset.gainLoss,
         asset.gainLossPercent,
+        asset.fxGain,
+        asset.incomeReceived,
         asset.sector || "",
         asset.country || "",
       ];
@@ -255,6 +332,26 @@ function generateCSV(data: ExportData): string {
     }
 
     lines.push("");
+
+    // Income rows
+    if (portfolio.income.length > 0) {
+      lines.push("# Income");
+      lines.push("Symbol,Name,Income Type,Payment Date,Currency,Amount,Withholding Tax,Net Amount");
+      for (const income of portfolio.income) {
+        const row = [
+          income.symbol,
+          `"${income.name}"`,
+          income.incomeType,
+          income.paymentDate,
+          income.currency,
+          income.amount,
+          income.withholdingTax,
+          income.netAmount,
+        ];
+        lines.push(row.join(","));
+      }
+      lines.push("");
+    }
   }
 
   // AI Insights section
@@ -400,6 +497,14 @@ function generatePDF(data: ExportData): string {
           ${portfolio.totalGainLoss} ${data.user.currency} (${portfolio.totalGainLossPercent}%)
         </span>
       </div>
+      <div class="metric"><strong>FX Gain/Loss:</strong> ${portfolio.totalFxGain} ${data.user.currency}</div>
+      <div class="metric"><strong>Income:</strong> ${portfolio.totalIncome} ${data.user.currency}</div>
+      <div class="metric">
+        <strong>Total Return:</strong>
+        <span class="${portfolio.totalReturn >= 0 ? 'positive' : 'negative'}">
+          ${portfolio.totalReturn} ${data.user.currency} (${portfolio.totalReturnPercent}%)
+        </span>
+      </div>
     </div>
 
     <table>
@@ -408,6 +513,7 @@ function generatePDF(data: ExportData): string {
           <th>Symbol</th>
           <th>Name</th>
           <th>Type</th>
+          <th>Currency</th>
           <th>Quantity</th>
           <th>Purchase Price</th>
           <th>Current Price</th>
@@ -421,6 +527,7 @@ function generatePDF(data: ExportData): string {
             <td>${asset.symbol || '-'}</td>
             <td>${asset.name}</td>
             <td>${asset.type}</td>
+            <td>${asset.currency}</td>
             <td>${asset.quantity}</td>
             <td>${asset.purchasePrice}</td>
             <td>${asset.currentPrice}</td>
@@ -432,6 +539,38 @@ function generatePDF(data: ExportData): string {
         `).join('')}
       </tbody>
     </table>
+
+    ${portfolio.income.length > 0 ? `
+      <h3>Income</h3>
+      <table>
+        <thead>
+          <tr>
+            <th>Symbol</th>
+            <th>Name</th>
+            <th>Type</th>
+            <th>Payment Date</th>
+            <th>Currency</th>
+            <th>Amount</th>
+            <th>Withholding Tax</th>
+            <th>Net Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${portfolio.income.map(income => `
+            <tr>
+              <td>${income.symbol || '-'}</td>
+              <td>${income.name}</td>
+              <td>${income.incomeType}</td>
+              <td>${income.paymentDate}</td>
+              <td>${income.currency}</td>
+              <td>${income.amount}</td>
+              <td>${income.withholdingTax}</td>
+              <td>${income.netAmount}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    ` : ''}
   `).join('')}
 
   ${data.insights ? `
@@ -613,6 +752,15 @@ async function handleExportData(req: Request, userId: string) {
       return errorResponse("Failed to generate export file", 500);
     }
 
+    // Record the completed export in the user's inbox
+    await notifyUser(supabase, {
+      userId,
+      category: "export",
+      title: "Export Ready",
+      body: `Your ${format.toUpperCase()} portfolio export is ready to download.`,
+      data: { filename, download_url: downloadUrl },
+    });
+
     // Return success with download URL
     return jsonResponse({
       success: true,
@@ -0,0 +1,85 @@
+// =====================================================
+// Vestpod - Held Notifications Job Edge Function
+// =====================================================
+// Scheduled job that sends notifications held during quiet hours
+// - notifyUser holds non-urgent push and email while a user's
+//   quiet hours are on (see _shared/notifications.ts)
+// - Once the window ends, each user gets one push and one email
+//   covering everything held for them
+// - Runs every 15 minutes via cron trigger
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createPushTransports } from "../_shared/push-notifications.ts";
+import { releaseHeldNotifications } from "../_shared/notifications.ts";
+
+// CORS headers
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Push transports (FCM/APNs credentials from the environment)
+const pushTransports = createPushTransports();
+
+/**
+ * Send JSON response
+ */
+function jsonResponse(data: Record<string, unknown> | { error: string }, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// =====================================================
+// Main Request Handler
+// =====================================================
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // Get Supabase configuration
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: "Supabase configuration missing" }, 500);
+    }
+
+    // Create Supabase client with service role key (bypasses RLS)
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const startTime = Date.now();
+
+    const result = await releaseHeldNotifications(supabase, new Date(startTime), { push: pushTransports });
+
+    const endTime = Date.now();
+    const duration = endTime - startTime;
+
+    console.log(`Held notifications job completed in ${duration}ms`);
+    console.log(`  Users: ${result.users}`);
+    console.log(`  Notifications released: ${result.notifications}`);
+    console.log(`  Users reached: ${result.delivered}`);
+
+    return jsonResponse({
+      success: true,
+      ...result,
+      duration_ms: duration,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Held notifications job error:", error);
+    return jsonResponse(
+      {
+        error: "Held notifications job failed",
+        message: (error as Error).message,
+      },
+      500
+    );
+  }
+});
@@ -0,0 +1,640 @@
+// =====================================================
+// Vestpod - Income Handler Edge Function
+// =====================================================
+// Handles asset income operations:
+// - Record income (dividends, coupons, interest, rent, staking rewards)
+// - Read income (list with summary, and single)
+// - Update income
+// - Delete income
+// - Projected coupon schedules for fixed income
+// - Optional cash settlement into the portfolio's cash
+// Requirements: 3, 4
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { authenticateRequest } from "../_shared/auth.ts";
+import {
+  generateCouponSchedule,
+  INCOME_TYPES,
+  INCOME_TYPES_BY_ASSET_TYPE,
+  IncomeType,
+  isIncomeTypeAllowed,
+  isValidIncomeType,
+  summarizeIncome,
+} from "../_shared/income.ts";
+import { isValidCurrencyCode } from "../_shared/cash-ledger.ts";
+import { FX_BASE_CURRENCY } from "../_shared/fx-rates.ts";
+import { isValidDate } from "../_shared/time-zones.ts";
+
+// CORS headers for mobile app
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Initialize Supabase client with service role for database operations
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// =====================================================
+// Helper Functions
+// =====================================================
+
+/**
+ * Send JSON response
+ */
+function jsonResponse(data: Record<string, unknown> | { error: string } | { success: boolean; [key: string]: unknown }, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Send error response
+ */
+function errorResponse(message: string, status = 400) {
+  return jsonResponse({ error: message }, status);
+}
+
+/**
+ * Validate income input
+ */
+function validateIncomeInput(data: Record<string, unknown>, isUpdate = false): { valid: boolean; error?: string } {
+  if (!isUpdate && (!data.asset_id || typeof data.asset_id !== "string")) {
+    return {
+      valid: false,
+      error: "Asset ID is required",
+    };
+  }
+
+  if (!isUpdate && (!data.income_type || !isValidIncomeType(data.income_type as string))) {
+    return {
+      valid: false,
+      error: `Invalid income type. Must be one of: ${INCOME_TYPES.join(", ")}`,
+    };
+  }
+
+  if (isUpdate && data.income_type !== undefined && !isValidIncomeType(data.income_type as string)) {
+    return {
+      valid: false,
+      error: `Invalid income type. Must be one of: ${INCOME_TYPES.join(", ")}`,
+    };
+  }
+
+  if (!isUpdate && (data.amount === undefined || data.amount === null)) {
+    return {
+      valid: false,
+      error: "Amount is required",
+    };
+  }
+
+  if (data.amount !== undefined && (isNaN(Number(data.amount)) || Number(data.amount) <= 0)) {
+    return {
+      valid: false,
+      error: "Amount must be a positive number",
+    };
+  }
+
+  if (
+    data.withholding_tax !== undefined && data.withholding_tax !== null &&
+    (isNaN(Number(data.withholding_tax)) || Number(data.withholding_tax) < 0)
+  ) {
+    return {
+      valid: false,
+      error: "Withholding tax must be a non-negative number",
+    };
+  }
+
+  if (
+    data.quantity !== undefined && data.quantity !== null &&
+    (isNaN(Number(data.quantity)) || Number(data.quantity) <= 0)
+  ) {
+    return {
+      valid: false,
+      error: "Quantity must be a positive number",
+    };
+  }
+
+  if (data.settle_cash !== undefined && typeof data.settle_cash !== "boolean") {
+    return {
+      valid: false,
+      error: "Settle cash must be a boolean",
+    };
+  }
+
+  if (data.cash_currency !== undefined && !isValidCurrencyCode(data.cash_currency)) {
+    return {
+      valid: false,
+      error: "Cash currency must be a 3-letter code (e.g., USD, EUR)",
+    };
+  }
+
+  if (!isUpdate && (!data.payment_date || typeof data.payment_date !== "string")) {
+    return {
+      valid: false,
+      error: "Payment date is required (YYYY-MM-DD format)",
+    };
+  }
+
+  if (data.payment_date && !isValidDate(data.payment_date as string)) {
+    return {
+      valid: false,
+      error: "Invalid payment date format. Use YYYY-MM-DD",
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Format income record for response
+ */
+function formatIncome(income: Record<string, unknown>) {
+  return {
+    id: income.id,
+    assetId: income.asset_id,
+    incomeType: income.income_type,
+    amount: income.amount,
+    withholdingTax: income.withholding_tax,
+    netAmount: Number((Number(income.amount) - Number(income.withholding_tax || 0)).toFixed(2)),
+    quantity: income.quantity,
+    paymentDate: income.payment_date,
+    notes: income.notes,
+    createdAt: income.created_at,
+    updatedAt: income.updated_at,
+  };
+}
+
+// =====================================================
+// Route Handlers
+// =====================================================
+
+/**
+ * POST /income-handler/create
+ * Record income received from an asset
+ */
+async function handleCreateIncome(req: Request, userId: string) {
+  try {
+    const body = await req.json();
+
+    // Validate input
+    const validation = validateIncomeInput(body);
+    if (!validation.valid) {
+      return errorResponse(validation.error!);
+    }
+
+    // Verify asset belongs to user
+    const { data: asset, error: assetError } = await supabase
+      .from("assets")
+      .select("id, asset_type, portfolio_id, currency")
+      .eq("id", body.asset_id)
+      .eq("user_id", userId)
+      .single();
+
+    if (assetError || !asset) {
+      return errorResponse("Asset not found", 404);
+    }
+
+    if (!isIncomeTypeAllowed(asset.asset_type, body.income_type as IncomeType)) {
+      const allowed = INCOME_TYPES_BY_ASSET_TYPE[asset.asset_type] || [];
+      return errorResponse(
+        allowed.length > 0
+          ? `Income type ${body.income_type} is not valid for ${asset.asset_type} assets. Use: ${allowed.join(", ")}`
+          : `${asset.asset_type} assets do not produce income`
+      );
+    }
+
+    const amount = Number(body.amount);
+    const withholdingTax = body.withholding_tax !== undefined && body.withholding_tax !== null
+      ? Number(body.withholding_tax)
+      : 0;
+
+    if (withholdingTax > amount) {
+      return errorResponse("Withholding tax cannot exceed the income amount");
+    }
+
+    // Income settles in the asset's currency; amounts are not converted
+    const assetCurrency = asset.currency || FX_BASE_CURRENCY;
+    if (body.settle_cash && body.cash_currency && body.cash_currency !== assetCurrency) {
+      return errorResponse(`Cash currency must match the asset currency (${assetCurrency})`);
+    }
+
+    // Create income record
+    const { data: income, error: createError } = await supabase
+      .from("income")
+      .insert({
+        asset_id: asset.id,
+        user_id: userId,
+        income_type: body.income_type,
+        amount,
+        withholding_tax: withholdingTax,
+        quantity: body.quantity !== undefined && body.quantity !== null ? Number(body.quantity) : null,
+        payment_date: body.payment_date,
+        notes: body.notes || null,
+      })
+      .select()
+      .single();
+
+    if (createError) {
+      console.error("Error creating income:", createError);
+      return errorResponse("Failed to record income", 500);
+    }
+
+    // Credit net income to the portfolio's cash when requested
+    if (body.settle_cash && amount > withholdingTax) {
+      const { error: cashError } = await supabase
+        .from("cash_transactions")
+        .insert({
+          portfolio_id: asset.portfolio_id,
+          user_id: userId,
+          transaction_type: "income",
+          currency: assetCurrency,
+          amount: Number((amount - withholdingTax).toFixed(8)),
+          transaction_date: income.payment_date,
+          income_id: income.id,
+        });
+
+      if (cashError) {
+        console.error("Error creating cash settlement:", cashError);
+        await supabase.from("income").delete().eq("id", income.id);
+        return errorResponse("Failed to record income", 500);
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "Income recorded successfully",
+      income: formatIncome(income),
+    }, 201);
+  } catch (error) {
+    console.error("Create income handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * GET /income-handler/list
+ * List income records with totals
+ * Query params: asset_id, portfolio_id, year (YYYY)
+ */
+async function handleListIncome(req: Request, userId: string) {
+  try {
+    const url = new URL(req.url);
+    const assetId = url.searchParams.get("asset_id");
+    const portfolioId = url.searchParams.get("portfolio_id");
+    const year = url.searchParams.get("year");
+
+    if (year && !/^\d{4}$/.test(year)) {
+      return errorResponse("Invalid year. Use YYYY");
+    }
+
+    let query = supabase
+      .from("income")
+      .select(`
+        *,
+        assets!inner (
+          id,
+          name,
+          symbol,
+          asset_type,
+          portfolio_id
+        )
+      `)
+      .eq("user_id", userId);
+
+    if (assetId) {
+      query = query.eq("asset_id", assetId);
+    }
+
+    if (portfolioId) {
+      query = query.eq("assets.portfolio_id", portfolioId);
+    }
+
+    if (year) {
+      query = query.gte("payment_date", `${year}-01-01`).lte("payment_date", `${year}-12-31`);
+    }
+
+    query = query.order("payment_date", { ascending: false });
+
+    const { data: incomeRecords, error: incomeError } = await query;
+
+    if (incomeError) {
+      console.error("Error fetching income:", incomeError);
+      return errorResponse("Failed to fetch income", 500);
+    }
+
+    const formattedIncome = incomeRecords.map((income) => ({
+      ...formatIncome(income),
+      asset: income.assets ? {
+        id: income.assets.id,
+        name: income.assets.name,
+        symbol: income.assets.symbol,
+        assetType: income.assets.asset_type,
+        portfolioId: income.assets.portfolio_id,
+      } : null,
+    }));
+
+    return jsonResponse({
+      success: true,
+      income: formattedIncome,
+      summary: summarizeIncome(incomeRecords),
+    });
+  } catch (error) {
+    console.error("List income handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * GET /income-handler/schedule
+ * Projected coupon schedule for fixed income assets
+ * Query params: asset_id or portfolio_id (all fixed income assets when omitted)
+ */
+async function handleGetCouponSchedule(req: Request, userId: string) {
+  try {
+    const url = new URL(req.url);
+    const assetId = url.searchParams.get("asset_id");
+    const portfolioId = url.searchParams.get("portfolio_id");
+
+    let query = supabase
+      .from("assets")
+      .select("id, name, symbol, portfolio_id, quantity, purchase_price, metadata")
+      .eq("user_id", userId)
+      .eq("asset_type", "fixed_income");
+
+    if (assetId) {
+      query = query.eq("id", assetId);
+    }
+
+    if (portfolioId) {
+      query = query.eq("portfolio_id", portfolioId);
+    }
+
+    const { data: assets, error: assetsError } = await query;
+
+    if (assetsError) {
+      console.error("Error fetching fixed income assets:", assetsError);
+      return errorResponse("Failed to fetch coupon schedule", 500);
+    }
+
+    if (assetId && (!assets || assets.length === 0)) {
+      return errorResponse("Fixed income asset not found", 404);
+    }
+
+    const schedules = (assets || []).map((asset) => {
+      const principal = Number(asset.quantity) * Number(asset.purchase_price);
+      const payments = generateCouponSchedule(asset.metadata, principal);
+
+      return {
+        assetId: asset.id,
+        name: asset.name,
+        symbol: asset.symbol,
+        portfolioId: asset.portfolio_id,
+        interestRate: asset.metadata?.interest_rate ?? null,
+        maturityDate: asset.metadata?.maturity_date ?? null,
+        payments,
+        totalProjectedIncome: Number(payments.reduce((sum, p) => sum + p.couponAmount, 0).toFixed(2)),
+      };
+    });
+
+    return jsonResponse({
+      success: true,
+      schedules,
+      totalProjectedIncome: Number(schedules.reduce((sum, s) => sum + s.totalProjectedIncome, 0).toFixed(2)),
+    });
+  } catch (error) {
+    console.error("Coupon schedule handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * GET /income-handler/:id
+ * Get a single income record by ID
+ */
+async function handleGetIncome(incomeId: string, userId: string) {
+  try {
+    const { data: income, error: incomeError } = await supabase
+      .from("income")
+      .select("*")
+      .eq("id", incomeId)
+      .eq("user_id", userId)
+      .single();
+
+    if (incomeError || !income) {
+      return errorResponse("Income record not found", 404);
+    }
+
+    return jsonResponse({
+      success: true,
+      income: formatIncome(income),
+    });
+  } catch (error) {
+    console.error("Get income handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * PUT /income-handler/:id
+ * Update an income record
+ */
+async function handleUpdateIncome(req: Request, incomeId: string, userId: string) {
+  try {
+    const body = await req.json();
+
+    // Validate input
+    const validation = validateIncomeInput(body, true);
+    if (!validation.valid) {
+      return errorResponse(validation.error!);
+    }
+
+    // Check if income exists and belongs to user
+    const { data: existingIncome, error: fetchError } = await supabase
+      .from("income")
+      .select("*, assets (asset_type)")
+      .eq("id", incomeId)
+      .eq("user_id", userId)
+      .single();
+
+    if (fetchError || !existingIncome) {
+      return errorResponse("Income record not found", 404);
+    }
+
+    // Build update object
+    const updateData: Record<string, unknown> = {};
+
+    if (body.income_type !== undefined) {
+      if (!isIncomeTypeAllowed(existingIncome.assets?.asset_type, body.income_type as IncomeType)) {
+        return errorResponse(`Income type ${body.income_type} is not valid for ${existingIncome.assets?.asset_type} assets`);
+      }
+      updateData.income_type = body.income_type;
+    }
+
+    if (body.amount !== undefined) {
+      updateData.amount = Number(body.amount);
+    }
+
+    if (body.withholding_tax !== undefined) {
+      updateData.withholding_tax = body.withholding_tax !== null ? Number(body.withholding_tax) : 0;
+    }
+
+    if (body.quantity !== undefined) {
+      updateData.quantity = body.quantity !== null ? Number(body.quantity) : null;
+    }
+
+    if (body.payment_date !== undefined) {
+      updateData.payment_date = body.payment_date;
+    }
+
+    if (body.notes !== undefined) {
+      updateData.notes = body.notes;
+    }
+
+    const amount = Number(updateData.amount ?? existingIncome.amount);
+    const withholdingTax = Number(updateData.withholding_tax ?? existingIncome.withholding_tax);
+    if (withholdingTax > amount) {
+      return errorResponse("Withholding tax cannot exceed the income amount");
+    }
+
+    // Update income
+    const { data: income, error: updateError } = await supabase
+      .from("income")
+      .update(updateData)
+      .eq("id", incomeId)
+      .eq("user_id", userId)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error("Error updating income:", updateError);
+      return errorResponse("Failed to update income", 500);
+    }
+
+    // Keep any cash settlement in step with the net amount
+    if (amount > withholdingTax) {
+      await supabase
+        .from("cash_transactions")
+        .update({
+          amount: Number((amount - withholdingTax).toFixed(8)),
+          transaction_date: income.payment_date,
+        })
+        .eq("income_id", incomeId);
+    } else {
+      await supabase.from("cash_transactions").delete().eq("income_id", incomeId);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "Income updated successfully",
+      income: formatIncome(income),
+    });
+  } catch (error) {
+    console.error("Update income handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * DELETE /income-handler/:id
+ * Delete an income record
+ */
+async function handleDeleteIncome(incomeId: string, userId: string) {
+  try {
+    // Check if income exists and belongs to user
+    const { data: income, error: fetchError } = await supabase
+      .from("income")
+      .select("id")
+      .eq("id", incomeId)
+      .eq("user_id", userId)
+      .single();
+
+    if (fetchError || !income) {
+      return errorResponse("Income record not found", 404);
+    }
+
+    // Delete income
+    const { error: deleteError } = await supabase
+      .from("income")
+      .delete()
+      .eq("id", incomeId)
+      .eq("user_id", userId);
+
+    if (deleteError) {
+      console.error("Error deleting income:", deleteError);
+      return errorResponse("Failed to delete income", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "Income deleted successfully",
+    });
+  } catch (error) {
+    console.error("Delete income handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+// =====================================================
+// Main Request Handler
+// =====================================================
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // Authenticate request using shared auth module
+    let user;
+    try {
+      user = await authenticateRequest(req);
+    } catch (error) {
+      return errorResponse(error.message, 401);
+    }
+
+    const url = new URL(req.url);
+    const path = url.pathname;
+    const pathParts = path.split("/").filter(Boolean);
+
+    // Route requests
+    if (path.endsWith("/create") && req.method === "POST") {
+      return await handleCreateIncome(req, user.id);
+    }
+
+    if (path.endsWith("/list") && req.method === "GET") {
+      return await handleListIncome(req, user.id);
+    }
+
+    if (path.endsWith("/schedule") && req.method === "GET") {
+      return await handleGetCouponSchedule(req, user.id);
+    }
+
+    // Handle /:id routes
+    if (pathParts.length >= 2) {
+      const incomeId = pathParts[pathParts.length - 1];
+
+      if (req.method === "GET") {
+        return await handleGetIncome(incomeId, user.id);
+      }
+
+      if (req.method === "PUT") {
+        return await handleUpdateIncome(req, incomeId, user.id);
+      }
+
+      if (req.method === "DELETE") {
+        return await handleDeleteIncome(incomeId, user.id);
+      }
+    }
+
+    // Route not found
+    return errorResponse("Route not found", 404);
+  } catch (error) {
+    console.error("Request handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+});
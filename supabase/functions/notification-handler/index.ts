@@ -0,0 +1,305 @@
+// =====================================================
+// Vestpod - Notification Handler Edge Function
+// =====================================================
+// Handles the notification inbox:
+// - List notifications (newest first, unread count)
+// - Mark one or all notifications as read
+// - Delete notifications
+// Entries are written by the alert evaluator (price-update-job and
+// alert-checker-job), daily-insights-job, revenuecat-webhook,
+// data-export and weekly-digest-job via _shared/notifications.ts
+// Requirements: 7, 8
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { authenticateRequest } from "../_shared/auth.ts";
+import { NOTIFICATION_CATEGORIES, NotificationCategory } from "../_shared/notifications.ts";
+
+// CORS headers for mobile app
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Initialize Supabase client with service role for database operations
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// Page size limits for the list route
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+// =====================================================
+// Helper Functions
+// =====================================================
+
+/**
+ * Send JSON response
+ */
+function jsonResponse(data: Record<string, unknown> | { error: string } | { success: boolean; [key: string]: unknown }, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Send error response
+ */
+function errorResponse(message: string, status = 400) {
+  return jsonResponse({ error: message }, status);
+}
+
+/**
+ * Format notification for response
+ */
+function formatNotification(notification: Record<string, unknown>) {
+  return {
+    id: notification.id,
+    category: notification.category,
+    title: notification.title,
+    body: notification.body,
+    data: notification.data,
+    deliveryStatus: notification.delivery_status,
+    isRead: notification.read_at !== null,
+    readAt: notification.read_at,
+    createdAt: notification.created_at,
+  };
+}
+
+// =====================================================
+// Route Handlers
+// =====================================================
+
+/**
+ * GET /notification-handler/list?unread=true&category=alert&limit=50&before={ISO timestamp}
+ * List notifications, newest first
+ * Pass the last createdAt as `before` to load the next page
+ */
+async function handleListNotifications(url: URL, userId: string) {
+  try {
+    const unreadOnly = url.searchParams.get("unread") === "true";
+    const category = url.searchParams.get("category");
+    const before = url.searchParams.get("before");
+    const limit = parseInt(url.searchParams.get("limit") || String(DEFAULT_PAGE_SIZE));
+
+    if (category && !NOTIFICATION_CATEGORIES.includes(category as NotificationCategory)) {
+      return errorResponse(`Category must be one of: ${NOTIFICATION_CATEGORIES.join(", ")}`);
+    }
+
+    if (isNaN(limit) || limit < 1) {
+      return errorResponse("Limit must be a positive number");
+    }
+
+    if (before && isNaN(Date.parse(before))) {
+      return errorResponse("Before must be an ISO 8601 timestamp");
+    }
+
+    let query = supabase
+      .from("notifications")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(Math.min(limit, MAX_PAGE_SIZE));
+
+    if (unreadOnly) {
+      query = query.is("read_at", null);
+    }
+
+    if (category) {
+      query = query.eq("category", category);
+    }
+
+    if (before) {
+      query = query.lt("created_at", before);
+    }
+
+    const { data: notifications, error: notificationsError } = await query;
+
+    if (notificationsError) {
+      console.error("Error fetching notifications:", notificationsError);
+      return errorResponse("Failed to fetch notifications", 500);
+    }
+
+    // Unread badge count across all categories
+    const { count: unreadCount, error: countError } = await supabase
+      .from("notifications")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("read_at", null);
+
+    if (countError) {
+      console.error("Error counting unread notifications:", countError);
+    }
+
+    return jsonResponse({
+      success: true,
+      notifications: (notifications || []).map(formatNotification),
+      unreadCount: unreadCount || 0,
+    });
+  } catch (error) {
+    console.error("List notifications handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * POST /notification-handler/:id/read
+ * Mark a notification as read
+ */
+async function handleMarkRead(notificationId: string, userId: string) {
+  try {
+    // Check if notification exists and belongs to user
+    const { data: existing, error: fetchError } = await supabase
+      .from("notifications")
+      .select("id, read_at")
+      .eq("id", notificationId)
+      .eq("user_id", userId)
+      .single();
+
+    if (fetchError || !existing) {
+      return errorResponse("Notification not found", 404);
+    }
+
+    const { data: notification, error: updateError } = await supabase
+      .from("notifications")
+      .update({ read_at: existing.read_at || new Date().toISOString() })
+      .eq("id", notificationId)
+      .eq("user_id", userId)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error("Error marking notification as read:", updateError);
+      return errorResponse("Failed to update notification", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      notification: formatNotification(notification),
+    });
+  } catch (error) {
+    console.error("Mark read handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * POST /notification-handler/read-all
+ * Mark all unread notifications as read
+ */
+async function handleMarkAllRead(userId: string) {
+  try {
+    const { data: updated, error: updateError } = await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .is("read_at", null)
+      .select("id");
+
+    if (updateError) {
+      console.error("Error marking notifications as read:", updateError);
+      return errorResponse("Failed to update notifications", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "All notifications marked as read",
+      updated: (updated || []).length,
+    });
+  } catch (error) {
+    console.error("Mark all read handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * DELETE /notification-handler/:id
+ * Delete a notification
+ */
+async function handleDeleteNotification(notificationId: string, userId: string) {
+  try {
+    // Check if notification exists and belongs to user
+    const { data: notification, error: fetchError } = await supabase
+      .from("notifications")
+      .select("id")
+      .eq("id", notificationId)
+      .eq("user_id", userId)
+      .single();
+
+    if (fetchError || !notification) {
+      return errorResponse("Notification not found", 404);
+    }
+
+    const { error: deleteError } = await supabase
+      .from("notifications")
+      .delete()
+      .eq("id", notificationId)
+      .eq("user_id", userId);
+
+    if (deleteError) {
+      console.error("Error deleting notification:", deleteError);
+      return errorResponse("Failed to delete notification", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "Notification deleted successfully",
+    });
+  } catch (error) {
+    console.error("Delete notification handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+// =====================================================
+// Main Request Handler
+// =====================================================
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // Authenticate request using shared auth module
+    let user;
+    try {
+      user = await authenticateRequest(req);
+    } catch (error) {
+      return errorResponse(error.message, 401);
+    }
+
+    const url = new URL(req.url);
+    const path = url.pathname;
+    const pathParts = path.split("/").filter(Boolean);
+
+    // Route requests
+    if (path.endsWith("/list") && req.method === "GET") {
+      return await handleListNotifications(url, user.id);
+    }
+
+    if (path.endsWith("/read-all") && req.method === "POST") {
+      return await handleMarkAllRead(user.id);
+    }
+
+    // Handle /:id/read
+    if (pathParts.length >= 3 && pathParts[pathParts.length - 1] === "read" && req.method === "POST") {
+      return await handleMarkRead(pathParts[pathParts.length - 2], user.id);
+    }
+
+    // Handle /:id routes
+    if (pathParts.length >= 2 && req.method === "DELETE") {
+      return await handleDeleteNotification(pathParts[pathParts.length - 1], user.id);
+    }
+
+    // Route not found
+    return errorResponse("Route not found", 404);
+  } catch (error) {
+    console.error("Request handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+});
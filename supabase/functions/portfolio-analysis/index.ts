@@ -3,9 +3,15 @@
 // =====================================================
 // Generates AI-powered portfolio insights including:
 // - Risk score calculation
+// - Risk metrics from price history (volatility, Sharpe/Sortino,
+//   beta, VaR/CVaR, max drawdown)
+// - Correlation matrix and effective number of bets
+// - Monte Carlo projection against a savings goal
+// - Stress tests against historical and custom scenarios
 // - Geographic exposure analysis
 // - Sector exposure analysis
 // - AI recommendations
+// - Rebalancing plan against the portfolio's target allocation
 // Requirements: 8
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
@@ -17,6 +23,35 @@ import {
   AssetContext,
   GeminiAPIError,
 } from "../_shared/gemini-client.ts";
+import { convertAssetMetrics, FX_BASE_CURRENCY, getAssetFxFactors } from "../_shared/fx-rates.ts";
+import { getPortfolioCash } from "../_shared/cash-ledger.ts";
+import { AllocationDimension, AllocationTarget, planRebalance, RebalanceHolding } from "../_shared/rebalancing.ts";
+import { createPriceProviderRegistry } from "../_shared/price-providers.ts";
+import {
+  getHoldingHistories,
+  getPortfolioHoldings,
+  getRiskMetrics,
+  RISK_LOOKBACK_DAYS,
+  RiskMetrics,
+} from "../_shared/risk-metrics.ts";
+import { estimateReturnModel, MAX_SIMULATIONS, projectGoal, validateGoal } from "../_shared/goal-planning.ts";
+import {
+  buildCustomScenario,
+  getStressScenario,
+  runStressTest,
+  STRESS_SCENARIOS,
+  StressScenario,
+  validateCustomShocks,
+} from "../_shared/stress-tests.ts";
+import {
+  calculateCorrelation,
+  CORRELATION_RANGE_DAYS,
+  CORRELATION_RANGES,
+  CorrelationResult,
+  DEFAULT_CORRELATION_RANGE,
+  getCorrelationStartDate,
+  isValidCorrelationRange,
+} from "../_shared/correlation.ts";
 
 // CORS headers for mobile app
 const corsHeaders = {
@@ -28,9 +63,15 @@ const corsHeaders = {
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 const geminiApiKey = Deno.env.get("GEMINI_API_KEY") || "";
+const exchangeRateApiKey = Deno.env.get("EXCHANGE_RATE_API_KEY") || "";
+// Annual risk-free rate for Sharpe and Sortino ratios (e.g. 0.04)
+const riskFreeRate = Number(Deno.env.get("RISK_FREE_RATE") || 0);
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+// Price provider chains for historical prices
+const priceProviders = createPriceProviderRegistry();
+
 // =====================================================
 // Helper Functions
 // =====================================================
@@ -57,6 +98,45 @@ function errorResponse(message: string, status = 400) {
 
 // Import centralized subscription helper
 import { checkPremiumStatus } from "../_shared/subscription-helper.ts";
+import { DEFAULT_TIME_ZONE, localDate } from "../_shared/time-zones.ts";
+
+/**
+ * Resolve a user's portfolio, preferred currency and local date
+ * Uses the given portfolio, else the default one (the oldest when
+ * none is marked default)
+ */
+async function resolvePortfolio(
+  userId: string,
+  portfolioId?: string | null
+): Promise<{ id: string; name: string; currency: string; today: string } | null> {
+  let query = supabase
+    .from("portfolios")
+    .select("id, name")
+    .eq("user_id", userId);
+
+  query = portfolioId
+    ? query.eq("id", portfolioId)
+    : query.order("is_default", { ascending: false }).order("created_at", { ascending: true }).limit(1);
+
+  const { data: portfolio, error } = await query.maybeSingle();
+
+  if (error || !portfolio) {
+    return null;
+  }
+
+  const { data: userProfile } = await supabase
+    .from("user_profiles")
+    .select("currency_preference, timezone")
+    .eq("id", userId)
+    .single();
+
+  return {
+    id: portfolio.id,
+    name: portfolio.name,
+    currency: userProfile?.currency_preference || "USD",
+    today: localDate(new Date(), userProfile?.timezone || DEFAULT_TIME_ZONE),
+  };
+}
 
 /**
  * Fetch portfolio data for analysis
@@ -64,82 +144,43 @@ import { checkPremiumStatus } from "../_shared/subscription-helper.ts";
  */
 async function fetchPortfolioData(
   userId: string,
-  portfolioId?: string
+  portfolio: { id: string; currency: string }
 ): Promise<PortfolioContext | null> {
   try {
-    // Get user preferences
-    const { data: userProfile } = await supabase
-      .from("user_profiles")
-      .select("currency_preference")
-      .eq("id", userId)
-      .single();
-
-    const currency = userProfile?.currency_preference || "USD";
-
-    // If no portfolio ID specified, use default portfolio
-    let targetPortfolioId = portfolioId;
-    if (!targetPortfolioId) {
-      const { data: defaultPortfolio } = await supabase
-        .from("portfolios")
-        .select("id")
-        .eq("user_id", userId)
-        .eq("is_default", true)
-        .single();
-
-      if (!defaultPortfolio) {
-        // Fallback to first portfolio
-        const { data: firstPortfolio } = await supabase
-          .from("portfolios")
-          .select("id")
-          .eq("user_id", userId)
-          .order("created_at", { ascending: true })
-          .limit(1)
-          .single();
-
-        if (!firstPortfolio) {
-          return null;
-        }
-        targetPortfolioId = firstPortfolio.id;
-      } else {
-        targetPortfolioId = defaultPortfolio.id;
-      }
-    }
-
-    // Verify portfolio belongs to user
-    const { data: portfolio, error: portfolioError } = await supabase
-      .from("portfolios")
-      .select("id, name")
-      .eq("id", targetPortfolioId)
-      .eq("user_id", userId)
-      .single();
-
-    if (portfolioError || !portfolio) {
-      return null;
-    }
+    const currency = portfolio.currency;
 
     // Get all assets in portfolio
     const { data: assets, error: assetsError } = await supabase
       .from("assets")
       .select("*")
-      .eq("portfolio_id", targetPortfolioId)
+      .eq("portfolio_id", portfolio.id)
       .eq("user_id", userId);
 
     if (assetsError || !assets || assets.length === 0) {
       return null;
     }
 
+    // Values are converted into the user's currency (prices stay native);
+    // assets whose currency has no rate are left out
+    const fxFactors = await getAssetFxFactors(supabase, assets, currency, exchangeRateApiKey);
+    const unconvertedCurrencies = [
+      ...new Set<string>(assets.filter((a) => !fxFactors.has(a.id)).map((a) => a.currency || FX_BASE_CURRENCY)),
+    ];
+    const convertedAssets = assets.filter((a) => fxFactors.has(a.id));
+
+    if (convertedAssets.length === 0) {
+      return null;
+    }
+
     // Build asset contexts
-    const assetContexts: AssetContext[] = assets.map((asset) => {
+    const assetContexts: AssetContext[] = convertedAssets.map((asset) => {
       const quantity = Number(asset.quantity);
       const purchasePrice = Number(asset.purchase_price);
       const currentPrice = asset.current_price
         ? Number(asset.current_price)
         : purchasePrice;
 
-      const totalValue = quantity * currentPrice;
-      const totalCost = quantity * purchasePrice;
-      const gainLoss = totalValue - totalCost;
-      const gainLossPercent = totalCost > 0 ? (gainLoss / totalCost) * 100 : 0;
+      const { totalValue, gainLoss, gainLossPercent } = convertAssetMetrics(asset, fxFactors.get(asset.id)!);
 
       return {
         symbol: asset.symbol || asset.name,
@@ -148,9 +189,9 @@ async function fetchPortfolioData(
         quantity,
         currentPrice,
         purchasePrice,
-        totalValue: Number(totalValue.toFixed(2)),
-        gainLoss: Number(gainLoss.toFixed(2)),
-        gainLossPercent: Number(gainLossPercent.toFixed(2)),
+        totalValue,
+        gainLoss,
+        gainLossPercent,
         sector: asset.metadata?.sector as string | undefined,
         country: asset.metadata?.country as string | undefined,
       };
@@ -164,10 +205,11 @@ async function fetchPortfolioData(
 
     return {
       userId,
-      portfolioId: targetPortfolioId,
+      portfolioId: portfolio.id,
       totalValue: Number(totalValue.toFixed(2)),
       currency,
       assets: assetContexts,
+      unconvertedCurrencies,
     };
   } catch (error) {
     console.error("Error fetching portfolio data:", error);
@@ -178,10 +220,12 @@ async function fetchPortfolioData(
 /**
  * Calculate risk score based on volatility and concentration
  * Requirement 8.3: Calculate risk score
+ * Volatility is the annualized volatility of daily returns; without
+ * enough price history the score is concentration only.
  */
-function calculateRiskScore(context: PortfolioContext): {
+function calculateRiskScore(context: PortfolioContext, riskMetrics: RiskMetrics | null): {
   riskScore: number;
-  volatilityScore: number;
+  volatilityScore: number | null;
   concentrationScore: number;
 } {
   // Calculate concentration score (0-10)
@@ -200,20 +244,18 @@ function calculateRiskScore(context: PortfolioContext): {
   // We map this to 0-10 where 10 is highest concentration
   const concentrationScore = Math.min(10, hhi * 10);
 
-  // Calculate volatility score based on performance variance
-  // Higher variance in gains/losses = higher volatility
-  const performances = context.assets.map((a) => a.gainLossPercent);
-  const avgPerformance =
-    performances.reduce((sum, p) => sum + p, 0) / performances.length;
-  const variance =
-    performances.reduce((sum, p) => sum + Math.pow(p - avgPerformance, 2), 0) /
-    performances.length;
-  const stdDev = Math.sqrt(variance);
-
-  // Normalize standard deviation to 0-10 scale
-  // Typical stock portfolio std dev is 15-25%
+  if (!riskMetrics) {
+    return {
+      riskScore: Number(concentrationScore.toFixed(1)),
+      volatilityScore: null,
+      concentrationScore: Number(concentrationScore.toFixed(1)),
+    };
+  }
+
+  // Normalize annualized volatility to 0-10 scale
+  // Typical stock portfolio volatility is 15-25%
   // We map 0-30% to 0-10 scale
-  const volatilityScore = Math.min(10, (stdDev / 30) * 10);
+  const volatilityScore = Math.min(10, (riskMetrics.annualizedVolatility * 100 / 30) * 10);
 
   // Overall risk score is weighted average
   // 60% concentration, 40% volatility
@@ -314,7 +356,8 @@ async function storeInsights(
   geographicExposure: Record<string, number>,
   sectorExposure: Record<string, number>,
   recommendations: unknown[],
-  isCritical: boolean
+  isCritical: boolean,
+  riskMetrics: RiskMetrics | null
 ): Promise<string | null> {
   try {
     const { data, error } = await supabase
@@ -326,6 +369,7 @@ async function storeInsights(
         geographic_exposure: geographicExposure,
         sector_exposure: sectorExposure,
         recommendations,
+        risk_metrics: riskMetrics,
         is_critical: isCritical,
         notification_sent: false,
       })
@@ -344,6 +388,91 @@ async function storeInsights(
   }
 }
 
+/**
+ * Calculate a portfolio's risk metrics and correlation from price history
+ * Both are null when there is not enough history
+ */
+async function fetchRiskAnalysis(
+  portfolioId: string,
+  currency: string,
+  today: string
+): Promise<{ riskMetrics: RiskMetrics | null; correlation: CorrelationResult | null }> {
+  try {
+    const { holdings } = await getPortfolioHoldings(supabase, portfolioId, currency, exchangeRateApiKey);
+    const histories = await getHoldingHistories(supabase, priceProviders, holdings, RISK_LOOKBACK_DAYS);
+    const riskMetrics = await getRiskMetrics(supabase, priceProviders, histories, riskFreeRate);
+
+    const correlation = calculateCorrelation(
+      histories,
+      getCorrelationStartDate(DEFAULT_CORRELATION_RANGE, today),
+      today
+    );
+
+    return { riskMetrics, correlation: correlation.assets.length > 1 ? correlation : null };
+  } catch (error) {
+    console.error("Error calculating risk metrics:", error);
+    return { riskMetrics: null, correlation: null };
+  }
+}
+
+/**
+ * Load holdings and cash for rebalancing, in the user's currency
+ * Assets without a current price are valued at purchase price and
+ * are not traded; neither is real estate. Assets and cash in a
+ * currency with no exchange rate are left out and reported.
+ */
+async function fetchRebalanceInputs(
+  portfolioId: string,
+  currency: string
+): Promise<{ holdings: RebalanceHolding[]; cash: number; unconvertedCurrencies: string[] }> {
+  const { data: assets, error: assetsError } = await supabase
+    .from("assets")
+    .select("id, name, symbol, asset_type, quantity, purchase_price, current_price, purchase_date, currency, metadata")
+    .eq("portfolio_id", portfolioId);
+
+  if (assetsError) {
+    throw new Error(`Failed to fetch assets: ${assetsError.message}`);
+  }
+
+  const fxFactors = await getAssetFxFactors(supabase, assets || [], currency, exchangeRateApiKey);
+  const unconvertedCurrencies = new Set<string>();
+
+  const holdings: RebalanceHolding[] = [];
+  for (const asset of assets || []) {
+    const factor = fxFactors.get(asset.id)?.current;
+    if (factor === undefined) {
+      unconvertedCurrencies.add(asset.currency || FX_BASE_CURRENCY);
+      continue;
+    }
+
+    const nativePrice = asset.current_price ? Number(asset.current_price) : Number(asset.purchase_price);
+
+    holdings.push({
+      assetId: asset.id,
+      name: asset.name,
+      symbol: asset.symbol,
+      assetType: asset.asset_type,
+      sector: (asset.metadata?.sector as string | undefined) || null,
+      country: (asset.metadata?.country as string | undefined) || null,
+      quantity: Number(asset.quantity),
+      price: nativePrice * factor,
+      tradable: Boolean(asset.current_price) && asset.asset_type !== "real_estate",
+    });
+  }
+
+  const { cash, unconvertedCurrencies: cashCurrencies } = await getPortfolioCash(
+    supabase,
+    portfolioId,
+    currency,
+    exchangeRateApiKey
+  );
+  for (const cashCurrency of cashCurrencies) {
+    unconvertedCurrencies.add(cashCurrency);
+  }
+
+  return { holdings, cash, unconvertedCurrencies: [...unconvertedCurrencies] };
+}
+
 // =====================================================
 // Route Handlers
 // =====================================================
@@ -374,19 +503,26 @@ async function handleAnalyzePortfolio(req: Request, userId: string) {
 
     // Get portfolio ID from request (optional)
     const body = await req.json().catch(() => ({}));
-    const portfolioId = body.portfolio_id;
+    const portfolio = await resolvePortfolio(userId, body.portfolio_id);
 
     // Fetch portfolio data
-    const portfolioContext = await fetchPortfolioData(userId, portfolioId);
-    if (!portfolioContext) {
+    const portfolioContext = portfolio ? await fetchPortfolioData(userId, portfolio) : null;
+    if (!portfolio || !portfolioContext) {
       return errorResponse(
         "No portfolio data found. Please add assets to your portfolio first.",
         404
       );
     }
 
-    // Calculate basic risk metrics
-    const riskMetrics = calculateRiskScore(portfolioContext);
+    // Calculate risk metrics and correlation from price history
+    const { riskMetrics, correlation } = await fetchRiskAnalysis(
+      portfolioContext.portfolioId,
+      portfolioContext.currency,
+      portfolio.today
+    );
+    portfolioContext.riskMetrics = riskMetrics || undefined;
+    portfolioContext.correlation = correlation || undefined;
+    const riskScores = calculateRiskScore(portfolioContext, riskMetrics);
 
     // Analyze geographic exposure
     const geoAnalysis = analyzeGeographicExposure(portfolioContext);
@@ -430,7 +566,8 @@ async function handleAnalyzePortfolio(req: Request, userId: string) {
       geoAnalysis.exposure,
       sectorAnalysis.exposure,
       aiInsight.recommendations,
-      isCritical
+      isCritical,
+      riskMetrics
     );
 
     // Return analysis results
@@ -441,10 +578,12 @@ async function handleAnalyzePortfolio(req: Request, userId: string) {
         healthScore,
         riskScore: aiInsight.riskScore,
         riskAnalysis: {
-          volatilityScore: riskMetrics.volatilityScore,
-          concentrationScore: riskMetrics.concentrationScore,
+          volatilityScore: riskScores.volatilityScore,
+          concentrationScore: riskScores.concentrationScore,
           reasoning: aiInsight.riskAnalysis.reasoning,
         },
+        riskMetrics,
+        unconvertedCurrencies: portfolioContext.unconvertedCurrencies,
         geographicExposure: {
           ...geoAnalysis.exposure,
           warnings: geoAnalysis.warnings,
@@ -498,6 +637,7 @@ async function handleGetLatestInsights(userId: string) {
         id: insight.id,
         healthScore: insight.health_score,
         riskScore: insight.risk_score,
+        riskMetrics: insight.risk_metrics,
         geographicExposure: insight.geographic_exposure,
         sectorExposure: insight.sector_exposure,
         recommendations: insight.recommendations,
@@ -548,6 +688,7 @@ async function handleGetInsightsHistory(req: Request, userId: string) {
         id: insight.id,
         healthScore: insight.health_score,
         riskScore: insight.risk_score,
+        riskMetrics: insight.risk_metrics,
         isCritical: insight.is_critical,
         generatedAt: insight.generated_at,
       })),
@@ -558,6 +699,375 @@ async function handleGetInsightsHistory(req: Request, userId: string) {
   }
 }
 
+/**
+ * GET /portfolio-analysis/correlation?portfolio_id={id}&range={1M|3M|6M|1Y}
+ * Pairwise correlation of the holdings' daily returns and the
+ * effective number of bets (defaults to the default portfolio, 3M)
+ */
+async function handleGetCorrelation(req: Request, userId: string) {
+  try {
+    // Check premium status
+    const isPremium = await checkPremiumStatus(userId);
+    if (!isPremium) {
+      return errorResponse(
+        "Premium subscription required to access correlation analysis",
+        403
+      );
+    }
+
+    const url = new URL(req.url);
+    const range = url.searchParams.get("range") || DEFAULT_CORRELATION_RANGE;
+    if (!isValidCorrelationRange(range)) {
+      return errorResponse(`Invalid range. Must be one of: ${CORRELATION_RANGES.join(", ")}`);
+    }
+
+    const portfolio = await resolvePortfolio(userId, url.searchParams.get("portfolio_id"));
+    if (!portfolio) {
+      return errorResponse("Portfolio not found", 404);
+    }
+
+    const currency = portfolio.currency;
+    const { holdings, unconvertedCurrencies } = await getPortfolioHoldings(
+      supabase,
+      portfolio.id,
+      currency,
+      exchangeRateApiKey
+    );
+    const histories = await getHoldingHistories(supabase, priceProviders, holdings, CORRELATION_RANGE_DAYS[range]);
+
+    const today = portfolio.today;
+    const correlation = calculateCorrelation(histories, getCorrelationStartDate(range, today), today);
+
+    return jsonResponse({
+      success: true,
+      correlation: {
+        portfolioId: portfolio.id,
+        portfolioName: portfolio.name,
+        range,
+        ...correlation,
+        unconvertedCurrencies,
+        generatedAt: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("Correlation handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * POST /portfolio-analysis/projection
+ * Monte Carlo projection of a portfolio against a savings goal
+ * Body: { goal_id } or { portfolio_id?, target_amount, target_date, monthly_contribution? },
+ * plus simulations? (default 1000)
+ * - goal_id: project a saved goal and store the result on it
+ * - Otherwise a what-if projection of the given (or default) portfolio
+ */
+async function handleProjection(req: Request, userId: string) {
+  try {
+    // Check premium status
+    const isPremium = await checkPremiumStatus(userId);
+    if (!isPremium) {
+      return errorResponse(
+        "Premium subscription required to access goal projections",
+        403
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const today = new Date().toISOString().split("T")[0];
+
+    if (
+      body.simulations !== undefined &&
+      (!Number.isInteger(body.simulations) || body.simulations < 1 || body.simulations > MAX_SIMULATIONS)
+    ) {
+      return errorResponse(`simulations must be an integer between 1 and ${MAX_SIMULATIONS}`);
+    }
+
+    let goal: {
+      id: string | null;
+      portfolioId: string | null;
+      currency: string | null;
+      targetAmount: number;
+      targetDate: string;
+      monthlyContribution: number;
+    };
+
+    if (body.goal_id) {
+      const { data: savedGoal } = await supabase
+        .from("portfolio_goals")
+        .select("id, portfolio_id, currency, target_amount, target_date, monthly_contribution")
+        .eq("id", body.goal_id)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (!savedGoal) {
+        return errorResponse("Goal not found", 404);
+      }
+
+      if (savedGoal.target_date <= today) {
+        return errorResponse("Goal target date has passed");
+      }
+
+      goal = {
+        id: savedGoal.id,
+        portfolioId: savedGoal.portfolio_id,
+        currency: savedGoal.currency,
+        targetAmount: Number(savedGoal.target_amount),
+        targetDate: savedGoal.target_date,
+        monthlyContribution: Number(savedGoal.monthly_contribution),
+      };
+    } else {
+      if (body.target_amount === undefined || body.target_date === undefined) {
+        return errorResponse("goal_id, or target_amount and target_date, are required");
+      }
+
+      const validation = validateGoal(body, today, true);
+      if (!validation.valid) {
+        return errorResponse(validation.error!);
+      }
+
+      goal = {
+        id: null,
+        portfolioId: body.portfolio_id || null,
+        currency: null,
+        targetAmount: body.target_amount,
+        targetDate: body.target_date,
+        monthlyContribution: body.monthly_contribution ?? 0,
+      };
+    }
+
+    const portfolio = await resolvePortfolio(userId, goal.portfolioId);
+    if (!portfolio) {
+      return errorResponse("Portfolio not found", 404);
+    }
+
+    // Saved goals are projected in the currency they were set in
+    const currency = goal.currency || portfolio.currency;
+    const { holdings, unconvertedCurrencies } = await getPortfolioHoldings(
+      supabase,
+      portfolio.id,
+      currency,
+      exchangeRateApiKey
+    );
+    const { cash, unconvertedCurrencies: cashCurrencies } = await getPortfolioCash(
+      supabase,
+      portfolio.id,
+      currency,
+      exchangeRateApiKey
+    );
+    const histories = await getHoldingHistories(supabase, priceProviders, holdings, RISK_LOOKBACK_DAYS);
+
+    // Start from holdings plus cash
+    const projection = projectGoal(
+      holdings.reduce((sum, h) => sum + h.value, 0) + cash,
+      goal,
+      estimateReturnModel(histories, cash),
+      today,
+      { simulations: body.simulations }
+    );
+
+    if (goal.id) {
+      const { error: updateError } = await supabase
+        .from("portfolio_goals")
+        .update({
+          probability: projection.probability,
+          projected_median: projection.finalValue.p50,
+          evaluated_at: new Date().toISOString(),
+        })
+        .eq("id", goal.id);
+
+      if (updateError) {
+        console.error("Error saving goal evaluation:", updateError);
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      projection: {
+        goalId: goal.id,
+        portfolioId: portfolio.id,
+        portfolioName: portfolio.name,
+        currency,
+        ...projection,
+        unconvertedCurrencies: [...new Set([...unconvertedCurrencies, ...cashCurrencies])],
+        generatedAt: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("Projection handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * POST /portfolio-analysis/stress-test
+ * Loss of the current holdings under market scenarios
+ * Body: { portfolio_id?, scenarios?, shocks? }
+ * - scenarios: historical scenario ids (default: all, unless shocks are given)
+ * - shocks: custom scenario, e.g. [{ symbol: "XAU", change: 20 }, { asset_type: "stock", change: -30 }]
+ */
+async function handleStressTest(req: Request, userId: string) {
+  try {
+    // Check premium status
+    const isPremium = await checkPremiumStatus(userId);
+    if (!isPremium) {
+      return errorResponse(
+        "Premium subscription required to access stress tests",
+        403
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const scenarios: StressScenario[] = [];
+
+    if (body.scenarios !== undefined) {
+      if (!Array.isArray(body.scenarios) || body.scenarios.length === 0) {
+        return errorResponse("scenarios must be a non-empty array");
+      }
+
+      for (const id of body.scenarios) {
+        const scenario = typeof id === "string" ? getStressScenario(id) : null;
+        if (!scenario) {
+          return errorResponse(
+            `Unknown scenario: ${id}. Available scenarios: ${STRESS_SCENARIOS.map((s) => s.id).join(", ")}`
+          );
+        }
+        if (!scenarios.includes(scenario)) {
+          scenarios.push(scenario);
+        }
+      }
+    } else if (body.shocks === undefined) {
+      scenarios.push(...STRESS_SCENARIOS);
+    }
+
+    if (body.shocks !== undefined) {
+      const validation = validateCustomShocks(body.shocks);
+      if (!validation.valid) {
+        return errorResponse(validation.error!);
+      }
+      scenarios.push(buildCustomScenario(body.shocks));
+    }
+
+    const portfolio = await resolvePortfolio(userId, body.portfolio_id);
+    if (!portfolio) {
+      return errorResponse("Portfolio not found", 404);
+    }
+
+    const currency = portfolio.currency;
+    const { holdings, unconvertedCurrencies } = await getPortfolioHoldings(
+      supabase,
+      portfolio.id,
+      currency,
+      exchangeRateApiKey
+    );
+
+    return jsonResponse({
+      success: true,
+      stressTest: {
+        portfolioId: portfolio.id,
+        portfolioName: portfolio.name,
+        currency,
+        scenarios: scenarios.map((scenario) => runStressTest(holdings, scenario)),
+        unconvertedCurrencies,
+        generatedAt: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("Stress test handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * POST /portfolio-analysis/rebalance
+ * Drift from the portfolio's target allocation and the trades back to target
+ * Body: { portfolio_id, min_trade_value?, new_money_only?, new_money?, use_cash?, whole_units? }
+ * - new_money: amount to invest on top of the portfolio's cash
+ * - use_cash: invest the portfolio's cash balance (default true)
+ * - new_money_only: buy with the available money only, never sell
+ */
+async function handleRebalance(req: Request, userId: string) {
+  try {
+    // Check premium status
+    const isPremium = await checkPremiumStatus(userId);
+    if (!isPremium) {
+      return errorResponse(
+        "Premium subscription required to access portfolio rebalancing",
+        403
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+
+    if (!body.portfolio_id || typeof body.portfolio_id !== "string") {
+      return errorResponse("portfolio_id is required");
+    }
+
+    for (const field of ["min_trade_value", "new_money"]) {
+      if (body[field] !== undefined && (typeof body[field] !== "number" || !(body[field] >= 0))) {
+        return errorResponse(`${field} must be a non-negative number`);
+      }
+    }
+
+    for (const field of ["new_money_only", "use_cash", "whole_units"]) {
+      if (body[field] !== undefined && typeof body[field] !== "boolean") {
+        return errorResponse(`${field} must be a boolean`);
+      }
+    }
+
+    const portfolio = await resolvePortfolio(userId, body.portfolio_id);
+    if (!portfolio) {
+      return errorResponse("Portfolio not found", 404);
+    }
+
+    const { data: model } = await supabase
+      .from("portfolio_targets")
+      .select("dimension, targets")
+      .eq("portfolio_id", portfolio.id)
+      .maybeSingle();
+
+    if (!model) {
+      return errorResponse("Set a target allocation for this portfolio first", 404);
+    }
+
+    const currency = portfolio.currency;
+    const { holdings, cash, unconvertedCurrencies } = await fetchRebalanceInputs(portfolio.id, currency);
+
+    // Weights and trade sizes need every holding valued
+    if (unconvertedCurrencies.length > 0) {
+      return errorResponse(
+        `No exchange rate for ${unconvertedCurrencies.join(", ")}; rebalancing is unavailable until every holding can be valued in ${currency}`,
+        503
+      );
+    }
+
+    const newMoneyOnly = body.new_money_only === true;
+    const plan = planRebalance(holdings, model.dimension as AllocationDimension, model.targets as AllocationTarget[], {
+      cash: (body.use_cash === false ? 0 : Math.max(cash, 0)) + (body.new_money || 0),
+      minTradeValue: body.min_trade_value || 0,
+      newMoneyOnly,
+      wholeUnits: body.whole_units === true,
+    });
+
+    return jsonResponse({
+      success: true,
+      rebalance: {
+        portfolioId: portfolio.id,
+        portfolioName: portfolio.name,
+        currency,
+        dimension: model.dimension,
+        mode: newMoneyOnly ? "new_money_only" : "full",
+        ...plan,
+        generatedAt: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("Rebalance handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
 // =====================================================
 // Main Request Handler
 // =====================================================
@@ -593,6 +1103,22 @@ serve(async (req: Request) => {
       return await handleGetInsightsHistory(req, user.id);
     }
 
+    if (path.endsWith("/rebalance") && req.method === "POST") {
+      return await handleRebalance(req, user.id);
+    }
+
+    if (path.endsWith("/correlation") && req.method === "GET") {
+      return await handleGetCorrelation(req, user.id);
+    }
+
+    if (path.endsWith("/projection") && req.method === "POST") {
+      return await handleProjection(req, user.id);
+    }
+
+    if (path.endsWith("/stress-test") && req.method === "POST") {
+      return await handleStressTest(req, user.id);
+    }
+
     // Route not found
     return errorResponse("Route not found", 404);
   } catch (error) {
@@ -6,11 +6,81 @@
 // - Read portfolios (list and single)
 // - Update portfolio
 // - Delete portfolio
-// Requirements: 2
+// - Realized/unrealized gain/loss across assets
+// - Total return including income received
+// - Multi-currency cash and deposits/withdrawals
+// - Values converted into the user's preferred currency
+//   with FX gain reported separately from price gain
+// - Value history from daily snapshots
+// - Time-weighted and money-weighted (XIRR) returns,
+//   per portfolio and across all of a user's portfolios
+// - Comparison against built-in and custom benchmarks
+//   (excess return, alpha, tracking error)
+// - Target allocation model (by asset, asset type, sector or
+//   country) used by the rebalancing planner in portfolio-analysis
+// - Savings goals (target amount and date, monthly contribution)
+//   projected by portfolio-analysis and daily-insights-job
+// Requirements: 2, 6, 12
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
 import { authenticateRequest } from "../_shared/auth.ts";
+import { LedgerError } from "../_shared/transaction-ledger.ts";
+import { summarizeIncome } from "../_shared/income.ts";
+import {
+  cashDirection,
+  isValidCurrencyCode,
+  MANUAL_CASH_TRANSACTION_TYPES,
+  summarizeCash,
+  totalInBaseCurrency,
+} from "../_shared/cash-ledger.ts";
+import {
+  conversionFactor,
+  convertAssetMetrics,
+  FX_BASE_CURRENCY,
+  getAssetFxFactors,
+  getLatestRates,
+} from "../_shared/fx-rates.ts";
+import {
+  buildGainsReport,
+  GainSummary,
+  GainsReport,
+  LotTransaction,
+  RealizedLot,
+  resolveCostBasisMethod,
+  summarizeGains,
+  UnrealizedLot,
+} from "../_shared/lot-matching.ts";
+import {
+  addDays,
+  buildBackfillSnapshots,
+  getRangeStartDate,
+  HISTORY_RANGES,
+  HistoryRange,
+  isValidHistoryRange,
+} from "../_shared/portfolio-snapshots.ts";
+import {
+  annualizeReturn,
+  buildReturnIndex,
+  calculateMoneyWeightedReturn,
+  calculateTimeWeightedReturn,
+  CashFlow,
+  collectExternalFlows,
+  combineValuations,
+  Valuation,
+} from "../_shared/portfolio-returns.ts";
+import {
+  BenchmarkDefinition,
+  buildCompositeIndex,
+  calculateComparisonStats,
+  componentKey,
+  getBenchmarkPrices,
+  getPresetBenchmark,
+} from "../_shared/benchmarks.ts";
+import { createPriceProviderRegistry } from "../_shared/price-providers.ts";
+import { AllocationTarget, validateAllocationTargets } from "../_shared/rebalancing.ts";
+import { validateGoal } from "../_shared/goal-planning.ts";
+import { isValidDate } from "../_shared/time-zones.ts";
 
 // CORS headers for mobile app
 const corsHeaders = {
@@ -24,6 +94,16 @@ const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+// Rows per request when reading snapshot and price history
+const SNAPSHOT_PAGE_SIZE = 1000;
+const PRICE_HISTORY_PAGE_SIZE = 1000;
+
+// API key for converting foreign currency assets and cash
+const exchangeRateApiKey = Deno.env.get("EXCHANGE_RATE_API_KEY") || "";
+
+// Price providers for benchmark prices (keys and fallback order from the environment)
+const priceProviders = createPriceProviderRegistry();
+
 // =====================================================
 // Helper Functions
 // =====================================================
@@ -46,39 +126,508 @@ function errorResponse(message: string, status = 400) {
 }
 
 /**
- * Calculate portfolio total value and performance
+ * Format cash transaction for response
+ */
+function formatCashTransaction(transaction: Record<string, unknown>) {
+  return {
+    id: transaction.id,
+    portfolioId: transaction.portfolio_id,
+    transactionType: transaction.transaction_type,
+    currency: transaction.currency,
+    amount: transaction.amount,
+    transactionDate: transaction.transaction_date,
+    assetTransactionId: transaction.asset_transaction_id,
+    incomeId: transaction.income_id,
+    notes: transaction.notes,
+    createdAt: transaction.created_at,
+  };
+}
+
+/**
+ * Format target allocation for response
+ */
+function formatTargetAllocation(model: Record<string, unknown>) {
+  return {
+    portfolioId: model.portfolio_id,
+    dimension: model.dimension,
+    targets: model.targets,
+    createdAt: model.created_at,
+    updatedAt: model.updated_at,
+  };
+}
+
+/**
+ * Format goal for response
+ */
+function formatGoal(goal: Record<string, unknown>) {
+  return {
+    id: goal.id,
+    portfolioId: goal.portfolio_id,
+    name: goal.name,
+    currency: goal.currency,
+    targetAmount: goal.target_amount,
+    targetDate: goal.target_date,
+    monthlyContribution: goal.monthly_contribution,
+    probability: goal.probability,
+    projectedMedian: goal.projected_median,
+    evaluatedAt: goal.evaluated_at,
+    createdAt: goal.created_at,
+    updatedAt: goal.updated_at,
+  };
+}
+
+/**
+ * Get the user's preferred reporting currency
+ */
+async function getUserCurrency(userId: string): Promise<string> {
+  const { data: profile } = await supabase
+    .from("user_profiles")
+    .select("currency_preference")
+    .eq("id", userId)
+    .single();
+
+  return profile?.currency_preference || "USD";
+}
+
+/**
+ * Get exchange rates from the base currency when amounts are held in other currencies
+ * Uses the cached daily rates; returns an empty map when no conversion is needed
+ */
+async function fetchBaseRates(baseCurrency: string, currencies: string[]): Promise<Record<string, number>> {
+  if (currencies.every((currency) => currency === baseCurrency)) {
+    return {};
+  }
+
+  const usdRates = await getLatestRates(supabase, exchangeRateApiKey);
+  const rates: Record<string, number> = {};
+
+  for (const currency of currencies) {
+    const factor = conversionFactor(baseCurrency, currency, usdRates);
+    if (factor !== null) {
+      rates[currency] = factor;
+    }
+  }
+
+  return rates;
+}
+
+/**
+ * Calculate portfolio cash balances and net contributions
+ * Per-currency balances are totalled in the base currency
+ */
+async function calculatePortfolioCash(portfolioId: string, baseCurrency: string) {
+  const { data: cashTransactions, error } = await supabase
+    .from("cash_transactions")
+    .select("transaction_type, currency, amount")
+    .eq("portfolio_id", portfolioId);
+
+  if (error) {
+    console.error("Error fetching cash transactions:", error);
+  }
+
+  const { balances, contributions } = summarizeCash(cashTransactions || []);
+  const netByCurrency: Record<string, number> = {};
+  for (const [currency, totals] of Object.entries(contributions)) {
+    netByCurrency[currency] = totals.net;
+  }
+
+  const rates = await fetchBaseRates(baseCurrency, [...Object.keys(balances), ...Object.keys(netByCurrency)]);
+  const cashTotal = totalInBaseCurrency(balances, baseCurrency, rates);
+  const contributionsTotal = totalInBaseCurrency(netByCurrency, baseCurrency, rates);
+
+  return {
+    cashBalance: cashTotal.total,
+    cashBalances: balances,
+    netContributions: contributionsTotal.total,
+    contributions,
+    unconvertedCurrencies: [...new Set([...cashTotal.unconverted, ...contributionsTotal.unconverted])],
+  };
+}
+
+/**
+ * Calculate portfolio total value and performance in the base currency
+ * Total value includes cash; performance and total return
+ * (unrealized gain/loss plus net income received) cover assets only.
+ * Asset gain is split into price gain and FX gain. Amounts with no
+ * exchange rate are left out and listed in unconvertedCurrencies.
  */
-async function calculatePortfolioMetrics(portfolioId: string) {
+async function calculatePortfolioMetrics(portfolioId: string, baseCurrency = "USD") {
   // Get all assets in portfolio
   const { data: assets, error } = await supabase
     .from("assets")
-    .select("quantity, purchase_price, current_price")
+    .select("id, quantity, purchase_price, current_price, purchase_date, currency")
     .eq("portfolio_id", portfolioId);
 
   if (error) {
     console.error("Error fetching assets for metrics:", error);
-    return { totalValue: 0, totalCost: 0, performance: 0 };
   }
 
-  if (!assets || assets.length === 0) {
-    return { totalValue: 0, totalCost: 0, performance: 0 };
-  }
+  const factors = await getAssetFxFactors(supabase, assets || [], baseCurrency, exchangeRateApiKey);
+  const unconvertedCurrencies = new Set<string>();
 
-  let totalValue = 0;
+  let assetsValue = 0;
   let totalCost = 0;
+  let priceGain = 0;
+  let fxGain = 0;
+
+  for (const asset of assets || []) {
+    // Assets without a rate are left out and reported
+    const assetFactors = factors.get(asset.id);
+    if (!assetFactors) {
+      unconvertedCurrencies.add(asset.currency || FX_BASE_CURRENCY);
+      continue;
+    }
+
+    const metrics = convertAssetMetrics(asset, assetFactors);
+    assetsValue += metrics.totalValue;
+    totalCost += metrics.totalCost;
+    priceGain += metrics.priceGain;
+    fxGain += metrics.fxGain;
+  }
+
+  // Get income received from assets in portfolio (paid in the asset's currency)
+  const { data: incomeRecords, error: incomeError } = await supabase
+    .from("income")
+    .select("income_type, amount, withholding_tax, payment_date, assets!inner(portfolio_id, currency)")
+    .eq("assets.portfolio_id", portfolioId);
 
-  for (const asset of assets) {
-    const currentPrice = asset.current_price || asset.purchase_price;
-    totalValue += Number(asset.quantity) * Number(currentPrice);
-    totalCost += Number(asset.quantity) * Number(asset.purchase_price);
+  if (incomeError) {
+    console.error("Error fetching income for metrics:", incomeError);
   }
 
-  const performance = totalCost > 0 ? ((totalValue - totalCost) / totalCost) * 100 : 0;
+  const incomeByCurrency: Record<string, number> = {};
+  for (const record of incomeRecords || []) {
+    const asset = record.assets as unknown as { currency: string | null };
+    const currency = asset?.currency || FX_BASE_CURRENCY;
+    incomeByCurrency[currency] = (incomeByCurrency[currency] || 0) + summarizeIncome([record]).net;
+  }
+
+  const incomeRates = await fetchBaseRates(baseCurrency, Object.keys(incomeByCurrency));
+  const income = totalInBaseCurrency(incomeByCurrency, baseCurrency, incomeRates);
+
+  const cash = await calculatePortfolioCash(portfolioId, baseCurrency);
+  for (const currency of [...income.unconverted, ...cash.unconvertedCurrencies]) {
+    unconvertedCurrencies.add(currency);
+  }
+
+  const incomeReceived = income.total;
+  const performance = totalCost > 0 ? ((assetsValue - totalCost) / totalCost) * 100 : 0;
+  const totalReturn = assetsValue - totalCost + incomeReceived;
+  const totalReturnPercent = totalCost > 0 ? (totalReturn / totalCost) * 100 : 0;
 
   return {
-    totalValue: Number(totalValue.toFixed(2)),
+    totalValue: Number((assetsValue + cash.cashBalance).toFixed(2)),
+    assetsValue: Number(assetsValue.toFixed(2)),
     totalCost: Number(totalCost.toFixed(2)),
     performance: Number(performance.toFixed(2)),
+    priceGain: Number(priceGain.toFixed(2)),
+    fxGain: Number(fxGain.toFixed(2)),
+    cashBalance: cash.cashBalance,
+    cashBalances: cash.cashBalances,
+    netContributions: cash.netContributions,
+    incomeReceived,
+    totalReturn: Number(totalReturn.toFixed(2)),
+    totalReturnPercent: Number(totalReturnPercent.toFixed(2)),
+    unconvertedCurrencies: [...unconvertedCurrencies],
+  };
+}
+
+/**
+ * Fetch daily snapshots for portfolios, oldest first
+ * Pages through results so long histories are not truncated
+ *
+ * @returns Snapshot rows, or null if the query failed
+ */
+async function fetchSnapshots(
+  portfolioIds: string[],
+  userId: string,
+  startDate: string | null,
+  endDate?: string
+): Promise<Record<string, unknown>[] | null> {
+  const snapshots: Record<string, unknown>[] = [];
+
+  for (let from = 0; ; from += SNAPSHOT_PAGE_SIZE) {
+    let query = supabase
+      .from("portfolio_snapshots")
+      .select("*")
+      .in("portfolio_id", portfolioIds)
+      .eq("user_id", userId);
+
+    if (startDate) {
+      query = query.gte("snapshot_date", startDate);
+    }
+
+    if (endDate) {
+      query = query.lte("snapshot_date", endDate);
+    }
+
+    const { data: page, error } = await query
+      .order("snapshot_date", { ascending: true })
+      .order("portfolio_id", { ascending: true })
+      .range(from, from + SNAPSHOT_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Error fetching portfolio snapshots:", error);
+      return null;
+    }
+
+    snapshots.push(...(page || []));
+    if (!page || page.length < SNAPSHOT_PAGE_SIZE) break;
+  }
+
+  return snapshots;
+}
+
+/**
+ * Fetch external cash flows for portfolios in the base currency
+ * Deposits/withdrawals plus trades and income not settled in cash
+ */
+async function fetchExternalFlows(portfolioIds: string[], baseCurrency: string): Promise<CashFlow[]> {
+  const { data: cashTransactions, error: cashError } = await supabase
+    .from("cash_transactions")
+    .select("transaction_type, currency, amount, transaction_date, asset_transaction_id, income_id")
+    .in("portfolio_id", portfolioIds);
+
+  const { data: transactions, error: transactionsError } = await supabase
+    .from("transactions")
+    .select("id, transaction_type, quantity, price, fees, transaction_date, assets!inner(portfolio_id, currency)")
+    .in("assets.portfolio_id", portfolioIds);
+
+  const { data: incomeRecords, error: incomeError } = await supabase
+    .from("income")
+    .select("id, amount, withholding_tax, payment_date, assets!inner(portfolio_id, currency)")
+    .in("assets.portfolio_id", portfolioIds);
+
+  if (cashError || transactionsError || incomeError) {
+    console.error("Error fetching cash flows:", cashError || transactionsError || incomeError);
+    throw new Error("Failed to fetch cash flows");
+  }
+
+  const assetCurrency = (row: { assets: unknown }) =>
+    (row.assets as { currency: string | null })?.currency || FX_BASE_CURRENCY;
+
+  const ledgerTransactions = (transactions || []).map((tx) => ({ ...tx, currency: assetCurrency(tx) }));
+  const income = (incomeRecords || []).map((record) => ({ ...record, currency: assetCurrency(record) }));
+
+  const currencies = [
+    ...(cashTransactions || []).map((tx) => tx.currency),
+    ...ledgerTransactions.map((tx) => tx.currency),
+    ...income.map((record) => record.currency),
+  ];
+  const uniqueCurrencies = [...new Set(currencies)];
+  const rates = await fetchBaseRates(baseCurrency, uniqueCurrencies);
+
+  // fetchBaseRates quotes units per base; flows need base per unit
+  const factors: Record<string, number> = { [baseCurrency]: 1 };
+  for (const currency of uniqueCurrencies) {
+    if (rates[currency] > 0) {
+      factors[currency] = 1 / rates[currency];
+    }
+  }
+
+  return collectExternalFlows({
+    cashTransactions: cashTransactions || [],
+    transactions: ledgerTransactions,
+    income,
+    settledTransactionIds: new Set(
+      (cashTransactions || []).map((tx) => tx.asset_transaction_id).filter(Boolean) as string[]
+    ),
+    settledIncomeIds: new Set((cashTransactions || []).map((tx) => tx.income_id).filter(Boolean) as string[]),
+    factors,
+  });
+}
+
+/**
+ * Resolve the date window for a returns request
+ * Accepts ?start=&end= (YYYY-MM-DD) or ?range= (defaults to ALL)
+ */
+function resolveReturnsWindow(searchParams: URLSearchParams): { startDate?: string | null; endDate?: string; error?: string } {
+  const today = new Date().toISOString().split("T")[0];
+  const start = searchParams.get("start");
+  const end = searchParams.get("end") || today;
+  const range = searchParams.get("range");
+
+  if (start && !isValidDate(start)) {
+    return { error: "Invalid start date format. Use YYYY-MM-DD" };
+  }
+
+  if (!isValidDate(end)) {
+    return { error: "Invalid end date format. Use YYYY-MM-DD" };
+  }
+
+  if (start && start >= end) {
+    return { error: "Start date must be before end date" };
+  }
+
+  if (range && !isValidHistoryRange(range)) {
+    return { error: `Invalid range. Must be one of: ${HISTORY_RANGES.join(", ")}` };
+  }
+
+  const startDate = start || getRangeStartDate((range || "ALL") as HistoryRange, end);
+  return { startDate, endDate: end };
+}
+
+/**
+ * Calculate time-weighted and money-weighted returns for a value series
+ * Returns are percentages; TWR is annualized for windows over a year
+ * and XIRR is always an annual rate.
+ */
+function summarizeReturns(valuations: Valuation[], flows: CashFlow[]) {
+  const first = valuations[0];
+  const last = valuations[valuations.length - 1];
+  const windowFlows = first && last
+    ? flows.filter((f) => f.date > first.date && f.date <= last.date)
+    : [];
+
+  const twr = calculateTimeWeightedReturn(valuations, flows);
+  const mwr = calculateMoneyWeightedReturn(valuations, flows);
+  const days = first && last
+    ? (new Date(last.date).getTime() - new Date(first.date).getTime()) / (24 * 60 * 60 * 1000)
+    : 0;
+
+  const toPercent = (value: number | null) => value === null ? null : Number((value * 100).toFixed(2));
+
+  return {
+    startDate: first?.date ?? null,
+    endDate: last?.date ?? null,
+    startValue: first?.value ?? 0,
+    endValue: last?.value ?? 0,
+    netCashFlows: Number(windowFlows.reduce((sum, f) => sum + f.amount, 0).toFixed(2)),
+    timeWeightedReturn: toPercent(twr),
+    timeWeightedReturnAnnualized: twr === null ? null : toPercent(annualizeReturn(twr, days)),
+    moneyWeightedReturn: toPercent(mwr),
+    cashFlows: windowFlows.map((f) => ({ date: f.date, amount: Number(f.amount.toFixed(2)) })),
+  };
+}
+
+/**
+ * Rebuild a portfolio's daily asset value from quantities and price_history
+ * Cash is left out, so every asset transaction counts as a flow in or
+ * out of the series. Values use today's exchange rates.
+ *
+ * @returns Daily asset values and flows from the first transaction to endDate
+ */
+async function buildAssetValueSeries(
+  portfolioId: string,
+  baseCurrency: string,
+  endDate: string
+): Promise<{ valuations: Valuation[]; flows: CashFlow[] }> {
+  const { data: assets, error: assetsError } = await supabase
+    .from("assets")
+    .select("id, currency, purchase_price")
+    .eq("portfolio_id", portfolioId);
+
+  if (assetsError) {
+    console.error("Error fetching assets:", assetsError);
+    throw new Error("Failed to fetch assets");
+  }
+
+  const assetIds = (assets || []).map((a) => a.id);
+  if (assetIds.length === 0) {
+    return { valuations: [], flows: [] };
+  }
+
+  const { data: transactions, error: transactionsError } = await supabase
+    .from("transactions")
+    .select("id, asset_id, transaction_type, quantity, price, fees, transaction_date, created_at")
+    .in("asset_id", assetIds)
+    .lte("transaction_date", endDate);
+
+  if (transactionsError) {
+    console.error("Error fetching transactions:", transactionsError);
+    throw new Error("Failed to fetch transactions");
+  }
+
+  const prices: { asset_id: string; price: number; timestamp: string }[] = [];
+  for (let from = 0; ; from += PRICE_HISTORY_PAGE_SIZE) {
+    const { data: page, error: pricesError } = await supabase
+      .from("price_history")
+      .select("asset_id, price, timestamp")
+      .in("asset_id", assetIds)
+      .lte("timestamp", `${endDate}T23:59:59Z`)
+      .order("timestamp", { ascending: true })
+      .range(from, from + PRICE_HISTORY_PAGE_SIZE - 1);
+
+    if (pricesError) {
+      console.error("Error fetching price history:", pricesError);
+      throw new Error("Failed to fetch price history");
+    }
+
+    prices.push(...(page || []));
+    if (!page || page.length < PRICE_HISTORY_PAGE_SIZE) break;
+  }
+
+  const firstDate = (transactions || []).map((t) => t.transaction_date).sort()[0];
+  if (!firstDate) {
+    return { valuations: [], flows: [] };
+  }
+
+  const currencies = [...new Set((assets || []).map((a) => (a.currency as string | null) || FX_BASE_CURRENCY))] as string[];
+  const rates = await fetchBaseRates(baseCurrency, currencies);
+
+  // fetchBaseRates quotes units per base; values need base per unit
+  const factors: Record<string, number> = { [baseCurrency]: 1 };
+  for (const currency of currencies) {
+    if (rates[currency] > 0) {
+      factors[currency] = 1 / rates[currency];
+    }
+  }
+
+  const assetCurrencies = new Map((assets || []).map((a) => [a.id, a.currency || FX_BASE_CURRENCY]));
+
+  const snapshots = buildBackfillSnapshots(
+    {
+      assets: assets || [],
+      transactions: transactions || [],
+      prices,
+      cashTransactions: [],
+      factors,
+    },
+    firstDate,
+    endDate
+  );
+
+  const flows = collectExternalFlows({
+    cashTransactions: [],
+    transactions: (transactions || []).map((tx) => ({ ...tx, currency: assetCurrencies.get(tx.asset_id)! })),
+    income: [],
+    settledTransactionIds: new Set(),
+    settledIncomeIds: new Set(),
+    factors,
+  });
+
+  return {
+    valuations: snapshots.map((snapshot) => ({ date: snapshot.snapshotDate, value: snapshot.assetsValue })),
+    flows,
+  };
+}
+
+/**
+ * Resolve a benchmark by preset id or custom benchmark UUID
+ */
+async function resolveBenchmark(benchmarkId: string, userId: string): Promise<BenchmarkDefinition | null> {
+  const preset = getPresetBenchmark(benchmarkId);
+  if (preset) {
+    return preset;
+  }
+
+  const { data: benchmark } = await supabase
+    .from("benchmarks")
+    .select("id, name, description, components")
+    .eq("id", benchmarkId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!benchmark) {
+    return null;
+  }
+
+  return {
+    id: benchmark.id,
+    name: benchmark.name,
+    description: benchmark.description,
+    components: benchmark.components,
+    isPreset: false,
   };
 }
 
@@ -170,18 +719,26 @@ async function handleListPortfolios(userId: string) {
     }
 
     // Calculate metrics for each portfolio
+    const currency = await getUserCurrency(userId);
     const portfoliosWithMetrics = await Promise.all(
       portfolios.map(async (portfolio) => {
-        const metrics = await calculatePortfolioMetrics(portfolio.id);
+        const metrics = await calculatePortfolioMetrics(portfolio.id, currency);
         return {
           id: portfolio.id,
           name: portfolio.name,
           description: portfolio.description,
           isDefault: portfolio.is_default,
           createdAt: portfolio.created_at,
+          currency,
           totalValue: metrics.totalValue,
+          assetsValue: metrics.assetsValue,
           totalCost: metrics.totalCost,
           performance: metrics.performance,
+          cashBalance: metrics.cashBalance,
+          netContributions: metrics.netContributions,
+          incomeReceived: metrics.incomeReceived,
+          totalReturn: metrics.totalReturn,
+          totalReturnPercent: metrics.totalReturnPercent,
         };
       })
     );
@@ -216,7 +773,8 @@ async function handleGetPortfolio(portfolioId: string, userId: string) {
     }
 
     // Calculate metrics
-    const metrics = await calculatePortfolioMetrics(portfolio.id);
+    const currency = await getUserCurrency(userId);
+    const metrics = await calculatePortfolioMetrics(portfolio.id, currency);
 
     // Get asset count
     const { count: assetCount } = await supabase
@@ -232,9 +790,17 @@ async function handleGetPortfolio(portfolioId: string, userId: string) {
         description: portfolio.description,
         isDefault: portfolio.is_default,
         createdAt: portfolio.created_at,
+        currency,
         totalValue: metrics.totalValue,
+        assetsValue: metrics.assetsValue,
         totalCost: metrics.totalCost,
         performance: metrics.performance,
+        cashBalance: metrics.cashBalance,
+        cashBalances: metrics.cashBalances,
+        netContributions: metrics.netContributions,
+        incomeReceived: metrics.incomeReceived,
+        totalReturn: metrics.totalReturn,
+        totalReturnPercent: metrics.totalReturnPercent,
         assetCount: assetCount || 0,
       },
     });
@@ -305,7 +871,7 @@ async function handleUpdatePortfolio(req: Request, portfolioId: string, userId:
     }
 
     // Calculate metrics
-    const metrics = await calculatePortfolioMetrics(portfolio.id);
+    const metrics = await calculatePortfolioMetrics(portfolio.id, await getUserCurrency(userId));
 
     return jsonResponse({
       success: true,
@@ -379,36 +945,1028 @@ async function handleDeletePortfolio(portfolioId: string, userId: string) {
   }
 }
 
-// =====================================================
-// Main Request Handler
-// =====================================================
+/**
+ * GET /portfolio-handler/:id/gains
+ * Realized and unrealized gain/loss for every asset in a portfolio
+ * Query params: method (fifo, lifo, average, specific_lot), year (YYYY)
+ */
+async function handleGetPortfolioGains(portfolioId: string, userId: string, searchParams: URLSearchParams) {
+  try {
+    const year = searchParams.get("year");
+    if (year && !/^\d{4}$/.test(year)) {
+      return errorResponse("Invalid year. Use YYYY");
+    }
 
-serve(async (req: Request) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
+    const { method, error: methodError } = await resolveCostBasisMethod(supabase, userId, searchParams.get("method"));
+    if (!method) {
+      return errorResponse(methodError!);
+    }
+
+    const { data: portfolio, error: portfolioError } = await supabase
+      .from("portfolios")
+      .select("id, name")
+      .eq("id", portfolioId)
+      .eq("user_id", userId)
+      .single();
+
+    if (portfolioError || !portfolio) {
+      return errorResponse("Portfolio not found", 404);
+    }
+
+    const { data: assets, error: assetsError } = await supabase
+      .from("assets")
+      .select("id, symbol, name, asset_type, purchase_price, current_price, currency")
+      .eq("portfolio_id", portfolioId)
+      .eq("user_id", userId);
+
+    if (assetsError) {
+      console.error("Error fetching assets for gains:", assetsError);
+      return errorResponse("Failed to fetch assets", 500);
+    }
+
+    const assetIds = (assets || []).map((a) => a.id);
+    const { data: transactions, error: transactionsError } = assetIds.length > 0
+      ? await supabase
+        .from("transactions")
+        .select("*")
+        .in("asset_id", assetIds)
+        .eq("user_id", userId)
+        .order("transaction_date", { ascending: true })
+        .order("created_at", { ascending: true })
+      : { data: [], error: null };
+
+    if (transactionsError) {
+      console.error("Error fetching transactions for gains:", transactionsError);
+      return errorResponse("Failed to fetch transactions", 500);
+    }
+
+    const assetGains: Record<string, unknown>[] = [];
+    const allRealized: RealizedLot[] = [];
+    const allUnrealized: UnrealizedLot[] = [];
+    const byYear: Record<string, GainSummary> = {};
+
+    for (const asset of assets || []) {
+      const assetTransactions = (transactions || []).filter((t) => t.asset_id === asset.id) as LotTransaction[];
+      const currentPrice = Number(asset.current_price ?? asset.purchase_price);
+
+      let report: GainsReport;
+      try {
+        report = buildGainsReport(assetTransactions, method, currentPrice, {
+          year: year ? Number(year) : undefined,
+        });
+      } catch (error) {
+        if (error instanceof LedgerError) {
+          return errorResponse(`${asset.name}: ${error.message}`, 409);
+        }
+        throw error;
+      }
+
+      allRealized.push(...report.realized);
+      allUnrealized.push(...report.unrealized);
+
+      for (const [reportYear, yearSummary] of Object.entries(report.byYear)) {
+        const totals = byYear[reportYear] || { shortTerm: 0, longTerm: 0, total: 0 };
+        byYear[reportYear] = {
+          shortTerm: Number((totals.shortTerm + yearSummary.shortTerm).toFixed(2)),
+          longTerm: Number((totals.longTerm + yearSummary.longTerm).toFixed(2)),
+          total: Number((totals.total + yearSummary.total).toFixed(2)),
+        };
+      }
+
+      assetGains.push({
+        assetId: asset.id,
+        symbol: asset.symbol,
+        name: asset.name,
+        assetType: asset.asset_type,
+        currency: asset.currency || FX_BASE_CURRENCY,
+        realized: report.summary.realized,
+        unrealized: report.summary.unrealized,
+        proceeds: report.summary.proceeds,
+        costBasisSold: report.summary.costBasisSold,
+      });
+    }
+
+    const realized = summarizeGains(allRealized);
+    const unrealized = summarizeGains(allUnrealized);
+
+    return jsonResponse({
+      success: true,
+      portfolioId: portfolio.id,
+      name: portfolio.name,
+      method,
+      year: year ? Number(year) : null,
+      summary: {
+        realized,
+        unrealized,
+        proceeds: Number(allRealized.reduce((sum, r) => sum + r.proceeds, 0).toFixed(2)),
+        costBasisSold: Number(allRealized.reduce((sum, r) => sum + r.costBasis, 0).toFixed(2)),
+      },
+      byYear,
+      assets: assetGains,
+    });
+  } catch (error) {
+    console.error("Get portfolio gains handler error:", error);
+    return errorResponse("Internal server error", 500);
   }
+}
 
+/**
+ * GET /portfolio-handler/:id/history?range={1D|1W|1M|3M|1Y|ALL}
+ * Portfolio value history from daily snapshots
+ * Defaults to the user's default_chart_view
+ */
+async function handleGetPortfolioHistory(portfolioId: string, userId: string, searchParams: URLSearchParams) {
   try {
-    // Authenticate request using shared auth module
-    let user;
-    try {
-      user = await authenticateRequest(req);
-    } catch (error) {
-      return errorResponse(error.message, 401);
+    const { data: portfolio, error: portfolioError } = await supabase
+      .from("portfolios")
+      .select("id, name")
+      .eq("id", portfolioId)
+      .eq("user_id", userId)
+      .single();
+
+    if (portfolioError || !portfolio) {
+      return errorResponse("Portfolio not found", 404);
     }
 
-    const url = new URL(req.url);
-    const path = url.pathname;
-    const pathParts = path.split("/").filter(Boolean);
+    let range = searchParams.get("range");
+    if (range && !isValidHistoryRange(range)) {
+      return errorResponse(`Invalid range. Must be one of: ${HISTORY_RANGES.join(", ")}`);
+    }
 
-    // Route requests
-    if (path.endsWith("/create") && req.method === "POST") {
-      return await handleCreatePortfolio(req, user.id);
+    if (!range) {
+      const { data: profile } = await supabase
+        .from("user_profiles")
+        .select("default_chart_view")
+        .eq("id", userId)
+        .single();
+      range = profile?.default_chart_view && isValidHistoryRange(profile.default_chart_view)
+        ? profile.default_chart_view
+        : "1M";
     }
 
-    if (path.endsWith("/list") && req.method === "GET") {
-      return await handleListPortfolios(user.id);
+    const today = new Date().toISOString().split("T")[0];
+    const startDate = getRangeStartDate(range as HistoryRange, today);
+
+    const snapshots = await fetchSnapshots([portfolioId], userId, startDate);
+    if (!snapshots) {
+      return errorResponse("Failed to fetch portfolio history", 500);
+    }
+
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+    const startValue = first ? Number(first.total_value) : 0;
+    const endValue = last ? Number(last.total_value) : 0;
+    const change = endValue - startValue;
+
+    return jsonResponse({
+      success: true,
+      portfolioId: portfolio.id,
+      name: portfolio.name,
+      range,
+      startDate: first?.snapshot_date ?? startDate,
+      endDate: last?.snapshot_date ?? today,
+      currency: last?.currency ?? await getUserCurrency(userId),
+      change: Number(change.toFixed(2)),
+      changePercent: startValue > 0 ? Number(((change / startValue) * 100).toFixed(2)) : 0,
+      history: snapshots.map((snapshot) => ({
+        date: snapshot.snapshot_date,
+        totalValue: Number(snapshot.total_value),
+        assetsValue: Number(snapshot.assets_value),
+        costBasis: Number(snapshot.cost_basis),
+        cashBalance: Number(snapshot.cash_balance),
+        netContributions: Number(snapshot.net_contributions),
+      })),
+    });
+  } catch (error) {
+    console.error("Get portfolio history handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * GET /portfolio-handler/:id/returns?start={YYYY-MM-DD}&end={YYYY-MM-DD}&range={1D|1W|1M|3M|1Y|ALL}
+ * Time-weighted and money-weighted returns from daily snapshots
+ */
+async function handleGetPortfolioReturns(portfolioId: string, userId: string, searchParams: URLSearchParams) {
+  try {
+    const { data: portfolio, error: portfolioError } = await supabase
+      .from("portfolios")
+      .select("id, name")
+      .eq("id", portfolioId)
+      .eq("user_id", userId)
+      .single();
+
+    if (portfolioError || !portfolio) {
+      return errorResponse("Portfolio not found", 404);
+    }
+
+    const { startDate, endDate, error: windowError } = resolveReturnsWindow(searchParams);
+    if (windowError) {
+      return errorResponse(windowError);
+    }
+
+    const snapshots = await fetchSnapshots([portfolioId], userId, startDate!, endDate);
+    if (!snapshots) {
+      return errorResponse("Failed to fetch portfolio history", 500);
+    }
+
+    const currency = await getUserCurrency(userId);
+    const valuations = snapshots.map((snapshot) => ({
+      date: snapshot.snapshot_date as string,
+      value: Number(snapshot.total_value),
+    }));
+    const flows = await fetchExternalFlows([portfolioId], currency);
+
+    return jsonResponse({
+      success: true,
+      portfolioId: portfolio.id,
+      name: portfolio.name,
+      currency,
+      returns: summarizeReturns(valuations, flows),
+    });
+  } catch (error) {
+    console.error("Get portfolio returns handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * GET /portfolio-handler/returns?start={YYYY-MM-DD}&end={YYYY-MM-DD}&range={1D|1W|1M|3M|1Y|ALL}
+ * Returns for each portfolio and for all of the user's portfolios combined
+ */
+async function handleGetAggregateReturns(userId: string, searchParams: URLSearchParams) {
+  try {
+    const { startDate, endDate, error: windowError } = resolveReturnsWindow(searchParams);
+    if (windowError) {
+      return errorResponse(windowError);
+    }
+
+    const { data: portfolios, error: portfoliosError } = await supabase
+      .from("portfolios")
+      .select("id, name")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (portfoliosError) {
+      console.error("Error fetching portfolios:", portfoliosError);
+      return errorResponse("Failed to fetch portfolios", 500);
+    }
+
+    const currency = await getUserCurrency(userId);
+
+    if (!portfolios || portfolios.length === 0) {
+      return jsonResponse({ success: true, currency, aggregate: summarizeReturns([], []), portfolios: [] });
+    }
+
+    const portfolioIds = portfolios.map((p) => p.id);
+    const snapshots = await fetchSnapshots(portfolioIds, userId, startDate!, endDate);
+    if (!snapshots) {
+      return errorResponse("Failed to fetch portfolio history", 500);
+    }
+
+    const valuationsById = new Map<string, Valuation[]>();
+    for (const snapshot of snapshots) {
+      const series = valuationsById.get(snapshot.portfolio_id as string) || [];
+      series.push({ date: snapshot.snapshot_date as string, value: Number(snapshot.total_value) });
+      valuationsById.set(snapshot.portfolio_id as string, series);
+    }
+
+    // One flow query for all portfolios, then per-portfolio for the breakdown
+    const aggregateFlows = await fetchExternalFlows(portfolioIds, currency);
+    const portfolioReturns: Record<string, unknown>[] = [];
+    for (const portfolio of portfolios) {
+      const flows = await fetchExternalFlows([portfolio.id], currency);
+      portfolioReturns.push({
+        portfolioId: portfolio.id,
+        name: portfolio.name,
+        ...summarizeReturns(valuationsById.get(portfolio.id) || [], flows),
+      });
+    }
+
+    return jsonResponse({
+      success: true,
+      currency,
+      aggregate: summarizeReturns(combineValuations([...valuationsById.values()]), aggregateFlows),
+      portfolios: portfolioReturns,
+    });
+  } catch (error) {
+    console.error("Get aggregate returns handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * GET /portfolio-handler/:id/compare?benchmark={spy|60-40|btc|gold|<benchmark id>}&start=&end=&range=
+ * Portfolio vs benchmark, both indexed to 100 on the same start date
+ * The portfolio series is its asset value rebuilt from quantities and
+ * price_history, with transactions removed as flows (time-weighted)
+ */
+async function handleComparePortfolio(portfolioId: string, userId: string, searchParams: URLSearchParams) {
+  try {
+    const { data: portfolio, error: portfolioError } = await supabase
+      .from("portfolios")
+      .select("id, name")
+      .eq("id", portfolioId)
+      .eq("user_id", userId)
+      .single();
+
+    if (portfolioError || !portfolio) {
+      return errorResponse("Portfolio not found", 404);
+    }
+
+    const benchmark = await resolveBenchmark(searchParams.get("benchmark") || "spy", userId);
+    if (!benchmark) {
+      return errorResponse("Benchmark not found", 404);
+    }
+
+    const { startDate, endDate, error: windowError } = resolveReturnsWindow(searchParams);
+    if (windowError) {
+      return errorResponse(windowError);
+    }
+
+    const currency = await getUserCurrency(userId);
+    const series = await buildAssetValueSeries(portfolioId, currency, endDate!);
+
+    // Start on the later of the window start and the first funded day
+    const firstFunded = series.valuations.findIndex((v) => v.value > 0 && (!startDate || v.date >= startDate));
+    const valuations = firstFunded === -1 ? [] : series.valuations.slice(firstFunded);
+
+    if (valuations.length < 2) {
+      return jsonResponse({
+        success: true,
+        portfolioId: portfolio.id,
+        name: portfolio.name,
+        currency,
+        benchmark,
+        startDate: valuations[0]?.date ?? null,
+        endDate: valuations[0]?.date ?? null,
+        series: [],
+        comparison: null,
+      });
+    }
+
+    const dates = valuations.map((v) => v.date);
+    const pricesByComponent: Record<string, Awaited<ReturnType<typeof getBenchmarkPrices>>> = {};
+    for (const component of benchmark.components) {
+      // Look back a week so the start date has a prior close over weekends
+      pricesByComponent[componentKey(component)] = await getBenchmarkPrices(
+        supabase,
+        component,
+        addDays(dates[0], -7),
+        dates[dates.length - 1],
+        priceProviders
+      );
+    }
+
+    const benchmarkIndex = buildCompositeIndex(benchmark.components, pricesByComponent, dates);
+    if (!benchmarkIndex) {
+      return errorResponse("Benchmark prices unavailable", 503);
+    }
+
+    const portfolioIndex = buildReturnIndex(valuations, series.flows);
+    const stats = calculateComparisonStats(portfolioIndex, benchmarkIndex);
+    const toPercent = (value: number) => Number((value * 100).toFixed(2));
+
+    return jsonResponse({
+      success: true,
+      portfolioId: portfolio.id,
+      name: portfolio.name,
+      currency,
+      benchmark,
+      startDate: dates[0],
+      endDate: dates[dates.length - 1],
+      series: valuations.map((valuation, i) => ({
+        date: valuation.date,
+        portfolioValue: valuation.value,
+        portfolioIndex: Number(portfolioIndex[i].value.toFixed(2)),
+        benchmarkIndex: Number(benchmarkIndex[i].value.toFixed(2)),
+      })),
+      comparison: stats
+        ? {
+          portfolioReturn: toPercent(stats.portfolioReturn),
+          benchmarkReturn: toPercent(stats.benchmarkReturn),
+          excessReturn: toPercent(stats.excessReturn),
+          alpha: toPercent(stats.alpha),
+          beta: Number(stats.beta.toFixed(2)),
+          trackingError: toPercent(stats.trackingError),
+        }
+        : null,
+    });
+  } catch (error) {
+    console.error("Compare portfolio handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * GET /portfolio-handler/:id/cash
+ * Cash balances by currency, net contributions and cash transactions
+ */
+async function handleListCash(portfolioId: string, userId: string) {
+  try {
+    const { data: portfolio, error: portfolioError } = await supabase
+      .from("portfolios")
+      .select("id")
+      .eq("id", portfolioId)
+      .eq("user_id", userId)
+      .single();
+
+    if (portfolioError || !portfolio) {
+      return errorResponse("Portfolio not found", 404);
+    }
+
+    const { data: transactions, error: transactionsError } = await supabase
+      .from("cash_transactions")
+      .select("*")
+      .eq("portfolio_id", portfolioId)
+      .eq("user_id", userId)
+      .order("transaction_date", { ascending: false })
+      .order("created_at", { ascending: false });
+
+    if (transactionsError) {
+      console.error("Error fetching cash transactions:", transactionsError);
+      return errorResponse("Failed to fetch cash transactions", 500);
+    }
+
+    const currency = await getUserCurrency(userId);
+    const cash = await calculatePortfolioCash(portfolioId, currency);
+
+    return jsonResponse({
+      success: true,
+      currency,
+      ...cash,
+      transactions: transactions.map(formatCashTransaction),
+    });
+  } catch (error) {
+    console.error("List cash handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * POST /portfolio-handler/:id/cash
+ * Record a deposit, withdrawal or fee
+ * Body: { transaction_type, amount, currency?, transaction_date, notes? }
+ */
+async function handleCreateCashTransaction(req: Request, portfolioId: string, userId: string) {
+  try {
+    const body = await req.json();
+
+    if (!MANUAL_CASH_TRANSACTION_TYPES.includes(body.transaction_type)) {
+      return errorResponse(`Invalid transaction type. Must be one of: ${MANUAL_CASH_TRANSACTION_TYPES.join(", ")}`);
+    }
+
+    if (body.amount === undefined || isNaN(Number(body.amount)) || Number(body.amount) <= 0) {
+      return errorResponse("Amount must be a positive number");
+    }
+
+    if (!body.transaction_date || typeof body.transaction_date !== "string" || !isValidDate(body.transaction_date)) {
+      return errorResponse("Transaction date is required (YYYY-MM-DD format)");
+    }
+
+    if (body.currency !== undefined && !isValidCurrencyCode(body.currency)) {
+      return errorResponse("Currency must be a 3-letter code (e.g., USD, EUR)");
+    }
+
+    const { data: portfolio, error: portfolioError } = await supabase
+      .from("portfolios")
+      .select("id")
+      .eq("id", portfolioId)
+      .eq("user_id", userId)
+      .single();
+
+    if (portfolioError || !portfolio) {
+      return errorResponse("Portfolio not found", 404);
+    }
+
+    const currency = body.currency || await getUserCurrency(userId);
+    const amount = Number(body.amount);
+
+    // Withdrawals and fees cannot overdraw the currency balance
+    if (cashDirection(body.transaction_type) < 0) {
+      const { data: existing } = await supabase
+        .from("cash_transactions")
+        .select("transaction_type, currency, amount")
+        .eq("portfolio_id", portfolioId)
+        .eq("currency", currency);
+
+      const balance = summarizeCash(existing || []).balances[currency] || 0;
+      if (amount > balance) {
+        return errorResponse(`Insufficient ${currency} cash balance (${balance} available)`);
+      }
+    }
+
+    const { data: transaction, error: createError } = await supabase
+      .from("cash_transactions")
+      .insert({
+        portfolio_id: portfolioId,
+        user_id: userId,
+        transaction_type: body.transaction_type,
+        currency,
+        amount,
+        transaction_date: body.transaction_date,
+        notes: body.notes || null,
+      })
+      .select()
+      .single();
+
+    if (createError) {
+      console.error("Error creating cash transaction:", createError);
+      return errorResponse("Failed to record cash transaction", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "Cash transaction recorded successfully",
+      transaction: formatCashTransaction(transaction),
+    }, 201);
+  } catch (error) {
+    console.error("Create cash transaction handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * DELETE /portfolio-handler/:id/cash/:transactionId
+ * Delete a deposit, withdrawal or fee
+ * Settlements are removed with the asset transaction or income that created them
+ */
+async function handleDeleteCashTransaction(portfolioId: string, transactionId: string, userId: string) {
+  try {
+    const { data: transaction, error: fetchError } = await supabase
+      .from("cash_transactions")
+      .select("id, transaction_type")
+      .eq("id", transactionId)
+      .eq("portfolio_id", portfolioId)
+      .eq("user_id", userId)
+      .single();
+
+    if (fetchError || !transaction) {
+      return errorResponse("Cash transaction not found", 404);
+    }
+
+    if (!MANUAL_CASH_TRANSACTION_TYPES.includes(transaction.transaction_type)) {
+      return errorResponse(
+        "This cash transaction settles an asset transaction or income. Delete that record instead.",
+        409
+      );
+    }
+
+    const { error: deleteError } = await supabase
+      .from("cash_transactions")
+      .delete()
+      .eq("id", transactionId)
+      .eq("user_id", userId);
+
+    if (deleteError) {
+      console.error("Error deleting cash transaction:", deleteError);
+      return errorResponse("Failed to delete cash transaction", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "Cash transaction deleted successfully",
+    });
+  } catch (error) {
+    console.error("Delete cash transaction handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * GET /portfolio-handler/:id/targets
+ * Target allocation model
+ */
+async function handleGetTargets(portfolioId: string, userId: string) {
+  try {
+    const { data: model, error } = await supabase
+      .from("portfolio_targets")
+      .select("*")
+      .eq("portfolio_id", portfolioId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching target allocation:", error);
+      return errorResponse("Failed to fetch target allocation", 500);
+    }
+
+    if (!model) {
+      return errorResponse("No target allocation set for this portfolio", 404);
+    }
+
+    return jsonResponse({
+      success: true,
+      targetAllocation: formatTargetAllocation(model),
+    });
+  } catch (error) {
+    console.error("Get targets handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * PUT /portfolio-handler/:id/targets
+ * Set (replace) the target allocation model
+ * Body: { dimension: asset|asset_type|sector|country, targets: [{ key, weight }] }
+ * Weights are percentages summing to 100; asset keys are asset ids
+ */
+async function handleSetTargets(req: Request, portfolioId: string, userId: string) {
+  try {
+    const body = await req.json();
+
+    const validation = validateAllocationTargets(body.dimension, body.targets);
+    if (!validation.valid) {
+      return errorResponse(validation.error!);
+    }
+
+    const { data: portfolio, error: portfolioError } = await supabase
+      .from("portfolios")
+      .select("id")
+      .eq("id", portfolioId)
+      .eq("user_id", userId)
+      .single();
+
+    if (portfolioError || !portfolio) {
+      return errorResponse("Portfolio not found", 404);
+    }
+
+    const targets: AllocationTarget[] = body.targets.map((t: AllocationTarget) => ({
+      key: t.key.trim(),
+      weight: t.weight,
+    }));
+
+    // Asset targets must be assets in this portfolio
+    if (body.dimension === "asset") {
+      const { data: assets, error: assetsError } = await supabase
+        .from("assets")
+        .select("id")
+        .eq("portfolio_id", portfolioId)
+        .in("id", targets.map((t) => t.key));
+
+      if (assetsError) {
+        console.error("Error verifying target assets:", assetsError);
+        return errorResponse("Failed to verify target assets", 500);
+      }
+
+      if ((assets || []).length !== targets.length) {
+        return errorResponse("Asset targets must be assets in this portfolio");
+      }
+    }
+
+    const { data: model, error: upsertError } = await supabase
+      .from("portfolio_targets")
+      .upsert(
+        { portfolio_id: portfolioId, user_id: userId, dimension: body.dimension, targets },
+        { onConflict: "portfolio_id" }
+      )
+      .select()
+      .single();
+
+    if (upsertError) {
+      console.error("Error saving target allocation:", upsertError);
+      return errorResponse("Failed to save target allocation", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "Target allocation saved successfully",
+      targetAllocation: formatTargetAllocation(model),
+    });
+  } catch (error) {
+    console.error("Set targets handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * DELETE /portfolio-handler/:id/targets
+ * Remove the target allocation model
+ */
+async function handleDeleteTargets(portfolioId: string, userId: string) {
+  try {
+    const { error } = await supabase
+      .from("portfolio_targets")
+      .delete()
+      .eq("portfolio_id", portfolioId)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error deleting target allocation:", error);
+      return errorResponse("Failed to delete target allocation", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "Target allocation deleted successfully",
+    });
+  } catch (error) {
+    console.error("Delete targets handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * GET /portfolio-handler/:id/goals
+ * Savings goals with their latest evaluation
+ */
+async function handleListGoals(portfolioId: string, userId: string) {
+  try {
+    const { data: goals, error } = await supabase
+      .from("portfolio_goals")
+      .select("*")
+      .eq("portfolio_id", portfolioId)
+      .eq("user_id", userId)
+      .order("target_date", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching goals:", error);
+      return errorResponse("Failed to fetch goals", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      currency: await getUserCurrency(userId),
+      goals: goals.map(formatGoal),
+    });
+  } catch (error) {
+    console.error("List goals handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * POST /portfolio-handler/:id/goals
+ * Create a savings goal
+ * Body: { name, target_amount, target_date, monthly_contribution? }
+ * Amounts are in the user's preferred currency, which is stored with the goal
+ */
+async function handleCreateGoal(req: Request, portfolioId: string, userId: string) {
+  try {
+    const body = await req.json();
+
+    const validation = validateGoal(body, new Date().toISOString().split("T")[0]);
+    if (!validation.valid) {
+      return errorResponse(validation.error!);
+    }
+
+    const { data: portfolio, error: portfolioError } = await supabase
+      .from("portfolios")
+      .select("id")
+      .eq("id", portfolioId)
+      .eq("user_id", userId)
+      .single();
+
+    if (portfolioError || !portfolio) {
+      return errorResponse("Portfolio not found", 404);
+    }
+
+    const currency = await getUserCurrency(userId);
+
+    const { data: goal, error: createError } = await supabase
+      .from("portfolio_goals")
+      .insert({
+        portfolio_id: portfolioId,
+        user_id: userId,
+        name: body.name.trim(),
+        currency,
+        target_amount: body.target_amount,
+        target_date: body.target_date,
+        monthly_contribution: body.monthly_contribution ?? 0,
+      })
+      .select()
+      .single();
+
+    if (createError) {
+      console.error("Error creating goal:", createError);
+      return errorResponse("Failed to create goal", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "Goal created successfully",
+      goal: formatGoal(goal),
+    }, 201);
+  } catch (error) {
+    console.error("Create goal handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * PUT /portfolio-handler/:id/goals/:goalId
+ * Update a savings goal; its evaluation is cleared until the next projection
+ */
+async function handleUpdateGoal(req: Request, portfolioId: string, goalId: string, userId: string) {
+  try {
+    const body = await req.json();
+
+    const validation = validateGoal(body, new Date().toISOString().split("T")[0], true);
+    if (!validation.valid) {
+      return errorResponse(validation.error!);
+    }
+
+    const updates: Record<string, unknown> = {};
+    if (body.name !== undefined) updates.name = body.name.trim();
+    if (body.target_amount !== undefined) updates.target_amount = body.target_amount;
+    if (body.target_date !== undefined) updates.target_date = body.target_date;
+    if (body.monthly_contribution !== undefined) updates.monthly_contribution = body.monthly_contribution;
+
+    if (Object.keys(updates).length === 0) {
+      return errorResponse("No fields to update");
+    }
+
+    // A new amount, date or contribution invalidates the last evaluation
+    if (Object.keys(updates).some((field) => field !== "name")) {
+      Object.assign(updates, { probability: null, projected_median: null, evaluated_at: null });
+    }
+
+    const { data: goal, error: updateError } = await supabase
+      .from("portfolio_goals")
+      .update(updates)
+      .eq("id", goalId)
+      .eq("portfolio_id", portfolioId)
+      .eq("user_id", userId)
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      console.error("Error updating goal:", updateError);
+      return errorResponse("Failed to update goal", 500);
+    }
+
+    if (!goal) {
+      return errorResponse("Goal not found", 404);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "Goal updated successfully",
+      goal: formatGoal(goal),
+    });
+  } catch (error) {
+    console.error("Update goal handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * DELETE /portfolio-handler/:id/goals/:goalId
+ * Delete a savings goal
+ */
+async function handleDeleteGoal(portfolioId: string, goalId: string, userId: string) {
+  try {
+    const { data: deleted, error } = await supabase
+      .from("portfolio_goals")
+      .delete()
+      .eq("id", goalId)
+      .eq("portfolio_id", portfolioId)
+      .eq("user_id", userId)
+      .select("id");
+
+    if (error) {
+      console.error("Error deleting goal:", error);
+      return errorResponse("Failed to delete goal", 500);
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return errorResponse("Goal not found", 404);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "Goal deleted successfully",
+    });
+  } catch (error) {
+    console.error("Delete goal handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+// =====================================================
+// Main Request Handler
+// =====================================================
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // Authenticate request using shared auth module
+    let user;
+    try {
+      user = await authenticateRequest(req);
+    } catch (error) {
+      return errorResponse(error.message, 401);
+    }
+
+    const url = new URL(req.url);
+    const path = url.pathname;
+    const pathParts = path.split("/").filter(Boolean);
+
+    // Route requests
+    if (path.endsWith("/create") && req.method === "POST") {
+      return await handleCreatePortfolio(req, user.id);
+    }
+
+    if (path.endsWith("/list") && req.method === "GET") {
+      return await handleListPortfolios(user.id);
+    }
+
+    // Route: GET /returns (all portfolios)
+    if (pathParts.length === 2 && pathParts[1] === "returns" && req.method === "GET") {
+      return await handleGetAggregateReturns(user.id, url.searchParams);
+    }
+
+    // Route: GET /:id/returns
+    if (pathParts.length >= 3 && pathParts[pathParts.length - 1] === "returns" && req.method === "GET") {
+      const portfolioId = pathParts[pathParts.length - 2];
+      return await handleGetPortfolioReturns(portfolioId, user.id, url.searchParams);
+    }
+
+    // Route: GET /:id/compare
+    if (pathParts.length >= 3 && pathParts[pathParts.length - 1] === "compare" && req.method === "GET") {
+      const portfolioId = pathParts[pathParts.length - 2];
+      return await handleComparePortfolio(portfolioId, user.id, url.searchParams);
+    }
+
+    // Route: GET /:id/gains
+    if (pathParts.length >= 3 && pathParts[pathParts.length - 1] === "gains" && req.method === "GET") {
+      const portfolioId = pathParts[pathParts.length - 2];
+      return await handleGetPortfolioGains(portfolioId, user.id, url.searchParams);
+    }
+
+    // Route: GET /:id/history
+    if (pathParts.length >= 3 && pathParts[pathParts.length - 1] === "history" && req.method === "GET") {
+      const portfolioId = pathParts[pathParts.length - 2];
+      return await handleGetPortfolioHistory(portfolioId, user.id, url.searchParams);
+    }
+
+    // Handle /:id/targets routes
+    if (pathParts.length >= 3 && pathParts[pathParts.length - 1] === "targets") {
+      const portfolioId = pathParts[pathParts.length - 2];
+
+      if (req.method === "GET") {
+        return await handleGetTargets(portfolioId, user.id);
+      }
+
+      if (req.method === "PUT") {
+        return await handleSetTargets(req, portfolioId, user.id);
+      }
+
+      if (req.method === "DELETE") {
+        return await handleDeleteTargets(portfolioId, user.id);
+      }
+
+      return errorResponse("Route not found", 404);
+    }
+
+    // Handle /:id/goals routes
+    const goalsIndex = pathParts.indexOf("goals");
+    if (goalsIndex >= 2) {
+      const portfolioId = pathParts[goalsIndex - 1];
+      const goalId = pathParts[goalsIndex + 1];
+
+      if (!goalId && req.method === "GET") {
+        return await handleListGoals(portfolioId, user.id);
+      }
+
+      if (!goalId && req.method === "POST") {
+        return await handleCreateGoal(req, portfolioId, user.id);
+      }
+
+      if (goalId && req.method === "PUT") {
+        return await handleUpdateGoal(req, portfolioId, goalId, user.id);
+      }
+
+      if (goalId && req.method === "DELETE") {
+        return await handleDeleteGoal(portfolioId, goalId, user.id);
+      }
+
+      return errorResponse("Route not found", 404);
+    }
+
+    // Handle /:id/cash routes
+    const cashIndex = pathParts.indexOf("cash");
+    if (cashIndex >= 2) {
+      const portfolioId = pathParts[cashIndex - 1];
+      const cashTransactionId = pathParts[cashIndex + 1];
+
+      if (!cashTransactionId && req.method === "GET") {
+        return await handleListCash(portfolioId, user.id);
+      }
+
+      if (!cashTransactionId && req.method === "POST") {
+        return await handleCreateCashTransaction(req, portfolioId, user.id);
+      }
+
+      if (cashTransactionId && req.method === "DELETE") {
+        return await handleDeleteCashTransaction(portfolioId, cashTransactionId, user.id);
+      }
+
+      return errorResponse("Route not found", 404);
     }
 
     // Handle /:id routes
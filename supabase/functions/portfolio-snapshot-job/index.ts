@@ -0,0 +1,479 @@
+// =====================================================
+// Vestpod - Portfolio Snapshot Job Edge Function
+// =====================================================
+// Scheduled job that records daily portfolio history
+// - Writes each portfolio's value, cost basis and cash for today
+// - Converts into the owner's preferred currency; portfolios
+//   holding a currency with no exchange rate are not snapshotted
+// - Backfills earlier days from the transaction ledger and
+//   price_history the first time a portfolio is snapshotted
+// - Runs daily at 11:55 PM UTC via cron trigger
+// Requirements: 2, 6
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { summarizeCash } from "../_shared/cash-ledger.ts";
+import {
+  conversionFactor,
+  convertAssetMetrics,
+  FX_BASE_CURRENCY,
+  getAssetFxFactors,
+  getLatestRates,
+  RateTable,
+} from "../_shared/fx-rates.ts";
+import { addDays, BackfillInput, buildBackfillSnapshots, SnapshotValues } from "../_shared/portfolio-snapshots.ts";
+
+// CORS headers
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Rows per upsert when writing backfilled history
+const SNAPSHOT_BATCH_SIZE = 500;
+
+// Rows per request when reading the ledgers and price_history for a backfill
+const LEDGER_PAGE_SIZE = 1000;
+const PRICE_HISTORY_PAGE_SIZE = 1000;
+
+/**
+ * Portfolio from database
+ */
+interface Portfolio {
+  id: string;
+  user_id: string;
+}
+
+/**
+ * Snapshot result for one portfolio
+ */
+interface SnapshotResult {
+  portfolio_id: string;
+  success: boolean;
+  backfilled_days?: number;
+  unconverted_currencies?: string[];
+  error?: string;
+}
+
+/**
+ * Send JSON response
+ */
+function jsonResponse(data: Record<string, unknown> | { error: string }, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Build snapshot row for database
+ */
+function toSnapshotRow(portfolio: Portfolio, currency: string, values: SnapshotValues, source: "job" | "backfill") {
+  return {
+    portfolio_id: portfolio.id,
+    user_id: portfolio.user_id,
+    snapshot_date: values.snapshotDate,
+    currency,
+    total_value: values.totalValue,
+    assets_value: values.assetsValue,
+    cost_basis: values.costBasis,
+    cash_balance: values.cashBalance,
+    net_contributions: values.netContributions,
+    source,
+  };
+}
+
+/**
+ * Total per-currency amounts in the reporting currency
+ * Amounts without a rate are left out and their currencies returned
+ */
+function convertAmounts(
+  amounts: Record<string, number>,
+  currency: string,
+  rates: RateTable
+): { total: number; unconverted: string[] } {
+  let total = 0;
+  const unconverted: string[] = [];
+
+  for (const [from, amount] of Object.entries(amounts)) {
+    const factor = conversionFactor(from, currency, rates);
+    if (factor !== null) {
+      total += amount * factor;
+    } else if (amount !== 0) {
+      unconverted.push(from);
+    }
+  }
+
+  return { total, unconverted };
+}
+
+/**
+ * Calculate today's snapshot from current asset prices and cash
+ * Also returns currencies that could not be converted
+ */
+async function calculateCurrentSnapshot(
+  supabase: ReturnType<typeof createClient>,
+  portfolioId: string,
+  currency: string,
+  rates: RateTable,
+  exchangeRateApiKey: string,
+  today: string
+): Promise<{ values: SnapshotValues; unconvertedCurrencies: string[] }> {
+  const { data: assets, error: assetsError } = await supabase
+    .from("assets")
+    .select("id, quantity, purchase_price, current_price, purchase_date, currency")
+    .eq("portfolio_id", portfolioId);
+
+  if (assetsError) {
+    throw new Error(`Failed to fetch assets: ${assetsError.message}`);
+  }
+
+  const factors = await getAssetFxFactors(supabase, assets || [], currency, exchangeRateApiKey);
+  const unconvertedCurrencies = new Set<string>();
+
+  let assetsValue = 0;
+  let costBasis = 0;
+  for (const asset of assets || []) {
+    const assetFactors = factors.get(asset.id);
+    if (!assetFactors) {
+      unconvertedCurrencies.add(asset.currency || FX_BASE_CURRENCY);
+      continue;
+    }
+
+    const metrics = convertAssetMetrics(asset, assetFactors);
+    assetsValue += metrics.totalValue;
+    costBasis += metrics.totalCost;
+  }
+
+  const { data: cashTransactions, error: cashError } = await supabase
+    .from("cash_transactions")
+    .select("transaction_type, currency, amount")
+    .eq("portfolio_id", portfolioId);
+
+  if (cashError) {
+    throw new Error(`Failed to fetch cash transactions: ${cashError.message}`);
+  }
+
+  const { balances, contributions } = summarizeCash(cashTransactions || []);
+  const netByCurrency: Record<string, number> = {};
+  for (const [cashCurrency, totals] of Object.entries(contributions)) {
+    netByCurrency[cashCurrency] = totals.net;
+  }
+
+  const cash = convertAmounts(balances, currency, rates);
+  const contributionsTotal = convertAmounts(netByCurrency, currency, rates);
+  for (const from of [...cash.unconverted, ...contributionsTotal.unconverted]) {
+    unconvertedCurrencies.add(from);
+  }
+
+  return {
+    values: {
+      snapshotDate: today,
+      totalValue: Number((assetsValue + cash.total).toFixed(2)),
+      assetsValue: Number(assetsValue.toFixed(2)),
+      costBasis: Number(costBasis.toFixed(2)),
+      cashBalance: Number(cash.total.toFixed(2)),
+      netContributions: Number(contributionsTotal.total.toFixed(2)),
+    },
+    unconvertedCurrencies: [...unconvertedCurrencies],
+  };
+}
+
+/**
+ * Rebuild history from the first ledger entry up to `toDate`
+ * Past values are converted at today's exchange rates; nothing is
+ * written if any currency in the ledger has no rate
+ */
+async function backfillPortfolio(
+  supabase: ReturnType<typeof createClient>,
+  portfolio: Portfolio,
+  currency: string,
+  rates: RateTable,
+  toDate: string
+): Promise<{ days: number; unconvertedCurrencies: string[] }> {
+  const { data: assets, error: assetsError } = await supabase
+    .from("assets")
+    .select("id, currency, purchase_price")
+    .eq("portfolio_id", portfolio.id);
+
+  if (assetsError) {
+    throw new Error(`Failed to fetch assets: ${assetsError.message}`);
+  }
+
+  const assetIds = (assets || []).map((a) => a.id);
+
+  // The ledgers can exceed the API row limit, so page through them
+  const transactions: BackfillInput["transactions"] = [];
+  for (let from = 0; assetIds.length > 0; from += LEDGER_PAGE_SIZE) {
+    const { data: page, error: transactionsError } = await supabase
+      .from("transactions")
+      .select("asset_id, transaction_type, quantity, price, fees, transaction_date, created_at")
+      .in("asset_id", assetIds)
+      .order("transaction_date", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + LEDGER_PAGE_SIZE - 1);
+
+    if (transactionsError) {
+      throw new Error(`Failed to fetch transactions: ${transactionsError.message}`);
+    }
+
+    transactions.push(...(page || []));
+    if (!page || page.length < LEDGER_PAGE_SIZE) break;
+  }
+
+  // price_history can exceed the API row limit, so page through it
+  const prices: { asset_id: string; price: number; timestamp: string }[] = [];
+  for (let from = 0; assetIds.length > 0; from += PRICE_HISTORY_PAGE_SIZE) {
+    const { data: page, error: pricesError } = await supabase
+      .from("price_history")
+      .select("asset_id, price, timestamp")
+      .in("asset_id", assetIds)
+      .lte("timestamp", `${toDate}T23:59:59Z`)
+      .order("timestamp", { ascending: true })
+      .range(from, from + PRICE_HISTORY_PAGE_SIZE - 1);
+
+    if (pricesError) {
+      throw new Error(`Failed to fetch price history: ${pricesError.message}`);
+    }
+
+    prices.push(...(page || []));
+    if (!page || page.length < PRICE_HISTORY_PAGE_SIZE) break;
+  }
+
+  const cashTransactions: BackfillInput["cashTransactions"] = [];
+  for (let from = 0; ; from += LEDGER_PAGE_SIZE) {
+    const { data: page, error: cashError } = await supabase
+      .from("cash_transactions")
+      .select("transaction_type, currency, amount, transaction_date")
+      .eq("portfolio_id", portfolio.id)
+      .order("transaction_date", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + LEDGER_PAGE_SIZE - 1);
+
+    if (cashError) {
+      throw new Error(`Failed to fetch cash transactions: ${cashError.message}`);
+    }
+
+    cashTransactions.push(...(page || []));
+    if (!page || page.length < LEDGER_PAGE_SIZE) break;
+  }
+
+  const dates = [
+    ...transactions.map((t) => t.transaction_date),
+    ...cashTransactions.map((t) => t.transaction_date),
+  ].sort();
+
+  if (dates.length === 0 || dates[0] > toDate) {
+    return { days: 0, unconvertedCurrencies: [] };
+  }
+
+  const factors: Record<string, number> = {};
+  const unconvertedCurrencies: string[] = [];
+  const currencies = [
+    ...(assets || []).map((a) => a.currency || FX_BASE_CURRENCY),
+    ...cashTransactions.map((t) => t.currency),
+  ];
+  for (const from of new Set(currencies)) {
+    const factor = conversionFactor(from, currency, rates);
+    if (factor === null) {
+      unconvertedCurrencies.push(from);
+    } else {
+      factors[from] = factor;
+    }
+  }
+
+  if (unconvertedCurrencies.length > 0) {
+    return { days: 0, unconvertedCurrencies };
+  }
+
+  const snapshots = buildBackfillSnapshots(
+    {
+      assets: assets || [],
+      transactions,
+      prices,
+      cashTransactions,
+      factors,
+    },
+    dates[0],
+    toDate
+  );
+
+  const rows = snapshots.map((values) => toSnapshotRow(portfolio, currency, values, "backfill"));
+  for (let i = 0; i < rows.length; i += SNAPSHOT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from("portfolio_snapshots")
+      .upsert(rows.slice(i, i + SNAPSHOT_BATCH_SIZE), { onConflict: "portfolio_id,snapshot_date" });
+
+    if (error) {
+      throw new Error(`Failed to store backfilled snapshots: ${error.message}`);
+    }
+  }
+
+  return { days: rows.length, unconvertedCurrencies: [] };
+}
+
+/**
+ * Snapshot a single portfolio, backfilling if it has no history yet
+ * Portfolios that cannot be fully valued are skipped and their
+ * unconverted currencies reported
+ */
+async function snapshotPortfolio(
+  supabase: ReturnType<typeof createClient>,
+  portfolio: Portfolio,
+  currency: string,
+  rates: RateTable,
+  exchangeRateApiKey: string,
+  today: string
+): Promise<SnapshotResult> {
+  const skipped = (unconvertedCurrencies: string[]): SnapshotResult => ({
+    portfolio_id: portfolio.id,
+    success: false,
+    unconverted_currencies: unconvertedCurrencies,
+    error: `No exchange rate for ${unconvertedCurrencies.join(", ")}`,
+  });
+
+  try {
+    const { values, unconvertedCurrencies } = await calculateCurrentSnapshot(
+      supabase,
+      portfolio.id,
+      currency,
+      rates,
+      exchangeRateApiKey,
+      today
+    );
+
+    if (unconvertedCurrencies.length > 0) {
+      return skipped(unconvertedCurrencies);
+    }
+
+    const { count } = await supabase
+      .from("portfolio_snapshots")
+      .select("id", { count: "exact", head: true })
+      .eq("portfolio_id", portfolio.id);
+
+    let backfilledDays = 0;
+    if (!count) {
+      const backfill = await backfillPortfolio(supabase, portfolio, currency, rates, addDays(today, -1));
+      if (backfill.unconvertedCurrencies.length > 0) {
+        return skipped(backfill.unconvertedCurrencies);
+      }
+      backfilledDays = backfill.days;
+    }
+
+    const { error } = await supabase
+      .from("portfolio_snapshots")
+      .upsert(toSnapshotRow(portfolio, currency, values, "job"), { onConflict: "portfolio_id,snapshot_date" });
+
+    if (error) {
+      throw new Error(`Failed to store snapshot: ${error.message}`);
+    }
+
+    return { portfolio_id: portfolio.id, success: true, backfilled_days: backfilledDays };
+  } catch (error) {
+    console.error(`Error snapshotting portfolio ${portfolio.id}:`, error);
+    return { portfolio_id: portfolio.id, success: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Snapshot all portfolios
+ */
+async function processAllPortfolios(
+  supabase: ReturnType<typeof createClient>,
+  exchangeRateApiKey: string
+) {
+  const { data: portfolios, error: portfoliosError } = await supabase
+    .from("portfolios")
+    .select("id, user_id");
+
+  if (portfoliosError) {
+    console.error("Error fetching portfolios:", portfoliosError);
+    throw new Error(`Failed to fetch portfolios: ${portfoliosError.message}`);
+  }
+
+  if (!portfolios || portfolios.length === 0) {
+    return { total_portfolios: 0, snapshots_written: 0, backfilled_days: 0, results: [] };
+  }
+
+  // Reporting currency per owner
+  const userIds = [...new Set(portfolios.map((p) => p.user_id))];
+  const { data: profiles } = await supabase
+    .from("user_profiles")
+    .select("id, currency_preference")
+    .in("id", userIds);
+
+  const currencyByUser = new Map<string, string>();
+  for (const profile of profiles || []) {
+    currencyByUser.set(profile.id, profile.currency_preference || "USD");
+  }
+
+  const today = new Date().toISOString().split("T")[0];
+  const rates = await getLatestRates(supabase, exchangeRateApiKey);
+
+  console.log(`Snapshotting ${portfolios.length} portfolios`);
+
+  const results: SnapshotResult[] = [];
+  for (const portfolio of portfolios as Portfolio[]) {
+    const currency = currencyByUser.get(portfolio.user_id) || "USD";
+    results.push(await snapshotPortfolio(supabase, portfolio, currency, rates, exchangeRateApiKey, today));
+  }
+
+  return {
+    total_portfolios: portfolios.length,
+    snapshots_written: results.filter((r) => r.success).length,
+    backfilled_days: results.reduce((sum, r) => sum + (r.backfilled_days || 0), 0),
+    results,
+  };
+}
+
+// =====================================================
+// Main Request Handler
+// =====================================================
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // Get Supabase configuration
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const exchangeRateApiKey = Deno.env.get("EXCHANGE_RATE_API_KEY") || "";
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: "Supabase configuration missing" }, 500);
+    }
+
+    // Create Supabase client with service role key (bypasses RLS)
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const startTime = Date.now();
+
+    const result = await processAllPortfolios(supabase, exchangeRateApiKey);
+
+    const duration = Date.now() - startTime;
+
+    console.log(`Portfolio snapshot job completed in ${duration}ms`);
+    console.log(`  Total portfolios: ${result.total_portfolios}`);
+    console.log(`  Snapshots written: ${result.snapshots_written}`);
+    console.log(`  Backfilled days: ${result.backfilled_days}`);
+
+    return jsonResponse({
+      success: true,
+      ...result,
+      duration_ms: duration,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Portfolio snapshot job error:", error);
+    return jsonResponse(
+      {
+        error: "Portfolio snapshot job failed",
+        message: (error as Error).message,
+      },
+      500
+    );
+  }
+});
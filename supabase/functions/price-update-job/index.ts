@@ -2,32 +2,35 @@
 // Vestpod - Automated Price Update Job Edge Function
 // =====================================================
 // Scheduled job that updates prices for all user assets
-// - Fetches prices for stocks, crypto, commodities
+// - Fetches prices for stocks, crypto, commodities through
+//   the price provider registry (with fallback providers)
+// - Fetches each unique symbol once per cycle via the shared
+//   quote cache and fans the quote out to every holder
 // - Respects premium vs free user update frequency
 // - Stores price history for charts
+// - Evaluates alerts on assets whose price changed right away
+//   (alert-checker-job covers maturity reminders)
 // - Handles batch operations efficiently
 // Requirements: 5, 15
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 import {
-  fetchBatchQuotes as fetchStockBatch,
-  MassiveAPIError,
-} from "../_shared/massive-client.ts";
+  createPriceProviderRegistry,
+  PRICED_ASSET_TYPES,
+  PricedAssetType,
+} from "../_shared/price-providers.ts";
 import {
-  fetchBatchQuotes as fetchAlphaVantageBatch,
-  AlphaVantageAPIError,
-  RateLimitError,
-} from "../_shared/alphavantage-client.ts";
-import {
-  fetchBatchQuotesBySymbols as fetchCryptoBatch,
-  CoinCapAPIError,
-} from "../_shared/coincap-client.ts";
-import {
-  fetchBatchQuotes as fetchCommodityBatch,
-  CommoditySymbol,
-  GoldAPIError,
-} from "../_shared/goldapi-client.ts";
+  CachedQuote,
+  getQuotes,
+  persistCoinList,
+  QuoteRequest,
+  quoteCacheKey,
+  restoreCoinList,
+} from "../_shared/quote-cache.ts";
+import { getCoinListSnapshot } from "../_shared/coincap-client.ts";
+import { AlertEvaluationOptions, evaluateAlertsForAssets } from "../_shared/alert-evaluator.ts";
+import { createPushTransports } from "../_shared/push-notifications.ts";
 
 // CORS headers
 const corsHeaders = {
@@ -35,6 +38,9 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Push transports for triggered alerts (FCM/APNs credentials from the environment)
+const pushTransports = createPushTransports();
+
 /**
  * Asset from database
  */
@@ -67,10 +73,22 @@ interface PriceUpdateResult {
   old_price: number | null;
   new_price: number;
   source: string;
+  fetched_at: string;
   success: boolean;
   error?: string;
 }
 
+/**
+ * Per-user job summary
+ */
+interface UserUpdateSummary {
+  user_id: string;
+  success: boolean;
+  assets_updated?: number;
+  assets_failed?: number;
+  [key: string]: unknown;
+}
+
 /**
  * Send JSON response
  */
@@ -97,7 +115,7 @@ async function getUsersNeedingUpdates(supabase: ReturnType<typeof createClient>)
     return [];
   }
 
-  const usersNeedingUpdate: string[] = [];
+  const usersNeedingUpdate: UserSubscription[] = [];
 
   for (const sub of subscriptions as UserSubscription[]) {
     // Get user's assets to check last update time
@@ -120,7 +138,7 @@ async function getUsersNeedingUpdates(supabase: ReturnType<typeof createClient>)
 
     // Check if update is needed based on frequency
     if (minutesSinceUpdate >= sub.price_update_frequency_minutes) {
-      usersNeedingUpdate.push(sub.user_id);
+      usersNeedingUpdate.push(sub);
     }
   }
 
@@ -128,216 +146,72 @@ async function getUsersNeedingUpdates(supabase: ReturnType<typeof createClient>)
 }
 
 /**
- * Fetch and update stock prices
+ * Fetch listed assets for a user
  */
-async function updateStockPrices(
-  assets: Asset[],
-  massiveApiKey: string,
-  alphaVantageApiKey: string
-): Promise<PriceUpdateResult[]> {
-  const results: PriceUpdateResult[] = [];
-  const symbols = assets.map((a) => a.symbol!).filter((s) => s);
-
-  if (symbols.length === 0) {
-    return results;
-  }
-
-  let stockResults: Map<string, unknown> | null = null;
-  let source = "massive";
-
-  // Try Massive.com first
-  try {
-    stockResults = await fetchStockBatch(symbols, massiveApiKey);
-  } catch (error) {
-    console.log("Massive.com batch failed, trying Alpha Vantage:", error);
-    
-    // Fallback to Alpha Vantage
-    try {
-      stockResults = await fetchAlphaVantageBatch(symbols, alphaVantageApiKey);
-      source = "alphavantage";
-    } catch (fallbackError) {
-      console.error("Both stock APIs failed:", fallbackError);
-    }
-  }
-
-  if (!stockResults) {
-    // Mark all as failed
-    for (const asset of assets) {
-      results.push({
-        asset_id: asset.id,
-        symbol: asset.symbol!,
-        old_price: asset.current_price,
-        new_price: 0,
-        source: "none",
-        success: false,
-        error: "All stock APIs unavailable",
-      });
-    }
-    return results;
-  }
-
-  // Process results
-  for (const asset of assets) {
-    const result = stockResults.get(asset.symbol!);
-
-    if (result instanceof Error) {
-      results.push({
-        asset_id: asset.id,
-        symbol: asset.symbol!,
-        old_price: asset.current_price,
-        new_price: 0,
-        source,
-        success: false,
-        error: result.message,
-      });
-    } else if (result && typeof result === "object" && "price" in result) {
-      results.push({
-        asset_id: asset.id,
-        symbol: asset.symbol!,
-        old_price: asset.current_price,
-        new_price: (result as { price: number }).price,
-        source,
-        success: true,
-      });
-    }
-  }
+async function getUserAssets(supabase: ReturnType<typeof createClient>, userId: string) {
+  const { data: assets, error } = await supabase
+    .from("assets")
+    .select("id, user_id, asset_type, symbol, name, current_price, last_price_update, portfolio_id")
+    .eq("user_id", userId)
+    .not("symbol", "is", null);
 
-  return results;
+  return { assets: (assets || []) as Asset[], error };
 }
 
 /**
- * Fetch and update cryptocurrency prices
+ * Check if an asset is priced by the provider registry
  */
-async function updateCryptoPrices(
-  assets: Asset[]
-): Promise<PriceUpdateResult[]> {
-  const results: PriceUpdateResult[] = [];
-  const symbols = assets.map((a) => a.symbol!).filter((s) => s);
-
-  if (symbols.length === 0) {
-    return results;
-  }
-
-  try {
-    const cryptoResults = await fetchCryptoBatch(symbols);
-
-    for (const asset of assets) {
-      const result = cryptoResults.get(asset.symbol!);
-
-      if (result instanceof Error) {
-        results.push({
-          asset_id: asset.id,
-          symbol: asset.symbol!,
-          old_price: asset.current_price,
-          new_price: 0,
-          source: "coincap",
-          success: false,
-          error: result.message,
-        });
-      } else if (result && typeof result === "object" && "price" in result) {
-        results.push({
-          asset_id: asset.id,
-          symbol: asset.symbol!,
-          old_price: asset.current_price,
-          new_price: (result as { price: number }).price,
-          source: "coincap",
-          success: true,
-        });
-      }
-    }
-  } catch (error) {
-    console.error("CoinCap batch failed:", error);
-    
-    // Mark all as failed
-    for (const asset of assets) {
-      results.push({
-        asset_id: asset.id,
-        symbol: asset.symbol!,
-        old_price: asset.current_price,
-        new_price: 0,
-        source: "coincap",
-        success: false,
-        error: (error as Error).message,
-      });
-    }
-  }
-
-  return results;
+function isPricedAsset(asset: Asset): boolean {
+  return !!asset.symbol && (PRICED_ASSET_TYPES as readonly string[]).includes(asset.asset_type);
 }
 
 /**
- * Fetch and update commodity prices
+ * Map this cycle's quotes onto a user's assets
  */
-async function updateCommodityPrices(
-  assets: Asset[]
-): Promise<PriceUpdateResult[]> {
-  const results: PriceUpdateResult[] = [];
-  const symbols = assets.map((a) => a.symbol! as CommoditySymbol).filter((s) => s);
-
-  if (symbols.length === 0) {
-    return results;
-  }
-
-  try {
-    const commodityResults = await fetchCommodityBatch(symbols);
-
-    for (const asset of assets) {
-      const result = commodityResults.get(asset.symbol! as CommoditySymbol);
+function applyQuotes(assets: Asset[], quotes: Map<string, CachedQuote | Error>): PriceUpdateResult[] {
+  return assets.filter(isPricedAsset).map((asset) => {
+    const result = quotes.get(quoteCacheKey(asset.asset_type, asset.symbol!));
 
-      if (result instanceof Error) {
-        results.push({
-          asset_id: asset.id,
-          symbol: asset.symbol!,
-          old_price: asset.current_price,
-          new_price: 0,
-          source: "goldapi",
-          success: false,
-          error: result.message,
-        });
-      } else if (result && typeof result === "object" && "price" in result) {
-        results.push({
-          asset_id: asset.id,
-          symbol: asset.symbol!,
-          old_price: asset.current_price,
-          new_price: (result as { price: number }).price,
-          source: "goldapi",
-          success: true,
-        });
-      }
-    }
-  } catch (error) {
-    console.error("Gold-API batch failed:", error);
-    
-    // Mark all as failed
-    for (const asset of assets) {
-      results.push({
+    if (!result || result instanceof Error) {
+      return {
         asset_id: asset.id,
         symbol: asset.symbol!,
         old_price: asset.current_price,
         new_price: 0,
-        source: "goldapi",
+        source: "none",
+        fetched_at: "",
         success: false,
-        error: (error as Error).message,
-      });
+        error: result?.message || "No price returned",
+      };
     }
-  }
 
-  return results;
+    return {
+      asset_id: asset.id,
+      symbol: asset.symbol!,
+      old_price: asset.current_price,
+      new_price: result.price,
+      source: result.source,
+      fetched_at: result.fetchedAt,
+      success: true,
+    };
+  });
 }
 
 /**
- * Update asset prices in database and store price history
+ * Update asset prices in database, store price history and
+ * evaluate the alerts affected by the changed prices
  */
 async function savePriceUpdates(
   supabase: ReturnType<typeof createClient>,
   results: PriceUpdateResult[],
-  userId: string
+  userId: string,
+  alertOptions: AlertEvaluationOptions
 ) {
   const now = new Date().toISOString();
   const successfulUpdates = results.filter((r) => r.success);
 
   if (successfulUpdates.length === 0) {
-    return { updated: 0, history_stored: 0, broadcasted: 0 };
+    return { updated: 0, history_stored: 0, broadcasted: 0, alerts_checked: 0, alerts_triggered: 0 };
   }
 
   // Update current prices in assets table
@@ -359,7 +233,7 @@ async function savePriceUpdates(
     symbol: result.symbol,
     asset_type: "", // Will be filled by trigger or we can query
     price: result.new_price,
-    timestamp: now,
+    timestamp: result.fetched_at,
     source: result.source,
   }));
 
@@ -377,12 +251,33 @@ async function savePriceUpdates(
     });
   }
 
-  const { error: historyError } = await supabase
+  // A cached quote can reach an asset again; only store quotes newer than its latest row
+  const earliestFetch = historyRecords.reduce((min, r) => (r.timestamp < min ? r.timestamp : min), now);
+  const { data: storedHistory } = await supabase
     .from("price_history")
-    .insert(historyRecords);
+    .select("asset_id, timestamp")
+    .in("asset_id", assetIds)
+    .gte("timestamp", earliestFetch);
+
+  const latestStored = new Map<string, number>();
+  for (const row of (storedHistory || []) as { asset_id: string; timestamp: string }[]) {
+    const time = new Date(row.timestamp).getTime();
+    latestStored.set(row.asset_id, Math.max(latestStored.get(row.asset_id) ?? 0, time));
+  }
+
+  const newHistoryRecords = historyRecords.filter(
+    (record) => new Date(record.timestamp).getTime() > (latestStored.get(record.asset_id) ?? 0)
+  );
+
+  let historyError = null;
+  if (newHistoryRecords.length > 0) {
+    ({ error: historyError } = await supabase
+      .from("price_history")
+      .insert(newHistoryRecords));
 
-  if (historyError) {
-    console.error("Error storing price history:", historyError);
+    if (historyError) {
+      console.error("Error storing price history:", historyError);
+    }
   }
 
   // Broadcast price updates via Realtime
@@ -425,10 +320,27 @@ async function savePriceUpdates(
     console.error("Error broadcasting price updates:", broadcastError);
   }
 
+  // Evaluate alerts on the assets whose price changed
+  let alertsChecked = 0;
+  let alertsTriggered = 0;
+  const changedAssetIds = successfulUpdates
+    .filter((r) => r.new_price !== r.old_price)
+    .map((r) => r.asset_id);
+
+  try {
+    const alertResult = await evaluateAlertsForAssets(supabase, changedAssetIds, alertOptions);
+    alertsChecked = alertResult.total_alerts;
+    alertsTriggered = alertResult.alerts_triggered;
+  } catch (alertError) {
+    console.error("Error evaluating alerts:", alertError);
+  }
+
   return {
     updated: successfulUpdates.length,
-    history_stored: historyError ? 0 : successfulUpdates.length,
+    history_stored: historyError ? 0 : newHistoryRecords.length,
     broadcasted: broadcastCount,
+    alerts_checked: alertsChecked,
+    alerts_triggered: alertsTriggered,
   };
 }
 
@@ -438,56 +350,18 @@ async function savePriceUpdates(
 async function processUserPriceUpdates(
   supabase: ReturnType<typeof createClient>,
   userId: string,
-  apiKeys: {
-    massive: string;
-    alphaVantage: string;
-  }
-) {
-  // Fetch all listed assets for this user
-  const { data: assets, error } = await supabase
-    .from("assets")
-    .select("id, user_id, asset_type, symbol, name, current_price, last_price_update, portfolio_id")
-    .eq("user_id", userId)
-    .not("symbol", "is", null);
-
-  if (error) {
-    console.error(`Error fetching assets for user ${userId}:`, error);
-    return { user_id: userId, success: false, error: error.message };
-  }
-
-  if (!assets || assets.length === 0) {
+  assets: Asset[],
+  quotes: Map<string, CachedQuote | Error>,
+  alertOptions: AlertEvaluationOptions
+): Promise<UserUpdateSummary> {
+  if (assets.length === 0) {
     return { user_id: userId, success: true, assets_updated: 0, message: "No listed assets" };
   }
 
-  // Group assets by type
-  const stockAssets = assets.filter((a: Asset) => a.asset_type === "stock");
-  const cryptoAssets = assets.filter((a: Asset) => a.asset_type === "crypto");
-  const commodityAssets = assets.filter((a: Asset) => a.asset_type === "commodity");
-
-  // Fetch prices for each asset type
-  const allResults: PriceUpdateResult[] = [];
-
-  if (stockAssets.length > 0) {
-    const stockResults = await updateStockPrices(
-      stockAssets,
-      apiKeys.massive,
-      apiKeys.alphaVantage
-    );
-    allResults.push(...stockResults);
-  }
-
-  if (cryptoAssets.length > 0) {
-    const cryptoResults = await updateCryptoPrices(cryptoAssets);
-    allResults.push(...cryptoResults);
-  }
-
-  if (commodityAssets.length > 0) {
-    const commodityResults = await updateCommodityPrices(commodityAssets);
-    allResults.push(...commodityResults);
-  }
+  const allResults = applyQuotes(assets, quotes);
 
   // Save updates to database
-  const saveResult = await savePriceUpdates(supabase, allResults, userId);
+  const saveResult = await savePriceUpdates(supabase, allResults, userId, alertOptions);
 
   const successCount = allResults.filter((r) => r.success).length;
   const failureCount = allResults.filter((r) => !r.success).length;
@@ -513,24 +387,26 @@ serve(async (req: Request) => {
   }
 
   try {
-    // Get API keys from environment
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-    const massiveApiKey = Deno.env.get("MASSIVE_API_KEY");
-    const alphaVantageApiKey = Deno.env.get("ALPHA_VANTAGE_API_KEY");
-    // Note: CoinCap and Gold-API don't require API keys
 
     if (!supabaseUrl || !supabaseServiceKey) {
       return jsonResponse({ error: "Supabase configuration missing" }, 500);
     }
 
-    if (!massiveApiKey || !alphaVantageApiKey) {
-      return jsonResponse({ error: "API keys not configured" }, 500);
-    }
-
     // Create Supabase client with service role key (bypasses RLS)
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    // Price providers (keys and fallback order from the environment)
+    const priceProviders = createPriceProviderRegistry();
+
+    // Alerts are evaluated as prices change
+    const alertOptions: AlertEvaluationOptions = {
+      exchangeRateApiKey: Deno.env.get("EXCHANGE_RATE_API_KEY") || "",
+      transports: { push: pushTransports },
+      priceProviders,
+    };
+
     const startTime = Date.now();
 
     // Get users who need price updates
@@ -538,13 +414,38 @@ serve(async (req: Request) => {
 
     console.log(`Processing price updates for ${usersNeedingUpdate.length} users`);
 
-    // Process updates for each user
-    const results = [];
-    for (const userId of usersNeedingUpdate) {
-      const result = await processUserPriceUpdates(supabase, userId, {
-        massive: massiveApiKey,
-        alphaVantage: alphaVantageApiKey,
-      });
+    // Collect every user's listed assets
+    const results: UserUpdateSummary[] = [];
+    const userAssets = new Map<string, Asset[]>();
+    const quoteRequests: QuoteRequest[] = [];
+
+    for (const sub of usersNeedingUpdate) {
+      const { assets, error } = await getUserAssets(supabase, sub.user_id);
+      if (error) {
+        console.error(`Error fetching assets for user ${sub.user_id}:`, error);
+        results.push({ user_id: sub.user_id, success: false, error: error.message });
+        continue;
+      }
+
+      userAssets.set(sub.user_id, assets);
+      for (const asset of assets.filter(isPricedAsset)) {
+        quoteRequests.push({
+          assetType: asset.asset_type as PricedAssetType,
+          symbol: asset.symbol!,
+          ttlMinutes: sub.price_update_frequency_minutes,
+        });
+      }
+    }
+
+    // Fetch each unique symbol once (cached quotes within the holder's TTL are reused)
+    await restoreCoinList(supabase);
+    const coinListFetchedAt = getCoinListSnapshot()?.fetchedAt ?? 0;
+    const { quotes, uniqueSymbols, cacheHits, fetched } = await getQuotes(supabase, priceProviders, quoteRequests);
+    await persistCoinList(supabase, coinListFetchedAt);
+
+    // Fan quotes out to each holder
+    for (const [userId, assets] of userAssets.entries()) {
+      const result = await processUserPriceUpdates(supabase, userId, assets, quotes, alertOptions);
       results.push(result);
     }
 
@@ -553,12 +454,17 @@ serve(async (req: Request) => {
 
     const totalUpdated = results.reduce((sum, r) => sum + (r.assets_updated || 0), 0);
     const totalFailed = results.reduce((sum, r) => sum + (r.assets_failed || 0), 0);
+    const totalTriggered = results.reduce((sum, r) => sum + ((r.alerts_triggered as number) || 0), 0);
 
     return jsonResponse({
       success: true,
       users_processed: usersNeedingUpdate.length,
+      unique_symbols: uniqueSymbols,
+      quotes_fetched: fetched,
+      cache_hits: cacheHits,
       total_assets_updated: totalUpdated,
       total_assets_failed: totalFailed,
+      alerts_triggered: totalTriggered,
       duration_ms: duration,
       results,
     });
@@ -3,13 +3,20 @@
 // =====================================================
 // Handles user profile management operations:
 // - GET /profile - Retrieve user profile
-// - PUT /profile - Update profile (name, phone, currency, language, preferences)
+// - PUT /profile - Update profile (name, phone, currency, language, preferences, cost basis method,
+//   notification channels per category, time zone, quiet hours)
 // - POST /profile/avatar - Upload avatar image
 // - DELETE /profile/avatar - Delete avatar image
+// - POST /profile/devices - Register a push notification token
+// - DELETE /profile/devices/:token - Unregister a push notification token
 // Requirements: 12
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { COST_BASIS_METHODS, isValidCostBasisMethod } from "../_shared/lot-matching.ts";
+import { resolveNotificationPreferences, validateNotificationPreferences } from "../_shared/notifications.ts";
+import { isValidTimeOfDay, isValidTimeZone } from "../_shared/time-zones.ts";
+import { DEVICE_PLATFORMS, DevicePlatform, PUSH_PROVIDERS, PushProvider } from "../_shared/push-notifications.ts";
 
 // CORS headers for mobile app
 const corsHeaders = {
@@ -61,6 +68,55 @@ function errorResponse(message: string, status = 400) {
   return jsonResponse({ error: message }, status);
 }
 
+/**
+ * Validate device token registration input
+ */
+function validateDeviceInput(data: Record<string, unknown>): { valid: boolean; error?: string } {
+  if (!data.token || typeof data.token !== "string" || data.token.trim().length === 0) {
+    return {
+      valid: false,
+      error: "Device token is required",
+    };
+  }
+
+  if (data.token.length > 4096) {
+    return {
+      valid: false,
+      error: "Device token is too long",
+    };
+  }
+
+  if (!DEVICE_PLATFORMS.includes(data.platform as DevicePlatform)) {
+    return {
+      valid: false,
+      error: `Platform must be one of: ${DEVICE_PLATFORMS.join(", ")}`,
+    };
+  }
+
+  if (data.provider !== undefined && !PUSH_PROVIDERS.includes(data.provider as PushProvider)) {
+    return {
+      valid: false,
+      error: `Provider must be one of: ${PUSH_PROVIDERS.join(", ")}`,
+    };
+  }
+
+  if (data.deviceName !== undefined && data.deviceName !== null && typeof data.deviceName !== "string") {
+    return {
+      valid: false,
+      error: "Device name must be a string",
+    };
+  }
+
+  if (data.appVersion !== undefined && data.appVersion !== null && typeof data.appVersion !== "string") {
+    return {
+      valid: false,
+      error: "App version must be a string",
+    };
+  }
+
+  return { valid: true };
+}
+
 // =====================================================
 // Route Handlers
 // =====================================================
@@ -100,6 +156,11 @@ async function handleGetProfile(userId: string) {
         notificationsEnabled: profile.notifications_enabled,
         darkModeEnabled: profile.dark_mode_enabled,
         defaultChartView: profile.default_chart_view,
+        costBasisMethod: profile.cost_basis_method,
+        notificationPreferences: resolveNotificationPreferences(profile.notification_preferences),
+        timezone: profile.timezone,
+        quietHoursStart: profile.quiet_hours_start?.slice(0, 5) ?? null,
+        quietHoursEnd: profile.quiet_hours_end?.slice(0, 5) ?? null,
         createdAt: profile.created_at,
         updatedAt: profile.updated_at,
       },
@@ -126,6 +187,11 @@ async function handleUpdateProfile(userId: string, req: Request) {
       notificationsEnabled,
       darkModeEnabled,
       defaultChartView,
+      costBasisMethod,
+      notificationPreferences,
+      timezone,
+      quietHoursStart,
+      quietHoursEnd,
     } = body;
 
     // Build update object with only provided fields
@@ -200,6 +266,56 @@ async function handleUpdateProfile(userId: string, req: Request) {
       updates.default_chart_view = defaultChartView;
     }
 
+    if (costBasisMethod !== undefined) {
+      if (typeof costBasisMethod !== "string" || !isValidCostBasisMethod(costBasisMethod)) {
+        return errorResponse(`Cost basis method must be one of: ${COST_BASIS_METHODS.join(", ")}`);
+      }
+      updates.cost_basis_method = costBasisMethod;
+    }
+
+    if (notificationPreferences !== undefined) {
+      const validation = validateNotificationPreferences(notificationPreferences);
+      if (!validation.valid) {
+        return errorResponse(validation.error!);
+      }
+
+      // Merge with stored overrides so unspecified categories are kept
+      const { data: current } = await supabase
+        .from("user_profiles")
+        .select("notification_preferences")
+        .eq("id", userId)
+        .single();
+
+      updates.notification_preferences = { ...(current?.notification_preferences || {}), ...notificationPreferences };
+    }
+
+    if (timezone !== undefined) {
+      if (typeof timezone !== "string" || !isValidTimeZone(timezone)) {
+        return errorResponse("Timezone must be a valid IANA time zone (e.g., Europe/Paris)");
+      }
+      updates.timezone = timezone;
+    }
+
+    if (quietHoursStart !== undefined || quietHoursEnd !== undefined) {
+      // Both times, or null for both to turn quiet hours off
+      if (quietHoursStart === null && quietHoursEnd === null) {
+        updates.quiet_hours_start = null;
+        updates.quiet_hours_end = null;
+      } else {
+        if (
+          typeof quietHoursStart !== "string" || !isValidTimeOfDay(quietHoursStart) ||
+          typeof quietHoursEnd !== "string" || !isValidTimeOfDay(quietHoursEnd)
+        ) {
+          return errorResponse("Quiet hours start and end must both be times (HH:MM), or both null");
+        }
+        if (quietHoursStart.slice(0, 5) === quietHoursEnd.slice(0, 5)) {
+          return errorResponse("Quiet hours start and end must differ");
+        }
+        updates.quiet_hours_start = quietHoursStart;
+        updates.quiet_hours_end = quietHoursEnd;
+      }
+    }
+
     // Check if there are any updates
     if (Object.keys(updates).length === 0) {
       return errorResponse("No valid fields to update");
@@ -233,6 +349,11 @@ async function handleUpdateProfile(userId: string, req: Request) {
         notificationsEnabled: updatedProfile.notifications_enabled,
         darkModeEnabled: updatedProfile.dark_mode_enabled,
         defaultChartView: updatedProfile.default_chart_view,
+        costBasisMethod: updatedProfile.cost_basis_method,
+        notificationPreferences: resolveNotificationPreferences(updatedProfile.notification_preferences),
+        timezone: updatedProfile.timezone,
+        quietHoursStart: updatedProfile.quiet_hours_start?.slice(0, 5) ?? null,
+        quietHoursEnd: updatedProfile.quiet_hours_end?.slice(0, 5) ?? null,
         updatedAt: updatedProfile.updated_at,
       },
     });
@@ -383,6 +504,94 @@ async function handleDeleteAvatar(userId: string) {
   }
 }
 
+/**
+ * POST /profile-handler/devices
+ * Register a push notification token for the current device
+ * Re-registering a token moves it to the current user
+ */
+async function handleRegisterDevice(userId: string, req: Request) {
+  try {
+    const body = await req.json();
+
+    // Validate input
+    const validation = validateDeviceInput(body);
+    if (!validation.valid) {
+      return errorResponse(validation.error!);
+    }
+
+    // iOS tokens go to APNs unless the app registered through Firebase
+    const platform = body.platform as DevicePlatform;
+    const provider: PushProvider = body.provider || (platform === "ios" ? "apns" : "fcm");
+
+    const { data: device, error } = await supabase
+      .from("device_tokens")
+      .upsert({
+        user_id: userId,
+        token: body.token.trim(),
+        platform,
+        provider,
+        device_name: body.deviceName || null,
+        app_version: body.appVersion || null,
+        last_registered_at: new Date().toISOString(),
+      }, { onConflict: "token" })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error registering device token:", error);
+      return errorResponse("Failed to register device", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "Device registered successfully",
+      device: {
+        id: device.id,
+        platform: device.platform,
+        provider: device.provider,
+        deviceName: device.device_name,
+        appVersion: device.app_version,
+        lastRegisteredAt: device.last_registered_at,
+      },
+    }, 201);
+  } catch (error) {
+    console.error("Register device handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * DELETE /profile-handler/devices/:token
+ * Unregister a push notification token (e.g. on sign out)
+ */
+async function handleUnregisterDevice(userId: string, token: string) {
+  try {
+    const { data: deleted, error } = await supabase
+      .from("device_tokens")
+      .delete()
+      .eq("user_id", userId)
+      .eq("token", token)
+      .select("id");
+
+    if (error) {
+      console.error("Error unregistering device token:", error);
+      return errorResponse("Failed to unregister device", 500);
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return errorResponse("Device not found", 404);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: "Device unregistered successfully",
+    });
+  } catch (error) {
+    console.error("Unregister device handler error:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
 // =====================================================
 // Main Request Handler
 // =====================================================
@@ -411,6 +620,7 @@ serve(async (req: Request) => {
 
     const url = new URL(req.url);
     const path = url.pathname;
+    const pathParts = path.split("/").filter(Boolean);
 
     // Route requests
     if (path.endsWith("/profile-handler") && req.method === "GET") {
@@ -429,6 +639,14 @@ serve(async (req: Request) => {
       return await handleDeleteAvatar(user.id);
     }
 
+    if (path.endsWith("/profile-handler/devices") && req.method === "POST") {
+      return await handleRegisterDevice(user.id, req);
+    }
+
+    if (pathParts[pathParts.length - 2] === "devices" && req.method === "DELETE") {
+      return await handleUnregisterDevice(user.id, decodeURIComponent(pathParts[pathParts.length - 1]));
+    }
+
     // Route not found
     return errorResponse("Route not found", 404);
   } catch (error) {
@@ -7,11 +7,14 @@
 // - CANCELLATION: User cancels subscription
 // - EXPIRATION: Subscription expires
 // - BILLING_ISSUE: Payment failed
+// - UNCANCELLATION: Cancelled subscription reactivated
+// Each handled event adds an inbox notification for the user
 // Requirements: 10
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
 import { createHmac } from "https://deno.land/std@0.168.0/node/crypto.ts";
+import { notifyUser } from "../_shared/notifications.ts";
 
 // CORS headers
 const corsHeaders = {
@@ -56,6 +59,34 @@ interface RevenueCatWebhookEvent {
   };
 }
 
+// Inbox notification per handled event type
+const SUBSCRIPTION_NOTIFICATIONS: Record<string, { title: string; body: string }> = {
+  INITIAL_PURCHASE: {
+    title: "Welcome to Premium",
+    body: "Your premium subscription is active. Enjoy unlimited alerts, faster price updates and AI insights.",
+  },
+  RENEWAL: {
+    title: "Subscription Renewed",
+    body: "Your premium subscription has been renewed.",
+  },
+  CANCELLATION: {
+    title: "Subscription Cancelled",
+    body: "Your premium subscription has been cancelled. You keep premium features until the end of the billing period.",
+  },
+  EXPIRATION: {
+    title: "Subscription Expired",
+    body: "Your premium subscription has expired and your account is now on the free plan.",
+  },
+  BILLING_ISSUE: {
+    title: "Payment Failed",
+    body: "We couldn't process your subscription payment. Please update your payment method to keep premium features.",
+  },
+  UNCANCELLATION: {
+    title: "Subscription Reactivated",
+    body: "Your premium subscription has been reactivated.",
+  },
+};
+
 // =====================================================
 // Helper Functions
 // =====================================================
@@ -304,9 +335,6 @@ async function handleBillingIssue(event: RevenueCatWebhookEvent["event"]) {
   }
 
   console.log(`Billing issue detected for user ${userId}`);
-  
-  // TODO: Send notification to user about billing issue
-  // This could be implemented in a future task
 }
 
 /**
@@ -406,6 +434,16 @@ serve(async (req: Request) => {
         return jsonResponse({ message: "Event received but not handled" });
     }
 
+    // Notify the user (inbox and push)
+    const notification = SUBSCRIPTION_NOTIFICATIONS[event.type];
+    await notifyUser(supabase, {
+      userId: getUserId(event.app_user_id),
+      category: "subscription",
+      title: notification.title,
+      body: notification.body,
+      data: { event_type: event.type },
+    });
+
     return jsonResponse({ 
       success: true, 
       message: `Event ${event.type} processed successfully` 
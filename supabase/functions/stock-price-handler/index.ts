@@ -1,27 +1,16 @@
 // =====================================================
 // Vestpod - Stock Price Handler Edge Function
 // =====================================================
-// Handles stock price queries using Massive.com API
+// Handles stock price queries through the price provider
+// registry (Massive.com, falling back to Alpha Vantage)
 // - Get current quote for a symbol
 // - Get historical data for a symbol
 // - Get batch quotes for multiple symbols
 // Requirements: 3, 5
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import {
-  fetchStockQuote as fetchMassiveQuote,
-  fetchHistoricalData as fetchMassiveHistorical,
-  fetchBatchQuotes as fetchMassiveBatch,
-  MassiveAPIError,
-} from "../_shared/massive-client.ts";
-import {
-  fetchStockQuote as fetchAlphaVantageQuote,
-  fetchHistoricalData as fetchAlphaVantageHistorical,
-  fetchBatchQuotes as fetchAlphaVantageBatch,
-  AlphaVantageAPIError,
-  RateLimitError,
-  getRateLimitStatus,
-} from "../_shared/alphavantage-client.ts";
+import { getRateLimitStatus } from "../_shared/alphavantage-client.ts";
+import { createPriceProviderRegistry, HistoryTimespan, PriceProviderError } from "../_shared/price-providers.ts";
 
 // CORS headers for mobile app
 const corsHeaders = {
@@ -29,6 +18,9 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Price providers (keys and fallback order from the environment)
+const priceProviders = createPriceProviderRegistry();
+
 /**
  * Send JSON response
  */
@@ -48,50 +40,22 @@ function errorResponse(message: string, status = 400) {
 
 /**
  * GET /stock-price-handler/quote/:symbol
- * Get current stock quote with fallback logic
- * Tries Massive.com first, falls back to Alpha Vantage on failure
+ * Get current stock quote, falling back through the provider chain
  */
-async function handleGetQuote(symbol: string, massiveApiKey: string, alphaVantageApiKey: string) {
-  let primaryError: Error | null = null;
-
-  // Try Massive.com first
+async function handleGetQuote(symbol: string) {
   try {
-    const quote = await fetchMassiveQuote(symbol, massiveApiKey);
+    const { quote, source, fallback } = await priceProviders.getQuote("stock", symbol);
     return jsonResponse({
       success: true,
       quote,
-      source: "massive",
+      source,
+      warning: fallback ? "Primary API unavailable, using backup" : undefined,
     });
   } catch (error) {
-    primaryError = error as Error;
-    console.log(`Massive.com failed for ${symbol}, attempting Alpha Vantage fallback:`, error);
-  }
-
-  // Fallback to Alpha Vantage
-  try {
-    const quote = await fetchAlphaVantageQuote(symbol, alphaVantageApiKey);
-    return jsonResponse({
-      success: true,
-      quote,
-      source: "alphavantage",
-      warning: "Primary API unavailable, using backup",
-    });
-  } catch (fallbackError) {
-    console.error(`Both APIs failed for ${symbol}:`, { primaryError, fallbackError });
-
-    // Return appropriate error
-    if (fallbackError instanceof RateLimitError) {
-      return errorResponse(
-        `All APIs unavailable: ${primaryError?.message}. Backup API rate limit exceeded.`,
-        503
-      );
-    }
+    console.error(`All providers failed for ${symbol}:`, error);
 
-    if (fallbackError instanceof AlphaVantageAPIError) {
-      return errorResponse(
-        `Failed to fetch quote: ${primaryError?.message}`,
-        fallbackError.statusCode || 500
-      );
+    if (error instanceof PriceProviderError) {
+      return errorResponse(error.message, error.statusCode);
     }
 
     return errorResponse("Failed to fetch stock quote from all sources", 500);
@@ -100,25 +64,13 @@ async function handleGetQuote(symbol: string, massiveApiKey: string, alphaVantag
 
 /**
  * GET /stock-price-handler/historical/:symbol
- * Get historical stock data with fallback logic
+ * Get historical stock data, falling back through the provider chain
  * Query params: from, to, timespan (optional), multiplier (optional)
  */
-async function handleGetHistorical(
-  symbol: string,
-  searchParams: URLSearchParams,
-  massiveApiKey: string,
-  alphaVantageApiKey: string
-) {
+async function handleGetHistorical(symbol: string, searchParams: URLSearchParams) {
   const from = searchParams.get("from");
   const to = searchParams.get("to");
-  const timespan = (searchParams.get("timespan") || "day") as
-    | "minute"
-    | "hour"
-    | "day"
-    | "week"
-    | "month"
-    | "quarter"
-    | "year";
+  const timespan = (searchParams.get("timespan") || "day") as HistoryTimespan;
   const multiplier = parseInt(searchParams.get("multiplier") || "1", 10);
 
   // Validate required params
@@ -132,56 +84,23 @@ async function handleGetHistorical(
     return errorResponse("Invalid date format. Use YYYY-MM-DD");
   }
 
-  let primaryError: Error | null = null;
-
-  // Try Massive.com first
   try {
-    const data = await fetchMassiveHistorical(symbol, from, to, timespan, multiplier, massiveApiKey);
-    return jsonResponse({
-      success: true,
-      historical: data,
-      source: "massive",
-    });
-  } catch (error) {
-    primaryError = error as Error;
-    console.log(`Massive.com historical failed for ${symbol}, attempting Alpha Vantage fallback:`, error);
-  }
-
-  // Fallback to Alpha Vantage (only supports daily data)
-  try {
-    const data = await fetchAlphaVantageHistorical(symbol, alphaVantageApiKey, "full");
-    
-    // Filter data by date range
-    const fromTime = new Date(from).getTime();
-    const toTime = new Date(to).getTime();
-    const filteredData = data.data.filter(
-      (point) => point.timestamp >= fromTime && point.timestamp <= toTime
-    );
-
+    const history = await priceProviders.getHistory("stock", symbol, { from, to, timespan, multiplier });
     return jsonResponse({
       success: true,
       historical: {
-        symbol: data.symbol,
-        data: filteredData,
+        symbol: history.symbol,
+        data: history.data,
       },
-      source: "alphavantage",
-      warning: "Primary API unavailable, using backup (daily data only)",
+      source: history.source,
+      // Backup providers may only offer daily data
+      warning: history.fallback ? "Primary API unavailable, using backup (daily data only)" : undefined,
     });
-  } catch (fallbackError) {
-    console.error(`Both APIs failed for historical ${symbol}:`, { primaryError, fallbackError });
-
-    if (fallbackError instanceof RateLimitError) {
-      return errorResponse(
-        `All APIs unavailable: ${primaryError?.message}. Backup API rate limit exceeded.`,
-        503
-      );
-    }
+  } catch (error) {
+    console.error(`All providers failed for historical ${symbol}:`, error);
 
-    if (fallbackError instanceof AlphaVantageAPIError) {
-      return errorResponse(
-        `Failed to fetch historical data: ${primaryError?.message}`,
-        fallbackError.statusCode || 500
-      );
+    if (error instanceof PriceProviderError) {
+      return errorResponse(error.message, error.statusCode);
     }
 
     return errorResponse("Failed to fetch historical data from all sources", 500);
@@ -190,10 +109,11 @@ async function handleGetHistorical(
 
 /**
  * POST /stock-price-handler/batch
- * Get quotes for multiple symbols with fallback logic
+ * Get quotes for multiple symbols; symbols the primary provider
+ * fails on are retried with the backup
  * Body: { symbols: string[] }
  */
-async function handleBatchQuotes(req: Request, massiveApiKey: string, alphaVantageApiKey: string) {
+async function handleBatchQuotes(req: Request) {
   try {
     const body = await req.json();
     const symbols = body.symbols;
@@ -207,64 +127,40 @@ async function handleBatchQuotes(req: Request, massiveApiKey: string, alphaVanta
       return errorResponse("Maximum 50 symbols per batch request");
     }
 
-    let primaryError: Error | null = null;
-
-    // Try Massive.com first
-    try {
-      const results = await fetchMassiveBatch(symbols, massiveApiKey);
+    const results = await priceProviders.getBatchQuotes("stock", symbols);
 
-      // Transform results to JSON-serializable format
-      const quotes: Record<string, unknown> = {};
-      const errors: Record<string, string> = {};
+    // Transform results to JSON-serializable format
+    const quotes: Record<string, unknown> = {};
+    const sources: Record<string, string> = {};
+    const errors: Record<string, string> = {};
 
-      for (const [symbol, result] of results.entries()) {
-        if (result instanceof Error) {
-          errors[symbol] = result.message;
-        } else {
-          quotes[symbol] = result;
-        }
+    for (const [symbol, result] of results.entries()) {
+      if (result instanceof Error) {
+        errors[symbol] = result.message;
+      } else {
+        quotes[symbol] = result.quote;
+        sources[symbol] = result.source;
       }
-
-      return jsonResponse({
-        success: true,
-        quotes,
-        errors: Object.keys(errors).length > 0 ? errors : undefined,
-        source: "massive",
-      });
-    } catch (error) {
-      primaryError = error as Error;
-      console.log("Massive.com batch failed, attempting Alpha Vantage fallback:", error);
     }
 
-    // Fallback to Alpha Vantage
-    try {
-      const results = await fetchAlphaVantageBatch(symbols, alphaVantageApiKey);
-
-      // Transform results to JSON-serializable format
-      const quotes: Record<string, unknown> = {};
-      const errors: Record<string, string> = {};
+    const usedBackup = [...results.values()].some((r) => !(r instanceof Error) && r.fallback);
+    const distinctSources = [...new Set(Object.values(sources))];
 
-      for (const [symbol, result] of results.entries()) {
-        if (result instanceof Error) {
-          errors[symbol] = result.message;
-        } else {
-          quotes[symbol] = result;
-        }
-      }
-
-      return jsonResponse({
-        success: true,
-        quotes,
-        errors: Object.keys(errors).length > 0 ? errors : undefined,
-        source: "alphavantage",
-        warning: "Primary API unavailable, using backup (rate limited)",
-      });
-    } catch (fallbackError) {
-      console.error("Both APIs failed for batch quotes:", { primaryError, fallbackError });
-      return errorResponse("Failed to fetch batch quotes from all sources", 500);
-    }
+    return jsonResponse({
+      success: true,
+      quotes,
+      errors: Object.keys(errors).length > 0 ? errors : undefined,
+      source: distinctSources.length > 1 ? "mixed" : distinctSources[0] ?? null,
+      sources,
+      warning: usedBackup ? "Primary API unavailable for some symbols, using backup (rate limited)" : undefined,
+    });
   } catch (error) {
     console.error("Batch quotes error:", error);
+
+    if (error instanceof PriceProviderError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+
     return errorResponse("Failed to fetch batch quotes", 500);
   }
 }
@@ -280,18 +176,6 @@ serve(async (req: Request) => {
   }
 
   try {
-    // Get API keys from environment
-    const massiveApiKey = Deno.env.get("MASSIVE_API_KEY");
-    const alphaVantageApiKey = Deno.env.get("ALPHA_VANTAGE_API_KEY");
-
-    if (!massiveApiKey) {
-      return errorResponse("MASSIVE_API_KEY not configured", 500);
-    }
-
-    if (!alphaVantageApiKey) {
-      console.warn("ALPHA_VANTAGE_API_KEY not configured - fallback unavailable");
-    }
-
     const url = new URL(req.url);
     const path = url.pathname;
     const pathParts = path.split("/").filter(Boolean);
@@ -299,18 +183,18 @@ serve(async (req: Request) => {
     // Route: GET /quote/:symbol
     if (pathParts.length >= 2 && pathParts[pathParts.length - 2] === "quote" && req.method === "GET") {
       const symbol = pathParts[pathParts.length - 1];
-      return await handleGetQuote(symbol, massiveApiKey, alphaVantageApiKey || "");
+      return await handleGetQuote(symbol);
     }
 
     // Route: GET /historical/:symbol
     if (pathParts.length >= 2 && pathParts[pathParts.length - 2] === "historical" && req.method === "GET") {
       const symbol = pathParts[pathParts.length - 1];
-      return await handleGetHistorical(symbol, url.searchParams, massiveApiKey, alphaVantageApiKey || "");
+      return await handleGetHistorical(symbol, url.searchParams);
     }
 
     // Route: POST /batch
     if (path.endsWith("/batch") && req.method === "POST") {
-      return await handleBatchQuotes(req, massiveApiKey, alphaVantageApiKey || "");
+      return await handleBatchQuotes(req);
     }
 
     // Route: GET /rate-limit-status
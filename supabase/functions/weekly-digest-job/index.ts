@@ -0,0 +1,242 @@
+// =====================================================
+// Vestpod - Weekly Digest Job Edge Function
+// =====================================================
+// Scheduled job that sends each user a weekly portfolio digest
+// - Summarizes the week's value change per portfolio from
+//   portfolio_snapshots (deposits/withdrawals excluded)
+// - Delivers on the user's digest channels (email by default)
+//   in their language, and adds an inbox entry
+// - Skips users who turned the digest off
+// - Runs every Monday at 7 AM UTC via cron trigger
+// Requirements: 6, 7
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { addDays, SnapshotPoint, summarizeSnapshotPeriod } from "../_shared/portfolio-snapshots.ts";
+import { notifyUser, resolveNotificationPreferences, wasDelivered } from "../_shared/notifications.ts";
+import { createPushTransports } from "../_shared/push-notifications.ts";
+
+// CORS headers
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Push transports (FCM/APNs credentials from the environment)
+const pushTransports = createPushTransports();
+
+// Look this far before the week start for the opening snapshot
+const OPENING_SNAPSHOT_LOOKBACK_DAYS = 7;
+
+/**
+ * Digest result for one user
+ */
+interface DigestResult {
+  user_id: string;
+  success: boolean;
+  sent?: boolean;
+  skipped?: string;
+  error?: string;
+}
+
+/**
+ * Send JSON response
+ */
+function jsonResponse(data: Record<string, unknown> | { error: string }, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Build and send the digest for one user
+ */
+async function sendUserDigest(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  portfolios: { id: string; name: string }[],
+  currency: string,
+  weekStart: string,
+  weekEnd: string
+): Promise<DigestResult> {
+  try {
+    const { data: snapshots, error } = await supabase
+      .from("portfolio_snapshots")
+      .select("portfolio_id, snapshot_date, currency, total_value, net_contributions")
+      .in("portfolio_id", portfolios.map((p) => p.id))
+      .gte("snapshot_date", addDays(weekStart, -OPENING_SNAPSHOT_LOOKBACK_DAYS))
+      .lte("snapshot_date", weekEnd);
+
+    if (error) {
+      throw new Error(`Failed to fetch snapshots: ${error.message}`);
+    }
+
+    const points: SnapshotPoint[] = (snapshots || []).map((s) => ({
+      portfolioId: s.portfolio_id,
+      snapshotDate: s.snapshot_date,
+      currency: s.currency,
+      totalValue: Number(s.total_value),
+      netContributions: Number(s.net_contributions),
+    }));
+
+    const summary = summarizeSnapshotPeriod(points, weekStart, weekEnd, currency);
+    if (!summary) {
+      return { user_id: userId, success: true, skipped: "no_snapshots" };
+    }
+
+    const names = new Map(portfolios.map((p) => [p.id, p.name]));
+    const formattedTotal = `${summary.totalValue.toFixed(2)} ${currency}`;
+    const formattedChange = summary.changePercent === null
+      ? `${summary.change.toFixed(2)} ${currency}`
+      : `${summary.changePercent > 0 ? "+" : ""}${summary.changePercent.toFixed(2)}%`;
+
+    const result = await notifyUser(
+      supabase,
+      {
+        userId,
+        category: "digest",
+        title: "Your Weekly Portfolio Digest",
+        body: `Your portfolios are worth ${formattedTotal} (${formattedChange} this week).`,
+        data: { week_start: weekStart, week_end: weekEnd },
+        email: {
+          template: "weekly_digest",
+          params: {
+            currency,
+            totalValue: summary.totalValue,
+            change: summary.change,
+            changePercent: summary.changePercent,
+            portfolios: summary.portfolios.map((p) => ({
+              name: names.get(p.portfolioId) || "Portfolio",
+              value: p.value,
+              changePercent: p.changePercent,
+            })),
+          },
+        },
+      },
+      { push: pushTransports }
+    );
+
+    return { user_id: userId, success: true, sent: wasDelivered(result) };
+  } catch (error) {
+    console.error(`Error sending digest for user ${userId}:`, error);
+    return { user_id: userId, success: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Send digests to all users with portfolios
+ */
+async function processAllDigests(supabase: ReturnType<typeof createClient>) {
+  const { data: portfolios, error: portfoliosError } = await supabase
+    .from("portfolios")
+    .select("id, user_id, name");
+
+  if (portfoliosError) {
+    console.error("Error fetching portfolios:", portfoliosError);
+    throw new Error(`Failed to fetch portfolios: ${portfoliosError.message}`);
+  }
+
+  if (!portfolios || portfolios.length === 0) {
+    return { total_users: 0, digests_sent: 0, results: [] };
+  }
+
+  const portfoliosByUser = new Map<string, { id: string; name: string }[]>();
+  for (const portfolio of portfolios) {
+    const list = portfoliosByUser.get(portfolio.user_id) || [];
+    list.push({ id: portfolio.id, name: portfolio.name });
+    portfoliosByUser.set(portfolio.user_id, list);
+  }
+
+  const { data: profiles } = await supabase
+    .from("user_profiles")
+    .select("id, currency_preference, notification_preferences")
+    .in("id", [...portfoliosByUser.keys()]);
+
+  const profileById = new Map<string, { currency_preference: string | null; notification_preferences: unknown }>(
+    (profiles || []).map((p) => [p.id, p])
+  );
+
+  // The week ending yesterday (the last complete snapshot day)
+  const weekEnd = addDays(new Date().toISOString().split("T")[0], -1);
+  const weekStart = addDays(weekEnd, -7);
+
+  console.log(`Sending weekly digests for ${portfoliosByUser.size} users (${weekStart} to ${weekEnd})`);
+
+  const results: DigestResult[] = [];
+  for (const [userId, userPortfolios] of portfoliosByUser.entries()) {
+    const profile = profileById.get(userId);
+
+    if (resolveNotificationPreferences(profile?.notification_preferences).digest.length === 0) {
+      results.push({ user_id: userId, success: true, skipped: "digest_disabled" });
+      continue;
+    }
+
+    results.push(
+      await sendUserDigest(
+        supabase,
+        userId,
+        userPortfolios,
+        profile?.currency_preference || "USD",
+        weekStart,
+        weekEnd
+      )
+    );
+  }
+
+  return {
+    total_users: portfoliosByUser.size,
+    digests_sent: results.filter((r) => r.sent).length,
+    results,
+  };
+}
+
+// =====================================================
+// Main Request Handler
+// =====================================================
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // Get Supabase configuration
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: "Supabase configuration missing" }, 500);
+    }
+
+    // Create Supabase client with service role key (bypasses RLS)
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const startTime = Date.now();
+
+    const result = await processAllDigests(supabase);
+
+    const duration = Date.now() - startTime;
+
+    console.log(`Weekly digest job completed in ${duration}ms`);
+    console.log(`  Total users: ${result.total_users}`);
+    console.log(`  Digests sent: ${result.digests_sent}`);
+
+    return jsonResponse({
+      success: true,
+      ...result,
+      duration_ms: duration,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Weekly digest job error:", error);
+    return jsonResponse(
+      {
+        error: "Weekly digest job failed",
+        message: (error as Error).message,
+      },
+      500
+    );
+  }
+});
@@ -0,0 +1,72 @@
+-- =====================================================
+-- Vestpod - Transaction Ledger
+-- =====================================================
+-- Records buys, sells and transfers behind every asset.
+-- assets.quantity, assets.purchase_price and assets.purchase_date
+-- are derived from this ledger by asset-handler.
+-- Existing assets are migrated into a single opening buy.
+
+-- =====================================================
+-- TABLE: transactions
+-- =====================================================
+
+CREATE TABLE transactions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    asset_id UUID NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+
+    -- Transaction details
+    transaction_type TEXT NOT NULL CHECK (transaction_type IN ('buy', 'sell', 'transfer_in', 'transfer_out')),
+    quantity DECIMAL(20, 8) NOT NULL CHECK (quantity > 0),
+    price DECIMAL(20, 8) NOT NULL CHECK (price >= 0), -- Price per unit
+    fees DECIMAL(20, 8) DEFAULT 0 NOT NULL CHECK (fees >= 0),
+    transaction_date DATE NOT NULL,
+    notes TEXT,
+
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own transactions" ON transactions
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own transactions" ON transactions
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own transactions" ON transactions
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own transactions" ON transactions
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX idx_transactions_asset_id ON transactions(asset_id);
+CREATE INDEX idx_transactions_user_id ON transactions(user_id);
+CREATE INDEX idx_transactions_asset_date ON transactions(asset_id, transaction_date, created_at);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_transactions_updated_at BEFORE UPDATE ON transactions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- BACKFILL: opening buy for every existing asset
+-- =====================================================
+
+INSERT INTO transactions (asset_id, user_id, transaction_type, quantity, price, transaction_date, notes, created_at)
+SELECT id, user_id, 'buy', quantity, purchase_price, purchase_date, 'Opening position', created_at
+FROM assets
+WHERE quantity > 0;
+
+COMMENT ON TABLE transactions IS 'Buy, sell and transfer ledger from which asset positions are derived';
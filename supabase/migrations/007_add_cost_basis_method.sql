@@ -0,0 +1,18 @@
+-- =====================================================
+-- Migration: Cost basis method and specific-lot selections
+-- =====================================================
+-- Lets users choose how sales are matched against tax lots
+-- when computing realized gain/loss, and lets specific-lot
+-- sales record which lots they dispose of
+
+-- Cost basis method used for realized/unrealized gain reporting
+ALTER TABLE user_profiles ADD COLUMN cost_basis_method TEXT DEFAULT 'fifo' NOT NULL
+    CHECK (cost_basis_method IN ('fifo', 'lifo', 'average', 'specific_lot'));
+
+-- Lots disposed by a sell/transfer_out under specific-lot matching
+-- Format: [{"lotId": "<opening transaction id>", "quantity": 1.5}]
+ALTER TABLE transactions ADD COLUMN lot_selections JSONB;
+
+-- Update comments
+COMMENT ON COLUMN user_profiles.cost_basis_method IS 'Lot matching method for gain/loss: fifo, lifo, average or specific_lot';
+COMMENT ON COLUMN transactions.lot_selections IS 'Specific-lot selections for outflows, referencing opening transaction ids';
@@ -0,0 +1,64 @@
+-- =====================================================
+-- Vestpod - Income Tracking
+-- =====================================================
+-- Records cash income received from assets:
+-- dividends, coupons/interest, rent and staking rewards.
+-- Included in portfolio total return and data exports.
+
+-- =====================================================
+-- TABLE: income
+-- =====================================================
+
+CREATE TABLE income (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    asset_id UUID NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+
+    -- Income details
+    income_type TEXT NOT NULL CHECK (income_type IN ('dividend', 'coupon', 'interest', 'rent', 'staking_reward')),
+    amount DECIMAL(20, 8) NOT NULL CHECK (amount > 0), -- Gross amount received
+    withholding_tax DECIMAL(20, 8) DEFAULT 0 NOT NULL CHECK (withholding_tax >= 0),
+    quantity DECIMAL(20, 8) CHECK (quantity > 0), -- Units received (staking rewards)
+    payment_date DATE NOT NULL,
+    notes TEXT,
+
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+    CHECK (withholding_tax <= amount)
+);
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+ALTER TABLE income ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own income" ON income
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own income" ON income
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own income" ON income
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own income" ON income
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX idx_income_asset_id ON income(asset_id);
+CREATE INDEX idx_income_user_id ON income(user_id);
+CREATE INDEX idx_income_user_payment_date ON income(user_id, payment_date DESC);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_income_updated_at BEFORE UPDATE ON income
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE income IS 'Cash income received from assets (dividends, coupons, rent, staking rewards)';
@@ -0,0 +1,69 @@
+-- =====================================================
+-- Vestpod - Portfolio Cash
+-- =====================================================
+-- Multi-currency cash held in a portfolio. Balances are
+-- derived from this ledger: external deposits/withdrawals
+-- (net contributions), fees, and cash settlements of asset
+-- buys, sells and income.
+
+-- =====================================================
+-- TABLE: cash_transactions
+-- =====================================================
+
+CREATE TABLE cash_transactions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    portfolio_id UUID NOT NULL REFERENCES portfolios(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+
+    -- Cash movement details
+    transaction_type TEXT NOT NULL CHECK (transaction_type IN ('deposit', 'withdrawal', 'fee', 'buy', 'sell', 'income')),
+    currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+    amount DECIMAL(20, 8) NOT NULL CHECK (amount > 0), -- Direction comes from transaction_type
+    transaction_date DATE NOT NULL,
+    notes TEXT,
+
+    -- Source of settlement movements (NULL for deposits, withdrawals and fees)
+    asset_transaction_id UUID REFERENCES transactions(id) ON DELETE CASCADE,
+    income_id UUID REFERENCES income(id) ON DELETE CASCADE,
+
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+ALTER TABLE cash_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own cash transactions" ON cash_transactions
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own cash transactions" ON cash_transactions
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own cash transactions" ON cash_transactions
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own cash transactions" ON cash_transactions
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX idx_cash_transactions_portfolio_id ON cash_transactions(portfolio_id, transaction_date DESC);
+CREATE INDEX idx_cash_transactions_user_id ON cash_transactions(user_id);
+CREATE UNIQUE INDEX idx_cash_transactions_asset_transaction_id ON cash_transactions(asset_transaction_id)
+    WHERE asset_transaction_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_cash_transactions_income_id ON cash_transactions(income_id)
+    WHERE income_id IS NOT NULL;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_cash_transactions_updated_at BEFORE UPDATE ON cash_transactions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE cash_transactions IS 'Per-portfolio multi-currency cash ledger (contributions, fees and trade/income settlements)';
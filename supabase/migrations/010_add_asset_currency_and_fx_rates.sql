@@ -0,0 +1,58 @@
+-- =====================================================
+-- Vestpod - Asset Currency and FX Rates
+-- =====================================================
+-- Assets carry the currency they are priced in; responses
+-- convert into the user's currency_preference using daily
+-- exchange rates cached here (USD base, cross rates derived).
+-- Cached history also gives purchase-date rates for FX gain.
+
+-- =====================================================
+-- ASSET CURRENCY
+-- =====================================================
+
+ALTER TABLE assets ADD COLUMN currency TEXT DEFAULT 'USD' NOT NULL
+    CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Listed assets were priced in USD by the price providers; manually
+-- priced assets were entered in the owner's preferred currency
+UPDATE assets
+SET currency = user_profiles.currency_preference
+FROM user_profiles
+WHERE user_profiles.id = assets.user_id
+    AND user_profiles.currency_preference ~ '^[A-Z]{3}$'
+    AND NOT (assets.asset_type IN ('stock', 'crypto', 'commodity') AND assets.symbol IS NOT NULL);
+
+COMMENT ON COLUMN assets.currency IS 'Currency the asset is priced in (purchase_price and current_price)';
+
+-- =====================================================
+-- TABLE: fx_rates
+-- =====================================================
+
+CREATE TABLE fx_rates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    base_currency TEXT NOT NULL,
+    target_currency TEXT NOT NULL,
+    rate DECIMAL(20, 10) NOT NULL CHECK (rate > 0), -- Units of target per 1 unit of base
+    rate_date DATE NOT NULL,
+    source TEXT DEFAULT 'exchangerate-api' NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    UNIQUE(base_currency, target_currency, rate_date)
+);
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+-- Rates are public market data; writes happen with the service role
+ALTER TABLE fx_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view fx rates" ON fx_rates
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX idx_fx_rates_base_date ON fx_rates(base_currency, rate_date DESC);
+
+COMMENT ON TABLE fx_rates IS 'Daily exchange rate cache (one row per currency per day)';
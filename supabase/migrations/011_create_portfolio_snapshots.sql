@@ -0,0 +1,49 @@
+-- =====================================================
+-- Vestpod - Portfolio Snapshots
+-- =====================================================
+-- Daily portfolio-level value, cost basis and cash written
+-- by portfolio-snapshot-job. Backs the portfolio history
+-- chart (1D/1W/1M/3M/1Y/ALL). Days before the job ran are
+-- backfilled from the transaction ledger and price_history.
+
+-- =====================================================
+-- TABLE: portfolio_snapshots
+-- =====================================================
+
+CREATE TABLE portfolio_snapshots (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    portfolio_id UUID NOT NULL REFERENCES portfolios(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    snapshot_date DATE NOT NULL,
+
+    -- Values in the user's preferred currency at snapshot time
+    currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+    total_value DECIMAL(20, 2) NOT NULL, -- assets_value + cash_balance
+    assets_value DECIMAL(20, 2) NOT NULL,
+    cost_basis DECIMAL(20, 2) NOT NULL,
+    cash_balance DECIMAL(20, 2) DEFAULT 0 NOT NULL,
+    net_contributions DECIMAL(20, 2) DEFAULT 0 NOT NULL,
+
+    source TEXT DEFAULT 'job' NOT NULL CHECK (source IN ('job', 'backfill')),
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    UNIQUE(portfolio_id, snapshot_date)
+);
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+-- Snapshots are written by the job with the service role
+ALTER TABLE portfolio_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own portfolio snapshots" ON portfolio_snapshots
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX idx_portfolio_snapshots_portfolio_date ON portfolio_snapshots(portfolio_id, snapshot_date DESC);
+CREATE INDEX idx_portfolio_snapshots_user_id ON portfolio_snapshots(user_id);
+
+COMMENT ON TABLE portfolio_snapshots IS 'Daily portfolio value history (one row per portfolio per day)';
@@ -0,0 +1,78 @@
+-- =====================================================
+-- Vestpod - Benchmarks
+-- =====================================================
+-- User-defined composite benchmarks (weighted blends of
+-- stocks/ETFs, crypto and commodities) and a shared cache
+-- of daily benchmark prices. Built-in benchmarks (SPY,
+-- 60/40, BTC, gold) are defined in code.
+
+-- =====================================================
+-- TABLE: benchmarks
+-- =====================================================
+
+CREATE TABLE benchmarks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    -- [{ "assetType": "stock", "symbol": "SPY", "weight": 0.6 }, ...]; weights sum to 1
+    components JSONB NOT NULL CHECK (jsonb_typeof(components) = 'array'),
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    UNIQUE(user_id, name)
+);
+
+-- =====================================================
+-- TABLE: benchmark_prices
+-- =====================================================
+
+CREATE TABLE benchmark_prices (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    asset_type TEXT NOT NULL CHECK (asset_type IN ('stock', 'crypto', 'commodity')),
+    symbol TEXT NOT NULL,
+    price_date DATE NOT NULL,
+    price DECIMAL(20, 8) NOT NULL CHECK (price > 0), -- Daily close in USD
+    source TEXT, -- API source (massive, coincap, goldapi, price_history)
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    UNIQUE(asset_type, symbol, price_date)
+);
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+ALTER TABLE benchmarks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE benchmark_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own benchmarks" ON benchmarks
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own benchmarks" ON benchmarks
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own benchmarks" ON benchmarks
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own benchmarks" ON benchmarks
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Prices are public market data; writes happen with the service role
+CREATE POLICY "Authenticated users can view benchmark prices" ON benchmark_prices
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX idx_benchmarks_user_id ON benchmarks(user_id);
+CREATE INDEX idx_benchmark_prices_symbol_date ON benchmark_prices(asset_type, symbol, price_date DESC);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_benchmarks_updated_at BEFORE UPDATE ON benchmarks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE benchmarks IS 'User-defined weighted composite benchmarks';
+COMMENT ON TABLE benchmark_prices IS 'Daily benchmark price cache (one row per symbol per day)';
@@ -0,0 +1,54 @@
+-- =====================================================
+-- Vestpod - Quote Cache
+-- =====================================================
+-- Latest quote per (asset_type, symbol), shared by every
+-- user holding the symbol. price-update-job reuses a quote
+-- while it is younger than the holder's tier update frequency
+-- (price_update_frequency_minutes), so each symbol is fetched
+-- once per cycle. Crypto symbol-to-ID lists are persisted so
+-- they survive cold starts.
+
+-- =====================================================
+-- TABLE: quote_cache
+-- =====================================================
+
+CREATE TABLE quote_cache (
+    asset_type TEXT NOT NULL CHECK (asset_type IN ('stock', 'crypto', 'commodity')),
+    symbol TEXT NOT NULL,
+    price DECIMAL(20, 8) NOT NULL CHECK (price > 0), -- USD
+    change DECIMAL(20, 8) DEFAULT 0 NOT NULL,
+    change_percent DECIMAL(10, 4) DEFAULT 0 NOT NULL,
+    source TEXT NOT NULL, -- Provider id (massive, coincap, goldapi, ...)
+    fetched_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    PRIMARY KEY (asset_type, symbol)
+);
+
+-- =====================================================
+-- TABLE: coin_list_cache
+-- =====================================================
+
+CREATE TABLE coin_list_cache (
+    provider TEXT PRIMARY KEY, -- e.g. coincap
+    coins JSONB NOT NULL CHECK (jsonb_typeof(coins) = 'array'), -- [{ "id", "symbol", "name" }]
+    fetched_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+-- Quotes are public market data; writes happen with the service role
+ALTER TABLE quote_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE coin_list_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view cached quotes" ON quote_cache
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX idx_quote_cache_fetched_at ON quote_cache(fetched_at);
+
+COMMENT ON TABLE quote_cache IS 'Latest provider quote per symbol, shared across users';
+COMMENT ON TABLE coin_list_cache IS 'Persisted crypto symbol-to-ID lists per provider';
@@ -0,0 +1,52 @@
+-- =====================================================
+-- Vestpod - Device Tokens
+-- =====================================================
+-- Push notification tokens registered by the mobile app.
+-- One row per device token; a token moves to whichever
+-- user registered it last. Tokens rejected by FCM or APNs
+-- as unregistered are deleted by the push module.
+
+-- =====================================================
+-- TABLE: device_tokens
+-- =====================================================
+
+CREATE TABLE device_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    platform TEXT NOT NULL CHECK (platform IN ('ios', 'android')),
+    provider TEXT NOT NULL CHECK (provider IN ('fcm', 'apns')), -- Delivery service for the token
+    device_name TEXT,
+    app_version TEXT,
+    last_registered_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+-- Tokens are registered through profile-handler with the service role
+ALTER TABLE device_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own device tokens" ON device_tokens
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own device tokens" ON device_tokens
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX idx_device_tokens_user_id ON device_tokens(user_id);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_device_tokens_updated_at BEFORE UPDATE ON device_tokens
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE device_tokens IS 'FCM and APNs push tokens per user device';
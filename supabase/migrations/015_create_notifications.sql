@@ -0,0 +1,49 @@
+-- =====================================================
+-- Vestpod - Notifications
+-- =====================================================
+-- In-app notification inbox. Every triggered alert,
+-- critical insight, subscription event and completed
+-- export writes one row, whether or not it was also
+-- pushed. delivery_status records the outcome per channel:
+-- { "push": { "status": "sent", "attemptedAt": "...", "sent": 2, "failed": 0, "pruned": 0 } }
+
+-- =====================================================
+-- TABLE: notifications
+-- =====================================================
+
+CREATE TABLE notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    category TEXT NOT NULL CHECK (category IN ('alert', 'insight', 'subscription', 'export')),
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    data JSONB DEFAULT '{}'::jsonb NOT NULL, -- Deep link ids (alert_id, insight_id, ...)
+    delivery_status JSONB DEFAULT '{}'::jsonb NOT NULL CHECK (jsonb_typeof(delivery_status) = 'object'),
+    read_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+-- Notifications are written with the service role
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications" ON notifications
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications" ON notifications
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications" ON notifications
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX idx_notifications_user_created ON notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_user_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+COMMENT ON TABLE notifications IS 'Notification inbox with per-channel delivery status';
@@ -0,0 +1,27 @@
+-- =====================================================
+-- Vestpod - Email Notifications
+-- =====================================================
+-- Per-category notification channels and the weekly
+-- digest category. notification_preferences stores only
+-- the user's overrides, e.g. { "alert": ["push", "email"] };
+-- categories left out use the defaults in
+-- _shared/notifications.ts. Email is rendered in the
+-- user's language_preference.
+
+-- =====================================================
+-- TABLE: user_profiles
+-- =====================================================
+
+ALTER TABLE user_profiles
+    ADD COLUMN notification_preferences JSONB DEFAULT '{}'::jsonb NOT NULL
+    CHECK (jsonb_typeof(notification_preferences) = 'object');
+
+COMMENT ON COLUMN user_profiles.notification_preferences IS 'Delivery channels (push, email) per notification category';
+
+-- =====================================================
+-- TABLE: notifications
+-- =====================================================
+
+ALTER TABLE notifications DROP CONSTRAINT notifications_category_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_category_check
+    CHECK (category IN ('alert', 'insight', 'subscription', 'export', 'digest'));
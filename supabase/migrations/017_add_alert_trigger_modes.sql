@@ -0,0 +1,63 @@
+-- =====================================================
+-- Vestpod - Alert Trigger Modes
+-- =====================================================
+-- Alerts can fire more than once:
+-- - once: fire, then deactivate (previous behavior)
+-- - every_crossing: fire, then re-arm when the condition
+--   stops holding (e.g. the price moves back across the target)
+-- - cooldown: fire at most once per cooldown_hours while
+--   the condition holds
+-- Every firing is recorded in alert_triggers.
+
+-- =====================================================
+-- ALTER TABLE: alerts
+-- =====================================================
+
+ALTER TABLE alerts
+    ADD COLUMN trigger_mode TEXT DEFAULT 'once' NOT NULL
+        CHECK (trigger_mode IN ('once', 'every_crossing', 'cooldown')),
+    ADD COLUMN cooldown_hours INTEGER CHECK (cooldown_hours > 0),
+    -- every_crossing: false after firing until the condition clears
+    ADD COLUMN is_armed BOOLEAN DEFAULT true NOT NULL,
+    ADD COLUMN trigger_count INTEGER DEFAULT 0 NOT NULL;
+
+ALTER TABLE alerts
+    ADD CONSTRAINT alerts_cooldown_hours_check
+        CHECK (trigger_mode <> 'cooldown' OR cooldown_hours IS NOT NULL);
+
+COMMENT ON COLUMN alerts.trigger_mode IS 'once, every_crossing or cooldown';
+COMMENT ON COLUMN alerts.is_armed IS 'every_crossing alerts wait for the condition to clear before firing again';
+
+-- =====================================================
+-- TABLE: alert_triggers
+-- =====================================================
+
+CREATE TABLE alert_triggers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    alert_id UUID NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    triggered_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    price DECIMAL(20, 8), -- Asset price when the alert fired
+    reason TEXT NOT NULL,
+    notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+    notification_sent BOOLEAN DEFAULT false NOT NULL
+);
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+-- Trigger history is written with the service role
+ALTER TABLE alert_triggers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own alert triggers" ON alert_triggers
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX idx_alert_triggers_alert_triggered ON alert_triggers(alert_id, triggered_at DESC);
+CREATE INDEX idx_alert_triggers_user_id ON alert_triggers(user_id);
+
+COMMENT ON TABLE alert_triggers IS 'History of alert firings with the price at the time';
@@ -0,0 +1,21 @@
+-- =====================================================
+-- Vestpod - Percentage Change Lookback Windows
+-- =====================================================
+-- percentage_change alerts can measure the move over a
+-- recent window (24h, 7d, 30d) instead of since purchase.
+-- The reference price is the last price_history price at
+-- or before the window start. NULL keeps the purchase
+-- price as the reference.
+
+-- =====================================================
+-- ALTER TABLE: alerts
+-- =====================================================
+
+ALTER TABLE alerts
+    ADD COLUMN lookback_window TEXT CHECK (lookback_window IN ('24h', '7d', '30d'));
+
+ALTER TABLE alerts
+    ADD CONSTRAINT alerts_lookback_window_type_check
+        CHECK (lookback_window IS NULL OR alert_type = 'percentage_change');
+
+COMMENT ON COLUMN alerts.lookback_window IS 'percentage_change window (24h, 7d, 30d); NULL = since purchase';
@@ -0,0 +1,47 @@
+-- =====================================================
+-- Vestpod - Portfolio Alerts
+-- =====================================================
+-- Alerts can target a whole portfolio instead of one asset:
+-- - portfolio_value: total value above/below condition_value
+-- - portfolio_drawdown: drawdown from the past year's peak
+--   beyond condition_value percent
+-- - portfolio_daily_pnl: gain (change_up) or loss
+--   (change_down) since the previous close beyond condition_value
+-- - allocation_drift: an asset class weight outside the band in
+--   condition_params { asset_type, min_weight, max_weight }
+-- Values are in the owner's preferred currency.
+
+-- =====================================================
+-- ALTER TABLE: alerts
+-- =====================================================
+
+ALTER TABLE alerts
+    ALTER COLUMN asset_id DROP NOT NULL,
+    ADD COLUMN portfolio_id UUID REFERENCES portfolios(id) ON DELETE CASCADE,
+    ADD COLUMN condition_params JSONB DEFAULT '{}'::jsonb NOT NULL
+        CHECK (jsonb_typeof(condition_params) = 'object');
+
+ALTER TABLE alerts DROP CONSTRAINT alerts_alert_type_check;
+ALTER TABLE alerts
+    ADD CONSTRAINT alerts_alert_type_check CHECK (alert_type IN (
+        'price_target', 'percentage_change', 'maturity_reminder',
+        'portfolio_value', 'portfolio_drawdown', 'portfolio_daily_pnl', 'allocation_drift'
+    ));
+
+-- Asset alerts target an asset, portfolio alerts a portfolio
+ALTER TABLE alerts
+    ADD CONSTRAINT alerts_target_check CHECK (
+        CASE WHEN alert_type IN ('portfolio_value', 'portfolio_drawdown', 'portfolio_daily_pnl', 'allocation_drift')
+            THEN portfolio_id IS NOT NULL AND asset_id IS NULL
+            ELSE asset_id IS NOT NULL AND portfolio_id IS NULL
+        END
+    );
+
+COMMENT ON COLUMN alerts.condition_params IS 'Extra condition parameters (allocation_drift: asset_type, min_weight, max_weight)';
+COMMENT ON COLUMN alert_triggers.price IS 'Asset price, or portfolio value for portfolio alerts, when the alert fired';
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX idx_alerts_portfolio_id ON alerts(portfolio_id) WHERE portfolio_id IS NOT NULL;
@@ -0,0 +1,39 @@
+-- =====================================================
+-- Vestpod - Composite Alerts
+-- =====================================================
+-- composite alerts fire on an AND/OR tree of conditions
+-- stored in condition_tree, e.g.
+-- { "op": "and", "conditions": [
+--     { "type": "price_target", "asset_id": "...", "operator": "below", "value": 150 },
+--     { "type": "sector_exposure", "sector": "Technology", "operator": "above", "value": 40 } ] }
+-- Leaves reference their own assets and portfolios, so the
+-- alert itself has no asset_id or portfolio_id.
+
+-- =====================================================
+-- ALTER TABLE: alerts
+-- =====================================================
+
+ALTER TABLE alerts
+    ADD COLUMN condition_tree JSONB CHECK (jsonb_typeof(condition_tree) = 'object');
+
+ALTER TABLE alerts DROP CONSTRAINT alerts_alert_type_check;
+ALTER TABLE alerts
+    ADD CONSTRAINT alerts_alert_type_check CHECK (alert_type IN (
+        'price_target', 'percentage_change', 'maturity_reminder',
+        'portfolio_value', 'portfolio_drawdown', 'portfolio_daily_pnl', 'allocation_drift',
+        'composite'
+    ));
+
+ALTER TABLE alerts DROP CONSTRAINT alerts_target_check;
+ALTER TABLE alerts
+    ADD CONSTRAINT alerts_target_check CHECK (
+        CASE
+            WHEN alert_type = 'composite'
+                THEN condition_tree IS NOT NULL AND asset_id IS NULL AND portfolio_id IS NULL
+            WHEN alert_type IN ('portfolio_value', 'portfolio_drawdown', 'portfolio_daily_pnl', 'allocation_drift')
+                THEN portfolio_id IS NOT NULL AND asset_id IS NULL
+            ELSE asset_id IS NOT NULL AND portfolio_id IS NULL
+        END
+    );
+
+COMMENT ON COLUMN alerts.condition_tree IS 'composite alerts: AND/OR tree of conditions (max depth 3, max 10 conditions)';
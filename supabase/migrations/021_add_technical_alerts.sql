@@ -0,0 +1,29 @@
+-- =====================================================
+-- Vestpod - Technical Indicator Alerts
+-- =====================================================
+-- Premium alert types evaluated on an asset's daily history
+-- (price_history, or the price provider's history when the
+-- stored history is too short):
+-- - ma_cross: fast SMA/EMA crosses the slow one; condition_params
+--   { indicator, fast_period, slow_period }, operator above/below
+-- - rsi: RSI at or above/below condition_value;
+--   condition_params { period } (default 14)
+-- - new_52_week_high / new_52_week_low: price beyond the past
+--   year's range
+-- - volume_spike: volume at condition_value times its average;
+--   condition_params { period } (default 20)
+
+-- =====================================================
+-- ALTER TABLE: alerts
+-- =====================================================
+
+ALTER TABLE alerts DROP CONSTRAINT alerts_alert_type_check;
+ALTER TABLE alerts
+    ADD CONSTRAINT alerts_alert_type_check CHECK (alert_type IN (
+        'price_target', 'percentage_change', 'maturity_reminder',
+        'portfolio_value', 'portfolio_drawdown', 'portfolio_daily_pnl', 'allocation_drift',
+        'composite',
+        'ma_cross', 'rsi', 'new_52_week_high', 'new_52_week_low', 'volume_spike'
+    ));
+
+COMMENT ON COLUMN alerts.condition_params IS 'Extra condition parameters (allocation_drift: asset_type, min_weight, max_weight; ma_cross: indicator, fast_period, slow_period; rsi and volume_spike: period)';
@@ -0,0 +1,57 @@
+-- =====================================================
+-- Vestpod - Time Zones and Quiet Hours
+-- =====================================================
+-- Users set an IANA time zone (e.g. 'Europe/Paris') and an
+-- optional quiet hours window in local time, e.g. 22:00-07:00.
+-- Date-based alerts and daily insights follow the user's
+-- local date. During quiet hours, non-urgent push and email
+-- notifications are held in held_notifications (the inbox
+-- entry is written right away) and sent as one batch when the
+-- window ends.
+
+-- =====================================================
+-- TABLE: user_profiles
+-- =====================================================
+
+ALTER TABLE user_profiles
+    ADD COLUMN timezone TEXT DEFAULT 'UTC' NOT NULL,
+    ADD COLUMN quiet_hours_start TIME,
+    ADD COLUMN quiet_hours_end TIME,
+    ADD CONSTRAINT user_profiles_quiet_hours_check
+        CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+
+COMMENT ON COLUMN user_profiles.timezone IS 'IANA time zone for local dates and quiet hours';
+COMMENT ON COLUMN user_profiles.quiet_hours_start IS 'Local time non-urgent notifications start being held';
+COMMENT ON COLUMN user_profiles.quiet_hours_end IS 'Local time held notifications are sent';
+
+-- =====================================================
+-- TABLE: held_notifications
+-- =====================================================
+
+CREATE TABLE held_notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL, -- Inbox entry, if any
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    data JSONB DEFAULT '{}'::jsonb NOT NULL, -- Deep link ids
+    email JSONB, -- Email template and parameters
+    channels TEXT[] NOT NULL CHECK (channels <@ ARRAY['push', 'email']),
+    release_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+-- Written and released with the service role only
+ALTER TABLE held_notifications ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX idx_held_notifications_release_at ON held_notifications(release_at);
+
+COMMENT ON TABLE held_notifications IS 'Push and email deliveries held until the end of the user''s quiet hours';
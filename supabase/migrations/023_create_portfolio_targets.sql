@@ -0,0 +1,56 @@
+-- =====================================================
+-- Vestpod - Portfolio Target Allocations
+-- =====================================================
+-- One target allocation model per portfolio, by asset,
+-- asset type, sector or country. The rebalancing planner
+-- (portfolio-analysis) compares holdings against it and
+-- proposes the trades to get back to target.
+
+-- =====================================================
+-- TABLE: portfolio_targets
+-- =====================================================
+
+CREATE TABLE portfolio_targets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    portfolio_id UUID NOT NULL UNIQUE REFERENCES portfolios(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    dimension TEXT NOT NULL CHECK (dimension IN ('asset', 'asset_type', 'sector', 'country')),
+    -- [{ "key": "stock", "weight": 60 }, ...]; keys are asset ids, asset types,
+    -- sectors or countries; weights are percentages summing to 100
+    targets JSONB NOT NULL CHECK (jsonb_typeof(targets) = 'array'),
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+ALTER TABLE portfolio_targets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own portfolio targets" ON portfolio_targets
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own portfolio targets" ON portfolio_targets
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own portfolio targets" ON portfolio_targets
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own portfolio targets" ON portfolio_targets
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX idx_portfolio_targets_user_id ON portfolio_targets(user_id);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_portfolio_targets_updated_at BEFORE UPDATE ON portfolio_targets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE portfolio_targets IS 'Target allocation model per portfolio';
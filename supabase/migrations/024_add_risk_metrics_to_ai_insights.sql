@@ -0,0 +1,17 @@
+-- =====================================================
+-- Vestpod - Risk Metrics on AI Insights
+-- =====================================================
+-- Each analysis stores the risk metrics computed from a year
+-- of daily price history (annualized volatility, Sharpe and
+-- Sortino ratios, beta, VaR/CVaR and max drawdown) so their
+-- trend can be tracked across insights. NULL when the
+-- portfolio has too little history.
+
+-- =====================================================
+-- TABLE: ai_insights
+-- =====================================================
+
+ALTER TABLE ai_insights
+    ADD COLUMN risk_metrics JSONB;
+
+COMMENT ON COLUMN ai_insights.risk_metrics IS 'Risk metrics from daily price history (fractions, not percentages)';
@@ -0,0 +1,68 @@
+-- =====================================================
+-- Vestpod - Portfolio Goals
+-- =====================================================
+-- Savings goals per portfolio: a target amount by a target
+-- date with a monthly contribution. portfolio-analysis runs a
+-- Monte Carlo projection of the portfolio against the goal and
+-- daily-insights-job re-evaluates every goal once a day; the
+-- latest probability of reaching it is kept on the goal.
+-- Amounts stay in the currency the goal was created in; the
+-- portfolio is valued in that currency when the goal is evaluated.
+
+-- =====================================================
+-- TABLE: portfolio_goals
+-- =====================================================
+
+CREATE TABLE portfolio_goals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    portfolio_id UUID NOT NULL REFERENCES portfolios(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    -- Amounts are in the goal's currency (the user's preferred currency at creation)
+    currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+    target_amount DECIMAL(20, 2) NOT NULL CHECK (target_amount > 0),
+    target_date DATE NOT NULL,
+    monthly_contribution DECIMAL(20, 2) DEFAULT 0 NOT NULL CHECK (monthly_contribution >= 0),
+
+    -- Latest evaluation (projected_median in the goal's currency)
+    probability DECIMAL(5, 4) CHECK (probability >= 0 AND probability <= 1),
+    projected_median DECIMAL(20, 2),
+    evaluated_at TIMESTAMPTZ,
+
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+
+ALTER TABLE portfolio_goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own portfolio goals" ON portfolio_goals
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own portfolio goals" ON portfolio_goals
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own portfolio goals" ON portfolio_goals
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own portfolio goals" ON portfolio_goals
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- =====================================================
+-- PERFORMANCE INDEXES
+-- =====================================================
+
+CREATE INDEX idx_portfolio_goals_user_id ON portfolio_goals(user_id);
+CREATE INDEX idx_portfolio_goals_portfolio_id ON portfolio_goals(portfolio_id);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_portfolio_goals_updated_at BEFORE UPDATE ON portfolio_goals
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE portfolio_goals IS 'Savings goals per portfolio with their latest Monte Carlo evaluation';